@@ -0,0 +1,95 @@
+// A tiny signaling server for online play. Two browsers in the same room swap
+// WebRTC offers, answers and ICE candidates through it, then talk directly.
+// Server-sent events carry messages to each browser and plain POSTs carry
+// them back, so it needs nothing beyond Node itself.
+//
+//   npm run signaling               listens on port 8787
+//   PORT=9000 npm run signaling
+//
+// Point the app at another address with VITE_SIGNALING_URL.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const ROOM_SIZE = 2;
+// Comments sent on idle streams so proxies don't close them.
+const KEEPALIVE_MS = 15000;
+const MAX_BODY = 64 * 1024;
+const NAME = /^[\w-]{1,64}$/;
+
+// Open event streams by room name, then by peer id.
+const rooms = new Map();
+
+const CORS = { 'Access-Control-Allow-Origin': '*' };
+
+const emit = (stream, event, data) => stream.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+function reply(response, status, message) {
+  response.writeHead(status, { ...CORS, 'Content-Type': 'text/plain' });
+  response.end(message);
+}
+
+function join(name, peer, request, response) {
+  const room = rooms.get(name) ?? new Map();
+  // A peer reconnecting after a blip takes over its old stream.
+  room.get(peer)?.end();
+  room.delete(peer);
+  if (room.size >= ROOM_SIZE) return reply(response, 409, 'Room is full');
+
+  response.writeHead(200, { ...CORS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  emit(response, 'peers', { peers: [...room.keys()] });
+  room.forEach(other => emit(other, 'joined', { peer }));
+  room.set(peer, response);
+  rooms.set(name, room);
+
+  const keepalive = setInterval(() => response.write(': keepalive\n\n'), KEEPALIVE_MS);
+  request.on('close', () => {
+    clearInterval(keepalive);
+    // Only if it hasn't been replaced by a newer stream from the same peer.
+    if (room.get(peer) !== response) return;
+    room.delete(peer);
+    room.forEach(other => emit(other, 'left', { peer }));
+    if (room.size === 0) rooms.delete(name);
+  });
+}
+
+function relay(name, request, response) {
+  let body = '';
+  request.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY) request.destroy();
+  });
+  request.on('end', () => {
+    let message;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      return reply(response, 400, 'Expected JSON');
+    }
+    // JSON.parse happily returns null, numbers and strings too.
+    if (typeof message?.from !== 'string' || typeof message.to !== 'string') {
+      return reply(response, 400, 'Expected {"from", "to", "data"}');
+    }
+    const room = rooms.get(name);
+    if (!room?.has(message.from)) return reply(response, 404, 'Not in this room');
+    const target = room.get(message.to);
+    if (!target || message.to === message.from) return reply(response, 404, 'No such peer in this room');
+    emit(target, 'signal', { from: message.from, data: message.data });
+    reply(response, 204, '');
+  });
+}
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const [, prefix, room, action] = url.pathname.split('/');
+  if (prefix !== 'rooms' || !NAME.test(room ?? '')) return reply(response, 404, 'Not found');
+
+  if (request.method === 'GET' && action === 'events') {
+    const peer = url.searchParams.get('peer') ?? '';
+    if (!NAME.test(peer)) return reply(response, 400, 'Missing peer id');
+    return join(room, peer, request, response);
+  }
+  if (request.method === 'POST' && action === 'signal') return relay(room, request, response);
+  reply(response, 404, 'Not found');
+});
+
+server.listen(PORT, () => console.log(`Signaling server listening on http://localhost:${PORT}`));
@@ -1,24 +1,39 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect, Suspense } from 'react';
+import { MotionConfig } from 'framer-motion';
 import { TopBar } from './components/TopBar';
 import { Sidebar } from './components/Sidebar';
 import { Dashboard } from './components/Dashboard';
+import { LiveRegion } from './components/LiveRegion';
+import { AchievementsPage } from './components/AchievementsPage';
+import { AchievementToasts } from './components/AchievementToasts';
 import { useGameStore } from './store/gameStore';
-import TicTacToe from './games/TicTacToe/TicTacToe';
-import Snake from './games/Snake/Snake';
-import FlappyBird from './games/FlappyBird/FlappyBird';
+import { useHashRouter } from './router';
+import { useAudioEngine } from './hooks/useAudio';
+
+const GameLoading = () => (
+  <div className="flex items-center justify-center min-h-[calc(100vh-4rem)]">
+    <div className="w-10 h-10 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+  </div>
+);
 
 function App() {
-  const [isDark, setIsDark] = useState(false);
+  const [prefersDark, setPrefersDark] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const currentGame = useGameStore((state) => state.currentGame);
+  const currentPage = useGameStore((state) => state.currentPage);
+  const theme = useGameStore((state) => state.theme);
+  const setTheme = useGameStore((state) => state.setTheme);
+  const reducedMotion = useGameStore((state) => state.reducedMotion);
+  const isDark = theme ? theme === 'dark' : prefersDark;
+  useHashRouter();
+  useAudioEngine();
 
   useEffect(() => {
-    const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
-    setIsDark(prefersDark);
+    setPrefersDark(window.matchMedia('(prefers-color-scheme: dark)').matches);
   }, []);
 
   const toggleTheme = () => {
-    setIsDark(!isDark);
+    setTheme(isDark ? 'light' : 'dark');
   };
 
   const toggleSidebar = () => {
@@ -30,40 +45,44 @@ function App() {
   };
 
   const renderGame = () => {
-    if (!currentGame) return <Dashboard />;
-    
-    switch (currentGame.name) {
-      case 'Tic-Tac-Toe':
-        return <TicTacToe />;
-      case 'Snake Game':
-        return <Snake />;
-      case 'Flappy Bird':
-        return <FlappyBird />;
-      default:
-        return <Dashboard />;
-    }
+    if (currentPage === 'achievements') return <AchievementsPage />;
+    if (!currentGame?.component) return <Dashboard />;
+
+    const GameComponent = currentGame.component;
+    return (
+      <Suspense fallback={<GameLoading />}>
+        <GameComponent />
+      </Suspense>
+    );
   };
 
+  // framer-motion follows the system's reduced-motion setting on its own;
+  // the app's toggle forces it on.
   return (
-    <div className={`min-h-screen transition-colors duration-300 ${isDark ? 'dark bg-gray-900' : 'bg-gray-50'}`}>
-      <div className={`fixed inset-0 bg-cover bg-center bg-no-repeat transition-opacity duration-300 pointer-events-none ${
-        isDark 
-          ? 'opacity-20 bg-[url(https://images.unsplash.com/photo-1519681393784-d120267933ba)]' 
-          : 'opacity-10 bg-[url(https://images.unsplash.com/photo-1598899134739-24c46f58b8c0)]'
-      }`} />
+    <MotionConfig reducedMotion={reducedMotion ? 'always' : 'user'}>
+      <div className={`min-h-screen transition-colors duration-300 ${isDark ? 'dark bg-gray-900' : 'bg-gray-50'}`}>
+        <div className={`fixed inset-0 bg-cover bg-center bg-no-repeat transition-opacity duration-300 pointer-events-none ${
+          isDark 
+            ? 'opacity-20 bg-[url(https://images.unsplash.com/photo-1519681393784-d120267933ba)]' 
+            : 'opacity-10 bg-[url(https://images.unsplash.com/photo-1598899134739-24c46f58b8c0)]'
+        }`} />
 
-      <TopBar
-        toggleSidebar={toggleSidebar}
-        isDark={isDark}
-        toggleTheme={toggleTheme}
-      />
+        <TopBar
+          toggleSidebar={toggleSidebar}
+          isDark={isDark}
+          toggleTheme={toggleTheme}
+        />
       
-      <Sidebar isOpen={isSidebarOpen} onClose={closeSidebar} />
+        <Sidebar isOpen={isSidebarOpen} onClose={closeSidebar} />
       
-      <main className="pt-16 relative">
-        {renderGame()}
-      </main>
-    </div>
+        <main className="pt-16 relative">
+          {renderGame()}
+        </main>
+
+        <AchievementToasts />
+        <LiveRegion />
+      </div>
+    </MotionConfig>
   );
 }
 
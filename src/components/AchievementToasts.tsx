@@ -0,0 +1,66 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Trophy } from 'lucide-react';
+import { Achievement } from '../utils/achievements';
+import { subscribeUnlocks } from '../store/achievements';
+import { announce } from '../utils/announce';
+import { playSound } from '../utils/audio';
+
+const TOAST_MS = 4000;
+
+interface Toast {
+  key: number;
+  achievement: Achievement;
+}
+
+// Pops up a card for each achievement as it unlocks.
+export const AchievementToasts: React.FC = () => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  useEffect(() => {
+    let nextKey = 0;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const unsubscribe = subscribeUnlocks(achievement => {
+      const key = nextKey++;
+      setToasts(prev => [...prev, { key, achievement }]);
+      playSound('score');
+      announce(`Achievement unlocked: ${achievement.name}`);
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setToasts(prev => prev.filter(toast => toast.key !== key));
+      }, TOAST_MS);
+      timers.add(timer);
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, []);
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 pointer-events-none">
+      <AnimatePresence>
+        {toasts.map(({ key, achievement }) => (
+          <motion.div
+            key={key}
+            initial={{ opacity: 0, x: 100 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 100 }}
+            className="flex items-center gap-3 p-4 w-72 rounded-lg shadow-xl bg-white dark:bg-gray-800"
+          >
+            <Trophy className="w-8 h-8 shrink-0 text-yellow-400" />
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Achievement unlocked</p>
+              <p className="font-bold text-gray-800 dark:text-white">{achievement.name}</p>
+              {achievement.reward && (
+                <p className="text-sm text-indigo-600 dark:text-indigo-400">New: {achievement.reward.name}</p>
+              )}
+            </div>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+};
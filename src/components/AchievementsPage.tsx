@@ -0,0 +1,79 @@
+import React from 'react';
+import { Lock, Trophy } from 'lucide-react';
+import { useGameStore } from '../store/gameStore';
+import { getGames, getGameIcon } from '../games';
+import { ACHIEVEMENTS, progressOf } from '../utils/achievements';
+
+// Every achievement by game, unlocked or not, with progress towards those
+// that take more than one go.
+export const AchievementsPage: React.FC = () => {
+  const progress = useGameStore((state) => state.achievements);
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => progressOf(progress, achievement).unlockedAt !== null).length;
+
+  return (
+    <div className="w-full max-w-3xl mx-auto p-8">
+      <h1 className="flex items-center gap-3 text-3xl font-bold text-gray-800 dark:text-white mb-2">
+        <Trophy className="w-8 h-8 text-yellow-400" /> Achievements
+      </h1>
+      <p className="text-gray-600 dark:text-gray-300 mb-8">
+        {unlockedCount} of {ACHIEVEMENTS.length} unlocked
+      </p>
+
+      {getGames().map(game => {
+        const achievements = ACHIEVEMENTS.filter(achievement => achievement.game === game.slug);
+        if (achievements.length === 0) return null;
+        const Icon = getGameIcon(game);
+
+        return (
+          <section key={game.slug} className="mb-8">
+            <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-800 dark:text-white mb-3">
+              <Icon className="w-5 h-5 text-indigo-600 dark:text-indigo-400" /> {game.name}
+            </h2>
+            <ul className="grid gap-3 sm:grid-cols-2">
+              {achievements.map(achievement => {
+                const { count, unlockedAt } = progressOf(progress, achievement);
+                const isUnlocked = unlockedAt !== null;
+                return (
+                  <li
+                    key={achievement.id}
+                    className={`flex gap-3 p-4 rounded-lg shadow bg-white dark:bg-gray-800 ${isUnlocked ? '' : 'opacity-70'}`}
+                  >
+                    {isUnlocked
+                      ? <Trophy className="w-6 h-6 shrink-0 text-yellow-400" aria-label="Unlocked" />
+                      : <Lock className="w-6 h-6 shrink-0 text-gray-400" aria-label="Locked" />}
+                    <div className="flex-1 min-w-0">
+                      <p className="font-bold text-gray-800 dark:text-white">{achievement.name}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-300">{achievement.description}</p>
+                      {achievement.reward && (
+                        <p className="text-sm text-indigo-600 dark:text-indigo-400">Unlocks: {achievement.reward.name}</p>
+                      )}
+                      {isUnlocked ? (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          Unlocked {new Date(unlockedAt).toLocaleDateString()}
+                        </p>
+                      ) : achievement.goal > 1 && (
+                        <div className="mt-2">
+                          <div
+                            className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden"
+                            role="progressbar"
+                            aria-valuemin={0}
+                            aria-valuemax={achievement.goal}
+                            aria-valuenow={count}
+                            aria-label={`${achievement.name} progress`}
+                          >
+                            <div className="h-full bg-indigo-600" style={{ width: `${(count / achievement.goal) * 100}%` }} />
+                          </div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{count} / {achievement.goal}</p>
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
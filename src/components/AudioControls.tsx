@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, Volume2, VolumeX } from 'lucide-react';
+import { AudioSettings } from '../types/game';
+import { useGameStore } from '../store/gameStore';
+
+type Volume = Exclude<keyof AudioSettings, 'muted'>;
+
+const VOLUMES: { key: Volume; label: string }[] = [
+  { key: 'master', label: 'Master' },
+  { key: 'sfx', label: 'Effects' },
+  { key: 'music', label: 'Music' }
+];
+
+// The mute toggle, and a panel of volume sliders beside it.
+export const AudioControls: React.FC = () => {
+  const audio = useGameStore((state) => state.audio);
+  const setAudio = useGameStore((state) => state.setAudio);
+  const [showVolumes, setShowVolumes] = useState(false);
+
+  return (
+    <div className="relative flex items-center">
+      <button
+        onClick={() => setAudio({ muted: !audio.muted })}
+        className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-all"
+        aria-label={audio.muted ? 'Unmute' : 'Mute'}
+        aria-pressed={audio.muted}
+      >
+        {audio.muted ? (
+          <VolumeX className="w-6 h-6 text-gray-700 dark:text-gray-200" />
+        ) : (
+          <Volume2 className="w-6 h-6 text-gray-700 dark:text-gray-200" />
+        )}
+      </button>
+      <button
+        onClick={() => setShowVolumes(!showVolumes)}
+        className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-all"
+        aria-label="Volume"
+        aria-expanded={showVolumes}
+      >
+        <SlidersHorizontal className="w-5 h-5 text-gray-700 dark:text-gray-200" />
+      </button>
+
+      {showVolumes && (
+        <div className="absolute right-0 top-full mt-2 w-56 p-4 rounded-lg shadow-xl bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-100 flex flex-col gap-3">
+          {VOLUMES.map(({ key, label }) => (
+            <label key={key} className="flex flex-col gap-1 text-sm">
+              <span className="flex justify-between">
+                {label}
+                <span className="text-gray-500 dark:text-gray-400">{Math.round(audio[key] * 100)}%</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={audio[key]}
+                onChange={e => setAudio({ [key]: Number(e.target.value) })}
+                className="accent-indigo-600"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,8 @@
-import React from 'react';
-import { Instagram, GamepadIcon } from 'lucide-react';
+import React, { Suspense, lazy } from 'react';
+import { Instagram, GamepadIcon, Bot } from 'lucide-react';
+import { getGames } from '../games';
+
+const SnakeDemo = lazy(() => import('../games/Snake/SnakeDemo'));
 
 export const Dashboard: React.FC = () => {
   return (
@@ -12,7 +15,7 @@ export const Dashboard: React.FC = () => {
       
       <p className="text-lg text-gray-600 dark:text-gray-300 mb-8 max-w-2xl">
         Your one-stop destination for classic games reimagined with modern UI.
-        Choose from 10 different games, play against AI with multiple difficulty levels,
+        Choose from {getGames().length} different games, play against AI with multiple difficulty levels,
         or challenge your friends!
       </p>
       
@@ -39,6 +42,21 @@ export const Dashboard: React.FC = () => {
           <li>4. Have fun playing!</li>
         </ol>
       </div>
+
+      <div className="mt-8 bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 flex flex-col items-center gap-4">
+        <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-800 dark:text-white">
+          <Bot className="w-5 h-5" /> Snake on Autopilot
+        </h2>
+        <Suspense fallback={<div className="w-60 h-60" />}>
+          <SnakeDemo />
+        </Suspense>
+        <a
+          href="#/snake"
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+        >
+          Play Snake
+        </a>
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, RotateCcw, X } from 'lucide-react';
+import { InputAction } from '../types/game';
+import { useGameStore } from '../store/gameStore';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { ACTION_NAMES, DEFAULT_KEY_BINDINGS, INPUT_ACTIONS, bindKey, keyLabel, unbindKey } from '../utils/input';
+
+interface Listening {
+  player: number;
+  action: InputAction;
+}
+
+interface InputSettingsProps {
+  onClose: () => void;
+}
+
+// Rebinds the keys behind each action, for both players.
+export const InputSettings: React.FC<InputSettingsProps> = ({ onClose }) => {
+  const keyBindings = useGameStore((state) => state.keyBindings);
+  const setKeyBindings = useGameStore((state) => state.setKeyBindings);
+  const [listening, setListening] = useState<Listening | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, true, onClose);
+
+  // The next key pressed is bound. Listening in the capture phase keeps the
+  // game underneath from seeing it.
+  useEffect(() => {
+    if (!listening) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code !== 'Escape') {
+        setKeyBindings(bindKey(keyBindings, listening.player, listening.action, e.code));
+      }
+      setListening(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listening, keyBindings, setKeyBindings]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Controls"
+        className="bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-100 p-6 rounded-lg shadow-xl w-full max-w-lg"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">Controls</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="py-1 font-medium">Action</th>
+              {keyBindings.map((_, player) => (
+                <th key={player} className="py-1 font-medium">Player {player + 1}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {INPUT_ACTIONS.map(action => (
+              <tr key={action} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="py-2">{ACTION_NAMES[action]}</td>
+                {keyBindings.map((actions, player) => {
+                  const isListening = listening?.player === player && listening.action === action;
+                  return (
+                    <td key={player} className="py-2">
+                      <div className="flex flex-wrap items-center gap-1">
+                        {actions[action].map(code => (
+                          <button
+                            key={code}
+                            onClick={() => setKeyBindings(unbindKey(keyBindings, player, action, code))}
+                            className="flex items-center gap-1 px-2 py-0.5 rounded bg-gray-200 dark:bg-gray-700 font-mono
+                              hover:bg-red-100 dark:hover:bg-red-900 transition-colors"
+                            title="Remove"
+                            aria-label={`Remove ${keyLabel(code)} from player ${player + 1} ${ACTION_NAMES[action]}`}
+                          >
+                            {keyLabel(code)} <X size={12} />
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => setListening(isListening ? null : { player, action })}
+                          className={`flex items-center gap-1 px-2 py-0.5 rounded transition-colors
+                            ${isListening
+                              ? 'bg-purple-600 text-white'
+                              : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                          aria-label={`Add a key for player ${player + 1} ${ACTION_NAMES[action]}`}
+                        >
+                          {isListening ? 'Press a key…' : <Plus size={14} />}
+                        </button>
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          A key can only do one thing, so binding it takes it off anything else. Esc cancels.
+          Gamepads use the standard layout: D-pad or left stick to move, A to confirm and Start to pause.
+          The first pad is player 1.
+        </p>
+
+        <button
+          onClick={() => setKeyBindings(DEFAULT_KEY_BINDINGS)}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        >
+          <RotateCcw size={16} /> Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+};
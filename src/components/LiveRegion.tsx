@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from 'react';
+import { subscribeAnnouncements } from '../utils/announce';
+
+// How long announcements are gathered before they are read out together,
+// so a move and the win it causes are both heard.
+const GATHER_MS = 100;
+
+// Where announced game events go. Screen readers only speak a live region
+// when its text changes, so it is cleared first and refilled a moment later;
+// that way "Score 3" twice in a row is read both times.
+export const LiveRegion: React.FC = () => {
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    let pending: string[] = [];
+    let timer: ReturnType<typeof setTimeout>;
+    const unsubscribe = subscribeAnnouncements(next => {
+      pending.push(next);
+      setMessage('');
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        setMessage(pending.join('. '));
+        pending = [];
+      }, GATHER_MS);
+    });
+    return () => {
+      unsubscribe();
+      clearTimeout(timer);
+    };
+  }, []);
+
+  return (
+    <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+      {message}
+    </div>
+  );
+};
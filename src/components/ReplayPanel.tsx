@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Play, Pause, X, Copy, Upload, Film } from 'lucide-react';
+import { Replay, parseReplay, replayToCode, replayToJSON } from '../utils/replay';
+import { PLAYBACK_SPEEDS, ReplayPlayback } from '../hooks/useReplayPlayback';
+
+interface ReplayPanelProps {
+  game: string;
+  // The replay being watched, if any.
+  replay: Replay | null;
+  // The last finished run, offered for watching and sharing.
+  lastRun: Replay | null;
+  playback: ReplayPlayback;
+  onWatch: (replay: Replay) => void;
+  onExit: () => void;
+}
+
+export const ReplayPanel: React.FC<ReplayPanelProps> = ({ game, replay, lastRun, playback, onWatch, onExit }) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const shared = replay ?? lastRun;
+
+  const copy = (label: string, value: string) => {
+    navigator.clipboard.writeText(value).then(() => {
+      setCopied(label);
+      setTimeout(() => setCopied(null), 1500);
+    }, () => setText(value));
+  };
+
+  const load = () => {
+    try {
+      onWatch(parseReplay(text, game));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="w-full bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-3">
+      {replay ? (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="flex items-center gap-2 font-semibold dark:text-white">
+              <Film size={18} /> Replay · score {replay.score}
+            </span>
+            <button
+              onClick={onExit}
+              className="p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label="Exit replay"
+            >
+              <X size={20} className="dark:text-white" />
+            </button>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={playback.togglePlay}
+              className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+              aria-label={playback.isPlaying ? 'Pause replay' : 'Play replay'}
+            >
+              {playback.isPlaying ? <Pause size={18} /> : <Play size={18} />}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={replay.length}
+              value={Math.floor(playback.position)}
+              onChange={(e) => playback.seek(Number(e.target.value))}
+              className="flex-1"
+              aria-label="Replay position"
+            />
+            <span className="text-xs font-mono text-gray-600 dark:text-gray-400 w-20 text-right">
+              {Math.floor(playback.position)}/{replay.length}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            {PLAYBACK_SPEEDS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => playback.setSpeed(speed)}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors
+                  ${playback.speed === speed
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+        </>
+      ) : lastRun && (
+        <button
+          onClick={() => onWatch(lastRun)}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Film size={18} /> Watch last run (score {lastRun.score})
+        </button>
+      )}
+
+      {shared && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => copy('json', replayToJSON(shared))}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-1 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            <Copy size={14} /> {copied === 'json' ? 'Copied!' : 'Copy JSON'}
+          </button>
+          <button
+            onClick={() => copy('code', replayToCode(shared))}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-1 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            <Copy size={14} /> {copied === 'code' ? 'Copied!' : 'Copy code'}
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Paste a replay code or JSON"
+          className="flex-1 min-w-0 p-2 rounded-lg bg-gray-100 dark:bg-gray-700 dark:text-white text-sm font-mono"
+        />
+        <button
+          onClick={load}
+          className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 dark:text-white hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        >
+          <Upload size={14} /> Load
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -1,25 +1,9 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { useGameStore } from '../store/gameStore';
-import { Game } from '../types/game';
-import { GamepadIcon, XSquare, Cake as Snake, Bird, Calculator, Brain, ChevronRight as ChessKnight, Dice1 as Dice, Grid3X3, Circle, HandMetal } from 'lucide-react';
-
-const games: Game[] = [
-  { id: 1, name: 'Tic-Tac-Toe', description: 'Classic X & O game', icon: 'XSquare', hasBot: true, maxPlayers: 2 },
-  { id: 2, name: 'Snake Game', description: 'Classic snake game', icon: 'Snake', hasBot: false, maxPlayers: 1 },
-  { id: 3, name: 'Flappy Bird', description: 'Avoid obstacles', icon: 'Bird', hasBot: false, maxPlayers: 1 },
-  { id: 4, name: '2048', description: 'Merge tiles puzzle', icon: 'Calculator', hasBot: false, maxPlayers: 1 },
-  { id: 5, name: 'Memory Cards', description: 'Find matching pairs', icon: 'Brain', hasBot: false, maxPlayers: 1 },
-  { id: 6, name: 'Chess', description: 'Strategic board game', icon: 'ChessKnight', hasBot: true, maxPlayers: 2 },
-  { id: 7, name: 'Ludo', description: 'Classic board game', icon: 'Dice', hasBot: true, maxPlayers: 4 },
-  { id: 8, name: 'Sudoku', description: 'Number puzzle game', icon: 'Grid3X3', hasBot: false, maxPlayers: 1 },
-  { id: 9, name: 'Bubble Shooter', description: 'Match-3 bubble game', icon: 'Circle', hasBot: false, maxPlayers: 1 },
-  { id: 10, name: 'Rock Paper Scissors', description: 'Hand game', icon: 'HandMetal', hasBot: true, maxPlayers: 2 },
-];
-
-const iconComponents: { [key: string]: React.FC<any> } = {
-  XSquare, Snake, Bird, Calculator, Brain,
-  ChessKnight, Dice, Grid3X3, Circle, HandMetal
-};
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { GameDefinition } from '../types/game';
+import { getGames, getGameIcon } from '../games';
+import { GamepadIcon, Trophy } from 'lucide-react';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -27,16 +11,30 @@ interface SidebarProps {
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
-  const { setCurrentGame } = useGameStore();
+  const { setCurrentGame, setCurrentPage } = useGameStore();
+  const panelRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(panelRef, isOpen, onClose);
 
-  const handleGameSelect = (game: Game) => {
+  const handleGameSelect = (game: GameDefinition) => {
     setCurrentGame(game);
     onClose();
   };
 
+  const openAchievements = () => {
+    setCurrentPage('achievements');
+    onClose();
+  };
+
+  // Hidden once closed so its buttons drop out of the tab order.
   return (
-    <div className={`fixed left-0 top-16 h-[calc(100vh-4rem)] bg-white dark:bg-gray-800 shadow-lg transition-all duration-300 z-40
-      ${isOpen ? 'w-64' : 'w-0'} overflow-hidden`}>
+    <div
+      ref={panelRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Games"
+      className={`fixed left-0 top-16 h-[calc(100vh-4rem)] bg-white dark:bg-gray-800 shadow-lg transition-all duration-300 z-40
+        ${isOpen ? 'w-64 visible' : 'w-0 invisible'} overflow-x-hidden overflow-y-auto`}
+    >
       <div className="p-4">
         <div className="flex items-center gap-2 mb-6">
           <GamepadIcon className="w-6 h-6 text-indigo-600 dark:text-indigo-400" />
@@ -44,8 +42,8 @@ export const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
         </div>
         
         <div className="space-y-2">
-          {games.map((game) => {
-            const Icon = iconComponents[game.icon];
+          {getGames().map((game) => {
+            const Icon = getGameIcon(game);
             return (
               <button
                 key={game.id}
@@ -61,6 +59,15 @@ export const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
             );
           })}
         </div>
+
+        <button
+          onClick={openAchievements}
+          className="w-full mt-4 p-3 flex items-center gap-3 rounded-lg border-t border-gray-200 dark:border-gray-700
+            hover:bg-gray-100 dark:hover:bg-gray-700 transition-all"
+        >
+          <Trophy className="w-5 h-5 text-yellow-500" />
+          <p className="text-sm font-medium text-gray-800 dark:text-white">Achievements</p>
+        </button>
       </div>
     </div>
   );
@@ -1,7 +1,10 @@
-import React from 'react';
-import { Menu } from 'lucide-react';
+import React, { useState } from 'react';
+import { Accessibility, Keyboard, Menu } from 'lucide-react';
 import { ThemeToggle } from './ThemeToggle';
+import { InputSettings } from './InputSettings';
+import { AudioControls } from './AudioControls';
 import { useGameStore } from '../store/gameStore';
+import { getGameIcon } from '../games';
 
 interface TopBarProps {
   toggleSidebar: () => void;
@@ -11,6 +14,11 @@ interface TopBarProps {
 
 export const TopBar: React.FC<TopBarProps> = ({ toggleSidebar, isDark, toggleTheme }) => {
   const currentGame = useGameStore((state) => state.currentGame);
+  const currentPage = useGameStore((state) => state.currentPage);
+  const GameIcon = currentGame ? getGameIcon(currentGame) : null;
+  const reducedMotion = useGameStore((state) => state.reducedMotion);
+  const setReducedMotion = useGameStore((state) => state.setReducedMotion);
+  const [showControls, setShowControls] = useState(false);
 
   return (
     <div className="fixed top-0 left-0 right-0 h-16 bg-white dark:bg-gray-800 shadow-md z-50">
@@ -23,12 +31,34 @@ export const TopBar: React.FC<TopBarProps> = ({ toggleSidebar, isDark, toggleThe
           <Menu className="w-6 h-6 text-gray-700 dark:text-gray-200" />
         </button>
         
-        <h1 className="text-xl font-bold text-gray-800 dark:text-white">
-          {currentGame?.name || 'Exe Gaming Hub'}
+        <h1 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-white">
+          {GameIcon && <GameIcon className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />}
+          {currentGame?.name || (currentPage === 'achievements' ? 'Achievements' : 'Exe Gaming Hub')}
         </h1>
         
-        <ThemeToggle isDark={isDark} toggleTheme={toggleTheme} />
+        <div className="flex items-center gap-1">
+          <AudioControls />
+          <button
+            onClick={() => setReducedMotion(!reducedMotion)}
+            className={`p-2 rounded-lg transition-all
+              ${reducedMotion ? 'bg-indigo-100 dark:bg-indigo-900' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+            aria-label="Reduce motion"
+            aria-pressed={reducedMotion}
+            title="Reduce motion"
+          >
+            <Accessibility className="w-6 h-6 text-gray-700 dark:text-gray-200" />
+          </button>
+          <button
+            onClick={() => setShowControls(true)}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-all"
+            aria-label="Controls"
+          >
+            <Keyboard className="w-6 h-6 text-gray-700 dark:text-gray-200" />
+          </button>
+          <ThemeToggle isDark={isDark} toggleTheme={toggleTheme} />
+        </div>
       </div>
+      {showControls && <InputSettings onClose={() => setShowControls(false)} />}
     </div>
   );
 };
\ No newline at end of file
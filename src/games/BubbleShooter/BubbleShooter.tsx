@@ -0,0 +1,376 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Trophy, RefreshCcw, Upload, Download } from 'lucide-react';
+import {
+  BubbleColor, GameState, Level, Point, Shot,
+  CANVAS_WIDTH, CANVAS_HEIGHT, BUBBLE_RADIUS, BUBBLE_COLORS, ROW_HEIGHT, LAUNCHER, DEADLINE_Y,
+  MIN_AIM_ANGLE, MAX_AIM_ANGLE, AIM_STEP, SHOT_SPEED
+} from './types';
+import { cellCenter, createGame, landBubble, pathLength, pointAlong, shotsUntilDrop, traceShot } from './logic';
+import { BUILT_IN_LEVELS, LEVEL_NUMBERS, parseLevels, serializeLevel } from './levels';
+import { useGameSetting, useHighScore } from '../../store/gameStore';
+import { useActions } from '../../hooks/useActions';
+import { playSound } from '../../utils/audio';
+import { reportEvent } from '../../store/achievements';
+
+interface FlyingBubble {
+  shot: Shot;
+  color: BubbleColor;
+  length: number;
+  distance: number;
+}
+
+interface Particle extends Point {
+  color: BubbleColor;
+  age: number;
+  falling: boolean;
+  velocity: number;
+}
+
+const GRAVITY = 0.5;
+const POP_FRAMES = 12;
+
+const clampAngle = (angle: number) => Math.min(MAX_AIM_ANGLE, Math.max(MIN_AIM_ANGLE, angle));
+
+const drawBubble = (ctx: CanvasRenderingContext2D, { x, y }: Point, color: BubbleColor, radius = BUBBLE_RADIUS) => {
+  const gradient = ctx.createRadialGradient(x - radius / 3, y - radius / 3, radius / 6, x, y, radius);
+  gradient.addColorStop(0, 'rgba(255, 255, 255, 0.9)');
+  gradient.addColorStop(0.3, BUBBLE_COLORS[color]);
+  gradient.addColorStop(1, BUBBLE_COLORS[color]);
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(x, y, radius - 1, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+const BubbleShooter: React.FC = () => {
+  const [levelNumber, setLevelNumber] = useGameSetting('level', LEVEL_NUMBERS, '1');
+  const [customLevel, setCustomLevel] = useState<Level | null>(null);
+  const level = customLevel ?? BUILT_IN_LEVELS[Number(levelNumber) - 1];
+  const [state, setState] = useState<GameState>(() => createGame(level));
+  const [angle, setAngle] = useState(Math.PI / 2);
+  const [levelText, setLevelText] = useState('');
+  const [levelError, setLevelError] = useState<string | null>(null);
+  const [highScore, recordScore] = useHighScore(customLevel ? 'custom' : levelNumber);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<number>();
+  const flyingRef = useRef<FlyingBubble | null>(null);
+  const particlesRef = useRef<Particle[]>([]);
+
+  const resetGame = useCallback(() => {
+    flyingRef.current = null;
+    particlesRef.current = [];
+    setState(createGame(level));
+  }, [level]);
+
+  useEffect(() => {
+    resetGame();
+  }, [resetGame]);
+
+  useEffect(() => {
+    if (state.status !== 'aiming') recordScore(state.score);
+  }, [state.status, state.score, recordScore]);
+
+  const fire = useCallback(() => {
+    if (state.status !== 'aiming' || flyingRef.current) return;
+    const shot = traceShot(state.grid, state.ceiling, angle);
+    flyingRef.current = { shot, color: state.current, length: pathLength(shot.path), distance: 0 };
+    playSound('shoot');
+  }, [state, angle]);
+
+  // Lands the flying bubble once it reaches the end of its path and turns
+  // popped and dropped bubbles into particles.
+  const advance = useCallback(() => {
+    const flying = flyingRef.current;
+    if (flying) {
+      flying.distance += SHOT_SPEED;
+      if (flying.distance >= flying.length) {
+        flyingRef.current = null;
+        const { state: next, result } = landBubble(state, flying.shot.landing);
+        const toParticles = (cells: typeof result.popped, falling: boolean) => cells.map(cell => ({
+          ...cellCenter(cell.row, cell.col, state.ceiling),
+          color: cell.color,
+          age: 0,
+          falling,
+          velocity: falling ? -2 : 0
+        }));
+        particlesRef.current.push(...toParticles(result.popped, false), ...toParticles(result.dropped, true));
+        if (next.status === 'won') {
+          playSound('win');
+          reportEvent({ type: 'bubble:cleared', level: customLevel ? 'custom' : levelNumber });
+        } else if (next.status === 'lost') playSound('lose');
+        else if (result.popped.length > 0) playSound('pop');
+        setState(next);
+      }
+    }
+
+    particlesRef.current = particlesRef.current
+      .map(p => (p.falling
+        ? { ...p, age: p.age + 1, y: p.y + p.velocity, velocity: p.velocity + GRAVITY }
+        : { ...p, age: p.age + 1 }))
+      .filter(p => (p.falling ? p.y < CANVAS_HEIGHT + BUBBLE_RADIUS : p.age < POP_FRAMES));
+  }, [state, customLevel, levelNumber]);
+
+  const draw = useCallback(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const gradient = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
+    gradient.addColorStop(0, '#1E2A4A');
+    gradient.addColorStop(1, '#3B4F7D');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    // Ceiling
+    const ceilingHeight = state.ceiling * ROW_HEIGHT;
+    if (ceilingHeight > 0) {
+      ctx.fillStyle = '#64748B';
+      ctx.fillRect(0, 0, CANVAS_WIDTH, ceilingHeight);
+      ctx.fillStyle = '#475569';
+      ctx.fillRect(0, ceilingHeight - 4, CANVAS_WIDTH, 4);
+    }
+
+    // Deadline
+    ctx.strokeStyle = 'rgba(239, 68, 68, 0.6)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([8, 8]);
+    ctx.beginPath();
+    ctx.moveTo(0, DEADLINE_Y);
+    ctx.lineTo(CANVAS_WIDTH, DEADLINE_Y);
+    ctx.stroke();
+
+    state.grid.forEach((cells, row) => cells.forEach((color, col) => {
+      if (color !== null) drawBubble(ctx, cellCenter(row, col, state.ceiling), color);
+    }));
+
+    // Aim line and where the shot would land
+    const flying = flyingRef.current;
+    if (!flying && state.status === 'aiming') {
+      const shot = traceShot(state.grid, state.ceiling, angle);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.setLineDash([4, 10]);
+      ctx.beginPath();
+      shot.path.forEach(({ x, y }, i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.stroke();
+
+      const target = shot.path[shot.path.length - 1];
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.arc(target.x, target.y, BUBBLE_RADIUS - 2, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+
+    for (const particle of particlesRef.current) {
+      if (particle.falling) {
+        drawBubble(ctx, particle, particle.color);
+      } else {
+        ctx.globalAlpha = 1 - particle.age / POP_FRAMES;
+        drawBubble(ctx, particle, particle.color, BUBBLE_RADIUS * (1 + particle.age / POP_FRAMES / 2));
+        ctx.globalAlpha = 1;
+      }
+    }
+
+    // Launcher
+    ctx.fillStyle = '#0F172A';
+    ctx.beginPath();
+    ctx.arc(LAUNCHER.x, LAUNCHER.y, BUBBLE_RADIUS + 8, 0, Math.PI * 2);
+    ctx.fill();
+    if (flying) {
+      drawBubble(ctx, pointAlong(flying.shot.path, flying.distance), flying.color);
+    } else {
+      drawBubble(ctx, LAUNCHER, state.current);
+    }
+    drawBubble(ctx, { x: LAUNCHER.x - 80, y: LAUNCHER.y + 10 }, state.next, BUBBLE_RADIUS * 0.7);
+
+    ctx.fillStyle = 'white';
+    ctx.font = '14px Arial';
+    ctx.textAlign = 'left';
+    ctx.fillText('Next', LAUNCHER.x - 135, LAUNCHER.y + 15);
+    ctx.textAlign = 'right';
+    ctx.fillText(`Drop in ${shotsUntilDrop(state)}`, CANVAS_WIDTH - 12, LAUNCHER.y + 15);
+  }, [state, angle]);
+
+  useEffect(() => {
+    const loop = () => {
+      advance();
+      draw();
+      frameRef.current = requestAnimationFrame(loop);
+    };
+    frameRef.current = requestAnimationFrame(loop);
+    return () => {
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    };
+  }, [advance, draw]);
+
+  // The pointer aims directly at a spot; actions nudge the aim a step at a time.
+  useActions(action => {
+    if (action === 'left') {
+      setAngle(prev => clampAngle(prev + AIM_STEP));
+    } else if (action === 'right') {
+      setAngle(prev => clampAngle(prev - AIM_STEP));
+    } else if (action === 'confirm' || action === 'up') {
+      fire();
+    }
+  });
+
+  const aimAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) * (CANVAS_WIDTH / rect.width);
+    const y = (e.clientY - rect.top) * (CANVAS_HEIGHT / rect.height);
+    setAngle(clampAngle(Math.atan2(LAUNCHER.y - y, x - LAUNCHER.x)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    aimAt(e);
+    fire();
+  };
+
+  const loadLevel = () => {
+    try {
+      const [loaded] = parseLevels(levelText);
+      setCustomLevel(loaded);
+      setLevelError(null);
+    } catch (error) {
+      setLevelError((error as Error).message);
+    }
+  };
+
+  const selectLevel = (number: string) => {
+    setCustomLevel(null);
+    setLevelNumber(number);
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row items-start justify-center w-full max-w-4xl mx-auto p-4 gap-8">
+      <div className="flex flex-col items-center mx-auto">
+        <div className="w-full mb-6 flex items-center justify-between gap-4">
+          <div className="text-lg font-semibold dark:text-white">Score: {state.score}</div>
+          <div className="flex items-center gap-4">
+            <div className="text-lg font-semibold text-yellow-500">
+              High Score: {highScore}
+            </div>
+            <button
+              onClick={resetGame}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label="Restart level"
+            >
+              <RefreshCcw size={24} className="dark:text-white" />
+            </button>
+          </div>
+        </div>
+
+        <div
+          className="relative rounded-lg shadow-lg overflow-hidden"
+          style={{ width: CANVAS_WIDTH, height: CANVAS_HEIGHT }}
+        >
+          <canvas
+            ref={canvasRef}
+            width={CANVAS_WIDTH}
+            height={CANVAS_HEIGHT}
+            className="rounded-lg touch-none"
+            onPointerMove={aimAt}
+            onPointerDown={aimAt}
+            onPointerUp={handlePointerUp}
+          />
+
+          <AnimatePresence>
+            {state.status !== 'aiming' && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.5 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.5 }}
+                className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50"
+              >
+                <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl text-center">
+                  <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+                  <h2 className="text-2xl font-bold mb-2 dark:text-white">
+                    {state.status === 'won' ? 'Level Cleared!' : 'Game Over!'}
+                  </h2>
+                  <p className="text-lg mb-4 dark:text-gray-300">Score: {state.score}</p>
+                  <div className="flex gap-2 justify-center">
+                    <button
+                      onClick={resetGame}
+                      className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      Play Again
+                    </button>
+                    {state.status === 'won' && !customLevel && Number(levelNumber) < BUILT_IN_LEVELS.length && (
+                      <button
+                        onClick={() => selectLevel(String(Number(levelNumber) + 1))}
+                        className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                      >
+                        Next Level
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      </div>
+
+      <div className="w-full lg:w-72 flex flex-col gap-4">
+        <div>
+          <h3 className="text-lg font-semibold mb-2 dark:text-white">Levels</h3>
+          <div className="grid grid-cols-1 gap-2">
+            {BUILT_IN_LEVELS.map((builtIn, index) => {
+              const number = String(index + 1);
+              return (
+                <button
+                  key={number}
+                  onClick={() => selectLevel(number)}
+                  className={`px-4 py-2 rounded-lg text-left transition-colors
+                    ${!customLevel && levelNumber === number
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+                >
+                  {number}. {builtIn.name}
+                </button>
+              );
+            })}
+            {customLevel && (
+              <div className="px-4 py-2 rounded-lg bg-purple-600 text-white">Custom: {customLevel.name}</div>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold mb-2 dark:text-white">Custom Level</h3>
+          <textarea
+            value={levelText}
+            onChange={(e) => setLevelText(e.target.value)}
+            placeholder='{ "name": "My Level", "colors": 4, "shotsPerDrop": 8, "rows": ["RRGGBBYYR", "..."] }'
+            rows={6}
+            className="w-full p-2 rounded-lg bg-gray-100 dark:bg-gray-700 dark:text-white font-mono text-xs"
+          />
+          {levelError && <p className="text-sm text-red-600 mb-2">{levelError}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={loadLevel}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Upload size={16} /> Load
+            </button>
+            <button
+              onClick={() => setLevelText(serializeLevel(level))}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-700 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              <Download size={16} /> Export
+            </button>
+          </div>
+        </div>
+
+        <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+          <p>Move the mouse to aim and click to shoot, or use the arrow keys and space.</p>
+          <p>Match three or more of a colour to pop them. Bubbles left hanging fall for bonus points.</p>
+          <p>The ceiling drops every {level.shotsPerDrop} shots. Don't let the bubbles cross the red line!</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BubbleShooter;
@@ -0,0 +1,96 @@
+import { Grid, Level, COLOR_CODES, LEVEL_FORMAT_VERSION, MAX_LEVEL_ROWS, ROWS } from './types';
+import { findFloating, rowLength } from './logic';
+import levelsJson from './levels.json?raw';
+
+// Level files look like:
+//
+//   { "version": 1, "levels": [{ "name": "...", "colors": 4, "shotsPerDrop": 8,
+//     "rows": ["RRGGBBYYR", "GGBBYYRR", "..."] }] }
+//
+// Each row string has one character per cell: a colour code from COLOR_CODES
+// or '.' for an empty cell. Even rows are COLS wide, odd rows one shorter.
+// A single level object without the wrapper is accepted too.
+
+interface RawLevel {
+  name?: unknown;
+  colors?: unknown;
+  shotsPerDrop?: unknown;
+  rows?: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function fail(message: string): never {
+  throw new Error(`Invalid level: ${message}`);
+}
+
+function parseLevel(raw: RawLevel, index: number): Level {
+  const label = typeof raw.name === 'string' && raw.name ? `"${raw.name}"` : `#${index + 1}`;
+
+  if (typeof raw.name !== 'string' || !raw.name.trim()) fail(`level ${label} needs a name`);
+  if (!Number.isInteger(raw.colors) || (raw.colors as number) < 1 || (raw.colors as number) > COLOR_CODES.length) {
+    fail(`level ${label} must use between 1 and ${COLOR_CODES.length} colors`);
+  }
+  if (!Number.isInteger(raw.shotsPerDrop) || (raw.shotsPerDrop as number) < 1) {
+    fail(`level ${label} needs a positive whole shotsPerDrop`);
+  }
+  if (!Array.isArray(raw.rows) || raw.rows.length === 0) fail(`level ${label} has no rows`);
+
+  const colors = raw.colors as number;
+  const codes = COLOR_CODES.slice(0, colors);
+  const rows = raw.rows as unknown[];
+  if (rows.length > MAX_LEVEL_ROWS) fail(`level ${label} has more than ${MAX_LEVEL_ROWS} rows`);
+
+  const grid: Grid = Array.from({ length: ROWS }, (_, row) => Array(rowLength(row)).fill(null));
+  rows.forEach((line, row) => {
+    if (typeof line !== 'string') fail(`row ${row + 1} of level ${label} is not a string`);
+    if (line.length !== rowLength(row)) {
+      fail(`row ${row + 1} of level ${label} must have ${rowLength(row)} cells, not ${line.length}`);
+    }
+    [...line].forEach((char, col) => {
+      if (char === '.') return;
+      const color = codes.indexOf(char.toUpperCase());
+      if (color === -1) fail(`unknown color "${char}" in row ${row + 1} of level ${label}`);
+      grid[row][col] = color;
+    });
+  });
+
+  if (grid.every(row => row.every(cell => cell === null))) fail(`level ${label} has no bubbles`);
+  if (findFloating(grid).length > 0) fail(`level ${label} has bubbles that are not attached to the ceiling`);
+
+  return { name: raw.name.trim(), colors, shotsPerDrop: raw.shotsPerDrop as number, grid };
+}
+
+export function parseLevels(text: string): Level[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    fail('not valid JSON');
+  }
+  if (!isObject(data)) fail('expected a JSON object');
+
+  if (!('levels' in data)) return [parseLevel(data, 0)];
+
+  if (data.version !== LEVEL_FORMAT_VERSION) fail(`unsupported version ${String(data.version)}`);
+  if (!Array.isArray(data.levels) || data.levels.length === 0) fail('"levels" must be a non-empty array');
+  return data.levels.map((level, index) => {
+    if (!isObject(level)) fail(`level #${index + 1} is not an object`);
+    return parseLevel(level, index);
+  });
+}
+
+export function serializeLevel(level: Level): string {
+  let rows = level.grid.map(row => row.map(cell => (cell === null ? '.' : COLOR_CODES[cell])).join(''));
+  while (rows.length > 1 && !/[^.]/.test(rows[rows.length - 1])) rows = rows.slice(0, -1);
+  return JSON.stringify(
+    { version: LEVEL_FORMAT_VERSION, levels: [{ name: level.name, colors: level.colors, shotsPerDrop: level.shotsPerDrop, rows }] },
+    null,
+    2
+  );
+}
+
+export const BUILT_IN_LEVELS = parseLevels(levelsJson);
+
+export const LEVEL_NUMBERS = BUILT_IN_LEVELS.map((_, index) => String(index + 1));
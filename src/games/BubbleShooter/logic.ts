@@ -0,0 +1,207 @@
+import { Rng, randomInt } from '../../utils/random';
+import {
+  BubbleColor, Cell, GameState, Grid, Level, Point, Shot, ShotResult,
+  BUBBLE_DIAMETER, BUBBLE_RADIUS, CANVAS_WIDTH, COLS, DEADLINE_Y, DROP_POINTS,
+  LAUNCHER, MATCH_SIZE, POP_POINTS, ROW_HEIGHT, ROWS, TRACE_STEP
+} from './types';
+
+export const rowLength = (row: number) => (row % 2 === 0 ? COLS : COLS - 1);
+
+export function cellCenter(row: number, col: number, ceiling: number): Point {
+  return {
+    x: BUBBLE_RADIUS + col * BUBBLE_DIAMETER + (row % 2 === 1 ? BUBBLE_RADIUS : 0),
+    y: BUBBLE_RADIUS + (row + ceiling) * ROW_HEIGHT
+  };
+}
+
+export function neighbors({ row, col }: Cell): Cell[] {
+  // Odd rows sit half a bubble to the right, so their diagonal neighbours
+  // are at col and col + 1; even rows use col - 1 and col.
+  const shift = row % 2 === 1 ? 0 : -1;
+  return [
+    { row, col: col - 1 },
+    { row, col: col + 1 },
+    { row: row - 1, col: col + shift },
+    { row: row - 1, col: col + shift + 1 },
+    { row: row + 1, col: col + shift },
+    { row: row + 1, col: col + shift + 1 }
+  ].filter(cell => cell.row >= 0 && cell.row < ROWS && cell.col >= 0 && cell.col < rowLength(cell.row));
+}
+
+const cellKey = ({ row, col }: Cell) => `${row},${col}`;
+
+function occupiedCells(grid: Grid): Cell[] {
+  return grid.flatMap((cells, row) =>
+    cells.flatMap((color, col) => (color === null ? [] : [{ row, col }]))
+  );
+}
+
+// Connected bubbles reachable from `start`, optionally only of one colour.
+function flood(grid: Grid, starts: Cell[], color?: BubbleColor): Cell[] {
+  const seen = new Set(starts.map(cellKey));
+  const queue = [...starts];
+  for (let i = 0; i < queue.length; i++) {
+    for (const next of neighbors(queue[i])) {
+      const value = grid[next.row][next.col];
+      if (value === null || (color !== undefined && value !== color) || seen.has(cellKey(next))) continue;
+      seen.add(cellKey(next));
+      queue.push(next);
+    }
+  }
+  return queue;
+}
+
+// Bubbles no longer connected to the ceiling row.
+export function findFloating(grid: Grid): Cell[] {
+  const anchored = new Set(
+    flood(grid, occupiedCells(grid).filter(cell => cell.row === 0)).map(cellKey)
+  );
+  return occupiedCells(grid).filter(cell => !anchored.has(cellKey(cell)));
+}
+
+export function remainingColors(grid: Grid): BubbleColor[] {
+  return [...new Set(grid.flat().filter((color): color is BubbleColor => color !== null))];
+}
+
+function dealColor(grid: Grid, level: Level, random: Rng): BubbleColor {
+  const colors = remainingColors(grid);
+  const pool = colors.length > 0 ? colors : Array.from({ length: level.colors }, (_, i) => i);
+  return pool[randomInt(random, pool.length)];
+}
+
+export function createGame(level: Level, random: Rng = Math.random): GameState {
+  const grid = level.grid.map(row => [...row]);
+  return {
+    level,
+    grid,
+    ceiling: 0,
+    shots: 0,
+    current: dealColor(grid, level, random),
+    next: dealColor(grid, level, random),
+    score: 0,
+    status: 'aiming'
+  };
+}
+
+// The empty cell closest to where a shot stopped. Usually it is in the row
+// the shot reached or one either side; when those are full the search widens
+// a row at a time until it finds one.
+function nearestEmptyCell(grid: Grid, ceiling: number, point: Point): Cell {
+  const approxRow = Math.max(0, Math.min(ROWS - 1, Math.round((point.y - BUBBLE_RADIUS) / ROW_HEIGHT - ceiling)));
+  let best: Cell | null = null;
+  let bestDistance = Infinity;
+
+  for (let reach = 1; reach < ROWS && !best; reach++) {
+    for (let row = Math.max(0, approxRow - reach); row <= Math.min(ROWS - 1, approxRow + reach); row++) {
+      for (let col = 0; col < rowLength(row); col++) {
+        if (grid[row][col] !== null) continue;
+        const center = cellCenter(row, col, ceiling);
+        const distance = Math.hypot(center.x - point.x, center.y - point.y);
+        if (distance < bestDistance) {
+          best = { row, col };
+          bestDistance = distance;
+        }
+      }
+    }
+  }
+  // The deadline ends the game long before the grid can fill up.
+  return best ?? { row: approxRow, col: 0 };
+}
+
+// Follows a shot from the launcher, bouncing off the side walls, until it
+// touches a bubble or the ceiling. The path ends at the cell it snaps into, so
+// the same trace draws the aim line and animates the flying bubble.
+export function traceShot(grid: Grid, ceiling: number, angle: number): Shot {
+  let dx = Math.cos(angle) * TRACE_STEP;
+  const dy = -Math.sin(angle) * TRACE_STEP;
+  let { x, y } = LAUNCHER;
+  const path: Point[] = [{ x, y }];
+  const bubbles = occupiedCells(grid).map(cell => cellCenter(cell.row, cell.col, ceiling));
+  const ceilingY = BUBBLE_RADIUS + ceiling * ROW_HEIGHT;
+  // Slightly under a full diameter so shots can squeeze through tight gaps.
+  const hitDistance = BUBBLE_DIAMETER * 0.85;
+
+  while (y > ceilingY && !bubbles.some(b => Math.hypot(b.x - x, b.y - y) < hitDistance)) {
+    x += dx;
+    y += dy;
+    if (x < BUBBLE_RADIUS || x > CANVAS_WIDTH - BUBBLE_RADIUS) {
+      x = x < BUBBLE_RADIUS ? BUBBLE_RADIUS : CANVAS_WIDTH - BUBBLE_RADIUS;
+      dx = -dx;
+      path.push({ x, y });
+    }
+  }
+
+  const landing = nearestEmptyCell(grid, ceiling, { x, y });
+  path.push(cellCenter(landing.row, landing.col, ceiling));
+  return { path, landing };
+}
+
+export function pathLength(path: Point[]): number {
+  return path.slice(1).reduce((total, point, i) =>
+    total + Math.hypot(point.x - path[i].x, point.y - path[i].y), 0);
+}
+
+// Position `distance` pixels along a path.
+export function pointAlong(path: Point[], distance: number): Point {
+  let remaining = distance;
+  for (let i = 1; i < path.length; i++) {
+    const [from, to] = [path[i - 1], path[i]];
+    const segment = Math.hypot(to.x - from.x, to.y - from.y);
+    if (remaining <= segment) {
+      const t = segment === 0 ? 1 : remaining / segment;
+      return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+    }
+    remaining -= segment;
+  }
+  return path[path.length - 1];
+}
+
+const crossesDeadline = (grid: Grid, ceiling: number) =>
+  occupiedCells(grid).some(({ row, col }) => cellCenter(row, col, ceiling).y + BUBBLE_RADIUS >= DEADLINE_Y);
+
+// Lands the current bubble, pops a matching cluster and drops whatever it
+// leaves hanging, then deals the next bubble and lowers the ceiling if due.
+export function landBubble(
+  state: GameState,
+  landing: Cell,
+  random: Rng = Math.random
+): { state: GameState; result: ShotResult } {
+  const grid = state.grid.map(row => [...row]);
+  grid[landing.row][landing.col] = state.current;
+
+  const result: ShotResult = { popped: [], dropped: [] };
+  const cluster = flood(grid, [landing], state.current);
+  if (cluster.length >= MATCH_SIZE) {
+    for (const cell of cluster) {
+      result.popped.push({ ...cell, color: grid[cell.row][cell.col]! });
+      grid[cell.row][cell.col] = null;
+    }
+    for (const cell of findFloating(grid)) {
+      result.dropped.push({ ...cell, color: grid[cell.row][cell.col]! });
+      grid[cell.row][cell.col] = null;
+    }
+  }
+
+  const shots = state.shots + 1;
+  const ceiling = shots % state.level.shotsPerDrop === 0 ? state.ceiling + 1 : state.ceiling;
+  const colors = remainingColors(grid);
+  const current = colors.length === 0 || colors.includes(state.next) ? state.next : dealColor(grid, state.level, random);
+
+  const isEmpty = colors.length === 0;
+  return {
+    state: {
+      ...state,
+      grid,
+      ceiling,
+      shots,
+      current,
+      next: dealColor(grid, state.level, random),
+      score: state.score + result.popped.length * POP_POINTS + result.dropped.length * DROP_POINTS,
+      status: isEmpty ? 'won' : crossesDeadline(grid, ceiling) ? 'lost' : 'aiming'
+    },
+    result
+  };
+}
+
+export const shotsUntilDrop = (state: GameState) =>
+  state.level.shotsPerDrop - (state.shots % state.level.shotsPerDrop);
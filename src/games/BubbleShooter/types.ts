@@ -0,0 +1,81 @@
+// Index into BUBBLE_COLORS.
+export type BubbleColor = number;
+
+// Offset hex grid: odd rows are shifted right by half a bubble and hold one
+// bubble fewer. Row 0 hangs from the ceiling.
+export type Grid = (BubbleColor | null)[][];
+
+export interface Cell {
+  row: number;
+  col: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Level {
+  name: string;
+  // Number of colours the launcher deals from.
+  colors: number;
+  // The ceiling drops one row after this many shots.
+  shotsPerDrop: number;
+  grid: Grid;
+}
+
+export interface LevelFile {
+  version: number;
+  levels: Level[];
+}
+
+export interface Shot {
+  path: Point[];
+  landing: Cell;
+}
+
+export interface ShotResult {
+  popped: (Cell & { color: BubbleColor })[];
+  dropped: (Cell & { color: BubbleColor })[];
+}
+
+export type Status = 'aiming' | 'won' | 'lost';
+
+export interface GameState {
+  level: Level;
+  grid: Grid;
+  ceiling: number;
+  shots: number;
+  current: BubbleColor;
+  next: BubbleColor;
+  score: number;
+  status: Status;
+}
+
+export const CANVAS_WIDTH = 360;
+export const CANVAS_HEIGHT = 640;
+export const BUBBLE_RADIUS = 20;
+export const BUBBLE_DIAMETER = BUBBLE_RADIUS * 2;
+export const ROW_HEIGHT = BUBBLE_DIAMETER * Math.sqrt(3) / 2;
+export const COLS = CANVAS_WIDTH / BUBBLE_DIAMETER;
+export const ROWS = 16;
+// Deep enough to leave a few rows of space above the deadline.
+export const MAX_LEVEL_ROWS = 10;
+export const LAUNCHER = { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT - 50 };
+// A bubble whose centre crosses this line ends the game.
+export const DEADLINE_Y = CANVAS_HEIGHT - 110;
+export const MIN_AIM_ANGLE = Math.PI / 12;
+export const MAX_AIM_ANGLE = Math.PI - MIN_AIM_ANGLE;
+export const AIM_STEP = Math.PI / 90;
+export const MATCH_SIZE = 3;
+export const SHOT_SPEED = 14;
+export const TRACE_STEP = 4;
+export const AIM_LINE_LENGTH = 600;
+export const POP_POINTS = 10;
+export const DROP_POINTS = 20;
+export const LEVEL_FORMAT_VERSION = 1;
+
+export const BUBBLE_COLORS = ['#E74C3C', '#2ECC71', '#3498DB', '#F1C40F', '#9B59B6', '#1ABC9C'];
+
+// Characters used for each colour in level files; '.' is an empty cell.
+export const COLOR_CODES = ['R', 'G', 'B', 'Y', 'P', 'C'];
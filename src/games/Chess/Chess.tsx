@@ -0,0 +1,407 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RefreshCcw, User, Cpu, Trophy, Medal, ArrowUpDown, Copy, Upload, Loader2 } from 'lucide-react';
+import {
+  Color, GameState, Move, PieceType, EngineRequest, EngineResponse,
+  START_FEN, GAME_MODES, DIFFICULTIES, PLAYER_COLORS, PROMOTION_PIECES, PIECE_SYMBOLS, STATUS_MESSAGES
+} from './types';
+import { drawClaim, generateLegalMoves, isInCheck, findKing, opponent } from './rules';
+import { claimDraw, createGameState, playMove, toFEN, toPGN, parsePGN, squareName } from './notation';
+import { useGameSetting } from '../../store/gameStore';
+import { reportEvent } from '../../store/achievements';
+
+interface PendingPromotion {
+  from: number;
+  to: number;
+}
+
+const Chess: React.FC = () => {
+  const [gameMode, setGameMode] = useGameSetting('mode', GAME_MODES, 'ai');
+  const [difficulty, setDifficulty] = useGameSetting('difficulty', DIFFICULTIES, 'normal');
+  const [playerColor, setPlayerColor] = useGameSetting('color', PLAYER_COLORS, 'w');
+  const [state, setState] = useState<GameState>(() => createGameState(START_FEN));
+  const [selected, setSelected] = useState<number | null>(null);
+  const [pendingPromotion, setPendingPromotion] = useState<PendingPromotion | null>(null);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [isThinking, setIsThinking] = useState(false);
+  const [notationInput, setNotationInput] = useState('');
+  const [notationError, setNotationError] = useState<string | null>(null);
+  const [showEndScreen, setShowEndScreen] = useState(false);
+  const workerRef = useRef<Worker>();
+  const requestIdRef = useRef(0);
+
+  const position = state.positions[state.positions.length - 1];
+  const legalMoves = useMemo(() => generateLegalMoves(position), [position]);
+  const lastMove = state.moves[state.moves.length - 1]?.move;
+  const checkedKing = isInCheck(position) ? findKing(position.board, position.turn) : -1;
+  const isEngineTurn = gameMode === 'ai' && position.turn !== playerColor && state.status === 'playing';
+  const baseColor: Color = gameMode === 'ai' ? playerColor : 'w';
+  const bottomColor = isFlipped ? opponent(baseColor) : baseColor;
+  // Offered to a player on their move; the engine never claims.
+  const claim = state.status === 'playing' && !isEngineTurn ? drawClaim(position, state.keys) : null;
+
+  useEffect(() => {
+    const worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<EngineResponse>) => {
+      const { id, move } = event.data;
+      if (id !== requestIdRef.current) return;
+      setIsThinking(false);
+      if (move) setState(prev => playMove(prev, move));
+    };
+    workerRef.current = worker;
+    return () => worker.terminate();
+  }, []);
+
+  useEffect(() => {
+    if (!isEngineTurn) return;
+    const requestIds = requestIdRef;
+    const request: EngineRequest = { id: ++requestIds.current, fen: toFEN(position), difficulty };
+    const timer = setTimeout(() => {
+      setIsThinking(true);
+      workerRef.current?.postMessage(request);
+    }, 300);
+    return () => {
+      clearTimeout(timer);
+      // Any reply still in flight is for a position we have left.
+      requestIds.current++;
+      setIsThinking(false);
+    };
+  }, [isEngineTurn, position, difficulty]);
+
+  useEffect(() => {
+    if (state.status !== 'playing') {
+      const timer = setTimeout(() => setShowEndScreen(true), 1000);
+      return () => clearTimeout(timer);
+    }
+  }, [state.status]);
+
+  // Only a game played out to its end against the engine counts, not one
+  // loaded already finished, nor a finished board switched into engine mode.
+  const lastStatusRef = useRef(state.status);
+  useEffect(() => {
+    const wasPlaying = lastStatusRef.current === 'playing';
+    lastStatusRef.current = state.status;
+    if (!wasPlaying || state.status === 'playing' || gameMode !== 'ai') return;
+    const outcome = !state.winner ? 'draw' : state.winner === playerColor ? 'win' : 'loss';
+    reportEvent({ type: 'chess:gameOver', outcome, difficulty });
+  }, [state.status, state.winner, gameMode, playerColor, difficulty]);
+
+  const loadState = (next: GameState) => {
+    lastStatusRef.current = next.status;
+    setState(next);
+    setSelected(null);
+    setPendingPromotion(null);
+    setShowEndScreen(false);
+  };
+
+  const resetGame = () => loadState(createGameState(START_FEN));
+
+  useEffect(() => {
+    setState(createGameState(START_FEN));
+    setSelected(null);
+    setPendingPromotion(null);
+    setShowEndScreen(false);
+  }, [gameMode, playerColor]);
+
+  const applyMove = (move: Move) => {
+    setState(prev => playMove(prev, move));
+    setSelected(null);
+    setPendingPromotion(null);
+  };
+
+  const handleSquareClick = (square: number) => {
+    if (state.status !== 'playing' || isEngineTurn || pendingPromotion) return;
+
+    const piece = position.board[square];
+    if (piece?.color === position.turn) {
+      setSelected(square === selected ? null : square);
+      return;
+    }
+    if (selected === null) return;
+
+    const candidates = legalMoves.filter(move => move.from === selected && move.to === square);
+    if (candidates.length === 0) {
+      setSelected(null);
+    } else if (candidates.some(move => move.promotion)) {
+      setPendingPromotion({ from: selected, to: square });
+    } else {
+      applyMove(candidates[0]);
+    }
+  };
+
+  const handlePromotion = (type: PieceType) => {
+    if (!pendingPromotion) return;
+    const move = legalMoves.find(
+      m => m.from === pendingPromotion.from && m.to === pendingPromotion.to && m.promotion === type
+    );
+    if (move) applyMove(move);
+  };
+
+  const players = {
+    white: gameMode === 'ai' && playerColor === 'b' ? 'Computer' : 'Player',
+    black: gameMode === 'ai' && playerColor === 'w' ? 'Computer' : 'Player'
+  };
+
+  const importNotation = () => {
+    const text = notationInput.trim();
+    if (!text) return;
+    try {
+      // A FEN has exactly one line and slash-separated ranks; anything else is PGN.
+      const isFen = !text.includes('\n') && text.split('/').length === 8 && !text.includes('[');
+      loadState(isFen ? createGameState(text) : parsePGN(text));
+      setNotationError(null);
+    } catch (error) {
+      setNotationError(error instanceof Error ? error.message : 'Could not read that notation');
+    }
+  };
+
+  const copyText = (text: string) => {
+    setNotationInput(text);
+    navigator.clipboard?.writeText(text).catch(() => undefined);
+  };
+
+  const targets = new Set(legalMoves.filter(move => move.from === selected).map(move => move.to));
+  const squares = Array.from({ length: 64 }, (_, i) => (bottomColor === 'w' ? i : 63 - i));
+
+  const getEndText = () => {
+    if (state.status === 'playing') return '';
+    if (!state.winner) return STATUS_MESSAGES[state.status];
+    return `${state.winner === 'w' ? 'White' : 'Black'} Wins!`;
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row items-start justify-center w-full max-w-5xl mx-auto p-4 gap-8">
+      <div className="w-full max-w-lg mx-auto">
+        <div className="w-full mb-6 flex items-center justify-between">
+          <div className="flex gap-4">
+            <button
+              onClick={() => setGameMode('pvp')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors
+                ${gameMode === 'pvp'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+            >
+              <User size={20} /> vs <User size={20} />
+            </button>
+            <button
+              onClick={() => setGameMode('ai')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors
+                ${gameMode === 'ai'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+            >
+              <User size={20} /> vs <Cpu size={20} />
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsFlipped(!isFlipped)}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label="Flip board"
+            >
+              <ArrowUpDown size={24} className="dark:text-white" />
+            </button>
+            <button
+              onClick={resetGame}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label="New game"
+            >
+              <RefreshCcw size={24} className="dark:text-white" />
+            </button>
+          </div>
+        </div>
+
+        {gameMode === 'ai' && (
+          <div className="w-full mb-6 flex flex-wrap justify-center gap-4">
+            {DIFFICULTIES.map(diff => (
+              <button
+                key={diff}
+                onClick={() => setDifficulty(diff)}
+                className={`px-4 py-2 rounded-lg capitalize transition-colors
+                  ${difficulty === diff
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+              >
+                {diff}
+              </button>
+            ))}
+            <button
+              onClick={() => setPlayerColor(playerColor === 'w' ? 'b' : 'w')}
+              className="px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 transition-colors"
+            >
+              Play as {playerColor === 'w' ? 'White' : 'Black'}
+            </button>
+          </div>
+        )}
+
+        <div className="mb-4 flex items-center justify-between text-lg font-semibold dark:text-white">
+          <span>
+            {state.status === 'playing'
+              ? `${position.turn === 'w' ? 'White' : 'Black'} to move${checkedKing !== -1 ? ' — check!' : ''}`
+              : getEndText()}
+          </span>
+          {isThinking && <Loader2 size={20} className="animate-spin text-purple-600" />}
+          {claim && (
+            <button
+              onClick={() => {
+                setState(prev => claimDraw(prev));
+                setSelected(null);
+                setPendingPromotion(null);
+              }}
+              className="px-3 py-1 text-sm rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+              title={claim === 'threefold' ? 'The position has occurred three times' : 'Fifty moves without a capture or pawn move'}
+            >
+              Claim draw
+            </button>
+          )}
+        </div>
+
+        <div className="relative w-full aspect-square grid grid-cols-8 rounded-lg overflow-hidden shadow-lg">
+          {squares.map(square => {
+            const piece = position.board[square];
+            const isLight = ((square >> 3) + (square & 7)) % 2 === 0;
+            const isLastMove = lastMove && (lastMove.from === square || lastMove.to === square);
+
+            return (
+              <button
+                key={square}
+                onClick={() => handleSquareClick(square)}
+                className={`relative flex items-center justify-center text-3xl sm:text-5xl select-none
+                  ${isLight ? 'bg-amber-100' : 'bg-amber-700'}
+                  ${selected === square ? 'ring-4 ring-inset ring-blue-500' : ''}
+                  ${isLastMove ? 'after:absolute after:inset-0 after:bg-yellow-300/40' : ''}
+                  ${checkedKing === square ? 'bg-red-500' : ''}`}
+                aria-label={squareName(square)}
+              >
+                {piece && (
+                  <motion.span
+                    key={`${square}-${piece.color}${piece.type}`}
+                    initial={{ scale: 0.6, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    className={`relative z-10 ${piece.color === 'w' ? 'text-white drop-shadow-[0_1px_1px_rgba(0,0,0,0.9)]' : 'text-gray-900'}`}
+                  >
+                    {PIECE_SYMBOLS[piece.color][piece.type]}
+                  </motion.span>
+                )}
+                {targets.has(square) && (
+                  <span className={`absolute z-20 rounded-full ${piece ? 'inset-1 border-4 border-blue-500/60' : 'w-1/4 h-1/4 bg-blue-500/60'}`} />
+                )}
+              </button>
+            );
+          })}
+
+          <AnimatePresence>
+            {pendingPromotion && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="absolute inset-0 z-30 flex items-center justify-center bg-black bg-opacity-50"
+              >
+                <div className="flex gap-2 bg-white dark:bg-gray-800 p-4 rounded-lg shadow-xl">
+                  {PROMOTION_PIECES.map(type => (
+                    <button
+                      key={type}
+                      onClick={() => handlePromotion(type)}
+                      className="w-16 h-16 text-5xl rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-white"
+                    >
+                      {PIECE_SYMBOLS[position.turn][type]}
+                    </button>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      </div>
+
+      <div className="w-full lg:w-80 flex flex-col gap-4">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4">
+          <h2 className="text-lg font-semibold mb-2 dark:text-white">Moves</h2>
+          <ol className="max-h-64 overflow-y-auto grid grid-cols-[auto_1fr_1fr] gap-x-4 text-sm font-mono dark:text-gray-300">
+            {state.moves.map(({ san }, index) => {
+              const moved = state.positions[index];
+              return (
+                <React.Fragment key={index}>
+                  {(moved.turn === 'w' || index === 0) && (
+                    <span className="text-gray-400">{moved.fullmoveNumber}.</span>
+                  )}
+                  {moved.turn === 'b' && index === 0 && <span>…</span>}
+                  <span>{san}</span>
+                </React.Fragment>
+              );
+            })}
+          </ol>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-4">
+          <h2 className="text-lg font-semibold mb-2 dark:text-white">FEN / PGN</h2>
+          <textarea
+            value={notationInput}
+            onChange={(e) => setNotationInput(e.target.value)}
+            rows={5}
+            placeholder="Paste a FEN or PGN to load it"
+            className="w-full p-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-900 text-xs font-mono dark:text-gray-200"
+          />
+          {notationError && <p className="text-sm text-red-600 mt-1">{notationError}</p>}
+          <div className="mt-2 flex flex-wrap gap-2">
+            <button
+              onClick={importNotation}
+              className="flex items-center gap-1 px-3 py-1 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700 transition-colors"
+            >
+              <Upload size={16} /> Load
+            </button>
+            <button
+              onClick={() => copyText(toFEN(position))}
+              className="flex items-center gap-1 px-3 py-1 rounded-lg bg-gray-200 dark:bg-gray-700 dark:text-gray-200 text-sm"
+            >
+              <Copy size={16} /> FEN
+            </button>
+            <button
+              onClick={() => copyText(toPGN(state, players))}
+              className="flex items-center gap-1 px-3 py-1 rounded-lg bg-gray-200 dark:bg-gray-700 dark:text-gray-200 text-sm"
+            >
+              <Copy size={16} /> PGN
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {showEndScreen && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.5 }}
+            className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          >
+            <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl text-center">
+              {state.winner ? (
+                <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+              ) : (
+                <Medal className="w-16 h-16 text-blue-400 mx-auto mb-4" />
+              )}
+              <h2 className="text-2xl font-bold mb-4 dark:text-white">{getEndText()}</h2>
+              <div className="flex gap-2 justify-center">
+                <button
+                  onClick={() => setShowEndScreen(false)}
+                  className="px-6 py-2 bg-gray-200 dark:bg-gray-700 dark:text-white rounded-lg transition-colors"
+                >
+                  Review
+                </button>
+                <button
+                  onClick={resetGame}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Play Again
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default Chess;
@@ -0,0 +1,161 @@
+import { Difficulty, Move, PieceType, Position } from './types';
+import { generateLegalMoves, isInCheck, makeMove } from './rules';
+
+const PIECE_VALUES: Record<PieceType, number> = {
+  p: 100,
+  n: 320,
+  b: 330,
+  r: 500,
+  q: 900,
+  k: 0
+};
+
+// Piece-square tables from White's point of view, a8 first (same order as the board).
+const PIECE_SQUARE_TABLES: Record<PieceType, number[]> = {
+  p: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    50, 50, 50, 50, 50, 50, 50, 50,
+    10, 10, 20, 30, 30, 20, 10, 10,
+    5, 5, 10, 25, 25, 10, 5, 5,
+    0, 0, 0, 20, 20, 0, 0, 0,
+    5, -5, -10, 0, 0, -10, -5, 5,
+    5, 10, 10, -20, -20, 10, 10, 5,
+    0, 0, 0, 0, 0, 0, 0, 0
+  ],
+  n: [
+    -50, -40, -30, -30, -30, -30, -40, -50,
+    -40, -20, 0, 0, 0, 0, -20, -40,
+    -30, 0, 10, 15, 15, 10, 0, -30,
+    -30, 5, 15, 20, 20, 15, 5, -30,
+    -30, 0, 15, 20, 20, 15, 0, -30,
+    -30, 5, 10, 15, 15, 10, 5, -30,
+    -40, -20, 0, 5, 5, 0, -20, -40,
+    -50, -40, -30, -30, -30, -30, -40, -50
+  ],
+  b: [
+    -20, -10, -10, -10, -10, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 10, 10, 5, 0, -10,
+    -10, 5, 5, 10, 10, 5, 5, -10,
+    -10, 0, 10, 10, 10, 10, 0, -10,
+    -10, 10, 10, 10, 10, 10, 10, -10,
+    -10, 5, 0, 0, 0, 0, 5, -10,
+    -20, -10, -10, -10, -10, -10, -10, -20
+  ],
+  r: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    5, 10, 10, 10, 10, 10, 10, 5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    0, 0, 0, 5, 5, 0, 0, 0
+  ],
+  q: [
+    -20, -10, -10, -5, -5, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 5, 5, 5, 0, -10,
+    -5, 0, 5, 5, 5, 5, 0, -5,
+    0, 0, 5, 5, 5, 5, 0, -5,
+    -10, 5, 5, 5, 5, 5, 0, -10,
+    -10, 0, 5, 0, 0, 0, 0, -10,
+    -20, -10, -10, -5, -5, -10, -10, -20
+  ],
+  k: [
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -20, -30, -30, -40, -40, -30, -30, -20,
+    -10, -20, -20, -20, -20, -20, -20, -10,
+    20, 20, 0, 0, 0, 0, 20, 20,
+    20, 30, 10, 0, 0, 10, 30, 20
+  ]
+};
+
+const SEARCH_SETTINGS: Record<Difficulty, { depth: number; quiescence: boolean; noise: number }> = {
+  easy: { depth: 1, quiescence: false, noise: 120 },
+  normal: { depth: 2, quiescence: true, noise: 20 },
+  hard: { depth: 3, quiescence: true, noise: 0 }
+};
+
+const MATE_SCORE = 100000;
+const MAX_QUIESCENCE_DEPTH = 4;
+
+// Static evaluation in centipawns from the side to move's point of view.
+export function evaluate(position: Position): number {
+  let score = 0;
+  position.board.forEach((piece, square) => {
+    if (!piece) return;
+    // Black reads the tables upside down.
+    const tableSquare = piece.color === 'w' ? square : square ^ 56;
+    const value = PIECE_VALUES[piece.type] + PIECE_SQUARE_TABLES[piece.type][tableSquare];
+    score += piece.color === 'w' ? value : -value;
+  });
+  return position.turn === 'w' ? score : -score;
+}
+
+// Most valuable victim / least valuable attacker first, promotions near the front.
+const moveOrderScore = (move: Move) =>
+  (move.captured ? 10 * PIECE_VALUES[move.captured] - PIECE_VALUES[move.piece] : 0) +
+  (move.promotion ? PIECE_VALUES[move.promotion] : 0);
+
+const orderMoves = (moves: Move[]) => [...moves].sort((a, b) => moveOrderScore(b) - moveOrderScore(a));
+
+function quiesce(position: Position, alpha: number, beta: number, depth: number): number {
+  const standPat = evaluate(position);
+  if (depth === 0 || standPat >= beta) return standPat;
+  alpha = Math.max(alpha, standPat);
+
+  const captures = orderMoves(generateLegalMoves(position).filter(move => move.captured || move.promotion));
+  for (const move of captures) {
+    const score = -quiesce(makeMove(position, move), -beta, -alpha, depth - 1);
+    if (score >= beta) return score;
+    alpha = Math.max(alpha, score);
+  }
+  return alpha;
+}
+
+function negamax(
+  position: Position,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number,
+  useQuiescence: boolean
+): number {
+  const moves = generateLegalMoves(position);
+  if (moves.length === 0) return isInCheck(position) ? -MATE_SCORE + ply : 0;
+  if (depth === 0) return useQuiescence ? quiesce(position, alpha, beta, MAX_QUIESCENCE_DEPTH) : evaluate(position);
+
+  let best = -Infinity;
+  for (const move of orderMoves(moves)) {
+    const score = -negamax(makeMove(position, move), depth - 1, -beta, -alpha, ply + 1, useQuiescence);
+    best = Math.max(best, score);
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+export function getBestMove(position: Position, difficulty: Difficulty, random: () => number = Math.random): Move | null {
+  const moves = orderMoves(generateLegalMoves(position));
+  if (moves.length === 0) return null;
+
+  const { depth, quiescence, noise } = SEARCH_SETTINGS[difficulty];
+  let bestMove = moves[0];
+  let bestScore = -Infinity;
+
+  for (const move of moves) {
+    // Noise makes the weaker levels pick slightly worse moves now and then.
+    const score = -negamax(makeMove(position, move), depth - 1, -Infinity, Infinity, 1, quiescence) +
+      (random() - 0.5) * noise;
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+    }
+  }
+
+  return bestMove;
+}
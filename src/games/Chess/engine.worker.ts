@@ -0,0 +1,11 @@
+import { EngineRequest, EngineResponse } from './types';
+import { parseFEN } from './notation';
+import { getBestMove } from './ai';
+
+// Runs the search off the main thread so the board stays responsive while the
+// engine is thinking.
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  const { id, fen, difficulty } = event.data;
+  const response: EngineResponse = { id, move: getBestMove(parseFEN(fen), difficulty) };
+  self.postMessage(response);
+};
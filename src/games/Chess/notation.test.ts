@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { claimDraw, createGameState, parsePGN } from './notation';
+import { drawClaim, positionKey } from './rules';
+import { GameState, START_FEN } from './types';
+
+// Knights out and back: the start position again after every fourth move.
+const shuffle = (times: number) =>
+  Array.from({ length: times }, (_, i) => `${i * 2 + 1}. Nf3 Nf6 ${i * 2 + 2}. Ng1 Ng8`).join(' ');
+
+const current = (state: GameState) => state.positions[state.positions.length - 1];
+
+describe('repetition', () => {
+  it('lets the player claim a draw at the third occurrence without ending the game', () => {
+    const state = parsePGN(shuffle(2));
+    expect(state.status).toBe('playing');
+    expect(drawClaim(current(state), state.keys)).toBe('threefold');
+    expect(claimDraw(state)).toMatchObject({ status: 'threefold', winner: null });
+  });
+
+  it('plays on past a repetition nobody claimed', () => {
+    expect(parsePGN(`${shuffle(3)} 7. e4 *`).status).toBe('playing');
+  });
+
+  it('ends the game at the fifth occurrence', () => {
+    expect(parsePGN(shuffle(4)).status).toBe('fivefold');
+  });
+
+  it('reads a drawn result on a repeated position as the claim', () => {
+    expect(parsePGN(`${shuffle(2)} 1/2-1/2`).status).toBe('threefold');
+  });
+
+  it('has nothing to claim before the third occurrence', () => {
+    const state = parsePGN(shuffle(1));
+    expect(drawClaim(current(state), state.keys)).toBeNull();
+    expect(claimDraw(state)).toBe(state);
+  });
+
+  it('keeps one key per position', () => {
+    const state = parsePGN(shuffle(1));
+    expect(state.keys).toEqual(state.positions.map(positionKey));
+  });
+
+  it('ignores an en passant square no pawn can capture on', () => {
+    const state = parsePGN('1. e4 Nf6 2. Nf3 Ng8 3. Ng1 Nf6 4. Nf3 Ng8 5. Ng1');
+    expect(state.keys[1]).toBe(state.keys[5]);
+    expect(drawClaim(current(state), state.keys)).toBe('threefold');
+  });
+
+  it('keeps an en passant square a pawn can capture on', () => {
+    const state = parsePGN('1. e4 a6 2. e5 d5');
+    expect(positionKey(current(state))).toMatch(/ 19$/);
+  });
+});
+
+describe('the 50-move rule', () => {
+  it('offers a claim after fifty moves and ends the game after seventy-five', () => {
+    const fifty = createGameState('8/8/8/4k3/8/8/R7/4K3 w - - 100 80');
+    expect(fifty.status).toBe('playing');
+    expect(claimDraw(fifty).status).toBe('fifty-move');
+    expect(createGameState('8/8/8/4k3/8/8/R7/4K3 w - - 150 80').status).toBe('seventy-five-move');
+  });
+
+  it('has no claim at the start', () => {
+    const state = createGameState(START_FEN);
+    expect(claimDraw(state)).toBe(state);
+  });
+});
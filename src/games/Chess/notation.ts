@@ -0,0 +1,218 @@
+import { Board, Color, GameState, Move, Piece, PieceType, Position, Square, START_FEN } from './types';
+import { colOf, drawClaim, generateLegalMoves, getStatus, isInCheck, makeMove, positionKey, rowOf } from './rules';
+
+const FILES = 'abcdefgh';
+const RESULT_TOKENS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+export const squareName = (square: Square) => `${FILES[colOf(square)]}${8 - rowOf(square)}`;
+
+export function parseSquare(name: string): Square | null {
+  if (!/^[a-h][1-8]$/.test(name)) return null;
+  return (8 - Number(name[1])) * 8 + FILES.indexOf(name[0]);
+}
+
+export function parseFEN(fen: string): Position {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length < 4) throw new Error('Invalid FEN: expected at least 4 fields');
+  const [placement, turn, castling, enPassant, halfmove = '0', fullmove = '1'] = fields;
+
+  const rows = placement.split('/');
+  if (rows.length !== 8) throw new Error('Invalid FEN: expected 8 ranks');
+
+  const board: Board = [];
+  for (const row of rows) {
+    let width = 0;
+    for (const char of row) {
+      if (/[1-8]/.test(char)) {
+        for (let i = 0; i < Number(char); i++) board.push(null);
+        width += Number(char);
+      } else if (/[pnbrqkPNBRQK]/.test(char)) {
+        board.push({ color: char === char.toUpperCase() ? 'w' : 'b', type: char.toLowerCase() as PieceType });
+        width++;
+      } else {
+        throw new Error(`Invalid FEN: unexpected "${char}"`);
+      }
+    }
+    if (width !== 8) throw new Error('Invalid FEN: every rank needs 8 squares');
+  }
+
+  for (const color of ['w', 'b'] as Color[]) {
+    if (board.filter(piece => piece?.type === 'k' && piece.color === color).length !== 1) {
+      throw new Error('Invalid FEN: each side needs exactly one king');
+    }
+  }
+  if (turn !== 'w' && turn !== 'b') throw new Error('Invalid FEN: side to move must be "w" or "b"');
+  if (!/^(-|K?Q?k?q?)$/.test(castling)) throw new Error('Invalid FEN: bad castling field');
+
+  const epSquare = enPassant === '-' ? null : parseSquare(enPassant);
+  if (enPassant !== '-' && epSquare === null) throw new Error('Invalid FEN: bad en passant square');
+
+  return {
+    board,
+    turn,
+    castling: {
+      wK: castling.includes('K'),
+      wQ: castling.includes('Q'),
+      bK: castling.includes('k'),
+      bQ: castling.includes('q')
+    },
+    enPassant: epSquare,
+    halfmoveClock: Number(halfmove) || 0,
+    fullmoveNumber: Number(fullmove) || 1
+  };
+}
+
+const pieceChar = (piece: Piece) => (piece.color === 'w' ? piece.type.toUpperCase() : piece.type);
+
+export function toFEN(position: Position): string {
+  const rows: string[] = [];
+  for (let row = 0; row < 8; row++) {
+    let text = '';
+    let empty = 0;
+    for (let col = 0; col < 8; col++) {
+      const piece = position.board[row * 8 + col];
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty) text += empty;
+      empty = 0;
+      text += pieceChar(piece);
+    }
+    rows.push(empty ? text + empty : text);
+  }
+
+  const { wK, wQ, bK, bQ } = position.castling;
+  const castling = `${wK ? 'K' : ''}${wQ ? 'Q' : ''}${bK ? 'k' : ''}${bQ ? 'q' : ''}` || '-';
+  const enPassant = position.enPassant === null ? '-' : squareName(position.enPassant);
+
+  return [rows.join('/'), position.turn, castling, enPassant, position.halfmoveClock, position.fullmoveNumber].join(' ');
+}
+
+export function moveToSAN(position: Position, move: Move, legalMoves: Move[] = generateLegalMoves(position)): string {
+  let san: string;
+
+  if (move.castle) {
+    san = move.castle === 'K' ? 'O-O' : 'O-O-O';
+  } else if (move.piece === 'p') {
+    san = move.captured ? `${FILES[colOf(move.from)]}x${squareName(move.to)}` : squareName(move.to);
+    if (move.promotion) san += `=${move.promotion.toUpperCase()}`;
+  } else {
+    const rivals = legalMoves.filter(
+      other => other.piece === move.piece && other.to === move.to && other.from !== move.from
+    );
+    let disambiguation = '';
+    if (rivals.length > 0) {
+      const sameFile = rivals.some(other => colOf(other.from) === colOf(move.from));
+      const sameRank = rivals.some(other => rowOf(other.from) === rowOf(move.from));
+      if (!sameFile) disambiguation = FILES[colOf(move.from)];
+      else if (!sameRank) disambiguation = String(8 - rowOf(move.from));
+      else disambiguation = squareName(move.from);
+    }
+    san = `${move.piece.toUpperCase()}${disambiguation}${move.captured ? 'x' : ''}${squareName(move.to)}`;
+  }
+
+  const next = makeMove(position, move);
+  if (isInCheck(next)) {
+    san += generateLegalMoves(next).length === 0 ? '#' : '+';
+  }
+  return san;
+}
+
+const normalizeSAN = (san: string) => san.replace(/[+#!?=]/g, '').replace(/0/g, 'O');
+
+export function sanToMove(position: Position, san: string): Move {
+  const legalMoves = generateLegalMoves(position);
+  const wanted = normalizeSAN(san);
+  const move = legalMoves.find(candidate => normalizeSAN(moveToSAN(position, candidate, legalMoves)) === wanted);
+  if (!move) throw new Error(`Illegal move "${san}"`);
+  return move;
+}
+
+export function createGameState(startFen: string): GameState {
+  const positions = [parseFEN(startFen)];
+  const keys = positions.map(positionKey);
+  return { startFen, positions, keys, moves: [], ...getStatus(positions, keys) };
+}
+
+export function playMove(state: GameState, move: Move): GameState {
+  const position = state.positions[state.positions.length - 1];
+  const san = moveToSAN(position, move);
+  const next = makeMove(position, move);
+  const positions = [...state.positions, next];
+  const keys = [...state.keys, positionKey(next)];
+  return {
+    ...state,
+    positions,
+    keys,
+    moves: [...state.moves, { move, san }],
+    ...getStatus(positions, keys)
+  };
+}
+
+// Ends the game in the draw the player to move is entitled to claim, if any.
+export function claimDraw(state: GameState): GameState {
+  if (state.status !== 'playing') return state;
+  const claim = drawClaim(state.positions[state.positions.length - 1], state.keys);
+  return claim ? { ...state, status: claim, winner: null } : state;
+}
+
+export function getResult(state: GameState): string {
+  if (state.status === 'playing') return '*';
+  if (state.winner) return state.winner === 'w' ? '1-0' : '0-1';
+  return '1/2-1/2';
+}
+
+export function toPGN(state: GameState, players: { white: string; black: string }): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '.');
+  const result = getResult(state);
+  const start = state.positions[0];
+  const headers: [string, string][] = [
+    ['Event', 'Casual Game'],
+    ['Site', 'Exe Gaming Hub'],
+    ['Date', date],
+    ['White', players.white],
+    ['Black', players.black],
+    ['Result', result]
+  ];
+  if (toFEN(start) !== START_FEN) {
+    headers.push(['SetUp', '1'], ['FEN', toFEN(start)]);
+  }
+
+  const tokens: string[] = [];
+  state.moves.forEach(({ san }, index) => {
+    const position = state.positions[index];
+    if (position.turn === 'w') tokens.push(`${position.fullmoveNumber}.`);
+    else if (index === 0) tokens.push(`${position.fullmoveNumber}...`);
+    tokens.push(san);
+  });
+  tokens.push(result);
+
+  return `${headers.map(([key, value]) => `[${key} "${value}"]`).join('\n')}\n\n${tokens.join(' ')}\n`;
+}
+
+export function parsePGN(pgn: string): GameState {
+  const fenHeader = pgn.match(/\[FEN\s+"([^"]+)"\]/);
+  let state = createGameState(fenHeader ? fenHeader[1] : START_FEN);
+
+  let movetext = pgn
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/\{[^}]*\}/g, ' ')
+    .replace(/;[^\n]*/g, ' ')
+    .replace(/\$\d+/g, ' ');
+  // Strip (possibly nested) variations from the inside out.
+  while (/\([^()]*\)/.test(movetext)) movetext = movetext.replace(/\([^()]*\)/g, ' ');
+
+  const tokens = movetext
+    .split(/\s+/)
+    .map(token => token.replace(/^\d+\.+/, ''))
+    .filter(Boolean);
+
+  for (const san of tokens.filter(token => !RESULT_TOKENS.includes(token))) {
+    if (state.status !== 'playing') throw new Error(`Move "${san}" played after the game ended`);
+    const position = state.positions[state.positions.length - 1];
+    state = playMove(state, sanToMove(position, san));
+  }
+  // A game given as drawn where a draw could be claimed was claimed there.
+  return tokens.includes('1/2-1/2') ? claimDraw(state) : state;
+}
@@ -0,0 +1,292 @@
+import { Board, Color, GameStatus, Move, Piece, PieceType, Position, Square } from './types';
+
+type Step = [number, number];
+
+const KNIGHT_STEPS: Step[] = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const KING_STEPS: Step[] = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+const BISHOP_DIRECTIONS: Step[] = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const ROOK_DIRECTIONS: Step[] = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const PROMOTIONS: PieceType[] = ['q', 'r', 'b', 'n'];
+
+export const rowOf = (square: Square) => square >> 3;
+export const colOf = (square: Square) => square & 7;
+const toSquare = (row: number, col: number): Square => row * 8 + col;
+const inBounds = (row: number, col: number) => row >= 0 && row < 8 && col >= 0 && col < 8;
+
+export const opponent = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+
+export function isSquareAttacked(board: Board, square: Square, by: Color): boolean {
+  const row = rowOf(square);
+  const col = colOf(square);
+  const isPiece = (r: number, c: number, types: PieceType[]) => {
+    if (!inBounds(r, c)) return false;
+    const piece = board[toSquare(r, c)];
+    return piece !== null && piece.color === by && types.includes(piece.type);
+  };
+
+  // White pawns attack upwards (towards row 0), so they sit one row below the target.
+  const pawnRow = by === 'w' ? row + 1 : row - 1;
+  if (isPiece(pawnRow, col - 1, ['p']) || isPiece(pawnRow, col + 1, ['p'])) return true;
+
+  if (KNIGHT_STEPS.some(([dr, dc]) => isPiece(row + dr, col + dc, ['n']))) return true;
+  if (KING_STEPS.some(([dr, dc]) => isPiece(row + dr, col + dc, ['k']))) return true;
+
+  const slides = (directions: Step[], types: PieceType[]) =>
+    directions.some(([dr, dc]) => {
+      let r = row + dr;
+      let c = col + dc;
+      while (inBounds(r, c)) {
+        const piece = board[toSquare(r, c)];
+        if (piece) return piece.color === by && types.includes(piece.type);
+        r += dr;
+        c += dc;
+      }
+      return false;
+    });
+
+  return slides(BISHOP_DIRECTIONS, ['b', 'q']) || slides(ROOK_DIRECTIONS, ['r', 'q']);
+}
+
+export function findKing(board: Board, color: Color): Square {
+  return board.findIndex(piece => piece?.type === 'k' && piece.color === color);
+}
+
+export function isInCheck(position: Position, color: Color = position.turn): boolean {
+  const king = findKing(position.board, color);
+  return king !== -1 && isSquareAttacked(position.board, king, opponent(color));
+}
+
+function generatePseudoLegalMoves(position: Position): Move[] {
+  const { board, turn, castling, enPassant } = position;
+  const moves: Move[] = [];
+
+  const add = (from: Square, to: Square, piece: PieceType, extra: Partial<Move> = {}) => {
+    const target = board[to];
+    moves.push({ from, to, piece, ...(target ? { captured: target.type } : {}), ...extra });
+  };
+
+  board.forEach((piece, from) => {
+    if (!piece || piece.color !== turn) return;
+    const row = rowOf(from);
+    const col = colOf(from);
+
+    if (piece.type === 'p') {
+      const dir = turn === 'w' ? -1 : 1;
+      const startRow = turn === 'w' ? 6 : 1;
+      const lastRow = turn === 'w' ? 0 : 7;
+      const addPawnMove = (to: Square, extra: Partial<Move> = {}) => {
+        if (rowOf(to) === lastRow) {
+          PROMOTIONS.forEach(promotion => add(from, to, 'p', { ...extra, promotion }));
+        } else {
+          add(from, to, 'p', extra);
+        }
+      };
+
+      const one = toSquare(row + dir, col);
+      if (inBounds(row + dir, col) && !board[one]) {
+        addPawnMove(one);
+        const two = toSquare(row + 2 * dir, col);
+        if (row === startRow && !board[two]) add(from, two, 'p');
+      }
+
+      for (const dc of [-1, 1]) {
+        if (!inBounds(row + dir, col + dc)) continue;
+        const to = toSquare(row + dir, col + dc);
+        const target = board[to];
+        if (target && target.color !== turn) {
+          addPawnMove(to);
+        } else if (to === enPassant) {
+          add(from, to, 'p', { captured: 'p', isEnPassant: true });
+        }
+      }
+      return;
+    }
+
+    const jump = (steps: Step[]) => {
+      for (const [dr, dc] of steps) {
+        if (!inBounds(row + dr, col + dc)) continue;
+        const to = toSquare(row + dr, col + dc);
+        if (board[to]?.color !== turn) add(from, to, piece.type);
+      }
+    };
+
+    const slide = (directions: Step[]) => {
+      for (const [dr, dc] of directions) {
+        let r = row + dr;
+        let c = col + dc;
+        while (inBounds(r, c)) {
+          const to = toSquare(r, c);
+          if (board[to]?.color === turn) break;
+          add(from, to, piece.type);
+          if (board[to]) break;
+          r += dr;
+          c += dc;
+        }
+      }
+    };
+
+    switch (piece.type) {
+      case 'n':
+        jump(KNIGHT_STEPS);
+        break;
+      case 'b':
+        slide(BISHOP_DIRECTIONS);
+        break;
+      case 'r':
+        slide(ROOK_DIRECTIONS);
+        break;
+      case 'q':
+        slide([...BISHOP_DIRECTIONS, ...ROOK_DIRECTIONS]);
+        break;
+      case 'k':
+        jump(KING_STEPS);
+        break;
+    }
+  });
+
+  // Castling: the king may not start in, pass through or land on an attacked square.
+  const homeRow = turn === 'w' ? 7 : 0;
+  const king = toSquare(homeRow, 4);
+  const enemy = opponent(turn);
+  const canKingside = turn === 'w' ? castling.wK : castling.bK;
+  const canQueenside = turn === 'w' ? castling.wQ : castling.bQ;
+  const isRook = (square: Square) => board[square]?.type === 'r' && board[square]?.color === turn;
+
+  if (board[king]?.type === 'k' && board[king]?.color === turn && !isSquareAttacked(board, king, enemy)) {
+    if (
+      canKingside && isRook(king + 3) && !board[king + 1] && !board[king + 2] &&
+      !isSquareAttacked(board, king + 1, enemy) && !isSquareAttacked(board, king + 2, enemy)
+    ) {
+      moves.push({ from: king, to: king + 2, piece: 'k', castle: 'K' });
+    }
+    if (
+      canQueenside && isRook(king - 4) && !board[king - 1] && !board[king - 2] && !board[king - 3] &&
+      !isSquareAttacked(board, king - 1, enemy) && !isSquareAttacked(board, king - 2, enemy)
+    ) {
+      moves.push({ from: king, to: king - 2, piece: 'k', castle: 'Q' });
+    }
+  }
+
+  return moves;
+}
+
+const CORNER_RIGHTS: Record<number, keyof Position['castling']> = {
+  0: 'bQ',
+  7: 'bK',
+  56: 'wQ',
+  63: 'wK'
+};
+
+export function makeMove(position: Position, move: Move): Position {
+  const board = [...position.board];
+  const mover = board[move.from] as Piece;
+  const castling = { ...position.castling };
+
+  board[move.from] = null;
+  board[move.to] = move.promotion ? { color: mover.color, type: move.promotion } : mover;
+
+  if (move.isEnPassant) {
+    board[move.to + (mover.color === 'w' ? 8 : -8)] = null;
+  }
+
+  if (move.castle) {
+    const rookFrom = move.castle === 'K' ? move.from + 3 : move.from - 4;
+    const rookTo = move.castle === 'K' ? move.from + 1 : move.from - 1;
+    board[rookTo] = board[rookFrom];
+    board[rookFrom] = null;
+  }
+
+  if (mover.type === 'k') {
+    if (mover.color === 'w') {
+      castling.wK = false;
+      castling.wQ = false;
+    } else {
+      castling.bK = false;
+      castling.bQ = false;
+    }
+  }
+  for (const square of [move.from, move.to]) {
+    const right = CORNER_RIGHTS[square];
+    if (right) castling[right] = false;
+  }
+
+  const isDoublePush = mover.type === 'p' && Math.abs(move.to - move.from) === 16;
+
+  return {
+    board,
+    turn: opponent(position.turn),
+    castling,
+    enPassant: isDoublePush ? (move.from + move.to) / 2 : null,
+    halfmoveClock: mover.type === 'p' || move.captured ? 0 : position.halfmoveClock + 1,
+    fullmoveNumber: position.fullmoveNumber + (position.turn === 'b' ? 1 : 0)
+  };
+}
+
+export function generateLegalMoves(position: Position): Move[] {
+  return generatePseudoLegalMoves(position).filter(
+    move => !isInCheck(makeMove(position, move), position.turn)
+  );
+}
+
+export function hasInsufficientMaterial(board: Board): boolean {
+  const pieces = board
+    .map((piece, square) => ({ piece, square }))
+    .filter((entry): entry is { piece: Piece; square: Square } => entry.piece !== null && entry.piece.type !== 'k');
+
+  if (pieces.length === 0) return true;
+  if (pieces.length === 1) return pieces[0].piece.type === 'n' || pieces[0].piece.type === 'b';
+
+  // Only bishops, all on squares of the same colour.
+  const squareColor = (square: Square) => (rowOf(square) + colOf(square)) % 2;
+  return pieces.every(({ piece }) => piece.type === 'b') &&
+    pieces.every(({ square }) => squareColor(square) === squareColor(pieces[0].square));
+}
+
+// Identifies a position for repetition purposes: placement, side to move,
+// castling rights and en passant square, but not the move clocks. The en
+// passant square only counts when a capture there is actually legal.
+export function positionKey(position: Position): string {
+  const board = position.board.map(piece => {
+    if (!piece) return '.';
+    return piece.color === 'w' ? piece.type.toUpperCase() : piece.type;
+  }).join('');
+  const { wK, wQ, bK, bQ } = position.castling;
+  const enPassant = position.enPassant !== null && generateLegalMoves(position).some(move => move.isEnPassant)
+    ? position.enPassant
+    : '-';
+  return `${board} ${position.turn} ${+wK}${+wQ}${+bK}${+bQ} ${enPassant}`;
+}
+
+// Half-moves without a capture or pawn move after which a draw may be
+// claimed, and after which the game is drawn regardless.
+const FIFTY_MOVES = 100;
+const SEVENTY_FIVE_MOVES = 150;
+
+const repetitions = (keys: string[]) => keys.filter(key => key === keys[keys.length - 1]).length;
+
+// The draw the player to move may claim, if any. `keys` holds the
+// positionKey of every position so far, the current one last.
+export function drawClaim(position: Position, keys: string[]): 'threefold' | 'fifty-move' | null {
+  if (repetitions(keys) >= 3) return 'threefold';
+  if (position.halfmoveClock >= FIFTY_MOVES) return 'fifty-move';
+  return null;
+}
+
+// Threefold repetition and the 50-move rule only entitle a player to claim a
+// draw (see drawClaim); the game ends by itself at the fifth repetition or
+// after 75 moves.
+export function getStatus(positions: Position[], keys: string[]): { status: GameStatus; winner: Color | null } {
+  const position = positions[positions.length - 1];
+
+  if (generateLegalMoves(position).length === 0) {
+    return isInCheck(position)
+      ? { status: 'checkmate', winner: opponent(position.turn) }
+      : { status: 'stalemate', winner: null };
+  }
+
+  if (repetitions(keys) >= 5) return { status: 'fivefold', winner: null };
+  if (position.halfmoveClock >= SEVENTY_FIVE_MOVES) return { status: 'seventy-five-move', winner: null };
+  if (hasInsufficientMaterial(position.board)) return { status: 'insufficient', winner: null };
+
+  return { status: 'playing', winner: null };
+}
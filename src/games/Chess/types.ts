@@ -0,0 +1,100 @@
+import { Difficulty } from '../../types/game';
+
+export type { Difficulty };
+export type Color = 'w' | 'b';
+export type PieceType = 'p' | 'n' | 'b' | 'r' | 'q' | 'k';
+export type GameMode = 'pvp' | 'ai';
+
+export interface Piece {
+  color: Color;
+  type: PieceType;
+}
+
+// Squares are 0-63 in FEN order: 0 is a8, 7 is h8, 56 is a1 and 63 is h1.
+export type Square = number;
+export type Board = (Piece | null)[];
+
+export interface CastlingRights {
+  wK: boolean;
+  wQ: boolean;
+  bK: boolean;
+  bQ: boolean;
+}
+
+export interface Position {
+  board: Board;
+  turn: Color;
+  castling: CastlingRights;
+  enPassant: Square | null;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+export interface Move {
+  from: Square;
+  to: Square;
+  piece: PieceType;
+  captured?: PieceType;
+  promotion?: PieceType;
+  castle?: 'K' | 'Q';
+  isEnPassant?: boolean;
+}
+
+export type GameStatus =
+  | 'playing'
+  | 'checkmate'
+  | 'stalemate'
+  | 'threefold'
+  | 'fifty-move'
+  | 'fivefold'
+  | 'seventy-five-move'
+  | 'insufficient';
+
+export interface PlayedMove {
+  move: Move;
+  san: string;
+}
+
+export interface GameState {
+  startFen: string;
+  positions: Position[];
+  // positionKey of each position, worked out once as it is reached so
+  // repetitions are a string comparison.
+  keys: string[];
+  moves: PlayedMove[];
+  status: GameStatus;
+  winner: Color | null;
+}
+
+export interface EngineRequest {
+  id: number;
+  fen: string;
+  difficulty: Difficulty;
+}
+
+export interface EngineResponse {
+  id: number;
+  move: Move | null;
+}
+
+export const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+export const GAME_MODES: GameMode[] = ['pvp', 'ai'];
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+export const PLAYER_COLORS: Color[] = ['w', 'b'];
+export const PROMOTION_PIECES: PieceType[] = ['q', 'r', 'b', 'n'];
+
+export const PIECE_SYMBOLS: Record<Color, Record<PieceType, string>> = {
+  w: { k: '♔', q: '♕', r: '♖', b: '♗', n: '♘', p: '♙' },
+  b: { k: '♚', q: '♛', r: '♜', b: '♝', n: '♞', p: '♟' }
+};
+
+export const STATUS_MESSAGES: Record<Exclude<GameStatus, 'playing'>, string> = {
+  checkmate: 'Checkmate',
+  stalemate: 'Stalemate',
+  threefold: 'Draw by threefold repetition',
+  'fifty-move': 'Draw by the 50-move rule',
+  fivefold: 'Draw by fivefold repetition',
+  'seventy-five-move': 'Draw by the 75-move rule',
+  insufficient: 'Draw by insufficient material'
+};
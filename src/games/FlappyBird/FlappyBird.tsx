@@ -2,42 +2,70 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Trophy, RefreshCcw } from 'lucide-react';
 import {
-  Bird, Pipe, GameState, Difficulty,
-  CANVAS_WIDTH, CANVAS_HEIGHT, BIRD_WIDTH, BIRD_HEIGHT,
-  PIPE_WIDTH, PIPE_GAP, FLAP_STRENGTH, PIPE_SPEED,
-  DIFFICULTY_SETTINGS
+  Bird, BirdSkin, Pipe, GameState, Difficulty, BIRD_SKINS, DIFFICULTIES,
+  CANVAS_WIDTH, CANVAS_HEIGHT, BIRD_WIDTH, BIRD_HEIGHT, BIRD_X,
+  PIPE_WIDTH, DIFFICULTY_SETTINGS, TICK_MS, MAX_FRAME_MS
 } from './types';
-
-const birdImage = new Image();
-birdImage.src = 'https://raw.githubusercontent.com/sourabhv/FlapPyBird/master/assets/sprites/yellowbird-midflap.png';
-
-const initialBird: Bird = {
-  y: CANVAS_HEIGHT / 2,
-  velocity: 0,
-  rotation: 0
-};
-
-const createPipe = (): Pipe => ({
-  x: CANVAS_WIDTH,
-  topHeight: Math.random() * (CANVAS_HEIGHT - PIPE_GAP - 100) + 50,
-  passed: false
-});
-
-const initialState: GameState = {
-  bird: initialBird,
-  pipes: [],
-  score: 0,
-  highScore: 0,
-  isPlaying: false,
-  isGameOver: false,
-  difficulty: 'normal'
-};
+import { advanceTo, createGame, interpolate, step, FLAP_INPUT } from './engine';
+import { randomSeed } from '../../utils/random';
+import { Replay, ReplayInput, REPLAY_VERSION } from '../../utils/replay';
+import { useGameSetting, useHighScore } from '../../store/gameStore';
+import { useReplayPlayback } from '../../hooks/useReplayPlayback';
+import { useActions } from '../../hooks/useActions';
+import { useMusic } from '../../hooks/useAudio';
+import { playSound } from '../../utils/audio';
+import { announce } from '../../utils/announce';
+import { reportEvent, useUnlockedOptions } from '../../store/achievements';
+import { ReplayPanel } from '../../components/ReplayPanel';
+
+const REPLAY_GAME = 'flappy-bird';
+
+const birdImages = Object.fromEntries(BIRD_SKINS.map(skin => {
+  const image = new Image();
+  image.src = `https://raw.githubusercontent.com/sourabhv/FlapPyBird/master/assets/sprites/${skin}bird-midflap.png`;
+  return [skin, image];
+})) as Record<BirdSkin, HTMLImageElement>;
 
 const FlappyBird: React.FC = () => {
-  const [state, setState] = useState<GameState>(initialState);
+  const [difficulty, setDifficulty] = useGameSetting('difficulty', DIFFICULTIES, 'normal');
+  const skins = useUnlockedOptions('birdSkin', BIRD_SKINS);
+  const [skin, setSkin] = useGameSetting('skin', skins, 'yellow');
+  // The simulation lives in refs and advances in fixed ticks; React state only
+  // mirrors it when the score or status changes.
+  const [state, setState] = useState<GameState>(() => createGame(difficulty, randomSeed()));
+  const gameRef = useRef<GameState>(state);
+  const previousRef = useRef<GameState>(state);
+  const flapRef = useRef(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const frameRef = useRef<number>();
-  const lastPipeRef = useRef<number>(0);
+  const inputsRef = useRef<ReplayInput[]>([]);
+  const [lastRun, setLastRun] = useState<Replay | null>(null);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const replayRef = useRef<Replay | null>(null);
+  // Last rebuilt replay tick, so playing forward only simulates the new ticks.
+  const replayCacheRef = useRef<GameState | null>(null);
+  const playback = useReplayPlayback(replay, TICK_MS);
+
+  const [highScore, recordScore] = useHighScore(state.difficulty);
+
+  const startGame = useCallback((flap = false) => {
+    const game = createGame(difficulty, randomSeed());
+    gameRef.current = game;
+    previousRef.current = game;
+    flapRef.current = flap;
+    inputsRef.current = [];
+    setState(game);
+  }, [difficulty]);
+
+  useEffect(() => {
+    startGame();
+  }, [startGame]);
+
+  useEffect(() => {
+    if (state.isGameOver) recordScore(state.score);
+  }, [state.isGameOver, state.score, recordScore]);
+
+  useMusic(state.isPlaying && !state.isGameOver && !replay);
 
   const drawBackground = useCallback((ctx: CanvasRenderingContext2D) => {
     const gradient = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
@@ -63,19 +91,19 @@ const FlappyBird: React.FC = () => {
 
   const drawBird = useCallback((ctx: CanvasRenderingContext2D, bird: Bird) => {
     ctx.save();
-    ctx.translate(CANVAS_WIDTH / 4, bird.y);
+    ctx.translate(BIRD_X, bird.y);
     ctx.rotate(bird.rotation);
     ctx.drawImage(
-      birdImage,
+      birdImages[skin],
       -BIRD_WIDTH / 2,
       -BIRD_HEIGHT / 2,
       BIRD_WIDTH,
       BIRD_HEIGHT
     );
     ctx.restore();
-  }, []);
+  }, [skin]);
 
-  const drawPipe = useCallback((ctx: CanvasRenderingContext2D, pipe: Pipe) => {
+  const drawPipe = useCallback((ctx: CanvasRenderingContext2D, pipe: Pipe, pipeGap: number) => {
     const gradient = ctx.createLinearGradient(pipe.x, 0, pipe.x + PIPE_WIDTH, 0);
     gradient.addColorStop(0, '#2ECC71');
     gradient.addColorStop(1, '#27AE60');
@@ -83,21 +111,21 @@ const FlappyBird: React.FC = () => {
     // Top pipe
     ctx.fillStyle = gradient;
     ctx.fillRect(pipe.x, 0, PIPE_WIDTH, pipe.topHeight);
-    
+
     // Pipe cap
     ctx.fillStyle = '#2ECC71';
     ctx.fillRect(pipe.x - 3, pipe.topHeight - 20, PIPE_WIDTH + 6, 20);
 
     // Bottom pipe
     ctx.fillStyle = gradient;
-    const bottomPipeY = pipe.topHeight + DIFFICULTY_SETTINGS[state.difficulty].pipeGap;
+    const bottomPipeY = pipe.topHeight + pipeGap;
     ctx.fillRect(pipe.x, bottomPipeY, PIPE_WIDTH, CANVAS_HEIGHT - bottomPipeY);
-    
+
     // Pipe cap
     ctx.fillRect(pipe.x - 3, bottomPipeY, PIPE_WIDTH + 6, 20);
-  }, [state.difficulty]);
+  }, []);
 
-  const draw = useCallback(() => {
+  const draw = useCallback((view: GameState) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
@@ -109,8 +137,9 @@ const FlappyBird: React.FC = () => {
 
     // Draw scene
     drawBackground(ctx);
-    state.pipes.forEach(pipe => drawPipe(ctx, pipe));
-    drawBird(ctx, state.bird);
+    const { pipeGap } = DIFFICULTY_SETTINGS[view.difficulty];
+    view.pipes.forEach(pipe => drawPipe(ctx, pipe, pipeGap));
+    drawBird(ctx, view.bird);
 
     // Draw score
     ctx.fillStyle = 'white';
@@ -118,159 +147,131 @@ const FlappyBird: React.FC = () => {
     ctx.lineWidth = 4;
     ctx.font = 'bold 48px Arial';
     ctx.textAlign = 'center';
-    ctx.strokeText(state.score.toString(), CANVAS_WIDTH / 2, 80);
-    ctx.fillText(state.score.toString(), CANVAS_WIDTH / 2, 80);
-  }, [state, drawBackground, drawBird, drawPipe]);
-
-  const update = useCallback(() => {
-    if (!state.isPlaying || state.isGameOver) return;
-
-    setState(prev => {
-      const newState = { ...prev };
-      const settings = DIFFICULTY_SETTINGS[state.difficulty];
-
-      // Update bird
-      newState.bird = {
-        ...prev.bird,
-        y: prev.bird.y + prev.bird.velocity,
-        velocity: prev.bird.velocity + settings.gravity,
-        rotation: Math.min(Math.PI / 2, Math.max(-Math.PI / 4, prev.bird.velocity * 0.1))
-      };
-
-      // Update pipes
-      newState.pipes = prev.pipes
-        .map(pipe => ({
-          ...pipe,
-          x: pipe.x - PIPE_SPEED
-        }))
-        .filter(pipe => pipe.x + PIPE_WIDTH > 0);
-
-      // Add new pipes
-      const time = Date.now();
-      if (time - lastPipeRef.current > settings.pipeInterval) {
-        newState.pipes.push(createPipe());
-        lastPipeRef.current = time;
-      }
+    ctx.strokeText(view.score.toString(), CANVAS_WIDTH / 2, 80);
+    ctx.fillText(view.score.toString(), CANVAS_WIDTH / 2, 80);
+  }, [drawBackground, drawBird, drawPipe]);
 
-      // Check collisions and scoring
-      const birdBox = {
-        left: CANVAS_WIDTH / 4 - BIRD_WIDTH / 2,
-        right: CANVAS_WIDTH / 4 + BIRD_WIDTH / 2,
-        top: newState.bird.y - BIRD_HEIGHT / 2,
-        bottom: newState.bird.y + BIRD_HEIGHT / 2
-      };
-
-      // Ground and ceiling collision
-      if (birdBox.bottom > CANVAS_HEIGHT || birdBox.top < 0) {
-        return {
-          ...newState,
-          isGameOver: true,
-          highScore: Math.max(prev.score, prev.highScore)
-        };
+  // Runs as many fixed ticks as real time allows, then draws the blend of
+  // the last two so motion stays smooth at any refresh rate.
+  useEffect(() => {
+    let lastTime = performance.now();
+    let accumulator = 0;
+
+    const frame = (now: number) => {
+      const elapsed = Math.min(now - lastTime, MAX_FRAME_MS);
+      lastTime = now;
+
+      // Time spent watching a replay doesn't carry over into the live game.
+      if (replayRef.current) {
+        accumulator = 0;
+        frameRef.current = requestAnimationFrame(frame);
+        return;
       }
+      accumulator += elapsed;
 
-      // Pipe collisions and scoring
-      for (const pipe of newState.pipes) {
-        const pipeBox = {
-          left: pipe.x,
-          right: pipe.x + PIPE_WIDTH,
-          top: 0,
-          bottom: pipe.topHeight
-        };
-
-        const bottomPipeBox = {
-          left: pipe.x,
-          right: pipe.x + PIPE_WIDTH,
-          top: pipe.topHeight + settings.pipeGap,
-          bottom: CANVAS_HEIGHT
-        };
-
-        if (
-          (birdBox.right > pipeBox.left && birdBox.left < pipeBox.right) &&
-          (birdBox.top < pipeBox.bottom || birdBox.bottom > bottomPipeBox.top)
-        ) {
-          return {
-            ...newState,
-            isGameOver: true,
-            highScore: Math.max(prev.score, prev.highScore)
-          };
+      while (accumulator >= TICK_MS) {
+        const current = gameRef.current;
+        if (flapRef.current && !current.isGameOver) {
+          inputsRef.current.push([current.tick, FLAP_INPUT]);
+          playSound('flap');
+        }
+        previousRef.current = current;
+        gameRef.current = step(current, flapRef.current);
+        flapRef.current = false;
+        accumulator -= TICK_MS;
+        if (gameRef.current.score > current.score) {
+          playSound('score');
+          announce(`Score ${gameRef.current.score}`);
+          reportEvent({ type: 'flappy:pipe', score: gameRef.current.score });
         }
 
-        // Score point
-        if (!pipe.passed && pipe.x + PIPE_WIDTH < CANVAS_WIDTH / 4) {
-          pipe.passed = true;
-          newState.score += 1;
+        if (gameRef.current.isGameOver && !current.isGameOver) {
+          playSound('hit');
+          announce(`Game over. Score ${gameRef.current.score}`);
+          const { seed, difficulty, tick, score } = gameRef.current;
+          setLastRun({
+            version: REPLAY_VERSION,
+            game: REPLAY_GAME,
+            seed,
+            settings: { difficulty },
+            inputs: inputsRef.current,
+            length: tick,
+            score
+          });
         }
       }
 
-      return newState;
-    });
-  }, [state.isPlaying, state.isGameOver, state.difficulty]);
-
-  const gameLoop = useCallback(() => {
-    update();
-    draw();
-    frameRef.current = requestAnimationFrame(gameLoop);
-  }, [update, draw]);
-
-  const startGame = () => {
-    setState(prev => ({
-      ...initialState,
-      isPlaying: true,
-      highScore: prev.highScore,
-      difficulty: prev.difficulty
-    }));
-    lastPipeRef.current = Date.now();
-  };
+      const game = gameRef.current;
+      setState(prev => (
+        prev.score === game.score && prev.isPlaying === game.isPlaying && prev.isGameOver === game.isGameOver
+          ? prev
+          : game
+      ));
+      draw(interpolate(previousRef.current, game, accumulator / TICK_MS));
+      frameRef.current = requestAnimationFrame(frame);
+    };
 
-  const handleClick = () => {
-    if (state.isGameOver) {
-      startGame();
-      return;
-    }
+    frameRef.current = requestAnimationFrame(frame);
+    return () => {
+      if (frameRef.current) {
+        cancelAnimationFrame(frameRef.current);
+      }
+    };
+  }, [draw]);
 
-    if (!state.isPlaying) {
-      startGame();
-    }
+  useEffect(() => {
+    replayRef.current = replay;
+    replayCacheRef.current = null;
+  }, [replay]);
 
-    setState(prev => ({
-      ...prev,
-      bird: {
-        ...prev.bird,
-        velocity: FLAP_STRENGTH
-      }
-    }));
+  // Rebuilds the replay at the playback position from its seed and inputs.
+  useEffect(() => {
+    if (!replay) return;
+    const difficulty = DIFFICULTIES.includes(replay.settings.difficulty as Difficulty)
+      ? replay.settings.difficulty as Difficulty
+      : 'normal';
+    const flaps = new Set(replay.inputs.map(([tick]) => tick));
+    const tick = Math.floor(playback.position);
+
+    const cached = replayCacheRef.current;
+    const from = cached && cached.tick <= tick ? cached : createGame(difficulty, replay.seed);
+    const current = advanceTo(from, tick, flaps);
+    const next = advanceTo(current, tick + 1, flaps);
+    replayCacheRef.current = current;
+    draw(interpolate(current, next, playback.position - tick));
+  }, [replay, playback.position, draw]);
+
+  const watchReplay = (run: Replay) => {
+    setReplay(run);
   };
 
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (e.code === 'Space') {
-      e.preventDefault();
-      handleClick();
+  const exitReplay = () => {
+    setReplay(null);
+    startGame();
+  };
+
+  // Flaps are queued and applied on the next tick.
+  const handleClick = useCallback(() => {
+    if (replayRef.current) return;
+    if (gameRef.current.isGameOver) {
+      startGame(true);
+      return;
     }
-  }, []);
+    flapRef.current = true;
+  }, [startGame]);
 
-  useEffect(() => {
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleKeyDown]);
-
-  useEffect(() => {
-    frameRef.current = requestAnimationFrame(gameLoop);
-    return () => {
-      if (frameRef.current) {
-        cancelAnimationFrame(frameRef.current);
-      }
-    };
-  }, [gameLoop]);
+  const { pointerHandlers } = useActions(action => {
+    if (action === 'confirm' || action === 'up') handleClick();
+  });
 
   return (
     <div className="flex flex-col items-center justify-center w-full max-w-lg mx-auto p-4">
       <div className="w-full mb-8 flex items-center justify-between">
         <div className="flex gap-4">
-          {(['easy', 'normal', 'hard'] as Difficulty[]).map(diff => (
+          {DIFFICULTIES.map(diff => (
             <button
               key={diff}
-              onClick={() => setState(prev => ({ ...prev, difficulty: diff }))}
+              onClick={() => setDifficulty(diff)}
               className={`px-4 py-2 rounded-lg capitalize transition-colors
                 ${state.difficulty === diff
                   ? 'bg-purple-600 text-white'
@@ -283,10 +284,10 @@ const FlappyBird: React.FC = () => {
 
         <div className="flex items-center gap-4">
           <div className="text-lg font-semibold text-yellow-500">
-            High Score: {state.highScore}
+            High Score: {highScore}
           </div>
           <button
-            onClick={startGame}
+            onClick={() => startGame()}
             className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
           >
             <RefreshCcw size={24} className="dark:text-white" />
@@ -294,19 +295,38 @@ const FlappyBird: React.FC = () => {
         </div>
       </div>
 
+      {skins.length > 1 && (
+        <div className="flex gap-2 mb-4">
+          {skins.map(option => (
+            <button
+              key={option}
+              onClick={() => setSkin(option)}
+              className={`p-2 rounded-lg transition-colors
+                ${skin === option ? 'bg-purple-600' : 'bg-gray-200 dark:bg-gray-700'}`}
+              aria-label={`${option} bird`}
+              aria-pressed={skin === option}
+            >
+              <img src={birdImages[option].src} alt="" className="w-8 h-6" />
+            </button>
+          ))}
+        </div>
+      )}
+
       <div 
         className="relative rounded-lg shadow-lg overflow-hidden"
         style={{ width: CANVAS_WIDTH, height: CANVAS_HEIGHT }}
-        onClick={handleClick}
+        {...pointerHandlers}
       >
         <canvas
           ref={canvasRef}
           width={CANVAS_WIDTH}
           height={CANVAS_HEIGHT}
           className="rounded-lg"
+          role="img"
+          aria-label={`Flappy Bird. Score ${state.score}${state.isGameOver ? ', game over' : ''}`}
         />
 
-        {!state.isPlaying && !state.isGameOver && (
+        {!replay && !state.isPlaying && !state.isGameOver && (
           <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50">
             <div className="text-white text-center">
               <h2 className="text-2xl font-bold mb-4">Flappy Bird</h2>
@@ -316,7 +336,7 @@ const FlappyBird: React.FC = () => {
         )}
 
         <AnimatePresence>
-          {state.isGameOver && (
+          {!replay && state.isGameOver && (
             <motion.div
               initial={{ opacity: 0, scale: 0.5 }}
               animate={{ opacity: 1, scale: 1 }}
@@ -328,7 +348,10 @@ const FlappyBird: React.FC = () => {
                 <h2 className="text-2xl font-bold mb-2 dark:text-white">Game Over!</h2>
                 <p className="text-lg mb-4 dark:text-gray-300">Score: {state.score}</p>
                 <button
-                  onClick={startGame}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    startGame();
+                  }}
                   className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                 >
                   Play Again
@@ -339,6 +362,17 @@ const FlappyBird: React.FC = () => {
         </AnimatePresence>
       </div>
 
+      <div className="w-full mt-6">
+        <ReplayPanel
+          game={REPLAY_GAME}
+          replay={replay}
+          lastRun={lastRun}
+          playback={playback}
+          onWatch={watchReplay}
+          onExit={exitReplay}
+        />
+      </div>
+
       <div className="mt-8 text-center text-sm text-gray-600 dark:text-gray-400">
         <p>Click or press space to flap</p>
         <p className="mt-2">Avoid the pipes and try to get the highest score!</p>
@@ -0,0 +1,103 @@
+import { nextRandom } from '../../utils/random';
+import {
+  Bird, Difficulty, GameState, Pipe,
+  BIRD_HEIGHT, BIRD_WIDTH, BIRD_X, CANVAS_HEIGHT, CANVAS_WIDTH, DIFFICULTY_SETTINGS,
+  FLAP_STRENGTH, PIPE_SPEED, PIPE_WIDTH
+} from './types';
+
+export function createGame(difficulty: Difficulty, seed: number): GameState {
+  return {
+    bird: { y: CANVAS_HEIGHT / 2, velocity: 0, rotation: 0 },
+    pipes: [],
+    score: 0,
+    tick: 0,
+    nextPipeId: 0,
+    seed,
+    rngState: seed,
+    isPlaying: false,
+    isGameOver: false,
+    difficulty
+  };
+}
+
+// Returns the new pipe and the advanced RNG state.
+export function createPipe(id: number, pipeGap: number, rngState: number): [Pipe, number] {
+  const [value, nextState] = nextRandom(rngState);
+  return [{ id, x: CANVAS_WIDTH, topHeight: value * (CANVAS_HEIGHT - pipeGap - 100) + 50, passed: false }, nextState];
+}
+
+function hitsPipe(bird: Bird, pipe: Pipe, pipeGap: number): boolean {
+  const overlapsX = BIRD_X + BIRD_WIDTH / 2 > pipe.x && BIRD_X - BIRD_WIDTH / 2 < pipe.x + PIPE_WIDTH;
+  const top = bird.y - BIRD_HEIGHT / 2;
+  const bottom = bird.y + BIRD_HEIGHT / 2;
+  return overlapsX && (top < pipe.topHeight || bottom > pipe.topHeight + pipeGap);
+}
+
+// Advances the game by one fixed tick. A flap before the first tick starts
+// the game; nothing moves until then.
+export function step(state: GameState, flap: boolean): GameState {
+  if (state.isGameOver) return state;
+  if (!state.isPlaying && !flap) return state;
+
+  const settings = DIFFICULTY_SETTINGS[state.difficulty];
+  const tick = state.tick + 1;
+  const velocity = flap ? FLAP_STRENGTH : state.bird.velocity;
+
+  const bird: Bird = {
+    y: state.bird.y + velocity,
+    velocity: velocity + settings.gravity,
+    rotation: Math.min(Math.PI / 2, Math.max(-Math.PI / 4, velocity * 0.1))
+  };
+
+  let score = state.score;
+  const pipes = state.pipes
+    .map(pipe => {
+      const x = pipe.x - PIPE_SPEED;
+      const passed = pipe.passed || x + PIPE_WIDTH < BIRD_X;
+      if (passed && !pipe.passed) score++;
+      return { ...pipe, x, passed };
+    })
+    .filter(pipe => pipe.x + PIPE_WIDTH > 0);
+
+  let { rngState, nextPipeId } = state;
+  if (tick % settings.pipeInterval === 0) {
+    const [pipe, nextState] = createPipe(nextPipeId++, settings.pipeGap, rngState);
+    pipes.push(pipe);
+    rngState = nextState;
+  }
+
+  const outOfBounds = bird.y + BIRD_HEIGHT / 2 > CANVAS_HEIGHT || bird.y - BIRD_HEIGHT / 2 < 0;
+  const isGameOver = outOfBounds || pipes.some(pipe => hitsPipe(bird, pipe, settings.pipeGap));
+
+  return { ...state, bird, pipes, score, tick, nextPipeId, rngState, isPlaying: true, isGameOver };
+}
+
+const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
+
+// Blends two consecutive ticks for drawing between them.
+export function interpolate(previous: GameState, current: GameState, alpha: number): GameState {
+  if (previous.tick === current.tick) return current;
+  const previousX = new Map(previous.pipes.map(pipe => [pipe.id, pipe.x]));
+  return {
+    ...current,
+    bird: { ...current.bird, y: lerp(previous.bird.y, current.bird.y, alpha) },
+    pipes: current.pipes.map(pipe => ({
+      ...pipe,
+      x: lerp(previousX.get(pipe.id) ?? pipe.x, pipe.x, alpha)
+    }))
+  };
+}
+
+export const FLAP_INPUT = 'F';
+
+// Steps forward to `tick`, flapping on the ticks listed in `flaps`. Used to
+// rebuild any moment of a replay.
+export function advanceTo(state: GameState, tick: number, flaps: Set<number>): GameState {
+  let current = state;
+  while (current.tick < tick && !current.isGameOver) {
+    const next = step(current, flaps.has(current.tick));
+    if (next === current) break;
+    current = next;
+  }
+  return current;
+}
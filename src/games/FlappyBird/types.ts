@@ -1,5 +1,12 @@
 export type Difficulty = 'easy' | 'normal' | 'hard';
 
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+
+// Red and blue are achievement rewards.
+export type BirdSkin = 'yellow' | 'red' | 'blue';
+
+export const BIRD_SKINS: BirdSkin[] = ['yellow', 'red', 'blue'];
+
 export interface Bird {
   y: number;
   velocity: number;
@@ -7,16 +14,22 @@ export interface Bird {
 }
 
 export interface Pipe {
+  id: number;
   x: number;
   topHeight: number;
   passed: boolean;
 }
 
+// Everything the simulation needs, so a run is fully determined by its seed
+// and the ticks on which the player flapped.
 export interface GameState {
   bird: Bird;
   pipes: Pipe[];
   score: number;
-  highScore: number;
+  tick: number;
+  nextPipeId: number;
+  seed: number;
+  rngState: number;
   isPlaying: boolean;
   isGameOver: boolean;
   difficulty: Difficulty;
@@ -26,12 +39,22 @@ export const CANVAS_WIDTH = 360;
 export const CANVAS_HEIGHT = 640;
 export const BIRD_WIDTH = 34;
 export const BIRD_HEIGHT = 24;
+export const BIRD_X = CANVAS_WIDTH / 4;
 export const PIPE_WIDTH = 52;
 export const PIPE_GAP = 160;
 export const GRAVITY = 0.4;
 export const FLAP_STRENGTH = -7;
 export const PIPE_SPEED = 2;
 
+// The simulation always advances in steps of this length, whatever the
+// display's refresh rate. Per-tick constants above assume this rate.
+export const TICKS_PER_SECOND = 60;
+export const TICK_MS = 1000 / TICKS_PER_SECOND;
+// Longest stretch of real time simulated in one frame, so a backgrounded tab
+// doesn't fast-forward through a whole game when it comes back.
+export const MAX_FRAME_MS = 250;
+
+// pipeInterval is in ticks.
 export const DIFFICULTY_SETTINGS = {
   easy: {
     pipeGap: PIPE_GAP + 40,
@@ -48,4 +71,4 @@ export const DIFFICULTY_SETTINGS = {
     pipeInterval: 120,
     gravity: GRAVITY * 1.2
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Trophy, RefreshCcw, Undo2 } from 'lucide-react';
+import { Direction, GameState, Tile, BOARD_SIZES, TILE_COLORS, SUPER_TILE_COLOR } from './types';
+import { createGame, move } from './logic';
+import { useGameSetting, useHighScore } from '../../store/gameStore';
+import { useActions } from '../../hooks/useActions';
+import { playSound } from '../../utils/audio';
+import { reportEvent } from '../../store/achievements';
+import { InputAction } from '../../types/game';
+
+const ACTION_DIRECTIONS: Partial<Record<InputAction, Direction>> = {
+  up: 'UP',
+  down: 'DOWN',
+  left: 'LEFT',
+  right: 'RIGHT'
+};
+
+const FONT_SIZES: Record<number, string> = {
+  4: 'text-3xl',
+  5: 'text-2xl',
+  6: 'text-xl'
+};
+
+const cellStyle = (size: number, row: number, col: number) => ({
+  width: `${100 / size}%`,
+  height: `${100 / size}%`,
+  top: `${(row * 100) / size}%`,
+  left: `${(col * 100) / size}%`
+});
+
+// Tiles keep their id while they slide, so each stays mounted and animates to
+// its new cell. New tiles grow in and merged ones pop.
+const TileView: React.FC<{ tile: Tile; size: number }> = ({ tile, size }) => {
+  const { top, left, ...dimensions } = cellStyle(size, tile.row, tile.col);
+  const digits = String(tile.value).length;
+
+  return (
+    <motion.div
+      className="absolute p-1"
+      style={dimensions}
+      initial={tile.isNew ? { top, left, scale: 0 } : tile.isMerged ? { top, left } : false}
+      animate={{ top, left, scale: tile.isMerged ? [1.15, 1] : 1 }}
+      transition={{ duration: 0.12 }}
+    >
+      <div
+        className={`w-full h-full rounded-lg flex items-center justify-center font-bold shadow-sm
+          ${TILE_COLORS[tile.value] ?? SUPER_TILE_COLOR}
+          ${digits > 3 ? 'text-lg' : FONT_SIZES[size]}`}
+      >
+        {tile.value}
+      </div>
+    </motion.div>
+  );
+};
+
+const Game2048: React.FC = () => {
+  const [boardSize, setBoardSize] = useGameSetting('size', BOARD_SIZES, '4');
+  const size = Number(boardSize);
+  const [state, setState] = useState<GameState>(() => createGame(size));
+  const [history, setHistory] = useState<GameState[]>([]);
+  const [keepPlaying, setKeepPlaying] = useState(false);
+  const [bestScore, recordScore] = useHighScore(boardSize);
+
+  const resetGame = useCallback(() => {
+    setState(createGame(size));
+    setHistory([]);
+    setKeepPlaying(false);
+  }, [size]);
+
+  useEffect(() => {
+    resetGame();
+  }, [resetGame]);
+
+  useEffect(() => {
+    recordScore(state.score);
+  }, [state.score, recordScore]);
+
+  const showWinScreen = state.hasWon && !keepPlaying;
+
+  const handleMove = useCallback((direction: Direction) => {
+    if (state.isGameOver || showWinScreen) return;
+
+    const result = move(state, direction);
+    if (!result.moved) return;
+
+    const next = result.state;
+    if (next.hasWon && !state.hasWon) {
+      playSound('win');
+      reportEvent({ type: '2048:tile', value: Math.max(...next.tiles.map(tile => tile.value)) });
+    } else if (next.isGameOver) playSound('lose');
+    else playSound(next.score > state.score ? 'merge' : 'slide');
+
+    setHistory(prev => [...prev, state]);
+    setState(result.state);
+  }, [state, showWinScreen]);
+
+  const undo = () => {
+    if (history.length === 0) return;
+    setState(history[history.length - 1]);
+    setHistory(prev => prev.slice(0, -1));
+  };
+
+  const { pointerHandlers } = useActions(action => {
+    const direction = ACTION_DIRECTIONS[action];
+    if (direction) handleMove(direction);
+  });
+
+  return (
+    <div className="flex flex-col items-center justify-center w-full max-w-lg mx-auto p-4">
+      <div className="w-full mb-8 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex gap-4">
+          {BOARD_SIZES.map(option => (
+            <button
+              key={option}
+              onClick={() => setBoardSize(option)}
+              className={`px-4 py-2 rounded-lg transition-colors
+                ${boardSize === option
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+            >
+              {option}x{option}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={undo}
+            disabled={history.length === 0}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-40"
+            aria-label="Undo"
+          >
+            <Undo2 size={24} className="dark:text-white" />
+          </button>
+          <button
+            onClick={resetGame}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            aria-label="New game"
+          >
+            <RefreshCcw size={24} className="dark:text-white" />
+          </button>
+        </div>
+      </div>
+
+      <div className="w-full mb-4 flex justify-between">
+        <div className="text-lg font-semibold dark:text-white">Score: {state.score}</div>
+        <div className="text-lg font-semibold text-yellow-500">Best: {bestScore}</div>
+      </div>
+
+      <div
+        className="relative w-full aspect-square bg-stone-300 dark:bg-gray-700 rounded-xl p-2 touch-none"
+        {...pointerHandlers}
+      >
+        <div className="relative w-full h-full">
+          {Array.from({ length: size * size }, (_, index) => (
+            <div
+              key={index}
+              className="absolute p-1"
+              style={cellStyle(size, Math.floor(index / size), index % size)}
+            >
+              <div className="w-full h-full rounded-lg bg-stone-200 dark:bg-gray-600" />
+            </div>
+          ))}
+          {state.tiles.map(tile => (
+            <TileView key={tile.id} tile={tile} size={size} />
+          ))}
+        </div>
+
+        <AnimatePresence>
+          {(state.isGameOver || showWinScreen) && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.5 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.5 }}
+              className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 rounded-xl"
+            >
+              <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl text-center">
+                <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+                <h2 className="text-2xl font-bold mb-2 dark:text-white">
+                  {state.isGameOver ? 'Game Over!' : 'You made 2048!'}
+                </h2>
+                <p className="text-lg mb-4 dark:text-gray-300">Score: {state.score}</p>
+                <div className="flex gap-2 justify-center">
+                  {!state.isGameOver && (
+                    <button
+                      onClick={() => setKeepPlaying(true)}
+                      className="px-6 py-2 bg-gray-200 dark:bg-gray-700 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                    >
+                      Keep Going
+                    </button>
+                  )}
+                  <button
+                    onClick={resetGame}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Play Again
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <div className="mt-8 text-center text-sm text-gray-600 dark:text-gray-400">
+        <p>Use arrow keys, WASD or swipe to slide the tiles</p>
+        <p className="mt-2">Tiles with the same number merge into one. Reach 2048 to win!</p>
+      </div>
+    </div>
+  );
+};
+
+export default Game2048;
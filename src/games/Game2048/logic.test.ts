@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest';
+import { canMove, createGame, getEmptyCells, move, slide, spawnTile } from './logic';
+import { GameState, Tile, WINNING_VALUE } from './types';
+
+// Builds a board from rows of values, 0 for an empty cell.
+function board(rows: number[][], overrides: Partial<GameState> = {}): GameState {
+  const tiles: Tile[] = [];
+  let nextId = 1;
+  rows.forEach((values, row) => values.forEach((value, col) => {
+    if (value) tiles.push({ row, col, value, id: nextId++, isNew: false, isMerged: false });
+  }));
+  return { size: rows.length, tiles, score: 0, nextId, hasWon: false, isGameOver: false, ...overrides };
+}
+
+// The board as rows of values again, to compare against.
+function values(state: GameState): number[][] {
+  const rows = Array.from({ length: state.size }, () => Array<number>(state.size).fill(0));
+  for (const tile of state.tiles) rows[tile.row][tile.col] = tile.value;
+  return rows;
+}
+
+// Always picks the first empty cell and a 2.
+const firstCell = () => 0;
+
+describe('slide', () => {
+  it('slides tiles to the edge in each direction', () => {
+    const state = board([
+      [0, 2, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 4, 0],
+      [0, 0, 0, 0]
+    ]);
+    expect(values(slide(state, 'LEFT').state)).toEqual([
+      [2, 0, 0, 0],
+      [0, 0, 0, 0],
+      [4, 0, 0, 0],
+      [0, 0, 0, 0]
+    ]);
+    expect(values(slide(state, 'RIGHT').state)).toEqual([
+      [0, 0, 0, 2],
+      [0, 0, 0, 0],
+      [0, 0, 0, 4],
+      [0, 0, 0, 0]
+    ]);
+    expect(values(slide(state, 'UP').state)).toEqual([
+      [0, 2, 4, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0]
+    ]);
+    expect(values(slide(state, 'DOWN').state)).toEqual([
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 2, 4, 0]
+    ]);
+  });
+
+  it('merges equal neighbours and adds them to the score', () => {
+    const { state, moved } = slide(board([
+      [2, 2, 4, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0]
+    ]), 'LEFT');
+    expect(moved).toBe(true);
+    expect(values(state)[0]).toEqual([4, 4, 0, 0]);
+    expect(state.score).toBe(4);
+  });
+
+  it('merges each tile at most once per move', () => {
+    const { state } = slide(board([
+      [2, 2, 2, 2],
+      [4, 4, 8, 0],
+      [2, 2, 2, 0],
+      [0, 0, 0, 0]
+    ]), 'LEFT');
+    expect(values(state).slice(0, 3)).toEqual([
+      [4, 4, 0, 0],
+      [8, 8, 0, 0],
+      [4, 2, 0, 0]
+    ]);
+  });
+
+  it('merges the tiles nearest the edge first', () => {
+    const { state } = slide(board([
+      [2, 2, 2, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0]
+    ]), 'RIGHT');
+    expect(values(state)[0]).toEqual([0, 0, 2, 4]);
+  });
+
+  it('gives merged tiles a fresh id and marks them', () => {
+    const start = board([
+      [2, 2, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0]
+    ]);
+    const { state } = slide(start, 'LEFT');
+    expect(state.tiles).toEqual([{ row: 0, col: 0, value: 4, id: start.nextId, isNew: false, isMerged: true }]);
+    expect(state.nextId).toBe(start.nextId + 1);
+  });
+
+  it('keeps the ids of tiles that only slide', () => {
+    const start = board([
+      [0, 0, 0, 2],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0]
+    ]);
+    expect(slide(start, 'LEFT').state.tiles[0].id).toBe(start.tiles[0].id);
+  });
+
+  it('returns the same state when nothing can move', () => {
+    const start = board([
+      [2, 4, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0]
+    ]);
+    expect(slide(start, 'LEFT')).toEqual({ state: start, moved: false });
+  });
+
+  it('wins on making the winning tile and stays won', () => {
+    const half = WINNING_VALUE / 2;
+    const { state } = slide(board([
+      [half, half, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0]
+    ]), 'LEFT');
+    expect(state.hasWon).toBe(true);
+    expect(slide(state, 'RIGHT').state.hasWon).toBe(true);
+  });
+});
+
+describe('spawnTile', () => {
+  it('puts a new tile on an empty cell', () => {
+    const start = board([
+      [2, 0],
+      [0, 0]
+    ]);
+    const state = spawnTile(start, firstCell);
+    expect(state.tiles).toHaveLength(2);
+    expect(state.tiles[1]).toEqual({ row: 0, col: 1, value: 2, id: start.nextId, isNew: true, isMerged: false });
+    expect(getEmptyCells(state)).toHaveLength(2);
+  });
+
+  it('sometimes spawns a 4', () => {
+    const state = spawnTile(board([[0, 0], [0, 0]]), () => 0.95);
+    expect(state.tiles[0].value).toBe(4);
+  });
+
+  it('leaves a full board alone', () => {
+    const full = board([
+      [2, 4],
+      [4, 2]
+    ]);
+    expect(spawnTile(full, firstCell)).toBe(full);
+  });
+});
+
+describe('createGame', () => {
+  it('starts with two tiles', () => {
+    const state = createGame(4, firstCell);
+    expect(state.size).toBe(4);
+    expect(state.tiles).toHaveLength(2);
+    expect(state.score).toBe(0);
+  });
+});
+
+describe('canMove', () => {
+  it('can move while a cell is empty', () => {
+    expect(canMove(board([[2, 4], [4, 0]]))).toBe(true);
+  });
+
+  it('can move on a full board with equal neighbours', () => {
+    expect(canMove(board([[2, 4], [2, 8]]))).toBe(true);
+    expect(canMove(board([[2, 2], [4, 8]]))).toBe(true);
+  });
+
+  it('is stuck on a full board without equal neighbours', () => {
+    expect(canMove(board([[2, 4], [4, 2]]))).toBe(false);
+  });
+});
+
+describe('move', () => {
+  it('slides and then spawns a tile', () => {
+    const { state, moved } = move(board([
+      [0, 0, 0, 2],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0]
+    ]), 'LEFT', firstCell);
+    expect(moved).toBe(true);
+    expect(values(state)[0]).toEqual([2, 2, 0, 0]);
+  });
+
+  it('does not spawn when nothing moved', () => {
+    const start = board([
+      [2, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0]
+    ]);
+    expect(move(start, 'LEFT', firstCell)).toEqual({ state: start, moved: false });
+  });
+
+  it('keeps going while the new tile leaves a move', () => {
+    const { state } = move(board([
+      [4, 8, 16],
+      [8, 16, 4],
+      [2, 4, 0]
+    ]), 'RIGHT', firstCell);
+    expect(values(state)).toEqual([
+      [4, 8, 16],
+      [8, 16, 4],
+      [2, 2, 4]
+    ]);
+    expect(state.isGameOver).toBe(false);
+  });
+
+  it('ends the game when the new tile leaves no move', () => {
+    const { state } = move(board([
+      [2, 4, 8],
+      [4, 8, 2],
+      [32, 16, 0]
+    ]), 'RIGHT', firstCell);
+    expect(values(state)).toEqual([
+      [2, 4, 8],
+      [4, 8, 2],
+      [2, 32, 16]
+    ]);
+    expect(state.isGameOver).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import { Direction, GameState, Position, Tile, WINNING_VALUE } from './types';
+
+type Random = () => number;
+
+export interface MoveResult {
+  state: GameState;
+  moved: boolean;
+}
+
+// Cells of every row/column ordered from the edge the tiles slide towards.
+function getLines(size: number, direction: Direction): Position[][] {
+  const lines: Position[][] = [];
+  for (let i = 0; i < size; i++) {
+    const line: Position[] = [];
+    for (let j = 0; j < size; j++) {
+      switch (direction) {
+        case 'LEFT':
+          line.push({ row: i, col: j });
+          break;
+        case 'RIGHT':
+          line.push({ row: i, col: size - 1 - j });
+          break;
+        case 'UP':
+          line.push({ row: j, col: i });
+          break;
+        case 'DOWN':
+          line.push({ row: size - 1 - j, col: i });
+          break;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export function getEmptyCells(state: GameState): Position[] {
+  const occupied = new Set(state.tiles.map(tile => tile.row * state.size + tile.col));
+  const cells: Position[] = [];
+  for (let row = 0; row < state.size; row++) {
+    for (let col = 0; col < state.size; col++) {
+      if (!occupied.has(row * state.size + col)) cells.push({ row, col });
+    }
+  }
+  return cells;
+}
+
+export function spawnTile(state: GameState, random: Random = Math.random): GameState {
+  const empty = getEmptyCells(state);
+  if (empty.length === 0) return state;
+
+  const cell = empty[Math.floor(random() * empty.length)];
+  const tile: Tile = {
+    ...cell,
+    id: state.nextId,
+    value: random() < 0.9 ? 2 : 4,
+    isNew: true,
+    isMerged: false
+  };
+  return { ...state, tiles: [...state.tiles, tile], nextId: state.nextId + 1 };
+}
+
+export function createGame(size: number, random: Random = Math.random): GameState {
+  const empty: GameState = {
+    size,
+    tiles: [],
+    score: 0,
+    nextId: 1,
+    hasWon: false,
+    isGameOver: false
+  };
+  return spawnTile(spawnTile(empty, random), random);
+}
+
+// Slides and merges tiles without spawning a new one. Each tile merges at most
+// once per move, and merged tiles get a fresh id so the UI can animate them.
+export function slide(state: GameState, direction: Direction): MoveResult {
+  const grid = new Map(state.tiles.map(tile => [tile.row * state.size + tile.col, tile]));
+  const tiles: Tile[] = [];
+  let { score, nextId } = state;
+  let moved = false;
+
+  for (const line of getLines(state.size, direction)) {
+    const lineTiles = line
+      .map(({ row, col }) => grid.get(row * state.size + col))
+      .filter((tile): tile is Tile => Boolean(tile));
+
+    let target = 0;
+    for (let i = 0; i < lineTiles.length; i++) {
+      const tile = lineTiles[i];
+      const next = lineTiles[i + 1];
+      const position = line[target++];
+
+      if (next && next.value === tile.value) {
+        const value = tile.value * 2;
+        tiles.push({ ...position, id: nextId++, value, isNew: false, isMerged: true });
+        score += value;
+        moved = true;
+        i++;
+      } else {
+        if (tile.row !== position.row || tile.col !== position.col) moved = true;
+        tiles.push({ ...tile, ...position, isNew: false, isMerged: false });
+      }
+    }
+  }
+
+  if (!moved) return { state, moved };
+
+  return {
+    state: {
+      ...state,
+      tiles,
+      score,
+      nextId,
+      hasWon: state.hasWon || tiles.some(tile => tile.value >= WINNING_VALUE)
+    },
+    moved
+  };
+}
+
+export function canMove(state: GameState): boolean {
+  if (getEmptyCells(state).length > 0) return true;
+
+  const values = new Map(state.tiles.map(tile => [tile.row * state.size + tile.col, tile.value]));
+  for (const tile of state.tiles) {
+    const right = tile.col + 1 < state.size ? values.get(tile.row * state.size + tile.col + 1) : undefined;
+    const below = tile.row + 1 < state.size ? values.get((tile.row + 1) * state.size + tile.col) : undefined;
+    if (right === tile.value || below === tile.value) return true;
+  }
+  return false;
+}
+
+// A full turn: slide, then spawn a tile and check for game over if anything moved.
+export function move(state: GameState, direction: Direction, random: Random = Math.random): MoveResult {
+  const result = slide(state, direction);
+  if (!result.moved) return result;
+
+  const next = spawnTile(result.state, random);
+  return { state: { ...next, isGameOver: !canMove(next) }, moved: true };
+}
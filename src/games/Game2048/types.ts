@@ -0,0 +1,42 @@
+export type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
+export type BoardSize = '4' | '5' | '6';
+
+export interface Position {
+  row: number;
+  col: number;
+}
+
+export interface Tile extends Position {
+  id: number;
+  value: number;
+  isNew: boolean;
+  isMerged: boolean;
+}
+
+export interface GameState {
+  size: number;
+  tiles: Tile[];
+  score: number;
+  nextId: number;
+  hasWon: boolean;
+  isGameOver: boolean;
+}
+
+export const BOARD_SIZES: BoardSize[] = ['4', '5', '6'];
+export const WINNING_VALUE = 2048;
+
+export const TILE_COLORS: Record<number, string> = {
+  2: 'bg-amber-50 text-gray-700',
+  4: 'bg-amber-100 text-gray-700',
+  8: 'bg-orange-300 text-white',
+  16: 'bg-orange-400 text-white',
+  32: 'bg-orange-500 text-white',
+  64: 'bg-red-500 text-white',
+  128: 'bg-yellow-300 text-white',
+  256: 'bg-yellow-400 text-white',
+  512: 'bg-yellow-500 text-white',
+  1024: 'bg-amber-500 text-white',
+  2048: 'bg-amber-600 text-white'
+};
+
+export const SUPER_TILE_COLOR = 'bg-gray-900 text-white';
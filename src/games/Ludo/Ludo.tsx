@@ -0,0 +1,316 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RefreshCcw, Trophy, Star, Dice1, Dice2, Dice3, Dice4, Dice5, Dice6, Play } from 'lucide-react';
+import {
+  Cell, GameState, Seat, PlayerColor,
+  COLORS, CONTROLLERS, STRATEGIES, DIFFICULTIES, COLOR_STYLES, SAFE_SQUARES, START_OFFSETS,
+  BOT_DELAY, STEP_DURATION
+} from './types';
+import { TRACK, HOME_COLUMNS, tokenCell } from './board';
+import { createGame, currentSeat, getMovableTokens, isGameOver, playRoll, rollDice } from './rules';
+import { chooseToken } from './bots';
+import { randomSeed } from '../../utils/random';
+import { reportEvent } from '../../store/achievements';
+
+const DICE_ICONS = [Dice1, Dice2, Dice3, Dice4, Dice5, Dice6];
+const BOARD_SIZE = 15;
+
+const defaultSeats: Seat[] = [
+  { color: 'red', controller: 'human', strategy: 'aggressive', difficulty: 'normal' },
+  { color: 'green', controller: 'bot', strategy: 'aggressive', difficulty: 'normal' },
+  { color: 'yellow', controller: 'bot', strategy: 'safe', difficulty: 'normal' },
+  { color: 'blue', controller: 'bot', strategy: 'racing', difficulty: 'normal' }
+];
+
+const cellKey = ([row, col]: Cell) => `${row},${col}`;
+const trackCells = new Map(TRACK.map((cell, index) => [cellKey(cell), index]));
+const homeColumnCells = new Map(
+  COLORS.flatMap(color => HOME_COLUMNS[color].map(cell => [cellKey(cell), color] as const))
+);
+const startCells = new Map(COLORS.map(color => [START_OFFSETS[color], color]));
+
+const getCellClass = (row: number, col: number): string => {
+  if (row < 6 && col < 6) return COLOR_STYLES.red.light;
+  if (row < 6 && col > 8) return COLOR_STYLES.green.light;
+  if (row > 8 && col > 8) return COLOR_STYLES.yellow.light;
+  if (row > 8 && col < 6) return COLOR_STYLES.blue.light;
+  if (row >= 6 && row <= 8 && col >= 6 && col <= 8) return 'bg-gray-300 dark:bg-gray-600';
+
+  const homeColor = homeColumnCells.get(cellKey([row, col]));
+  if (homeColor) return COLOR_STYLES[homeColor].fill;
+
+  const trackIndex = trackCells.get(cellKey([row, col]));
+  const startColor = trackIndex !== undefined ? startCells.get(trackIndex) : undefined;
+  if (startColor) return COLOR_STYLES[startColor].fill;
+
+  return 'bg-white dark:bg-gray-800';
+};
+
+const toPercent = (value: number) => `${(value / BOARD_SIZE) * 100}%`;
+
+const Ludo: React.FC = () => {
+  const [seats, setSeats] = useState<Seat[]>(defaultSeats);
+  const [seedInput, setSeedInput] = useState('');
+  const [state, setState] = useState<GameState>(() => createGame(defaultSeats, randomSeed()));
+  const [shownDice, setShownDice] = useState(1);
+  const [showSetup, setShowSetup] = useState(true);
+
+  const seat = currentSeat(state);
+  const movable = getMovableTokens(state);
+  const gameOver = isGameOver(state);
+  const activeSeats = seats.filter(s => s.controller !== 'off').length;
+
+  useEffect(() => {
+    if (state.dice !== null) setShownDice(state.dice);
+  }, [state.dice]);
+
+  // Counts only a human getting home first with a bot in the race.
+  const firstHome = state.winners[0];
+  useEffect(() => {
+    if (!firstHome) return;
+    const isHuman = state.seats.find(s => s.color === firstHome)?.controller === 'human';
+    if (isHuman && state.seats.some(s => s.controller === 'bot')) reportEvent({ type: 'ludo:won' });
+  }, [firstHome, state.seats]);
+
+  // Drives bots and skips rolls that have no legal move.
+  useEffect(() => {
+    if (showSetup || gameOver) return;
+
+    if (seat.controller === 'bot') {
+      const timer = setTimeout(() => {
+        setState(prev => {
+          if (prev.dice === null) return rollDice(prev);
+          const { strategy, difficulty } = currentSeat(prev);
+          return playRoll(prev, chooseToken(prev, strategy, difficulty));
+        });
+      }, BOT_DELAY);
+      return () => clearTimeout(timer);
+    }
+
+    if (state.dice !== null && movable.length === 0) {
+      const timer = setTimeout(() => setState(prev => playRoll(prev, null)), BOT_DELAY * 1.5);
+      return () => clearTimeout(timer);
+    }
+  }, [state, seat, movable.length, gameOver, showSetup]);
+
+  const startGame = () => {
+    const parsedSeed = Number.parseInt(seedInput, 10);
+    const seed = Number.isNaN(parsedSeed) ? randomSeed() : parsedSeed;
+    setState(createGame(seats, seed));
+    setSeedInput(String(seed));
+    setShowSetup(false);
+  };
+
+  const handleRoll = () => {
+    if (seat.controller !== 'human' || state.dice !== null || gameOver) return;
+    setState(prev => rollDice(prev));
+  };
+
+  const handleTokenClick = (color: PlayerColor, token: number) => {
+    if (seat.controller !== 'human' || color !== seat.color || !movable.includes(token)) return;
+    setState(prev => playRoll(prev, token));
+  };
+
+  const updateSeat = (color: PlayerColor, changes: Partial<Seat>) => {
+    setSeats(prev => prev.map(s => (s.color === color ? { ...s, ...changes } : s)));
+  };
+
+  // Tokens sharing a square are nudged apart so all of them stay visible.
+  const renderTokens = () => {
+    const occupancy = new Map<string, number>();
+    return state.seats.flatMap(({ color }) =>
+      state.tokens[color].map((progress, token) => {
+        const cell = tokenCell(color, token, progress);
+        const key = cellKey(cell);
+        const stackIndex = occupancy.get(key) ?? 0;
+        occupancy.set(key, stackIndex + 1);
+        const offset = stackIndex * 0.18;
+
+        const isMoving = state.lastMove?.color === color && state.lastMove.token === token;
+        const path = isMoving ? state.lastMove!.path : [cell];
+        const isMovable = seat.controller === 'human' && seat.color === color && movable.includes(token);
+
+        return (
+          <motion.button
+            key={`${color}-${token}-${isMoving ? state.lastMove!.turn : 'idle'}`}
+            className={`absolute z-10 flex items-center justify-center ${isMovable ? 'cursor-pointer' : 'cursor-default'}`}
+            style={{ width: toPercent(1), height: toPercent(1) }}
+            initial={{ top: toPercent(path[0][0] + offset), left: toPercent(path[0][1] + offset) }}
+            animate={{
+              top: path.map(([row]) => toPercent(row + offset)),
+              left: path.map(([, col]) => toPercent(col + offset))
+            }}
+            transition={{ duration: Math.max(0.2, path.length * STEP_DURATION), ease: 'linear' }}
+            onClick={() => handleTokenClick(color, token)}
+            aria-label={`${color} token ${token + 1}`}
+          >
+            <span
+              className={`w-3/4 h-3/4 rounded-full border-2 border-white shadow-md ${COLOR_STYLES[color].fill}
+                ${isMovable ? 'animate-pulse ring-2 ring-offset-1 ring-gray-900 dark:ring-white' : ''}`}
+            />
+          </motion.button>
+        );
+      })
+    );
+  };
+
+  const DiceIcon = DICE_ICONS[shownDice - 1];
+
+  return (
+    <div className="flex flex-col lg:flex-row items-start justify-center w-full max-w-5xl mx-auto p-4 gap-8">
+      <div className="w-full max-w-xl mx-auto">
+        <div className="w-full mb-6 flex items-center justify-end">
+          <button
+            onClick={() => setShowSetup(true)}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            aria-label="New game"
+          >
+            <RefreshCcw size={24} className="dark:text-white" />
+          </button>
+        </div>
+
+        <div className="relative w-full aspect-square rounded-lg overflow-hidden shadow-lg">
+          <div className="absolute inset-0 grid grid-cols-[repeat(15,minmax(0,1fr))]">
+            {Array.from({ length: BOARD_SIZE * BOARD_SIZE }, (_, i) => {
+              const row = Math.floor(i / BOARD_SIZE);
+              const col = i % BOARD_SIZE;
+              const trackIndex = trackCells.get(cellKey([row, col]));
+              const isStar = trackIndex !== undefined && SAFE_SQUARES.includes(trackIndex) && !startCells.has(trackIndex);
+              const isPath = trackIndex !== undefined || homeColumnCells.has(cellKey([row, col]));
+
+              return (
+                <div
+                  key={i}
+                  className={`flex items-center justify-center ${getCellClass(row, col)}
+                    ${isPath ? 'border border-gray-300 dark:border-gray-700' : ''}`}
+                >
+                  {isStar && <Star className="w-3/5 h-3/5 text-gray-400" />}
+                </div>
+              );
+            })}
+          </div>
+          {renderTokens()}
+
+          <AnimatePresence>
+            {(showSetup || gameOver) && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.8 }}
+                className="absolute inset-0 z-20 flex items-center justify-center bg-black bg-opacity-50"
+              >
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl w-96 max-w-full">
+                  {gameOver && !showSetup ? (
+                    <div className="text-center">
+                      <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+                      <h2 className={`text-2xl font-bold mb-4 capitalize ${COLOR_STYLES[state.winners[0]].text}`}>
+                        {state.winners[0]} Wins!
+                      </h2>
+                      <button
+                        onClick={() => setShowSetup(true)}
+                        className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        Play Again
+                      </button>
+                    </div>
+                  ) : (
+                    <>
+                      <h2 className="text-xl font-bold mb-4 dark:text-white">Seats</h2>
+                      <div className="space-y-2 mb-4">
+                        {seats.map(s => (
+                          <div key={s.color} className="flex items-center gap-2">
+                            <span className={`w-4 h-4 rounded-full ${COLOR_STYLES[s.color].fill}`} />
+                            <select
+                              value={s.controller}
+                              onChange={(e) => updateSeat(s.color, { controller: e.target.value as Seat['controller'] })}
+                              className="flex-1 p-1 rounded bg-gray-100 dark:bg-gray-700 dark:text-white capitalize"
+                            >
+                              {CONTROLLERS.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                            <select
+                              value={s.strategy}
+                              disabled={s.controller !== 'bot'}
+                              onChange={(e) => updateSeat(s.color, { strategy: e.target.value as Seat['strategy'] })}
+                              className="flex-1 p-1 rounded bg-gray-100 dark:bg-gray-700 dark:text-white capitalize disabled:opacity-40"
+                            >
+                              {STRATEGIES.map(st => <option key={st} value={st}>{st}</option>)}
+                            </select>
+                            <select
+                              value={s.difficulty}
+                              disabled={s.controller !== 'bot'}
+                              onChange={(e) => updateSeat(s.color, { difficulty: e.target.value as Seat['difficulty'] })}
+                              className="flex-1 p-1 rounded bg-gray-100 dark:bg-gray-700 dark:text-white capitalize disabled:opacity-40"
+                            >
+                              {DIFFICULTIES.map(diff => <option key={diff} value={diff}>{diff}</option>)}
+                            </select>
+                          </div>
+                        ))}
+                      </div>
+                      <label className="flex items-center gap-2 mb-4 text-sm dark:text-gray-300">
+                        Seed
+                        <input
+                          value={seedInput}
+                          onChange={(e) => setSeedInput(e.target.value.replace(/[^\d-]/g, ''))}
+                          placeholder="random"
+                          className="flex-1 p-1 rounded bg-gray-100 dark:bg-gray-700 dark:text-white font-mono"
+                        />
+                      </label>
+                      <button
+                        onClick={startGame}
+                        disabled={activeSeats < 2}
+                        className="w-full flex items-center justify-center gap-2 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-40"
+                      >
+                        <Play size={18} /> Start
+                      </button>
+                      {activeSeats < 2 && (
+                        <p className="mt-2 text-sm text-red-600">At least two seats must be taken.</p>
+                      )}
+                    </>
+                  )}
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      </div>
+
+      <div className="w-full lg:w-64 flex flex-col items-center gap-4">
+        <div className={`text-xl font-semibold capitalize ${COLOR_STYLES[seat.color].text}`}>
+          {seat.color}'s turn {seat.controller === 'bot' && `(${seat.difficulty} ${seat.strategy} bot)`}
+        </div>
+        <motion.button
+          key={state.turn}
+          onClick={handleRoll}
+          disabled={seat.controller !== 'human' || state.dice !== null || gameOver}
+          initial={{ rotate: -90, scale: 0.8 }}
+          animate={{ rotate: 0, scale: 1 }}
+          className="p-4 rounded-xl bg-white dark:bg-gray-800 shadow-lg disabled:cursor-default"
+          aria-label="Roll dice"
+        >
+          <DiceIcon className={`w-16 h-16 ${COLOR_STYLES[seat.color].text}`} />
+        </motion.button>
+        <p className="text-sm text-gray-600 dark:text-gray-400 text-center">
+          {seat.controller === 'human'
+            ? state.dice === null
+              ? 'Click the dice to roll'
+              : movable.length > 0 ? 'Pick a token to move' : 'No moves available'
+            : 'Bot is playing…'}
+        </p>
+        {state.winners.length > 0 && (
+          <ol className="text-sm dark:text-gray-300">
+            {state.winners.map((color, place) => (
+              <li key={color} className="capitalize">{place + 1}. {color}</li>
+            ))}
+          </ol>
+        )}
+        <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">Seed: {state.seed}</p>
+        <div className="text-sm text-gray-600 dark:text-gray-400 text-center space-y-1">
+          <p>Roll a 6 to bring a token out. Sixes, captures and reaching home earn another roll.</p>
+          <p>Starred and start squares are safe from capture.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Ludo;
@@ -0,0 +1,63 @@
+import { Cell, PlayerColor, HOME, LAST_TRACK_STEP, START_OFFSETS, TRACK_LENGTH } from './types';
+
+// The shared 52-square loop on a 15x15 board, starting at red's start square
+// and running clockwise.
+export const TRACK: Cell[] = [
+  [6, 1], [6, 2], [6, 3], [6, 4], [6, 5],
+  [5, 6], [4, 6], [3, 6], [2, 6], [1, 6], [0, 6],
+  [0, 7],
+  [0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8],
+  [6, 9], [6, 10], [6, 11], [6, 12], [6, 13], [6, 14],
+  [7, 14],
+  [8, 14], [8, 13], [8, 12], [8, 11], [8, 10], [8, 9],
+  [9, 8], [10, 8], [11, 8], [12, 8], [13, 8], [14, 8],
+  [14, 7],
+  [14, 6], [13, 6], [12, 6], [11, 6], [10, 6], [9, 6],
+  [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0],
+  [7, 0],
+  [6, 0]
+];
+
+export const HOME_COLUMNS: Record<PlayerColor, Cell[]> = {
+  red: [[7, 1], [7, 2], [7, 3], [7, 4], [7, 5]],
+  green: [[1, 7], [2, 7], [3, 7], [4, 7], [5, 7]],
+  yellow: [[7, 13], [7, 12], [7, 11], [7, 10], [7, 9]],
+  blue: [[13, 7], [12, 7], [11, 7], [10, 7], [9, 7]]
+};
+
+export const HOME_CELLS: Record<PlayerColor, Cell> = {
+  red: [7, 6],
+  green: [6, 7],
+  yellow: [7, 8],
+  blue: [8, 7]
+};
+
+export const YARDS: Record<PlayerColor, Cell[]> = {
+  red: [[1.5, 1.5], [1.5, 3.5], [3.5, 1.5], [3.5, 3.5]],
+  green: [[1.5, 10.5], [1.5, 12.5], [3.5, 10.5], [3.5, 12.5]],
+  yellow: [[10.5, 10.5], [10.5, 12.5], [12.5, 10.5], [12.5, 12.5]],
+  blue: [[10.5, 1.5], [10.5, 3.5], [12.5, 1.5], [12.5, 3.5]]
+};
+
+// Index on the shared loop, or null for tokens in the yard, home column or home.
+export function trackIndex(color: PlayerColor, progress: number): number | null {
+  if (progress < 0 || progress > LAST_TRACK_STEP) return null;
+  return (START_OFFSETS[color] + progress) % TRACK_LENGTH;
+}
+
+export function tokenCell(color: PlayerColor, token: number, progress: number): Cell {
+  if (progress < 0) return YARDS[color][token];
+  if (progress >= HOME) return HOME_CELLS[color];
+  if (progress > LAST_TRACK_STEP) return HOME_COLUMNS[color][progress - LAST_TRACK_STEP - 1];
+  return TRACK[trackIndex(color, progress)!];
+}
+
+// Every cell a token passes through, used to animate it square by square.
+export function movePath(color: PlayerColor, token: number, from: number, to: number): Cell[] {
+  if (from < 0) return [YARDS[color][token], tokenCell(color, token, to)];
+  const path: Cell[] = [];
+  for (let progress = from; progress <= to; progress++) {
+    path.push(tokenCell(color, token, progress));
+  }
+  return path;
+}
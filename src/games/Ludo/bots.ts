@@ -0,0 +1,85 @@
+import { Rng } from '../../utils/random';
+import { BotStrategy, Difficulty, GameState, HOME, LAST_TRACK_STEP, TRACK_LENGTH } from './types';
+import { capturesAt, currentSeat, getMovableTokens, isSafeSquare, landingProgress } from './rules';
+import { trackIndex } from './board';
+
+interface MoveFeatures {
+  capture: number;
+  leaveYard: number;
+  reachHome: number;
+  enterHomeColumn: number;
+  landSafe: number;
+  danger: number;
+  escape: number;
+  progress: number;
+}
+
+const STRATEGY_WEIGHTS: Record<BotStrategy, MoveFeatures> = {
+  aggressive: { capture: 100, leaveYard: 30, reachHome: 40, enterHomeColumn: 10, landSafe: 5, danger: -10, escape: 10, progress: 1 },
+  safe: { capture: 40, leaveYard: 20, reachHome: 50, enterHomeColumn: 40, landSafe: 30, danger: -60, escape: 50, progress: 1 },
+  racing: { capture: 25, leaveYard: 10, reachHome: 80, enterHomeColumn: 30, landSafe: 5, danger: -15, escape: 15, progress: 6 }
+};
+
+// How often each difficulty ignores its strategy and plays a random legal move.
+const MISTAKE_RATE: Record<Difficulty, number> = {
+  easy: 0.5,
+  normal: 0.15,
+  hard: 0
+};
+
+// Number of opponent tokens that could reach `index` with a single roll.
+function threatsTo(state: GameState, index: number | null): number {
+  if (index === null || isSafeSquare(index)) return 0;
+  const { color } = currentSeat(state);
+  let threats = 0;
+  for (const seat of state.seats) {
+    if (seat.color === color) continue;
+    for (const progress of state.tokens[seat.color]) {
+      const from = trackIndex(seat.color, progress);
+      if (from === null) continue;
+      const distance = (index - from + TRACK_LENGTH) % TRACK_LENGTH;
+      if (distance >= 1 && distance <= 6) threats++;
+    }
+  }
+  return threats;
+}
+
+function describeMove(state: GameState, token: number): MoveFeatures {
+  const { color } = currentSeat(state);
+  const from = state.tokens[color][token];
+  const to = landingProgress(from, state.dice!);
+  const landing = trackIndex(color, to);
+
+  return {
+    capture: capturesAt(state, color, landing).length,
+    leaveYard: from < 0 ? 1 : 0,
+    reachHome: to === HOME ? 1 : 0,
+    enterHomeColumn: from <= LAST_TRACK_STEP && to > LAST_TRACK_STEP ? 1 : 0,
+    landSafe: landing !== null && isSafeSquare(landing) ? 1 : 0,
+    danger: threatsTo(state, landing),
+    escape: threatsTo(state, trackIndex(color, from)),
+    progress: (to - Math.max(from, 0)) * (1 + Math.max(from, 0) / HOME)
+  };
+}
+
+export function scoreMove(state: GameState, token: number, strategy: BotStrategy): number {
+  const features = describeMove(state, token);
+  const weights = STRATEGY_WEIGHTS[strategy];
+  return (Object.keys(weights) as (keyof MoveFeatures)[])
+    .reduce((score, feature) => score + weights[feature] * features[feature], 0);
+}
+
+export function chooseToken(
+  state: GameState,
+  strategy: BotStrategy,
+  difficulty: Difficulty,
+  random: Rng = Math.random
+): number | null {
+  const movable = getMovableTokens(state);
+  if (movable.length === 0) return null;
+  if (random() < MISTAKE_RATE[difficulty]) return movable[Math.floor(random() * movable.length)];
+
+  return movable.reduce((best, token) =>
+    scoreMove(state, token, strategy) > scoreMove(state, best, strategy) ? token : best
+  );
+}
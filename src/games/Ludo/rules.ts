@@ -0,0 +1,124 @@
+import { nextRandom } from '../../utils/random';
+import { GameState, LastMove, PlayerColor, Seat, COLORS, HOME, SAFE_SQUARES, TOKENS_PER_PLAYER } from './types';
+import { movePath, trackIndex } from './board';
+
+export interface MoveOutcome {
+  state: GameState;
+  captured: boolean;
+  reachedHome: boolean;
+}
+
+export function createGame(seats: Seat[], seed: number): GameState {
+  const tokens = Object.fromEntries(
+    COLORS.map(color => [color, Array(TOKENS_PER_PLAYER).fill(-1)])
+  ) as Record<PlayerColor, number[]>;
+
+  return {
+    seats: seats.filter(seat => seat.controller !== 'off'),
+    tokens,
+    current: 0,
+    dice: null,
+    sixesInRow: 0,
+    seed,
+    rngState: seed,
+    winners: [],
+    lastMove: null,
+    turn: 0
+  };
+}
+
+export const currentSeat = (state: GameState) => state.seats[state.current];
+
+export const isGameOver = (state: GameState) => state.winners.length >= state.seats.length - 1;
+
+export function rollDice(state: GameState): GameState {
+  const [value, rngState] = nextRandom(state.rngState);
+  const dice = Math.floor(value * 6) + 1;
+  return { ...state, dice, rngState, sixesInRow: dice === 6 ? state.sixesInRow + 1 : 0 };
+}
+
+export function canMoveToken(progress: number, dice: number): boolean {
+  if (progress < 0) return dice === 6;
+  return progress + dice <= HOME;
+}
+
+export function getMovableTokens(state: GameState): number[] {
+  // Three sixes in a row forfeit the turn.
+  if (state.dice === null || state.sixesInRow >= 3) return [];
+  const progress = state.tokens[currentSeat(state).color];
+  return progress.map((_, token) => token).filter(token => canMoveToken(progress[token], state.dice!));
+}
+
+export const isSafeSquare = (index: number) => SAFE_SQUARES.includes(index);
+
+export const landingProgress = (progress: number, dice: number) => (progress < 0 ? 0 : progress + dice);
+
+// Opponent tokens that would be sent home by landing on `index`.
+export function capturesAt(state: GameState, color: PlayerColor, index: number | null) {
+  if (index === null || isSafeSquare(index)) return [];
+  const captured: { color: PlayerColor; token: number }[] = [];
+  for (const seat of state.seats) {
+    if (seat.color === color) continue;
+    state.tokens[seat.color].forEach((progress, token) => {
+      if (trackIndex(seat.color, progress) === index) captured.push({ color: seat.color, token });
+    });
+  }
+  return captured;
+}
+
+function nextSeat(state: GameState): number {
+  for (let offset = 1; offset <= state.seats.length; offset++) {
+    const index = (state.current + offset) % state.seats.length;
+    if (!state.winners.includes(state.seats[index].color)) return index;
+  }
+  return state.current;
+}
+
+// Ends the current roll. Rolling a six, capturing or bringing a token home earns
+// another roll unless the player has just finished.
+export function endTurn(state: GameState, bonus: boolean): GameState {
+  const finished = state.winners.includes(currentSeat(state).color);
+  const again = bonus && !finished && state.sixesInRow < 3;
+  return {
+    ...state,
+    dice: null,
+    current: again ? state.current : nextSeat(state),
+    sixesInRow: again ? state.sixesInRow : 0,
+    turn: state.turn + 1
+  };
+}
+
+export function moveToken(state: GameState, token: number): MoveOutcome {
+  const { color } = currentSeat(state);
+  const dice = state.dice!;
+  const from = state.tokens[color][token];
+  const to = landingProgress(from, dice);
+  const captured = capturesAt(state, color, trackIndex(color, to));
+
+  const tokens = { ...state.tokens, [color]: state.tokens[color].map((p, i) => (i === token ? to : p)) };
+  for (const victim of captured) {
+    tokens[victim.color] = tokens[victim.color].map((p, i) => (i === victim.token ? -1 : p));
+  }
+
+  const reachedHome = to === HOME;
+  const hasWon = tokens[color].every(progress => progress === HOME);
+  const lastMove: LastMove = { turn: state.turn, color, token, path: movePath(color, token, from, to), captured };
+
+  return {
+    state: {
+      ...state,
+      tokens,
+      winners: hasWon ? [...state.winners, color] : state.winners,
+      lastMove
+    },
+    captured: captured.length > 0,
+    reachedHome
+  };
+}
+
+// Plays `token` (if given) and finishes the roll.
+export function playRoll(state: GameState, token: number | null): GameState {
+  if (token === null) return endTurn(state, false);
+  const outcome = moveToken(state, token);
+  return endTurn(outcome.state, state.dice === 6 || outcome.captured || outcome.reachedHome);
+}
@@ -0,0 +1,67 @@
+import { Difficulty } from '../../types/game';
+
+export type { Difficulty };
+export type PlayerColor = 'red' | 'green' | 'yellow' | 'blue';
+export type Controller = 'human' | 'bot' | 'off';
+export type BotStrategy = 'aggressive' | 'safe' | 'racing';
+export type Cell = [number, number];
+
+export interface Seat {
+  color: PlayerColor;
+  controller: Controller;
+  strategy: BotStrategy;
+  difficulty: Difficulty;
+}
+
+export interface LastMove {
+  turn: number;
+  color: PlayerColor;
+  token: number;
+  path: Cell[];
+  captured: { color: PlayerColor; token: number }[];
+}
+
+export interface GameState {
+  seats: Seat[];
+  // Progress of every token: -1 in the yard, 0-50 on the track, 51-55 in the
+  // home column and 56 once home.
+  tokens: Record<PlayerColor, number[]>;
+  current: number;
+  dice: number | null;
+  sixesInRow: number;
+  seed: number;
+  rngState: number;
+  winners: PlayerColor[];
+  lastMove: LastMove | null;
+  turn: number;
+}
+
+export const COLORS: PlayerColor[] = ['red', 'green', 'yellow', 'blue'];
+export const CONTROLLERS: Controller[] = ['human', 'bot', 'off'];
+export const STRATEGIES: BotStrategy[] = ['aggressive', 'safe', 'racing'];
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+
+export const TOKENS_PER_PLAYER = 4;
+export const TRACK_LENGTH = 52;
+export const LAST_TRACK_STEP = 50;
+export const HOME = 56;
+
+export const START_OFFSETS: Record<PlayerColor, number> = {
+  red: 0,
+  green: 13,
+  yellow: 26,
+  blue: 39
+};
+
+// Start squares and the four star squares; tokens there cannot be captured.
+export const SAFE_SQUARES = [0, 8, 13, 21, 26, 34, 39, 47];
+
+export const COLOR_STYLES: Record<PlayerColor, { fill: string; light: string; text: string }> = {
+  red: { fill: 'bg-red-500', light: 'bg-red-200 dark:bg-red-900', text: 'text-red-600' },
+  green: { fill: 'bg-green-500', light: 'bg-green-200 dark:bg-green-900', text: 'text-green-600' },
+  yellow: { fill: 'bg-yellow-400', light: 'bg-yellow-200 dark:bg-yellow-900', text: 'text-yellow-600' },
+  blue: { fill: 'bg-blue-500', light: 'bg-blue-200 dark:bg-blue-900', text: 'text-blue-600' }
+};
+
+export const BOT_DELAY = 600;
+export const STEP_DURATION = 0.12;
@@ -0,0 +1,352 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RefreshCcw, User, Users, Cpu, Trophy, Medal, Timer, Smile, Shapes } from 'lucide-react';
+import {
+  Card, GameState, Difficulty, DeckName, GameMode,
+  DIFFICULTIES, GAME_MODES, DECK_NAMES, GRID_SIZES, BOT_FORGETFULNESS,
+  PLAYER_COLORS, FLIP_BACK_DELAY, BOT_DELAY
+} from './types';
+import { createCards, EMOJI_DECK, ICON_DECK } from './deck';
+import { BotMemory, observe, decay, chooseFirstCard, chooseSecondCard } from './bot';
+import { useGameSetting, useGameStore } from '../../store/gameStore';
+import { reportEvent } from '../../store/achievements';
+
+const createGame = (difficulty: Difficulty, deck: DeckName): GameState => {
+  const { cols, rows } = GRID_SIZES[difficulty];
+  return {
+    cards: createCards((cols * rows) / 2, deck),
+    flipped: [],
+    currentPlayer: 0,
+    scores: [0, 0],
+    moves: 0,
+    startedAt: null,
+    finishedAt: null
+  };
+};
+
+interface CardViewProps {
+  card: Card;
+  deck: DeckName;
+  canFlip: boolean;
+  // Colours matched icons by the player who found them.
+  showOwner: boolean;
+  onFlip: (id: number) => void;
+}
+
+// Declared out here so a card stays mounted across renders and its flip
+// animates.
+const CardView: React.FC<CardViewProps> = ({ card, deck, canFlip, showOwner, onFlip }) => {
+  const isFaceUp = card.isFlipped || card.isMatched;
+  const Icon = ICON_DECK[card.symbol];
+
+  return (
+    <motion.button
+      className="relative w-full aspect-square"
+      style={{ perspective: 600 }}
+      whileHover={canFlip ? { scale: 0.95 } : {}}
+      whileTap={canFlip ? { scale: 0.9 } : {}}
+      onClick={() => canFlip && onFlip(card.id)}
+    >
+      <motion.div
+        className="absolute inset-0"
+        style={{ transformStyle: 'preserve-3d' }}
+        animate={{ rotateY: isFaceUp ? 180 : 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        <div
+          className="absolute inset-0 rounded-lg shadow-md bg-gradient-to-br from-indigo-500 to-purple-600"
+          style={{ backfaceVisibility: 'hidden' }}
+        />
+        <div
+          className={`absolute inset-0 rounded-lg shadow-md flex items-center justify-center text-3xl
+            ${card.isMatched
+              ? 'bg-green-100 dark:bg-green-900'
+              : 'bg-white dark:bg-gray-800'}`}
+          style={{ backfaceVisibility: 'hidden', transform: 'rotateY(180deg)' }}
+        >
+          {deck === 'emoji'
+            ? EMOJI_DECK[card.symbol]
+            : <Icon className={`w-1/2 h-1/2 ${card.matchedBy !== null && showOwner ? PLAYER_COLORS[card.matchedBy] : 'text-indigo-600 dark:text-indigo-400'}`} />}
+        </div>
+      </motion.div>
+    </motion.button>
+  );
+};
+
+// Settles a turn once two cards are face up: a match scores and keeps the turn,
+// a miss flips both back and passes the turn on.
+const resolveTurn = (prev: GameState, playerCount: number): GameState => {
+  const [first, second] = prev.flipped;
+  const isMatch = prev.cards[first].symbol === prev.cards[second].symbol;
+
+  const cards = prev.cards.map(card => {
+    if (card.id !== first && card.id !== second) return card;
+    return isMatch
+      ? { ...card, isMatched: true, matchedBy: prev.currentPlayer }
+      : { ...card, isFlipped: false };
+  });
+
+  return {
+    ...prev,
+    cards,
+    flipped: [],
+    moves: prev.moves + 1,
+    scores: isMatch
+      ? prev.scores.map((score, player) => player === prev.currentPlayer ? score + 1 : score)
+      : prev.scores,
+    currentPlayer: isMatch ? prev.currentPlayer : (prev.currentPlayer + 1) % playerCount,
+    finishedAt: cards.every(card => card.isMatched) ? Date.now() : null
+  };
+};
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const MODE_ICONS: Record<GameMode, React.ReactNode> = {
+  solo: <User size={20} />,
+  pvp: <><User size={20} /> vs <User size={20} /></>,
+  ai: <><User size={20} /> vs <Cpu size={20} /></>
+};
+
+const MemoryCards: React.FC = () => {
+  const maxPlayers = useGameStore((state) => state.currentGame?.maxPlayers ?? 1);
+  const modes = GAME_MODES.filter(mode => mode === 'solo' || maxPlayers >= 2);
+  const [difficulty, setDifficulty] = useGameSetting('difficulty', DIFFICULTIES, 'normal');
+  const [deck, setDeck] = useGameSetting('deck', DECK_NAMES, 'emoji');
+  const [mode, setMode] = useGameSetting('mode', modes, 'solo');
+  const [forgetfulness, setForgetfulness] = useState(BOT_FORGETFULNESS[difficulty]);
+  const [state, setState] = useState<GameState>(() => createGame(difficulty, deck));
+  const [now, setNow] = useState(Date.now());
+  const memoryRef = useRef<BotMemory>(new Map());
+  const playerCount = mode === 'solo' ? 1 : 2;
+
+  const resetGame = useCallback(() => {
+    setState(createGame(difficulty, deck));
+    memoryRef.current = new Map();
+  }, [difficulty, deck]);
+
+  useEffect(() => {
+    resetGame();
+  }, [resetGame, mode]);
+
+  useEffect(() => {
+    setForgetfulness(BOT_FORGETFULNESS[difficulty]);
+  }, [difficulty]);
+
+  useEffect(() => {
+    if (!state.startedAt || state.finishedAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state.startedAt, state.finishedAt]);
+
+  const flipCard = useCallback((index: number) => {
+    setState(prev => {
+      const card = prev.cards[index];
+      if (prev.flipped.length >= 2 || card.isFlipped || card.isMatched || prev.finishedAt) return prev;
+
+      return {
+        ...prev,
+        cards: prev.cards.map(c => c.id === index ? { ...c, isFlipped: true } : c),
+        flipped: [...prev.flipped, index],
+        startedAt: prev.startedAt ?? Date.now()
+      };
+    });
+  }, []);
+
+  // The bot watches every card that is turned over, including the player's.
+  useEffect(() => {
+    for (const index of state.flipped) {
+      memoryRef.current = observe(memoryRef.current, index, state.cards[index].symbol);
+    }
+  }, [state.flipped, state.cards]);
+
+  useEffect(() => {
+    if (state.flipped.length !== 2) return;
+    const [first, second] = state.flipped;
+    const isMatch = state.cards[first].symbol === state.cards[second].symbol;
+    const timer = setTimeout(() => setState(prev => resolveTurn(prev, playerCount)), isMatch ? 400 : FLIP_BACK_DELAY);
+    return () => clearTimeout(timer);
+  }, [state.flipped, state.cards, playerCount]);
+
+  // Keyed on the finish time so switching mode over a cleared board, which
+  // reruns this before the reset lands, does not count it twice.
+  const reportedRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!state.finishedAt || reportedRef.current === state.finishedAt) return;
+    reportedRef.current = state.finishedAt;
+    reportEvent({ type: 'memory:cleared', versusBot: mode === 'ai', won: playerCount === 1 || state.scores[0] > state.scores[1] });
+  }, [state.finishedAt, state.scores, mode, playerCount]);
+
+  const isBotTurn = mode === 'ai' && state.currentPlayer === 1 && !state.finishedAt;
+
+  useEffect(() => {
+    if (!isBotTurn || state.flipped.length >= 2) return;
+
+    const timer = setTimeout(() => {
+      if (state.flipped.length === 0) {
+        memoryRef.current = decay(memoryRef.current, state.cards, forgetfulness);
+        flipCard(chooseFirstCard(state.cards, memoryRef.current));
+      } else {
+        flipCard(chooseSecondCard(state.cards, state.flipped[0], memoryRef.current));
+      }
+    }, BOT_DELAY);
+    return () => clearTimeout(timer);
+  }, [isBotTurn, state.flipped, state.cards, forgetfulness, flipCard]);
+
+  const elapsed = state.startedAt ? (state.finishedAt ?? now) - state.startedAt : 0;
+  const playerNames = mode === 'ai' ? ['You', 'Bot'] : ['Player 1', 'Player 2'];
+
+  const getResultText = () => {
+    if (playerCount === 1) return `Cleared in ${state.moves} moves`;
+    const [p1, p2] = state.scores;
+    if (p1 === p2) return "It's a Draw!";
+    const winner = p1 > p2 ? 0 : 1;
+    return mode === 'ai' && winner === 0 ? 'You Win!' : `${playerNames[winner]} Wins!`;
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center w-full max-w-2xl mx-auto p-4">
+      <div className="w-full mb-6 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex gap-4">
+          {modes.map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors
+                ${mode === option
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+            >
+              {MODE_ICONS[option]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setDeck(deck === 'emoji' ? 'icons' : 'emoji')}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            aria-label="Switch deck"
+          >
+            {deck === 'emoji'
+              ? <Shapes size={24} className="dark:text-white" />
+              : <Smile size={24} className="dark:text-white" />}
+          </button>
+          <button
+            onClick={resetGame}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            aria-label="New game"
+          >
+            <RefreshCcw size={24} className="dark:text-white" />
+          </button>
+        </div>
+      </div>
+
+      <div className="w-full mb-6 flex justify-center gap-4">
+        {DIFFICULTIES.map(diff => (
+          <button
+            key={diff}
+            onClick={() => setDifficulty(diff)}
+            className={`px-4 py-2 rounded-lg capitalize transition-colors
+              ${difficulty === diff
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+          >
+            {diff}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'ai' && (
+        <label className="w-full mb-6 flex items-center justify-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+          Bot forgetfulness
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={forgetfulness}
+            onChange={(e) => setForgetfulness(Number(e.target.value))}
+            className="w-40 accent-purple-600"
+          />
+          <span className="w-10 text-right">{Math.round(forgetfulness * 100)}%</span>
+        </label>
+      )}
+
+      <div className="w-full mb-4 flex items-center justify-between text-lg font-semibold dark:text-white">
+        {playerCount === 1 ? (
+          <div>Moves: {state.moves}</div>
+        ) : (
+          <div className="flex gap-4">
+            {playerNames.map((name, player) => (
+              <div
+                key={name}
+                className={`${PLAYER_COLORS[player]} ${state.currentPlayer === player ? 'underline underline-offset-4' : 'opacity-60'}`}
+              >
+                {name}: {state.scores[player]}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Timer size={20} /> {formatTime(elapsed)}
+        </div>
+      </div>
+
+      <div
+        className="w-full grid gap-2 sm:gap-3"
+        style={{ gridTemplateColumns: `repeat(${GRID_SIZES[difficulty].cols}, minmax(0, 1fr))` }}
+      >
+        {state.cards.map(card => (
+          <CardView
+            key={card.id}
+            card={card}
+            deck={deck}
+            canFlip={!card.isFlipped && !card.isMatched && !isBotTurn && state.flipped.length < 2}
+            showOwner={playerCount > 1}
+            onFlip={flipCard}
+          />
+        ))}
+      </div>
+
+      <AnimatePresence>
+        {state.finishedAt && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.5 }}
+            className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          >
+            <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl text-center">
+              {playerCount === 1 || state.scores[0] !== state.scores[1] ? (
+                <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+              ) : (
+                <Medal className="w-16 h-16 text-blue-400 mx-auto mb-4" />
+              )}
+              <h2 className="text-2xl font-bold mb-2 dark:text-white">{getResultText()}</h2>
+              <p className="text-lg mb-4 dark:text-gray-300">Time: {formatTime(elapsed)}</p>
+              <button
+                onClick={resetGame}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Play Again
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <div className="mt-8 text-center text-sm text-gray-600 dark:text-gray-400">
+        <p>Flip two cards at a time and find all the matching pairs</p>
+        {playerCount > 1 && (
+          <p className="mt-2 flex items-center justify-center gap-1">
+            <Users size={16} /> Finding a pair earns a point and another turn
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MemoryCards;
@@ -0,0 +1,50 @@
+import { Card } from './types';
+
+// What the bot remembers: card index -> symbol.
+export type BotMemory = Map<number, number>;
+
+const randomItem = <T>(items: T[], random: () => number): T =>
+  items[Math.floor(random() * items.length)];
+
+export function observe(memory: BotMemory, index: number, symbol: number): BotMemory {
+  return new Map(memory).set(index, symbol);
+}
+
+// Drops each remembered card with probability `forgetfulness`, along with any
+// card that has since been matched. A forgetfulness of 0 is a perfect memory.
+export function decay(memory: BotMemory, cards: Card[], forgetfulness: number, random: () => number = Math.random): BotMemory {
+  const next: BotMemory = new Map();
+  memory.forEach((symbol, index) => {
+    if (!cards[index].isMatched && random() >= forgetfulness) next.set(index, symbol);
+  });
+  return next;
+}
+
+const hiddenCards = (cards: Card[]) =>
+  cards.filter(card => !card.isMatched && !card.isFlipped).map(card => card.id);
+
+export function chooseFirstCard(cards: Card[], memory: BotMemory, random: () => number = Math.random): number {
+  const hidden = hiddenCards(cards);
+  const seen = new Map<number, number>();
+
+  for (const index of hidden) {
+    const symbol = memory.get(index);
+    if (symbol === undefined) continue;
+    if (seen.has(symbol)) return seen.get(symbol)!;
+    seen.set(symbol, index);
+  }
+
+  const unknown = hidden.filter(index => !memory.has(index));
+  return randomItem(unknown.length > 0 ? unknown : hidden, random);
+}
+
+export function chooseSecondCard(cards: Card[], first: number, memory: BotMemory, random: () => number = Math.random): number {
+  const hidden = hiddenCards(cards).filter(index => index !== first);
+  const symbol = cards[first].symbol;
+
+  const match = hidden.find(index => memory.get(index) === symbol);
+  if (match !== undefined) return match;
+
+  const unknown = hidden.filter(index => !memory.has(index));
+  return randomItem(unknown.length > 0 ? unknown : hidden, random);
+}
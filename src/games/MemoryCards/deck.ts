@@ -0,0 +1,45 @@
+import {
+  Anchor, Apple, Bell, Bike, Bird, Bug, Camera, Car, Cat, Cloud, Coffee, Crown,
+  Dog, Feather, Flame, Flower, Gem, Ghost, Heart, Key, Leaf, Moon, Music, Rocket,
+  LucideIcon
+} from 'lucide-react';
+import { Card, DeckName } from './types';
+
+export const EMOJI_DECK = [
+  '🐶', '🐱', '🦊', '🐼', '🐸', '🦁', '🐵', '🐙', '🦄', '🐢', '🐝', '🦋',
+  '🍓', '🍉', '🍕', '🌵', '🚀', '⚽', '🎸', '🎲', '🌈', '🍩', '🐳', '🦖'
+];
+
+export const ICON_DECK: LucideIcon[] = [
+  Anchor, Apple, Bell, Bike, Bird, Bug, Camera, Car, Cat, Cloud, Coffee, Crown,
+  Dog, Feather, Flame, Flower, Gem, Ghost, Heart, Key, Leaf, Moon, Music, Rocket
+];
+
+export const DECK_SIZES: Record<DeckName, number> = {
+  emoji: EMOJI_DECK.length,
+  icons: ICON_DECK.length
+};
+
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function createCards(pairs: number, deck: DeckName, random: () => number = Math.random): Card[] {
+  const symbols = shuffle(
+    Array.from({ length: DECK_SIZES[deck] }, (_, i) => i),
+    random
+  ).slice(0, pairs);
+
+  return shuffle([...symbols, ...symbols], random).map((symbol, id) => ({
+    id,
+    symbol,
+    isFlipped: false,
+    isMatched: false,
+    matchedBy: null
+  }));
+}
@@ -0,0 +1,44 @@
+import { Difficulty } from '../../types/game';
+
+export type { Difficulty };
+export type GameMode = 'solo' | 'pvp' | 'ai';
+export type DeckName = 'emoji' | 'icons';
+
+export interface Card {
+  id: number;
+  symbol: number;
+  isFlipped: boolean;
+  isMatched: boolean;
+  matchedBy: number | null;
+}
+
+export interface GameState {
+  cards: Card[];
+  flipped: number[];
+  currentPlayer: number;
+  scores: number[];
+  moves: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+}
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+export const GAME_MODES: GameMode[] = ['solo', 'pvp', 'ai'];
+export const DECK_NAMES: DeckName[] = ['emoji', 'icons'];
+
+export const GRID_SIZES: Record<Difficulty, { cols: number; rows: number }> = {
+  easy: { cols: 4, rows: 3 },
+  normal: { cols: 4, rows: 4 },
+  hard: { cols: 6, rows: 6 }
+};
+
+// Chance that the bot forgets each card it has seen, checked at the start of its turns.
+export const BOT_FORGETFULNESS: Record<Difficulty, number> = {
+  easy: 0.5,
+  normal: 0.2,
+  hard: 0
+};
+
+export const PLAYER_COLORS = ['text-blue-600', 'text-red-600'];
+export const FLIP_BACK_DELAY = 1000;
+export const BOT_DELAY = 700;
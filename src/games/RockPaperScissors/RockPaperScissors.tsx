@@ -0,0 +1,333 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RefreshCcw, User, Cpu, Trophy, Eye, EyeOff } from 'lucide-react';
+import {
+  MatchState, Move,
+  GAME_MODES, DIFFICULTIES, VARIANTS, MATCH_LENGTHS, VARIANT_MOVES, VARIANT_NAMES, MOVE_EMOJI, REVEAL_DELAY
+} from './types';
+import { countWins, createMatch, describeRound, playRound, winsNeeded } from './rules';
+import { chooseMove, predictMove } from './bots';
+import { useGameSetting } from '../../store/gameStore';
+import { reportEvent } from '../../store/achievements';
+
+const RockPaperScissors: React.FC = () => {
+  const [gameMode, setGameMode] = useGameSetting('mode', GAME_MODES, 'ai');
+  const [difficulty, setDifficulty] = useGameSetting('difficulty', DIFFICULTIES, 'normal');
+  const [variant, setVariant] = useGameSetting('variant', VARIANTS, 'classic');
+  const [bestOf, setBestOf] = useGameSetting('bestOf', MATCH_LENGTHS, '3');
+  const [match, setMatch] = useState<MatchState>(createMatch);
+  const [revealing, setRevealing] = useState<[Move, Move] | null>(null);
+  // The human's moves across matches, which is what the bots learn from.
+  const [history, setHistory] = useState<Move[]>([]);
+  const [showDebug, setShowDebug] = useState(false);
+  // Matches with a round played while the prediction was showing don't count
+  // towards achievements.
+  const peekedRef = useRef(false);
+
+  const moves = VARIANT_MOVES[variant];
+  const matchLength = Number(bestOf);
+  const names = gameMode === 'ai' ? ['You', 'Bot'] : ['Player 1', 'Player 2'];
+  const chooser = gameMode === 'pvp' && match.pending ? 1 : 0;
+  const lastRound = match.rounds[match.rounds.length - 1];
+
+  // Decided before the player picks, from what the bot expects the player to
+  // do. The debug panel shows that prediction but not the reply.
+  const plan = useMemo(() => {
+    const prediction = predictMove(history, moves, difficulty);
+    return { prediction, move: chooseMove(prediction, moves, difficulty) };
+  }, [history, moves, difficulty]);
+
+  const resetMatch = useCallback(() => {
+    peekedRef.current = false;
+    setMatch(createMatch());
+    setRevealing(null);
+  }, []);
+
+  useEffect(() => {
+    resetMatch();
+  }, [gameMode, variant, bestOf, resetMatch]);
+
+  useEffect(() => {
+    if (!revealing) return;
+    const timer = setTimeout(() => {
+      setMatch(prev => playRound(prev, revealing, matchLength));
+      setRevealing(null);
+    }, REVEAL_DELAY);
+    return () => clearTimeout(timer);
+  }, [revealing, matchLength]);
+
+  // Each match is looked at once, so changing mode or difficulty over a
+  // finished one does not count it again.
+  const settledRef = useRef<MatchState | null>(null);
+  useEffect(() => {
+    if (match.winner === null || settledRef.current === match) return;
+    settledRef.current = match;
+    if (gameMode === 'ai' && !peekedRef.current) reportEvent({ type: 'rps:matchOver', won: match.winner === 0, difficulty });
+  }, [match, gameMode, difficulty]);
+
+  const handleMove = useCallback((move: Move) => {
+    if (revealing || match.winner !== null) return;
+
+    if (gameMode === 'ai') {
+      if (showDebug) peekedRef.current = true;
+      setHistory(prev => [...prev, move]);
+      setRevealing([move, plan.move]);
+    } else if (match.pending === null) {
+      setMatch(prev => ({ ...prev, pending: move }));
+    } else {
+      setRevealing([match.pending, move]);
+    }
+  }, [revealing, match, gameMode, plan, showDebug]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const index = Number(e.key) - 1;
+      if (index >= 0 && index < moves.length) handleMove(moves[index]);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [moves, handleMove]);
+
+  const renderHand = (move: Move | null, player: 0 | 1) => (
+    <div className="flex flex-col items-center gap-2">
+      <span className="text-sm font-semibold text-gray-600 dark:text-gray-400">{names[player]}</span>
+      <motion.div
+        key={revealing ? 'shaking' : `${match.rounds.length}-${player}`}
+        animate={revealing ? { y: [0, -20, 0, -20, 0] } : { scale: [0.6, 1] }}
+        transition={{ duration: revealing ? REVEAL_DELAY / 1000 : 0.3 }}
+        className={`text-7xl ${player === 1 ? '-scale-x-100' : ''}`}
+      >
+        {revealing || !move ? MOVE_EMOJI.rock : MOVE_EMOJI[move]}
+      </motion.div>
+    </div>
+  );
+
+  const prompt = () => {
+    if (revealing) return 'Rock, paper…';
+    if (gameMode === 'pvp') {
+      return match.pending
+        ? `${names[1]}, choose your move (${names[0]} has picked)`
+        : `${names[0]}, choose your move`;
+    }
+    return 'Choose your move';
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row items-start justify-center w-full max-w-4xl mx-auto p-4 gap-8">
+      <div className="w-full max-w-lg mx-auto">
+        <div className="w-full mb-6 flex items-center justify-between">
+          <div className="flex gap-4">
+            <button
+              onClick={() => setGameMode('pvp')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors
+                ${gameMode === 'pvp'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+            >
+              <User size={20} /> vs <User size={20} />
+            </button>
+            <button
+              onClick={() => setGameMode('ai')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors
+                ${gameMode === 'ai'
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+            >
+              <User size={20} /> vs <Cpu size={20} />
+            </button>
+          </div>
+          <button
+            onClick={resetMatch}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            aria-label="New match"
+          >
+            <RefreshCcw size={24} className="dark:text-white" />
+          </button>
+        </div>
+
+        {gameMode === 'ai' && (
+          <div className="w-full mb-4 flex justify-center gap-4">
+            {DIFFICULTIES.map(diff => (
+              <button
+                key={diff}
+                onClick={() => setDifficulty(diff)}
+                className={`px-4 py-2 rounded-lg capitalize transition-colors
+                  ${difficulty === diff
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+              >
+                {diff}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="w-full mb-8 flex justify-between gap-4 text-sm">
+          <div className="flex gap-2">
+            {VARIANTS.map(v => (
+              <button
+                key={v}
+                onClick={() => setVariant(v)}
+                className={`px-3 py-1 rounded-lg transition-colors
+                  ${variant === v
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+              >
+                {VARIANT_NAMES[v]}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2 items-center">
+            <span className="text-gray-600 dark:text-gray-400">Best of</span>
+            {MATCH_LENGTHS.map(length => (
+              <button
+                key={length}
+                onClick={() => setBestOf(length)}
+                className={`w-8 py-1 rounded-lg transition-colors
+                  ${bestOf === length
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+              >
+                {length}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="relative rounded-lg bg-white dark:bg-gray-800 shadow-lg p-6">
+          <div className="flex items-center justify-center gap-6 mb-2 text-3xl font-bold dark:text-white">
+            <span>{countWins(match.rounds, 0)}</span>
+            <span className="text-gray-400">–</span>
+            <span>{countWins(match.rounds, 1)}</span>
+          </div>
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400 mb-6">
+            First to {winsNeeded(matchLength)} wins
+          </p>
+
+          <div className="flex items-center justify-around mb-4">
+            {renderHand(revealing ? revealing[0] : lastRound?.moves[0] ?? null, 0)}
+            <span className="text-xl font-bold text-gray-400">VS</span>
+            {renderHand(revealing ? revealing[1] : lastRound?.moves[1] ?? null, 1)}
+          </div>
+
+          <p className="text-center h-6 mb-6 font-semibold dark:text-white">
+            {!revealing && lastRound && (
+              <>
+                {describeRound(lastRound.moves)}
+                {lastRound.winner !== null && ` — ${names[lastRound.winner]} ${lastRound.winner === 0 && gameMode === 'ai' ? 'win' : 'wins'} the round`}
+              </>
+            )}
+          </p>
+
+          <p className="text-center mb-4 text-gray-700 dark:text-gray-300">{prompt()}</p>
+          <div className="flex justify-center flex-wrap gap-3">
+            {moves.map((move, i) => (
+              <motion.button
+                key={move}
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={() => handleMove(move)}
+                disabled={revealing !== null || match.winner !== null}
+                className={`flex flex-col items-center w-20 py-2 rounded-lg transition-colors disabled:opacity-50
+                  ${chooser === 0 ? 'bg-blue-100 dark:bg-blue-900' : 'bg-red-100 dark:bg-red-900'}`}
+                aria-label={move}
+              >
+                <span className="text-3xl">{MOVE_EMOJI[move]}</span>
+                <span className="text-xs capitalize dark:text-gray-300">{i + 1}. {move}</span>
+              </motion.button>
+            ))}
+          </div>
+
+          <AnimatePresence>
+            {match.winner !== null && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.8 }}
+                className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 rounded-lg"
+              >
+                <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl text-center">
+                  <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+                  <h2 className="text-2xl font-bold mb-2 dark:text-white">
+                    {gameMode === 'ai' && match.winner === 0 ? 'You Win!' : `${names[match.winner]} Wins!`}
+                  </h2>
+                  <p className="text-lg mb-4 dark:text-gray-300">
+                    {countWins(match.rounds, 0)} – {countWins(match.rounds, 1)}
+                  </p>
+                  <button
+                    onClick={resetMatch}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Play Again
+                  </button>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+      </div>
+
+      <div className="w-full lg:w-72 flex flex-col gap-4">
+        {gameMode === 'ai' && (
+          <div>
+            <button
+              onClick={() => setShowDebug(prev => !prev)}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+              {showDebug ? <EyeOff size={18} /> : <Eye size={18} />}
+              {showDebug ? 'Hide' : 'Show'} bot's prediction
+            </button>
+            {showDebug && (
+              <div className="mt-3 p-4 rounded-lg bg-white dark:bg-gray-800 shadow space-y-2">
+                <p className="text-sm text-gray-600 dark:text-gray-400">What the bot thinks you'll play:</p>
+                {moves.map(move => {
+                  const chance = plan.prediction[move] ?? 0;
+                  return (
+                    <div key={move} className="flex items-center gap-2 text-sm dark:text-gray-300">
+                      <span className="w-6">{MOVE_EMOJI[move]}</span>
+                      <div className="flex-1 h-3 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                        <motion.div
+                          className="h-full bg-purple-500"
+                          animate={{ width: `${chance * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-10 text-right font-mono">{Math.round(chance * 100)}%</span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {match.rounds.length > 0 && (
+          <div>
+            <h3 className="text-lg font-semibold mb-2 dark:text-white">Rounds</h3>
+            <ol className="space-y-1 text-sm">
+              {match.rounds.map((round, i) => (
+                <li key={i} className="flex items-center gap-2 dark:text-gray-300">
+                  <span className="w-5 text-gray-500">{i + 1}.</span>
+                  <span>{MOVE_EMOJI[round.moves[0]]} vs {MOVE_EMOJI[round.moves[1]]}</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {round.winner === null ? 'Draw' : names[round.winner]}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+          <p>Click a move or press its number key.</p>
+          {variant === 'lizard-spock' && (
+            <p>Scissors cuts Paper, Paper covers Rock, Rock crushes Lizard, Lizard poisons Spock, Spock smashes Scissors, Scissors decapitates Lizard, Lizard eats Paper, Paper disproves Spock, Spock vaporizes Rock, and Rock crushes Scissors.</p>
+          )}
+          {gameMode === 'pvp' && <p>Pass the device between picks: the first move stays hidden.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RockPaperScissors;
@@ -0,0 +1,68 @@
+import { Rng, randomInt } from '../../utils/random';
+import { Difficulty, Move, Prediction, MARKOV_ORDER } from './types';
+import { beats } from './rules';
+
+function normalize(counts: Map<Move, number>, moves: Move[]): Prediction {
+  const total = moves.reduce((sum, move) => sum + (counts.get(move) ?? 0), 0);
+  return Object.fromEntries(moves.map(move => [move, (counts.get(move) ?? 0) / total]));
+}
+
+// Every move starts with a count of one so unseen moves keep some weight.
+const smoothedCounts = (moves: Move[]) => new Map(moves.map(move => [move, 1]));
+
+function frequencyPrediction(history: Move[], moves: Move[]): Prediction {
+  const counts = smoothedCounts(moves);
+  for (const move of history) counts.set(move, (counts.get(move) ?? 0) + 1);
+  return normalize(counts, moves);
+}
+
+// Counts what the player played after each earlier occurrence of their last
+// `order` moves. Falls back to shorter contexts, then to plain frequencies,
+// while there is too little history to go on.
+function markovPrediction(history: Move[], moves: Move[]): Prediction {
+  for (let order = Math.min(MARKOV_ORDER, history.length - 1); order >= 1; order--) {
+    const context = history.slice(-order).join();
+    const counts = smoothedCounts(moves);
+    let seen = 0;
+    for (let i = order; i < history.length; i++) {
+      if (history.slice(i - order, i).join() !== context) continue;
+      counts.set(history[i], (counts.get(history[i]) ?? 0) + 1);
+      seen++;
+    }
+    if (seen > 0) return normalize(counts, moves);
+  }
+  return frequencyPrediction(history, moves);
+}
+
+export function predictMove(history: Move[], moves: Move[], difficulty: Difficulty): Prediction {
+  // Only moves from the current variant count as evidence.
+  const relevant = history.filter(move => moves.includes(move));
+  switch (difficulty) {
+    case 'easy':
+      return Object.fromEntries(moves.map(move => [move, 1 / moves.length]));
+    case 'normal':
+      return frequencyPrediction(relevant, moves);
+    case 'hard':
+      return markovPrediction(relevant, moves);
+  }
+}
+
+// Expected result of playing `move` against the predicted distribution:
+// +1 per likely win, -1 per likely loss.
+export function expectedScore(move: Move, prediction: Prediction, moves: Move[]): number {
+  return moves.reduce((score, other) => {
+    const p = prediction[other] ?? 0;
+    if (beats(move, other)) return score + p;
+    if (beats(other, move)) return score - p;
+    return score;
+  }, 0);
+}
+
+export function chooseMove(prediction: Prediction, moves: Move[], difficulty: Difficulty, random: Rng = Math.random): Move {
+  if (difficulty === 'easy') return moves[randomInt(random, moves.length)];
+
+  const scores = moves.map(move => expectedScore(move, prediction, moves));
+  const best = Math.max(...scores);
+  const candidates = moves.filter((_, i) => scores[i] > best - 1e-9);
+  return candidates[randomInt(random, candidates.length)];
+}
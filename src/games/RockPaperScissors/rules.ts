@@ -0,0 +1,33 @@
+import { MatchState, Move, PlayerIndex, Round, BEATS } from './types';
+
+export const beats = (a: Move, b: Move) => BEATS[a][b] !== undefined;
+
+export function roundWinner(a: Move, b: Move): PlayerIndex | null {
+  if (beats(a, b)) return 0;
+  if (beats(b, a)) return 1;
+  return null;
+}
+
+const capitalize = (move: Move) => move.charAt(0).toUpperCase() + move.slice(1);
+
+// "Rock crushes Scissors", or "Draw" for a tie.
+export function describeRound([a, b]: [Move, Move]): string {
+  const winner = roundWinner(a, b);
+  if (winner === null) return 'Draw';
+  const [win, lose] = winner === 0 ? [a, b] : [b, a];
+  return `${capitalize(win)} ${BEATS[win][lose]} ${capitalize(lose)}`;
+}
+
+export const winsNeeded = (bestOf: number) => Math.floor(bestOf / 2) + 1;
+
+export const countWins = (rounds: Round[], player: PlayerIndex) =>
+  rounds.filter(round => round.winner === player).length;
+
+export const createMatch = (): MatchState => ({ rounds: [], pending: null, winner: null });
+
+export function playRound(match: MatchState, moves: [Move, Move], bestOf: number): MatchState {
+  const rounds = [...match.rounds, { moves, winner: roundWinner(...moves) }];
+  const needed = winsNeeded(bestOf);
+  const winner = countWins(rounds, 0) >= needed ? 0 : countWins(rounds, 1) >= needed ? 1 : null;
+  return { rounds, pending: null, winner };
+}
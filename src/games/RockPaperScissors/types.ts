@@ -0,0 +1,59 @@
+import { Difficulty } from '../../types/game';
+
+export type { Difficulty };
+export type Move = 'rock' | 'paper' | 'scissors' | 'lizard' | 'spock';
+export type Variant = 'classic' | 'lizard-spock';
+export type GameMode = 'pvp' | 'ai';
+export type MatchLength = '1' | '3' | '5' | '7';
+export type PlayerIndex = 0 | 1;
+
+// Likelihood the bot assigns to each of the player's possible next moves.
+export type Prediction = Partial<Record<Move, number>>;
+
+export interface Round {
+  moves: [Move, Move];
+  winner: PlayerIndex | null;
+}
+
+export interface MatchState {
+  rounds: Round[];
+  // In pvp the first player's pick is held here until the second has chosen.
+  pending: Move | null;
+  winner: PlayerIndex | null;
+}
+
+export const GAME_MODES: GameMode[] = ['pvp', 'ai'];
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+export const VARIANTS: Variant[] = ['classic', 'lizard-spock'];
+export const MATCH_LENGTHS: MatchLength[] = ['1', '3', '5', '7'];
+
+export const VARIANT_MOVES: Record<Variant, Move[]> = {
+  classic: ['rock', 'paper', 'scissors'],
+  'lizard-spock': ['rock', 'paper', 'scissors', 'lizard', 'spock']
+};
+
+export const VARIANT_NAMES: Record<Variant, string> = {
+  classic: 'Classic',
+  'lizard-spock': 'Lizard Spock'
+};
+
+// What each move beats, and how.
+export const BEATS: Record<Move, Partial<Record<Move, string>>> = {
+  rock: { scissors: 'crushes', lizard: 'crushes' },
+  paper: { rock: 'covers', spock: 'disproves' },
+  scissors: { paper: 'cuts', lizard: 'decapitates' },
+  lizard: { paper: 'eats', spock: 'poisons' },
+  spock: { scissors: 'smashes', rock: 'vaporizes' }
+};
+
+export const MOVE_EMOJI: Record<Move, string> = {
+  rock: '✊',
+  paper: '✋',
+  scissors: '✌️',
+  lizard: '🦎',
+  spock: '🖖'
+};
+
+// Moves the hard bot conditions on when predicting the next one.
+export const MARKOV_ORDER = 2;
+export const REVEAL_DELAY = 700;
@@ -0,0 +1,263 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Save, Upload, Download, Eraser, X } from 'lucide-react';
+import { SnakeMap, GRID_SIZE, PORTAL_COLORS } from './types';
+import { GRID_SIZES } from './rules';
+import { EMPTY_CELL, PORTAL_CELLS, START_CELLS, WALL_CELL, createMap, mapToRows, parseMaps, serializeMap } from './maps';
+
+type Tool = 'wall' | 'portal' | 'start' | 'erase';
+
+const TOOLS: { tool: Tool; label: string }[] = [
+  { tool: 'wall', label: 'Wall' },
+  { tool: 'portal', label: 'Portal' },
+  { tool: 'start', label: 'Start' },
+  { tool: 'erase', label: 'Erase' }
+];
+
+// Clicking a start again turns it clockwise.
+const START_ROTATION = [START_CELLS.RIGHT, START_CELLS.DOWN, START_CELLS.LEFT, START_CELLS.UP];
+
+const emptyCells = (size: number): string[][] => {
+  const cells = Array.from({ length: size }, () => Array<string>(size).fill(EMPTY_CELL));
+  cells[Math.floor(size / 2)][Math.floor(size / 2)] = START_CELLS.RIGHT;
+  return cells;
+};
+
+const toCells = (map: SnakeMap | null) => (map ? mapToRows(map).map(row => [...row]) : emptyCells(GRID_SIZE));
+
+// The first portal still missing an end, or else the first unused one.
+function nextPortal(cells: string[][]): string | null {
+  const counts = new Map<string, number>();
+  cells.flat().forEach(cell => counts.set(cell, (counts.get(cell) ?? 0) + 1));
+  const digits = [...PORTAL_CELLS];
+  return digits.find(digit => counts.get(digit) === 1) ?? digits.find(digit => !counts.has(digit)) ?? null;
+}
+
+interface MapEditorProps {
+  // The map to start from, or null for a blank board.
+  initial: SnakeMap | null;
+  // Names that cannot be saved over, such as the built-in maps.
+  reservedNames: string[];
+  onSave: (map: SnakeMap) => void;
+  onClose: () => void;
+}
+
+export const MapEditor: React.FC<MapEditorProps> = ({ initial, reservedNames, onSave, onClose }) => {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [cells, setCells] = useState(() => toCells(initial));
+  const size = cells.length;
+  const [tool, setTool] = useState<Tool>('wall');
+  const [mapText, setMapText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Walls and erasing paint while the pointer is held down.
+  const paintingRef = useRef(false);
+
+  useEffect(() => {
+    const stopPainting = () => {
+      paintingRef.current = false;
+    };
+    window.addEventListener('pointerup', stopPainting);
+    return () => window.removeEventListener('pointerup', stopPainting);
+  }, []);
+
+  const setCell = (x: number, y: number, value: string) => {
+    setCells(prev => prev.map((row, rowY) => (rowY === y ? row.map((cell, cellX) => (cellX === x ? value : cell)) : row)));
+  };
+
+  const applyTool = (x: number, y: number) => {
+    const current = cells[y][x];
+    switch (tool) {
+      case 'wall':
+        setCell(x, y, WALL_CELL);
+        break;
+      case 'erase':
+        setCell(x, y, EMPTY_CELL);
+        break;
+      case 'start': {
+        const index = START_ROTATION.indexOf(current);
+        setCell(x, y, START_ROTATION[(index + 1) % START_ROTATION.length]);
+        break;
+      }
+      case 'portal': {
+        if (PORTAL_CELLS.includes(current)) return;
+        const digit = nextPortal(cells);
+        if (!digit) {
+          setError(`All ${PORTAL_CELLS.length} portals are in use`);
+          return;
+        }
+        setCell(x, y, digit);
+        break;
+      }
+    }
+    setError(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, x: number, y: number) => {
+    // Touch pointers are captured by the first cell; release them so dragging
+    // reaches the cells beyond.
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    paintingRef.current = tool === 'wall' || tool === 'erase';
+    applyTool(x, y);
+  };
+
+  const handlePointerEnter = (x: number, y: number) => {
+    if (paintingRef.current) applyTool(x, y);
+  };
+
+  // Validates the board as it stands, reporting the problem instead of
+  // throwing.
+  const buildMap = (): SnakeMap | null => {
+    try {
+      const map = createMap(name, cells.map(row => row.join('')));
+      if (reservedNames.includes(map.name)) {
+        setError(`"${map.name}" is a built-in map; pick another name`);
+        return null;
+      }
+      setError(null);
+      return map;
+    } catch (e) {
+      setError((e as Error).message);
+      return null;
+    }
+  };
+
+  const save = () => {
+    const map = buildMap();
+    if (map) onSave(map);
+  };
+
+  const exportMap = () => {
+    const map = buildMap();
+    if (map) setMapText(serializeMap(map));
+  };
+
+  const importMap = () => {
+    try {
+      const [map] = parseMaps(mapText);
+      setName(map.name);
+      setCells(toCells(map));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const cellStyle = (cell: string): React.CSSProperties | undefined => {
+    const portal = PORTAL_CELLS.indexOf(cell);
+    if (portal === -1) return undefined;
+    const color = PORTAL_COLORS[portal % PORTAL_COLORS.length];
+    return { color, boxShadow: `inset 0 0 0 2px ${color}` };
+  };
+
+  const cellClass = (cell: string) => {
+    if (cell === WALL_CELL) return 'bg-gray-500 dark:bg-gray-500';
+    if (START_ROTATION.includes(cell)) return 'bg-green-200 dark:bg-green-800 text-green-900 dark:text-green-100';
+    return 'bg-white dark:bg-gray-900';
+  };
+
+  return (
+    <div className="w-full bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold dark:text-white">Map Editor</h3>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          aria-label="Close map editor"
+        >
+          <X size={20} className="dark:text-white" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {TOOLS.map(({ tool: option, label }) => (
+          <button
+            key={option}
+            onClick={() => setTool(option)}
+            className={`px-3 py-1 rounded-lg text-sm transition-colors
+              ${tool === option
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+          >
+            {label}
+          </button>
+        ))}
+        <select
+          value={size}
+          onChange={(e) => setCells(emptyCells(Number(e.target.value)))}
+          className="px-2 py-1 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+          aria-label="Board size (clears the board)"
+        >
+          {GRID_SIZES.map(option => (
+            <option key={option} value={option}>{option}×{option}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setCells(emptyCells(size))}
+          className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        >
+          <Eraser size={14} /> Clear
+        </button>
+      </div>
+
+      <div
+        className="grid w-full max-w-md mx-auto aspect-square gap-px bg-gray-300 dark:bg-gray-600 touch-none select-none"
+        style={{ gridTemplateColumns: `repeat(${size}, minmax(0, 1fr))` }}
+      >
+        {cells.map((row, y) => row.map((cell, x) => (
+          <div
+            key={`${x},${y}`}
+            onPointerDown={(e) => handlePointerDown(e, x, y)}
+            onPointerEnter={() => handlePointerEnter(x, y)}
+            className={`flex items-center justify-center text-xs font-bold cursor-pointer ${cellClass(cell)}`}
+            style={cellStyle(cell)}
+          >
+            {cell === EMPTY_CELL || cell === WALL_CELL ? '' : cell}
+          </div>
+        )))}
+      </div>
+
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        Drag to paint walls. Portals are placed in pairs, and clicking a start turns it.
+        Changing the size starts a new board.
+        Single-player games use the first start from the top, and battles the first two.
+      </p>
+
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Map name"
+          className="flex-1 min-w-0 p-2 rounded-lg bg-gray-100 dark:bg-gray-700 dark:text-white text-sm"
+        />
+        <button
+          onClick={save}
+          className="flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Save size={16} /> Save
+        </button>
+      </div>
+
+      <textarea
+        value={mapText}
+        onChange={(e) => setMapText(e.target.value)}
+        placeholder='{ "version": 1, "maps": [{ "name": "My Map", "rows": ["####...", "..."] }] }'
+        rows={4}
+        className="w-full p-2 rounded-lg bg-gray-100 dark:bg-gray-700 dark:text-white font-mono text-xs"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          onClick={importMap}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-700 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        >
+          <Upload size={16} /> Import
+        </button>
+        <button
+          onClick={exportMap}
+          className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-700 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        >
+          <Download size={16} /> Export
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { SnakeRules, DEFAULT_RULES, MAX_GRID_SIZE, MAX_RANDOM_PORTALS, MIN_GRID_SIZE } from './types';
+
+interface RulesPanelProps {
+  rules: SnakeRules;
+  onChange: (changes: Partial<SnakeRules>) => void;
+  // Maps set their own size and portals.
+  usesMap: boolean;
+}
+
+const optionClass = (selected: boolean) => `px-3 py-1 rounded-lg text-sm transition-colors
+  ${selected
+    ? 'bg-purple-600 text-white'
+    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`;
+
+interface ToggleProps {
+  label: string;
+  on: boolean;
+  onToggle: () => void;
+}
+
+const Toggle: React.FC<ToggleProps> = ({ label, on, onToggle }) => (
+  <button onClick={onToggle} className={optionClass(on)} aria-pressed={on}>
+    {label}
+  </button>
+);
+
+export const RulesPanel: React.FC<RulesPanelProps> = ({ rules, onChange, usesMap }) => (
+  <div className="w-full bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-3 text-sm dark:text-white">
+    <div className="flex items-center justify-between">
+      <h3 className="text-lg font-semibold">Rules</h3>
+      <button onClick={() => onChange(DEFAULT_RULES)} className={optionClass(false)}>
+        Reset
+      </button>
+    </div>
+
+    <label className={`flex items-center gap-3 ${usesMap ? 'opacity-50' : ''}`}>
+      <span className="w-20 font-semibold">Grid</span>
+      <input
+        type="range"
+        min={MIN_GRID_SIZE}
+        max={MAX_GRID_SIZE}
+        value={rules.gridSize}
+        disabled={usesMap}
+        onChange={(e) => onChange({ gridSize: Number(e.target.value) })}
+        className="flex-1"
+      />
+      <span className="w-14 text-right">{rules.gridSize}×{rules.gridSize}</span>
+    </label>
+
+    <div className={`flex items-center gap-2 ${usesMap ? 'opacity-50' : ''}`}>
+      <span className="w-20 font-semibold">Portals</span>
+      {Array.from({ length: MAX_RANDOM_PORTALS + 1 }, (_, count) => (
+        <button
+          key={count}
+          onClick={() => onChange({ portals: count })}
+          disabled={usesMap}
+          className={optionClass(rules.portals === count)}
+        >
+          {count}
+        </button>
+      ))}
+    </div>
+
+    <div className="flex flex-wrap items-center gap-2">
+      <Toggle label="Wrap edges" on={rules.wrap} onToggle={() => onChange({ wrap: !rules.wrap })} />
+      <Toggle label="Timed food" on={rules.timedFood} onToggle={() => onChange({ timedFood: !rules.timedFood })} />
+      <Toggle label="Poison" on={rules.poison} onToggle={() => onChange({ poison: !rules.poison })} />
+    </div>
+
+    {usesMap && (
+      <p className="text-xs text-gray-600 dark:text-gray-400">
+        The map sets the grid size and portals.
+      </p>
+    )}
+  </div>
+);
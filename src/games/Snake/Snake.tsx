@@ -1,364 +1,281 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Trophy, Pause, Play, RefreshCcw, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Palette } from 'lucide-react';
-import { Direction, Point, GameState, Difficulty, Food, Wall, FoodType, SnakeColor, SPEEDS, FOOD_POINTS, FOOD_EMOJIS, SNAKE_COLORS } from './types';
-
-const GRID_SIZE = 20;
-const INITIAL_SNAKE: Point[] = [{ x: 10, y: 10 }];
-const WALL_SPAWN_SCORE = 10;
-const MULTI_FOOD_SCORE = 5;
-const SWIPE_THRESHOLD = 50;
-
-interface TouchPosition {
-  x: number;
-  y: number;
+import {
+  Trophy, Pause, Play, RefreshCcw, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Palette, Bot, Pencil, Plus, Trash2,
+  SlidersHorizontal, User, Users
+} from 'lucide-react';
+import {
+  Difficulty, Direction, Point, SnakeInput, SnakeMap, SnakeRules, SnakeState, StepResult,
+  ACTION_DIRECTIONS, AUTOPILOTS, AUTOPILOT_NAMES, DIFFICULTIES, PLAYER_MODES, SNAKE_MODES, SPEEDS, FOOD_EMOJIS, SNAKE_COLORS, SNAKE_COLOR_NAMES,
+  EVENT_SOUNDS, FOOD_LIFETIME, POISON_SHRINK, WALL_SPAWN_SCORE
+} from './types';
+import { acceptsInput, createGame, step } from './engine';
+import { planMove } from './bot';
+import { drawBoard } from './draw';
+import { BUILT_IN_MAPS, parseMaps, serializeMap } from './maps';
+import { MapEditor } from './MapEditor';
+import { RulesPanel } from './RulesPanel';
+import { SnakeBattle } from './SnakeBattle';
+import { supportsBattle } from './battle';
+import { describeRules, effectiveRules, rulesFromSettings, rulesToSettings, scoreVariant, useSnakeRules } from './rules';
+import { useCustomLevels, useGameSetting, useGameStore, useHighScore } from '../../store/gameStore';
+import { randomSeed, withRng } from '../../utils/random';
+import { Replay, ReplayInput, REPLAY_VERSION, inputsByTick } from '../../utils/replay';
+import { useReplayPlayback } from '../../hooks/useReplayPlayback';
+import { useActions } from '../../hooks/useActions';
+import { useMusic } from '../../hooks/useAudio';
+import { playSound } from '../../utils/audio';
+import { announce } from '../../utils/announce';
+import { reportEvent, useUnlockedOptions } from '../../store/achievements';
+import { InputAction } from '../../types/game';
+import { ReplayPanel } from '../../components/ReplayPanel';
+
+const REPLAY_GAME = 'snake';
+const BUILT_IN_MAP_NAMES = BUILT_IN_MAPS.map(map => map.name);
+
+// A game in progress: the engine state plus the RNG state that feeds its steps.
+interface Run {
+  seed: number;
+  rules: SnakeRules;
+  map: SnakeMap | null;
+  state: SnakeState;
+  rngState: number;
 }
 
-const getRandomPosition = (snake: Point[], foods: Food[], walls: Wall[]): Point => {
-  let position: Point;
-  do {
-    position = {
-      x: Math.floor(Math.random() * GRID_SIZE),
-      y: Math.floor(Math.random() * GRID_SIZE)
-    };
-  } while (
-    snake.some(segment => segment.x === position.x && segment.y === position.y) ||
-    foods.some(food => food.x === position.x && food.y === position.y) ||
-    walls.some(wall => wall.x === position.x && wall.y === position.y)
-  );
-  return position;
+const startRun = (difficulty: Difficulty, seed: number, rules: SnakeRules, map: SnakeMap | null): Run => {
+  const [state, rngState] = withRng(seed, random => createGame(difficulty, random, rules, map));
+  return { seed, rules, map, state, rngState };
 };
 
-const getRandomFoodType = (): FoodType => {
-  const types: FoodType[] = ['apple', 'banana', 'meat', 'berry'];
-  const weights = [0.4, 0.3, 0.2, 0.1];
-  const random = Math.random();
-  let sum = 0;
-  for (let i = 0; i < weights.length; i++) {
-    sum += weights[i];
-    if (random < sum) return types[i];
+// Replays of custom-map games carry the map itself, so they play back even
+// where the map was never saved.
+const replayMap = (replay: Replay): SnakeMap | null => {
+  if (!replay.settings.map) return null;
+  try {
+    return parseMaps(replay.settings.map)[0];
+  } catch {
+    return null;
   }
-  return 'apple';
 };
 
-const createFood = (snake: Point[], foods: Food[], walls: Wall[]): Food => {
-  const position = getRandomPosition(snake, foods, walls);
-  const type = getRandomFoodType();
-  return {
-    ...position,
-    type,
-    points: FOOD_POINTS[type]
-  };
+const stepRun = (run: Run, input: SnakeInput): [Run, StepResult] => {
+  const [result, rngState] = withRng(run.rngState, random => step(run.state, input, random));
+  return [{ ...run, state: result.state, rngState }, result];
 };
 
-const createWall = (snake: Point[], foods: Food[], walls: Wall[]): Wall => {
-  return getRandomPosition(snake, foods, walls);
-};
-
-const createBorderWalls = (): Wall[] => {
-  const walls: Wall[] = [];
-  for (let i = 0; i < GRID_SIZE; i++) {
-    walls.push({ x: i, y: 0 }); // Top wall
-    walls.push({ x: i, y: GRID_SIZE - 1 }); // Bottom wall
-    walls.push({ x: 0, y: i }); // Left wall
-    walls.push({ x: GRID_SIZE - 1, y: i }); // Right wall
+// Steps a replay forward to `tick`, feeding in its direction changes on the
+// ticks they were recorded at.
+const replayTo = (run: Run, tick: number, inputs: Map<number, string[]>): Run => {
+  let current = run;
+  while (current.state.tick < tick && !current.state.isGameOver) {
+    const changes = inputs.get(current.state.tick) ?? [];
+    [current] = stepRun(current, (changes[changes.length - 1] as Direction | undefined) ?? null);
   }
-  return walls;
-};
-
-const initialState: GameState = {
-  snake: INITIAL_SNAKE,
-  foods: [createFood(INITIAL_SNAKE, [], [])],
-  walls: [],
-  direction: 'RIGHT',
-  nextDirection: 'RIGHT',
-  score: 0,
-  highScore: 0,
-  isGameOver: false,
-  isPaused: false,
-  difficulty: 'normal',
-  gridSize: GRID_SIZE,
-  snakeColor: 'green'
+  return current;
 };
 
 const Snake: React.FC = () => {
-  const [state, setState] = useState<GameState>(initialState);
+  const maxPlayers = useGameStore((state) => state.currentGame?.maxPlayers ?? 1);
+  const playerModes = PLAYER_MODES.filter(option => option === 'solo' || maxPlayers >= 2);
+  const [players, setPlayers] = useGameSetting('players', playerModes, 'solo');
+  const isBattle = players === 'pvp';
+  const [difficulty, setDifficulty] = useGameSetting('difficulty', DIFFICULTIES, 'normal');
+  const snakeColors = useUnlockedOptions('snakeColor', SNAKE_COLOR_NAMES);
+  const [snakeColor, setSnakeColor] = useGameSetting('color', snakeColors, 'green');
+  const [autopilot, setAutopilot] = useGameSetting('autopilot', AUTOPILOTS, 'off');
+  const [mode, setMode] = useGameSetting('mode', SNAKE_MODES, 'classic');
+  const [rules, setRules] = useSnakeRules();
+  const [showRules, setShowRules] = useState(false);
+  const [customLevels, saveCustomLevel, deleteCustomLevel] = useCustomLevels();
+  const savedMaps = useMemo(() => Object.values(customLevels).flatMap(text => {
+    try {
+      return parseMaps(text);
+    } catch {
+      return [];
+    }
+  }), [customLevels]);
+  const maps = useMemo(() => [...BUILT_IN_MAPS, ...savedMaps], [savedMaps]);
+  const mapNames = useMemo(() => maps.map(map => map.name), [maps]);
+  const [mapName, setMapName] = useGameSetting('map', mapNames, BUILT_IN_MAP_NAMES[0]);
+  const map = mode === 'custom' ? maps.find(candidate => candidate.name === mapName) ?? null : null;
+  const [showEditor, setShowEditor] = useState(false);
+  const [editorMap, setEditorMap] = useState<SnakeMap | null>(null);
+  // The loop and input handlers work on runRef; `game` mirrors it for rendering.
+  const runRef = useRef<Run>(startRun(difficulty, randomSeed(), rules, map));
+  const [game, setGame] = useState<SnakeState>(runRef.current.state);
+  const [isPaused, setIsPaused] = useState(false);
   const [showControls, setShowControls] = useState(window.innerWidth <= 768);
   const [showColorPicker, setShowColorPicker] = useState(false);
-  const [touchStart, setTouchStart] = useState<TouchPosition | null>(null);
   const gameLoopRef = useRef<number>();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameAreaRef = useRef<HTMLDivElement>(null);
+  // The latest requested turn, applied on the next step.
+  const pendingInputRef = useRef<SnakeInput>(null);
+  const inputsRef = useRef<ReplayInput[]>([]);
+  const [plannedPath, setPlannedPath] = useState<Point[]>([]);
+  // Runs the autopilot took part in don't count towards the high score.
+  const botPlayedRef = useRef(false);
+  const [lastRun, setLastRun] = useState<Replay | null>(null);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const replayCacheRef = useRef<Run | null>(null);
+
+  const replayDifficulty: Difficulty = replay && DIFFICULTIES.includes(replay.settings.difficulty as Difficulty)
+    ? replay.settings.difficulty as Difficulty
+    : 'normal';
+  const playback = useReplayPlayback(replay, SPEEDS[replayDifficulty]);
+  const replayTick = Math.floor(playback.position);
+
+  const resetGame = useCallback(() => {
+    runRef.current = startRun(difficulty, randomSeed(), rules, map);
+    pendingInputRef.current = null;
+    inputsRef.current = [];
+    botPlayedRef.current = false;
+    setPlannedPath([]);
+    setGame(runRef.current.state);
+    setIsPaused(false);
+  }, [difficulty, rules, map]);
 
-  const moveSnake = useCallback(() => {
-    const newSnake = [...state.snake];
-    const head = { ...newSnake[0] };
-
-    switch (state.nextDirection) {
-      case 'UP':
-        head.y = (head.y - 1 + GRID_SIZE) % GRID_SIZE;
-        break;
-      case 'DOWN':
-        head.y = (head.y + 1) % GRID_SIZE;
-        break;
-      case 'LEFT':
-        head.x = (head.x - 1 + GRID_SIZE) % GRID_SIZE;
-        break;
-      case 'RIGHT':
-        head.x = (head.x + 1) % GRID_SIZE;
-        break;
-    }
-
-    // In extreme mode, hitting the border walls counts as collision
-    if (state.difficulty === 'extreme' && (head.x === 0 || head.x === GRID_SIZE - 1 || head.y === 0 || head.y === GRID_SIZE - 1)) {
-      setState(prev => ({ ...prev, isGameOver: true }));
-      return;
-    }
+  useEffect(() => {
+    const run = runRef.current;
+    if (run.state.difficulty !== difficulty || run.rules !== rules || run.map !== map) resetGame();
+  }, [difficulty, rules, map, resetGame]);
 
-    if (
-      newSnake.some(segment => segment.x === head.x && segment.y === head.y) ||
-      state.walls.some(wall => wall.x === head.x && wall.y === head.y)
-    ) {
-      setState(prev => ({ ...prev, isGameOver: true }));
-      return;
-    }
+  const [highScore, recordScore] = useHighScore(scoreVariant(difficulty, rules, map));
+  const ruleLabels = describeRules(effectiveRules(rules, map));
 
-    newSnake.unshift(head);
-
-    const foodIndex = state.foods.findIndex(food => food.x === head.x && food.y === head.y);
-    if (foodIndex !== -1) {
-      const eatenFood = state.foods[foodIndex];
-      const newFoods = state.foods.filter((_, i) => i !== foodIndex);
-      const newScore = state.score + eatenFood.points;
-      
-      if (newScore >= MULTI_FOOD_SCORE) {
-        const foodCount = Math.min(3, Math.floor(newScore / MULTI_FOOD_SCORE));
-        for (let i = newFoods.length; i < foodCount; i++) {
-          newFoods.push(createFood(newSnake, newFoods, state.walls));
-        }
-      } else {
-        newFoods.push(createFood(newSnake, newFoods, state.walls));
-      }
+  useEffect(() => {
+    if (!botPlayedRef.current) recordScore(game.score);
+  }, [game.score, recordScore]);
 
-      const newWalls = [...state.walls];
-      if (state.difficulty !== 'extreme' && newScore >= WALL_SPAWN_SCORE && newScore % WALL_SPAWN_SCORE === 0) {
-        newWalls.push(createWall(newSnake, newFoods, newWalls));
-      }
+  useEffect(() => {
+    if (autopilot === 'off') setPlannedPath([]);
+  }, [autopilot]);
 
-      setState(prev => ({
-        ...prev,
-        foods: newFoods,
-        walls: newWalls,
-        score: newScore,
-        highScore: Math.max(newScore, prev.highScore)
-      }));
-    } else {
-      newSnake.pop();
+  useEffect(() => {
+    replayCacheRef.current = null;
+  }, [replay]);
+
+  // The replayed game at the playback position, rebuilt from seed and inputs.
+  const replayState = useMemo(() => {
+    if (!replay) return null;
+    const cached = replayCacheRef.current;
+    const from = cached && cached.state.tick <= replayTick
+      ? cached
+      : startRun(replayDifficulty, replay.seed, rulesFromSettings(replay.settings), replayMap(replay));
+    replayCacheRef.current = replayTo(from, replayTick, inputsByTick(replay));
+    return replayCacheRef.current.state;
+  }, [replay, replayTick, replayDifficulty]);
+
+  const view = replayState ?? game;
+  const shownRules = isBattle ? rules : view.rules;
+
+  const handleDirectionClick = useCallback((direction: Direction) => {
+    const { state } = runRef.current;
+    if (replay || state.isGameOver || !acceptsInput(state, direction)) return;
+    pendingInputRef.current = direction;
+  }, [replay]);
+
+  const tickGame = useCallback(() => {
+    // The autopilot steers through the same handler as the keyboard.
+    if (autopilot !== 'off') {
+      const plan = planMove(runRef.current.state, autopilot);
+      botPlayedRef.current = true;
+      setPlannedPath(plan.path);
+      handleDirectionClick(plan.direction);
     }
 
-    setState(prev => ({
-      ...prev,
-      snake: newSnake,
-      direction: prev.nextDirection
-    }));
-  }, [state.nextDirection, state.foods, state.walls, state.snake, state.difficulty]);
-
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (state.isGameOver) return;
-
-    const keyDirections: { [key: string]: Direction } = {
-      ArrowUp: 'UP',
-      ArrowDown: 'DOWN',
-      ArrowLeft: 'LEFT',
-      ArrowRight: 'RIGHT',
-      w: 'UP',
-      s: 'DOWN',
-      a: 'LEFT',
-      d: 'RIGHT'
-    };
-
-    const newDirection = keyDirections[e.key];
-    if (!newDirection) return;
-
-    const opposites: { [key in Direction]: Direction } = {
-      UP: 'DOWN',
-      DOWN: 'UP',
-      LEFT: 'RIGHT',
-      RIGHT: 'LEFT'
-    };
-
-    if (opposites[newDirection] !== state.direction) {
-      setState(prev => ({ ...prev, nextDirection: newDirection }));
+    const run = runRef.current;
+    const input = pendingInputRef.current;
+    pendingInputRef.current = null;
+    if (acceptsInput(run.state, input) && input !== run.state.direction) {
+      inputsRef.current.push([run.state.tick, input]);
     }
-  }, [state.direction, state.isGameOver]);
-
-  const handleDirectionClick = (direction: Direction) => {
-    if (state.isGameOver) return;
 
-    const opposites: { [key in Direction]: Direction } = {
-      UP: 'DOWN',
-      DOWN: 'UP',
-      LEFT: 'RIGHT',
-      RIGHT: 'LEFT'
-    };
-
-    if (opposites[direction] !== state.direction) {
-      setState(prev => ({ ...prev, nextDirection: direction }));
+    const [next, { events }] = stepRun(run, input);
+    runRef.current = next;
+    setGame(next.state);
+    new Set(events.map(event => EVENT_SOUNDS[event.type])).forEach(sound => sound && playSound(sound));
+    if (next.state.isGameOver) announce(`Game over. Score ${next.state.score}`);
+    else if (next.state.score !== run.state.score) announce(`Score ${next.state.score}`);
+
+    // Only what the player did themselves counts towards achievements.
+    if (!botPlayedRef.current) {
+      events.forEach(event => {
+        if (event.type === 'ate') reportEvent({ type: 'snake:ate', food: event.food.type });
+      });
+      if (next.state.isGameOver) {
+        reportEvent({ type: 'snake:gameOver', score: next.state.score, difficulty: next.state.difficulty });
+      }
     }
-  };
 
-  const handleTouchStart = (e: React.TouchEvent) => {
-    const touch = e.touches[0];
-    setTouchStart({
-      x: touch.clientX,
-      y: touch.clientY
-    });
-  };
+    if (events.some(event => event.type === 'died')) {
+      setLastRun({
+        version: REPLAY_VERSION,
+        game: REPLAY_GAME,
+        seed: next.seed,
+        settings: {
+          difficulty: next.state.difficulty,
+          ...rulesToSettings(next.rules),
+          ...(next.map ? { map: serializeMap(next.map) } : {})
+        },
+        inputs: inputsRef.current,
+        length: next.state.tick,
+        score: next.state.score
+      });
+    }
+  }, [autopilot, handleDirectionClick]);
 
-  const handleTouchMove = (e: React.TouchEvent) => {
-    e.preventDefault();
+  const togglePause = () => {
+    setIsPaused(prev => !prev);
   };
 
-  const handleTouchEnd = (e: React.TouchEvent) => {
-    if (!touchStart) return;
-
-    const touch = e.changedTouches[0];
-    const deltaX = touch.clientX - touchStart.x;
-    const deltaY = touch.clientY - touchStart.y;
-    const absDeltaX = Math.abs(deltaX);
-    const absDeltaY = Math.abs(deltaY);
-
-    if (Math.max(absDeltaX, absDeltaY) > SWIPE_THRESHOLD) {
-      if (absDeltaX > absDeltaY) {
-        handleDirectionClick(deltaX > 0 ? 'RIGHT' : 'LEFT');
-      } else {
-        handleDirectionClick(deltaY > 0 ? 'DOWN' : 'UP');
-      }
+  // Battles take their own actions, one set per player.
+  const { dispatch, pointerHandlers } = useActions((action: InputAction) => {
+    const direction = ACTION_DIRECTIONS[action];
+    if (direction) {
+      handleDirectionClick(direction);
+    } else if (!replay && action === 'pause' && !game.isGameOver) {
+      togglePause();
+    } else if (!replay && action === 'confirm' && game.isGameOver) {
+      resetGame();
     }
+  }, !isBattle);
 
-    setTouchStart(null);
+  const watchReplay = (run: Replay) => {
+    setIsPaused(true);
+    setReplay(run);
   };
 
-  const togglePause = () => {
-    setState(prev => ({ ...prev, isPaused: !prev.isPaused }));
+  // The solo game waits paused while a battle is on.
+  const choosePlayers = (option: typeof players) => {
+    setIsPaused(true);
+    setPlayers(option);
   };
 
-  const resetGame = () => {
-    const newState = {
-      ...initialState,
-      highScore: state.highScore,
-      difficulty: state.difficulty,
-      snakeColor: state.snakeColor,
-      walls: state.difficulty === 'extreme' ? createBorderWalls() : []
-    };
-    setState(newState);
+  const openEditor = (initial: SnakeMap | null) => {
+    setIsPaused(true);
+    setEditorMap(initial);
+    setShowEditor(true);
+  };
+
+  const saveMap = (saved: SnakeMap) => {
+    saveCustomLevel(saved.name, serializeMap(saved));
+    setMode('custom');
+    setMapName(saved.name);
+    setEditorMap(saved);
   };
 
-  const handleDifficultyChange = (difficulty: Difficulty) => {
-    setState(prev => ({
-      ...initialState,
-      difficulty,
-      highScore: prev.highScore,
-      snakeColor: prev.snakeColor,
-      walls: difficulty === 'extreme' ? createBorderWalls() : []
-    }));
+  const exitReplay = () => {
+    setReplay(null);
+    resetGame();
   };
 
   const drawGame = useCallback(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const cellSize = canvas.width / GRID_SIZE;
-    const isDark = document.documentElement.classList.contains('dark');
-
-    ctx.fillStyle = isDark ? '#1a1a1a' : '#ffffff';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    ctx.strokeStyle = isDark ? '#374151' : '#e5e7eb';
-    for (let i = 0; i < GRID_SIZE; i++) {
-      for (let j = 0; j < GRID_SIZE; j++) {
-        ctx.strokeRect(i * cellSize, j * cellSize, cellSize, cellSize);
-      }
-    }
-
-    state.foods.forEach(food => {
-      ctx.font = `${cellSize * 0.8}px Arial`;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(
-        FOOD_EMOJIS[food.type],
-        food.x * cellSize + cellSize / 2,
-        food.y * cellSize + cellSize / 2
-      );
-    });
-
-    state.walls.forEach(wall => {
-      ctx.fillStyle = isDark ? '#4b5563' : '#6b7280';
-      ctx.fillRect(
-        wall.x * cellSize,
-        wall.y * cellSize,
-        cellSize,
-        cellSize
-      );
-    });
-
-    state.snake.forEach((segment, index) => {
-      const isHead = index === 0;
-      const [primaryColor, secondaryColor] = isDark 
-        ? SNAKE_COLORS[state.snakeColor].dark 
-        : SNAKE_COLORS[state.snakeColor].light;
-      
-      const gradient = ctx.createLinearGradient(
-        segment.x * cellSize,
-        segment.y * cellSize,
-        (segment.x + 1) * cellSize,
-        (segment.y + 1) * cellSize
-      );
-      
-      gradient.addColorStop(0, isHead ? primaryColor : secondaryColor);
-      gradient.addColorStop(1, secondaryColor);
-
-      ctx.fillStyle = gradient;
-
-      ctx.beginPath();
-      ctx.roundRect(
-        segment.x * cellSize + 1,
-        segment.y * cellSize + 1,
-        cellSize - 2,
-        cellSize - 2,
-        isHead ? cellSize / 4 : cellSize / 6
-      );
-      ctx.fill();
-
-      if (isHead) {
-        ctx.fillStyle = '#000000';
-        const eyeSize = cellSize / 6;
-        const eyeOffset = cellSize / 4;
-        
-        switch (state.direction) {
-          case 'RIGHT':
-            ctx.fillRect(segment.x * cellSize + cellSize - eyeOffset, segment.y * cellSize + eyeOffset, eyeSize, eyeSize);
-            ctx.fillRect(segment.x * cellSize + cellSize - eyeOffset, segment.y * cellSize + cellSize - eyeOffset - eyeSize, eyeSize, eyeSize);
-            break;
-          case 'LEFT':
-            ctx.fillRect(segment.x * cellSize + eyeOffset - eyeSize, segment.y * cellSize + eyeOffset, eyeSize, eyeSize);
-            ctx.fillRect(segment.x * cellSize + eyeOffset - eyeSize, segment.y * cellSize + cellSize - eyeOffset - eyeSize, eyeSize, eyeSize);
-            break;
-          case 'UP':
-            ctx.fillRect(segment.x * cellSize + eyeOffset, segment.y * cellSize + eyeOffset - eyeSize, eyeSize, eyeSize);
-            ctx.fillRect(segment.x * cellSize + cellSize - eyeOffset - eyeSize, segment.y * cellSize + eyeOffset - eyeSize, eyeSize, eyeSize);
-            break;
-          case 'DOWN':
-            ctx.fillRect(segment.x * cellSize + eyeOffset, segment.y * cellSize + cellSize - eyeOffset, eyeSize, eyeSize);
-            ctx.fillRect(segment.x * cellSize + cellSize - eyeOffset - eyeSize, segment.y * cellSize + cellSize - eyeOffset, eyeSize, eyeSize);
-            break;
-        }
-      }
-    });
-  }, [state.snake, state.foods, state.walls, state.direction, state.snakeColor]);
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    drawBoard(ctx, canvas.width, view, snakeColor, replay ? [] : plannedPath);
+  }, [view, snakeColor, replay, plannedPath]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -378,15 +295,12 @@ const Snake: React.FC = () => {
     updateCanvasSize();
 
     return () => window.removeEventListener('resize', updateCanvasSize);
-  }, [drawGame]);
+  }, [drawGame, isBattle]);
 
-  useEffect(() => {
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleKeyDown]);
+  useMusic(!isBattle && !replay && !game.isGameOver && !isPaused);
 
   useEffect(() => {
-    if (state.isGameOver || state.isPaused) {
+    if (isBattle || replay || game.isGameOver || isPaused) {
       if (gameLoopRef.current) {
         cancelAnimationFrame(gameLoopRef.current);
       }
@@ -398,9 +312,8 @@ const Snake: React.FC = () => {
       if (!lastTime) lastTime = timestamp;
       const elapsed = timestamp - lastTime;
 
-      if (elapsed > SPEEDS[state.difficulty]) {
-        moveSnake();
-        drawGame();
+      if (elapsed > SPEEDS[game.difficulty]) {
+        tickGame();
         lastTime = timestamp;
       }
 
@@ -414,7 +327,7 @@ const Snake: React.FC = () => {
         cancelAnimationFrame(gameLoopRef.current);
       }
     };
-  }, [state.isGameOver, state.isPaused, state.difficulty, moveSnake, drawGame]);
+  }, [isBattle, replay, game.isGameOver, isPaused, game.difficulty, tickGame]);
 
   useEffect(() => {
     const handleResize = () => {
@@ -429,12 +342,12 @@ const Snake: React.FC = () => {
     <div className="flex flex-col items-center justify-center w-full max-w-4xl mx-auto p-4">
       <div className="w-full flex flex-wrap items-center justify-between gap-4 mb-8">
         <div className="flex gap-4">
-          {(['easy', 'normal', 'hard', 'extreme'] as Difficulty[]).map(diff => (
+          {DIFFICULTIES.map(diff => (
             <button
               key={diff}
-              onClick={() => handleDifficultyChange(diff)}
+              onClick={() => setDifficulty(diff)}
               className={`px-4 py-2 rounded-lg capitalize transition-colors
-                ${state.difficulty === diff
+                ${game.difficulty === diff
                   ? 'bg-purple-600 text-white'
                   : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
             >
@@ -444,138 +357,297 @@ const Snake: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-4">
-          <div className="text-lg font-semibold dark:text-white">
-            Score: {state.score}
-          </div>
-          <div className="text-lg font-semibold text-yellow-500">
-            High Score: {state.highScore}
-          </div>
-          <div className="relative">
-            <button
-              onClick={() => setShowColorPicker(!showColorPicker)}
-              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-            >
-              <Palette size={24} className="dark:text-white" />
-            </button>
-            {showColorPicker && (
-              <div className="absolute right-0 mt-2 p-2 bg-white dark:bg-gray-800 rounded-lg shadow-xl z-50 grid grid-cols-5 gap-2">
-                {(Object.keys(SNAKE_COLORS) as SnakeColor[]).map(color => (
-                  <button
-                    key={color}
-                    onClick={() => {
-                      setState(prev => ({ ...prev, snakeColor: color }));
-                      setShowColorPicker(false);
-                    }}
-                    className={`w-8 h-8 rounded-full transition-transform hover:scale-110 ${
-                      state.snakeColor === color ? 'ring-2 ring-offset-2 ring-blue-500' : ''
-                    }`}
-                    style={{ 
-                      background: `linear-gradient(135deg, ${SNAKE_COLORS[color].light[0]}, ${SNAKE_COLORS[color].light[1]})`
-                    }}
-                  />
-                ))}
+          {!isBattle && (
+            <>
+              <div className="text-lg font-semibold dark:text-white">
+                Score: {view.score}
               </div>
-            )}
-          </div>
-          <button
-            onClick={togglePause}
-            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-          >
-            {state.isPaused ? <Play size={24} className="dark:text-white" /> : <Pause size={24} className="dark:text-white" />}
-          </button>
+              <div className="text-lg font-semibold text-yellow-500" title={ruleLabels.join(', ') || 'Standard rules'}>
+                High Score: {highScore}
+              </div>
+            </>
+          )}
           <button
-            onClick={resetGame}
-            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            onClick={() => setShowRules(!showRules)}
+            className={`p-2 rounded-lg transition-colors
+              ${showRules ? 'bg-gray-200 dark:bg-gray-700' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+            aria-label="Rules"
+            aria-expanded={showRules}
           >
-            <RefreshCcw size={24} className="dark:text-white" />
+            <SlidersHorizontal size={24} className="dark:text-white" />
           </button>
-        </div>
-      </div>
-
-      <div 
-        ref={gameAreaRef}
-        className="relative touch-none"
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
-      >
-        <canvas
-          ref={canvasRef}
-          className="rounded-lg shadow-lg"
-        />
-
-        <AnimatePresence>
-          {state.isGameOver && (
-            <motion.div
-              initial={{ opacity: 0, scale: 0.5 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.5 }}
-              className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-75 rounded-lg"
-            >
-              <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl text-center">
-                <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
-                <h2 className="text-2xl font-bold mb-2 dark:text-white">Game Over!</h2>
-                <p className="text-lg mb-4 dark:text-gray-300">Score: {state.score}</p>
+          {!isBattle && (
+            <>
+              <div className="relative">
                 <button
-                  onClick={resetGame}
-                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  onClick={() => setShowColorPicker(!showColorPicker)}
+                  className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
                 >
-                  Play Again
+                  <Palette size={24} className="dark:text-white" />
                 </button>
+                {showColorPicker && (
+                  <div className="absolute right-0 mt-2 p-2 bg-white dark:bg-gray-800 rounded-lg shadow-xl z-50 grid grid-cols-5 gap-2">
+                    {snakeColors.map(color => (
+                      <button
+                        key={color}
+                        onClick={() => {
+                          setSnakeColor(color);
+                          setShowColorPicker(false);
+                        }}
+                        className={`w-8 h-8 rounded-full transition-transform hover:scale-110 ${
+                          snakeColor === color ? 'ring-2 ring-offset-2 ring-blue-500' : ''
+                        }`}
+                        style={{ 
+                          background: `linear-gradient(135deg, ${SNAKE_COLORS[color].light[0]}, ${SNAKE_COLORS[color].light[1]})`
+                        }}
+                      />
+                    ))}
+                  </div>
+                )}
               </div>
-            </motion.div>
+              <button
+                onClick={togglePause}
+                className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                {isPaused ? <Play size={24} className="dark:text-white" /> : <Pause size={24} className="dark:text-white" />}
+              </button>
+              <button
+                onClick={resetGame}
+                className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                <RefreshCcw size={24} className="dark:text-white" />
+              </button>
+            </>
           )}
-        </AnimatePresence>
+        </div>
       </div>
 
-      {showControls && (
-        <div className="mt-8 grid grid-cols-3 gap-4 w-48">
-          <div />
-          <button
-            onTouchStart={() => handleDirectionClick('UP')}
-            onMouseDown={() => handleDirectionClick('UP')}
-            className="p-4 bg-gray-200 dark:bg-gray-700 rounded-lg active:bg-gray-300 dark:active:bg-gray-600 transition-colors active:scale-95 touch-none"
-          >
-            <ChevronUp size={24} className="dark:text-white" />
-          </button>
-          <div />
-          <button
-            onTouchStart={() => handleDirectionClick('LEFT')}
-            onMouseDown={() => handleDirectionClick('LEFT')}
-            className="p-4 bg-gray-200 dark:bg-gray-700 rounded-lg active:bg-gray-300 dark:active:bg-gray-600 transition-colors active:scale-95 touch-none"
-          >
-            <ChevronLeft size={24} className="dark:text-white" />
-          </button>
+      <div className="w-full flex flex-wrap items-center gap-2 -mt-4 mb-6">
+        {playerModes.length > 1 && playerModes.map(option => (
           <button
-            onTouchStart={() => handleDirectionClick('DOWN')}
-            onMouseDown={() => handleDirectionClick('DOWN')}
-            className="p-4 bg-gray-200 dark:bg-gray-700 rounded-lg active:bg-gray-300 dark:active:bg-gray-600 transition-colors active:scale-95 touch-none"
+            key={option}
+            onClick={() => choosePlayers(option)}
+            className={`flex items-center gap-1 px-3 py-1 rounded-lg text-sm transition-colors
+              ${players === option
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
           >
-            <ChevronDown size={24} className="dark:text-white" />
+            {option === 'solo' ? <><User size={16} /> Solo</> : <><Users size={16} /> Battle</>}
           </button>
+        ))}
+        {!isBattle && (
+          <>
+            <span className="flex items-center gap-1 ml-2 text-sm font-semibold text-gray-700 dark:text-gray-300">
+              <Bot size={18} /> Autopilot
+            </span>
+            {AUTOPILOTS.map(option => (
+              <button
+                key={option}
+                onClick={() => setAutopilot(option)}
+                className={`px-3 py-1 rounded-lg text-sm transition-colors
+                  ${autopilot === option
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+              >
+                {AUTOPILOT_NAMES[option]}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+
+      <div className="w-full flex flex-wrap items-center gap-2 mb-6">
+        {SNAKE_MODES.map(option => (
           <button
-            onTouchStart={() => handleDirectionClick('RIGHT')}
-            onMouseDown={() => handleDirectionClick('RIGHT')}
-            className="p-4 bg-gray-200 dark:bg-gray-700 rounded-lg active:bg-gray-300 dark:active:bg-gray-600 transition-colors active:scale-95 touch-none"
+            key={option}
+            onClick={() => setMode(option)}
+            className={`px-3 py-1 rounded-lg text-sm transition-colors
+              ${mode === option
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
           >
-            <ChevronRight size={24} className="dark:text-white" />
+            {option === 'classic' ? 'Classic' : 'Custom map'}
           </button>
+        ))}
+        {mode === 'custom' && (
+          <>
+            <select
+              value={mapName}
+              onChange={(e) => setMapName(e.target.value)}
+              className="px-3 py-1 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+              aria-label="Map"
+            >
+              {mapNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => openEditor(map)}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label="Edit map"
+            >
+              <Pencil size={18} className="dark:text-white" />
+            </button>
+            <button
+              onClick={() => openEditor(null)}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              aria-label="New map"
+            >
+              <Plus size={18} className="dark:text-white" />
+            </button>
+            {map && !BUILT_IN_MAP_NAMES.includes(map.name) && (
+              <button
+                onClick={() => deleteCustomLevel(map.name)}
+                className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                aria-label="Delete map"
+              >
+                <Trash2 size={18} className="text-red-600" />
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {showRules && (
+        <div className="w-full max-w-md mb-8">
+          <RulesPanel rules={rules} onChange={setRules} usesMap={map !== null} />
+        </div>
+      )}
+
+      {showEditor && (
+        <div className="w-full max-w-md mb-8">
+          <MapEditor
+            key={editorMap?.name ?? ''}
+            initial={editorMap}
+            reservedNames={BUILT_IN_MAP_NAMES}
+            onSave={saveMap}
+            onClose={() => setShowEditor(false)}
+          />
         </div>
       )}
 
+      {isBattle ? (
+        map && !supportsBattle(map) ? (
+          <p className="text-center text-gray-600 dark:text-gray-400">
+            {map.name} has only one starting position. Add a second one in the editor to battle on it.
+          </p>
+        ) : (
+          <SnakeBattle difficulty={difficulty} rules={rules} map={map} />
+        )
+      ) : (
+        <>
+          <div
+            ref={gameAreaRef}
+            className="relative touch-none"
+            {...pointerHandlers}
+          >
+            <canvas
+              ref={canvasRef}
+              className="rounded-lg shadow-lg"
+              role="img"
+              aria-label={`Snake board. Score ${view.score}, length ${view.snake.length}${view.isGameOver ? ', game over' : ''}`}
+            />
+
+            <AnimatePresence>
+              {!replay && game.isGameOver && (
+                <motion.div
+                  initial={{ opacity: 0, scale: 0.5 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 0.5 }}
+                  className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-75 rounded-lg"
+                >
+                  <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl text-center">
+                    <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+                    <h2 className="text-2xl font-bold mb-2 dark:text-white">Game Over!</h2>
+                    <p className="text-lg mb-4 dark:text-gray-300">Score: {game.score}</p>
+                    <button
+                      onClick={resetGame}
+                      className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      Play Again
+                    </button>
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+
+          {showControls && (
+            <div className="mt-8 grid grid-cols-3 gap-4 w-48">
+              <div />
+              <button
+                onPointerDown={() => dispatch('up')}
+                className="p-4 bg-gray-200 dark:bg-gray-700 rounded-lg active:bg-gray-300 dark:active:bg-gray-600 transition-colors active:scale-95 touch-none"
+              >
+                <ChevronUp size={24} className="dark:text-white" />
+              </button>
+              <div />
+              <button
+                onPointerDown={() => dispatch('left')}
+                className="p-4 bg-gray-200 dark:bg-gray-700 rounded-lg active:bg-gray-300 dark:active:bg-gray-600 transition-colors active:scale-95 touch-none"
+              >
+                <ChevronLeft size={24} className="dark:text-white" />
+              </button>
+              <button
+                onPointerDown={() => dispatch('down')}
+                className="p-4 bg-gray-200 dark:bg-gray-700 rounded-lg active:bg-gray-300 dark:active:bg-gray-600 transition-colors active:scale-95 touch-none"
+              >
+                <ChevronDown size={24} className="dark:text-white" />
+              </button>
+              <button
+                onPointerDown={() => dispatch('right')}
+                className="p-4 bg-gray-200 dark:bg-gray-700 rounded-lg active:bg-gray-300 dark:active:bg-gray-600 transition-colors active:scale-95 touch-none"
+              >
+                <ChevronRight size={24} className="dark:text-white" />
+              </button>
+            </div>
+          )}
+
+          <div className="w-full max-w-md mt-8">
+            <ReplayPanel
+              game={REPLAY_GAME}
+              replay={replay}
+              lastRun={lastRun}
+              playback={playback}
+              onWatch={watchReplay}
+              onExit={exitReplay}
+            />
+          </div>
+        </>
+      )}
+
       <div className="mt-8 text-center text-sm text-gray-600 dark:text-gray-400">
-        <p>Use arrow keys, WASD, swipe, or control buttons to move the snake</p>
+        {isBattle ? (
+          <>
+            <p>Player 1 steers with WASD and player 2 with the arrow keys; Space starts each round.</p>
+            <p>Run into the other snake and you lose the round. Meet head-on and you both do.</p>
+          </>
+        ) : (
+          <p>Use arrow keys, WASD, swipe, or control buttons to move the snake</p>
+        )}
         <p>Collect different foods to grow and increase your score:</p>
         <div className="flex justify-center gap-4 mt-2">
           <span>{FOOD_EMOJIS.apple} Apple: +1 point</span>
           <span>{FOOD_EMOJIS.banana} Banana: +2 points</span>
           <span>{FOOD_EMOJIS.meat} Meat: +3 points</span>
           <span>{FOOD_EMOJIS.berry} Berry: +1 point</span>
+          {shownRules.poison && <span>{FOOD_EMOJIS.poison} Poison: -{POISON_SHRINK} length</span>}
         </div>
+        {shownRules.timedFood && (
+          <p className="mt-2">Food shrinks as it ages, losing value, and disappears after {FOOD_LIFETIME} moves.</p>
+        )}
+        {!shownRules.wrap && <p className="mt-2">The edges don't wrap: running off the board ends the game.</p>}
+        {!isBattle && ruleLabels.length > 0 && (
+          <p className="mt-2">High scores are kept separately for these rules: {ruleLabels.join(', ')}.</p>
+        )}
         <p className="mt-2">
-          {state.difficulty === 'extreme' 
-            ? "Extreme mode: Don't hit the walls around the board!"
-            : `Watch out for walls that appear after score ${WALL_SPAWN_SCORE}!`}
+          {map
+            ? 'Walls and portals come from the map. Enter a portal to come out of its twin!'
+            : difficulty === 'extreme'
+              ? "Extreme mode: Don't hit the walls around the board!"
+              : isBattle
+                ? 'No walls appear during a battle.'
+                : `Watch out for walls that appear after score ${WALL_SPAWN_SCORE}!`}
         </p>
       </div>
     </div>
@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Trophy, Pause, Play, RefreshCcw, Swords } from 'lucide-react';
+import {
+  BattleDeathCause, BattleState, Controller, Difficulty, SnakeInput, SnakeMap, SnakeRules,
+  ACTION_DIRECTIONS, AUTOPILOT_NAMES, CONTROLLERS, EVENT_SOUNDS, ROUNDS_TO_WIN, SNAKE_COLORS, SNAKE_COLOR_NAMES, SPEEDS
+} from './types';
+import { acceptsInput } from './engine';
+import { createBattle, fighterView, stepBattle } from './battle';
+import { planMove } from './bot';
+import { drawBattle } from './draw';
+import { useGameSetting, useGameStore } from '../../store/gameStore';
+import { useActions } from '../../hooks/useActions';
+import { useMusic } from '../../hooks/useAudio';
+import { playSound } from '../../utils/audio';
+import { announce } from '../../utils/announce';
+import { reportEvent, useUnlockedOptions } from '../../store/achievements';
+import { randomSeed, withRng } from '../../utils/random';
+import { keyLabel } from '../../utils/input';
+import { InputAction } from '../../types/game';
+
+const DEATH_TEXT: Record<BattleDeathCause, string> = {
+  self: 'ran into itself',
+  wall: 'hit a wall',
+  border: 'went off the edge',
+  poison: 'ate one mushroom too many',
+  headOn: 'met head-on',
+  rival: 'ran into the other snake'
+};
+
+interface Round {
+  state: BattleState;
+  rngState: number;
+}
+
+const startRound = (difficulty: Difficulty, rules: SnakeRules, map: SnakeMap | null): Round => {
+  const [state, rngState] = withRng(randomSeed(), random => createBattle(difficulty, random, rules, map));
+  return { state, rngState };
+};
+
+// A player's direction keys as one label, like "W A S D".
+const steeringKeys = (bindings: Record<InputAction, string[]>) =>
+  (['up', 'left', 'down', 'right'] as const).map(action => keyLabel(bindings[action][0] ?? '?')).join(' ');
+
+const playerName = (controller: Controller, player: number) =>
+  controller === 'human' ? `Player ${player + 1}` : `${AUTOPILOT_NAMES[controller]} bot`;
+
+const roundResultText = (winner: number | null, controllers: Controller[]) =>
+  winner === null ? 'Nobody takes the round' : `${playerName(controllers[winner], winner)} takes the round`;
+
+interface BattleProps {
+  difficulty: Difficulty;
+  rules: SnakeRules;
+  // A map with at least two starts, or null for an open board.
+  map: SnakeMap | null;
+}
+
+// Two snakes on one board, each steered from the keyboard or by a bot. Rounds
+// end when a snake dies; the first to win ROUNDS_TO_WIN rounds takes the match.
+export const SnakeBattle: React.FC<BattleProps> = ({ difficulty, rules, map }) => {
+  const [controller1, setController1] = useGameSetting('p1', CONTROLLERS, 'human');
+  const [controller2, setController2] = useGameSetting('p2', CONTROLLERS, 'human');
+  const snakeColors = useUnlockedOptions('snakeColor', SNAKE_COLOR_NAMES);
+  const [color1, setColor1] = useGameSetting('color', snakeColors, 'green');
+  const [color2, setColor2] = useGameSetting('color2', snakeColors, 'blue');
+  const controllers = useMemo(() => [controller1, controller2], [controller1, controller2]);
+  const colors = useMemo(() => [color1, color2], [color1, color2]);
+  const keyBindings = useGameStore((state) => state.keyBindings);
+  const setters = [
+    { setController: setController1, setColor: setColor1 },
+    { setController: setController2, setColor: setColor2 }
+  ];
+
+  // The loop and action handler work on roundRef; `battle` mirrors it for rendering.
+  const roundRef = useRef<Round>(startRound(difficulty, rules, map));
+  const [battle, setBattle] = useState<BattleState>(roundRef.current.state);
+  const [wins, setWins] = useState([0, 0]);
+  const [roundNumber, setRoundNumber] = useState(1);
+  const [deaths, setDeaths] = useState<string[]>([]);
+  // Each round waits for a start so both players are ready.
+  const [isPaused, setIsPaused] = useState(true);
+  const pendingInputsRef = useRef<SnakeInput[]>([null, null]);
+  const gameLoopRef = useRef<number>();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const matchWinner = wins.findIndex(count => count >= ROUNDS_TO_WIN);
+
+  const nextRound = useCallback(() => {
+    roundRef.current = startRound(difficulty, rules, map);
+    pendingInputsRef.current = [null, null];
+    setBattle(roundRef.current.state);
+    setDeaths([]);
+    setIsPaused(true);
+  }, [difficulty, rules, map]);
+
+  const newMatch = useCallback(() => {
+    nextRound();
+    setWins([0, 0]);
+    setRoundNumber(1);
+  }, [nextRound]);
+
+  // Changing the rules, board or players starts the match over.
+  useEffect(() => {
+    newMatch();
+  }, [newMatch, controllers]);
+
+  const tickBattle = useCallback(() => {
+    const round = roundRef.current;
+    const inputs = controllers.map((controller, player) => (controller === 'human'
+      ? pendingInputsRef.current[player]
+      : planMove(fighterView(round.state, player), controller).direction));
+    pendingInputsRef.current = [null, null];
+
+    const [{ state, events }, rngState] = withRng(round.rngState, random => stepBattle(round.state, inputs, random));
+    roundRef.current = { state, rngState };
+    setBattle(state);
+    new Set(events.map(event => EVENT_SOUNDS[event.type])).forEach(sound => sound && playSound(sound));
+
+    events.forEach(event => {
+      if (event.type === 'roundOver' && event.winner !== null) {
+        setWins(prev => prev.map((count, player) => (player === event.winner ? count + 1 : count)));
+      }
+    });
+    const died = events.flatMap(event => (event.type === 'died' ? [event] : []));
+    if (died.length > 0) {
+      const messages = died.some(event => event.cause === 'headOn')
+        ? [`The snakes ${DEATH_TEXT.headOn}`]
+        : died.map(event => `${playerName(controllers[event.player], event.player)} ${DEATH_TEXT[event.cause]}`);
+      setDeaths(messages);
+      messages.forEach(announce);
+    }
+    if (state.isOver) announce(roundResultText(state.winner, controllers));
+  }, [controllers]);
+
+  // A match counts when a player beats a bot.
+  useEffect(() => {
+    if (matchWinner >= 0 && controllers[matchWinner] === 'human' && controllers[1 - matchWinner] !== 'human') {
+      reportEvent({ type: 'snake:matchWon' });
+    }
+  }, [matchWinner, controllers]);
+
+  const continueMatch = useCallback(() => {
+    if (matchWinner >= 0) {
+      newMatch();
+    } else if (roundRef.current.state.isOver) {
+      setRoundNumber(prev => prev + 1);
+      nextRound();
+    } else {
+      setIsPaused(false);
+    }
+  }, [matchWinner, newMatch, nextRound]);
+
+  // Player 1's keys and first gamepad steer snake 1, player 2's snake 2.
+  useActions((action, player) => {
+    const { state } = roundRef.current;
+    if (action === 'confirm') {
+      if (state.isOver || isPaused) continueMatch();
+      return;
+    }
+    if (action === 'pause') {
+      if (!state.isOver && state.tick > 0) setIsPaused(prev => !prev);
+      return;
+    }
+
+    const direction = ACTION_DIRECTIONS[action];
+    if (!direction) return;
+    // With a bot in the other slot, either player's keys steer the one human.
+    const humans = controllers.flatMap((controller, i) => (controller === 'human' ? [i] : []));
+    const fighter = humans.length === 1 ? humans[0] : player;
+    if (controllers[fighter] !== 'human' || state.isOver || !acceptsInput(state.fighters[fighter], direction)) return;
+    pendingInputsRef.current[fighter] = direction;
+  });
+
+  const drawGame = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    drawBattle(ctx, canvas.width, battle, colors);
+  }, [battle, colors]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const updateCanvasSize = () => {
+      const size = Math.min(
+        window.innerWidth - 32,
+        window.innerHeight - 300
+      );
+      canvas.width = size;
+      canvas.height = size;
+      drawGame();
+    };
+
+    window.addEventListener('resize', updateCanvasSize);
+    updateCanvasSize();
+
+    return () => window.removeEventListener('resize', updateCanvasSize);
+  }, [drawGame]);
+
+  useMusic(!battle.isOver && !isPaused);
+
+  useEffect(() => {
+    if (battle.isOver || isPaused) {
+      if (gameLoopRef.current) {
+        cancelAnimationFrame(gameLoopRef.current);
+      }
+      return;
+    }
+
+    let lastTime = 0;
+    const gameLoop = (timestamp: number) => {
+      if (!lastTime) lastTime = timestamp;
+      const elapsed = timestamp - lastTime;
+
+      if (elapsed > SPEEDS[battle.difficulty]) {
+        tickBattle();
+        lastTime = timestamp;
+      }
+
+      gameLoopRef.current = requestAnimationFrame(gameLoop);
+    };
+
+    gameLoopRef.current = requestAnimationFrame(gameLoop);
+
+    return () => {
+      if (gameLoopRef.current) {
+        cancelAnimationFrame(gameLoopRef.current);
+      }
+    };
+  }, [battle.isOver, isPaused, battle.difficulty, tickBattle]);
+
+  const roundResult = roundResultText(battle.winner, controllers);
+  const showStart = isPaused && battle.tick === 0;
+
+  return (
+    <div className="w-full flex flex-col items-center">
+      <div className="w-full flex flex-wrap items-start justify-between gap-4 mb-6">
+        {controllers.map((controller, player) => (
+          <div key={player} className="flex flex-col gap-2 dark:text-white">
+            <div className="flex items-center gap-2 text-lg font-semibold">
+              <span
+                className="w-4 h-4 rounded-full"
+                style={{ background: SNAKE_COLORS[colors[player]].light[0] }}
+              />
+              {playerName(controller, player)}: {battle.fighters[player].score}
+            </div>
+            <div className="flex items-center gap-1" aria-label={`Rounds won by player ${player + 1}`}>
+              {Array.from({ length: ROUNDS_TO_WIN }, (_, i) => (
+                <Trophy key={i} size={16} className={i < wins[player] ? 'text-yellow-500' : 'text-gray-300 dark:text-gray-600'} />
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={controller}
+                onChange={(e) => setters[player].setController(e.target.value as Controller)}
+                className="px-2 py-1 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                aria-label={`Player ${player + 1} controls`}
+              >
+                {CONTROLLERS.map(option => (
+                  <option key={option} value={option}>
+                    {option === 'human' ? steeringKeys(keyBindings[player]) : `${AUTOPILOT_NAMES[option]} bot`}
+                  </option>
+                ))}
+              </select>
+              {snakeColors.map(color => (
+                <button
+                  key={color}
+                  onClick={() => setters[player].setColor(color)}
+                  className={`w-5 h-5 rounded-full transition-transform hover:scale-110 ${
+                    colors[player] === color ? 'ring-2 ring-offset-1 ring-blue-500' : ''
+                  }`}
+                  style={{
+                    background: `linear-gradient(135deg, ${SNAKE_COLORS[color].light[0]}, ${SNAKE_COLORS[color].light[1]})`
+                  }}
+                  aria-label={`Player ${player + 1} ${color}`}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="w-full flex items-center justify-between mb-4">
+        <div className="text-lg font-semibold dark:text-white">
+          Round {roundNumber} · first to {ROUNDS_TO_WIN}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIsPaused(prev => !prev)}
+            disabled={battle.isOver || battle.tick === 0}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+            aria-label={isPaused ? 'Resume' : 'Pause'}
+          >
+            {isPaused ? <Play size={24} className="dark:text-white" /> : <Pause size={24} className="dark:text-white" />}
+          </button>
+          <button
+            onClick={newMatch}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            aria-label="New match"
+          >
+            <RefreshCcw size={24} className="dark:text-white" />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          className="rounded-lg shadow-lg"
+          role="img"
+          aria-label={`Snake battle. ${controllers
+            .map((controller, player) => `${playerName(controller, player)}: ${battle.fighters[player].score}`)
+            .join(', ')}`}
+        />
+
+        <AnimatePresence>
+          {(showStart || battle.isOver) && (
+            <motion.div
+              initial={{ opacity: 0, scale: 0.5 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.5 }}
+              className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-75 rounded-lg"
+            >
+              <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl text-center">
+                {battle.isOver ? (
+                  <>
+                    <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+                    <h2 className="text-2xl font-bold mb-2 dark:text-white">
+                      {matchWinner >= 0 ? `${playerName(controllers[matchWinner], matchWinner)} wins the match!` : roundResult}
+                    </h2>
+                    {deaths.map(text => (
+                      <p key={text} className="text-gray-600 dark:text-gray-300">{text}</p>
+                    ))}
+                    <p className="text-lg my-4 dark:text-gray-300">{wins[0]} – {wins[1]}</p>
+                  </>
+                ) : (
+                  <>
+                    <Swords className="w-16 h-16 text-purple-500 mx-auto mb-4" />
+                    <h2 className="text-2xl font-bold mb-4 dark:text-white">Round {roundNumber}</h2>
+                  </>
+                )}
+                <button
+                  onClick={continueMatch}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  {matchWinner >= 0 ? 'New Match' : battle.isOver ? 'Next Round' : 'Start'}
+                </button>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+};
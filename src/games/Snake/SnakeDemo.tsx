@@ -0,0 +1,61 @@
+import React, { useEffect, useRef } from 'react';
+import { Point, SnakeState, SPEEDS } from './types';
+import { createGame, step } from './engine';
+import { planMove } from './bot';
+import { drawBoard } from './draw';
+import { randomSeed, withRng } from '../../utils/random';
+
+const DEMO_SIZE = 240;
+// How long the final position stays up before a new game starts.
+const RESTART_DELAY = 1500;
+
+// A self-playing game of Snake for the dashboard, driven by the A* autopilot.
+const SnakeDemo: React.FC = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const start = (): [SnakeState, number] => withRng(randomSeed(), random => createGame('easy', random));
+    let [state, rngState] = start();
+    let lastTime = 0;
+    let frame: number;
+
+    const loop = (timestamp: number) => {
+      if (!lastTime) lastTime = timestamp;
+      const delay = state.isGameOver ? RESTART_DELAY : SPEEDS.normal;
+
+      if (timestamp - lastTime > delay) {
+        lastTime = timestamp;
+        let path: Point[] = [];
+        if (state.isGameOver) {
+          [state, rngState] = start();
+        } else {
+          const plan = planMove(state, 'astar');
+          const [result, nextRngState] = withRng(rngState, random => step(state, plan.direction, random));
+          [state, rngState, path] = [result.state, nextRngState, plan.path];
+        }
+        drawBoard(ctx, DEMO_SIZE, state, 'purple', path);
+      }
+
+      frame = requestAnimationFrame(loop);
+    };
+
+    drawBoard(ctx, DEMO_SIZE, state, 'purple');
+    frame = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={DEMO_SIZE}
+      height={DEMO_SIZE}
+      className="rounded-lg shadow"
+      aria-label="Snake playing itself"
+    />
+  );
+};
+
+export default SnakeDemo;
@@ -0,0 +1,159 @@
+import { Rng } from '../../utils/random';
+import {
+  BattleDeathCause, BattleEvent, BattleState, BattleStepResult, Difficulty, Direction, Fighter, Point, SnakeInput,
+  SnakeMap, SnakeRules, SnakeState, Start, POISON_SHRINK
+} from './types';
+import {
+  OPPOSITES, acceptsInput, createBorderWalls, createFood, createPortals, foodFreshness, foodValue, moveHead,
+  reservedCells, restock, samePoint
+} from './engine';
+
+// Without a map the snakes start a quarter of the way in from opposite
+// corners, heading towards each other's side on different rows.
+const classicStarts = (gridSize: number): Start[] => {
+  const inset = Math.floor(gridSize / 4);
+  return [
+    { x: inset, y: inset, direction: 'RIGHT' },
+    { x: gridSize - 1 - inset, y: gridSize - 1 - inset, direction: 'LEFT' }
+  ];
+};
+
+// Maps need a second starting position to be fought on.
+export const supportsBattle = (map: SnakeMap) => map.starts.length >= 2;
+
+// Extreme mode walls the board in; walls don't spawn as the score grows.
+export function createBattle(
+  difficulty: Difficulty,
+  random: Rng,
+  rules: SnakeRules,
+  map: SnakeMap | null = null
+): BattleState {
+  const gridSize = map ? map.size : rules.gridSize;
+  const starts = map ? map.starts.slice(0, 2) : classicStarts(gridSize);
+  const heads = starts.map(({ x, y }) => ({ x, y }));
+  const walls = map ? map.walls : difficulty === 'extreme' ? createBorderWalls(gridSize) : [];
+  const portals = map ? map.portals : createPortals(rules.portals, gridSize, heads, walls, random);
+  const reserved = reservedCells({ walls, portals });
+
+  const foods = [createFood(gridSize, heads, [], reserved, 0, random)];
+  if (rules.poison) foods.push(createFood(gridSize, heads, foods, reserved, 0, random, true));
+
+  return {
+    fighters: starts.map((start, i) => ({ snake: [heads[i]], direction: start.direction, score: 0, alive: true })),
+    foods,
+    walls,
+    portals,
+    difficulty,
+    rules: { ...rules, gridSize },
+    tick: 0,
+    isOver: false,
+    winner: null
+  };
+}
+
+// Why `player` dies moving its head to `heads[player]`, if it does. Every snake moves
+// at once, so heads meeting on a cell, or passing through each other, kill
+// both; bodies are checked where they stood before the move, as in a solo game.
+function deathCause(state: BattleState, player: number, heads: (Point | null)[]): BattleDeathCause | null {
+  const fighter = state.fighters[player];
+  const head = heads[player];
+  if (!head) return 'border';
+
+  const rivals = state.fighters.map((rival, i) => ({ rival, head: heads[i] })).filter((_, i) => i !== player);
+  const meets = rivals.some(({ rival, head: rivalHead }) =>
+    rivalHead !== null && (samePoint(rivalHead, head) ||
+      (samePoint(rival.snake[0], head) && samePoint(rivalHead, fighter.snake[0]))));
+  if (meets) return 'headOn';
+
+  if (fighter.snake.some(segment => samePoint(segment, head))) return 'self';
+  if (rivals.some(({ rival }) => rival.snake.some(segment => samePoint(segment, head)))) return 'rival';
+  if (state.walls.some(wall => samePoint(wall, head))) return 'wall';
+
+  const food = state.foods.find(f => samePoint(f, head));
+  if (food?.type === 'poison' && fighter.snake.length <= POISON_SHRINK) return 'poison';
+  return null;
+}
+
+// Advances both snakes one cell, `inputs` holding each player's turn.
+export function stepBattle(state: BattleState, inputs: SnakeInput[], random: Rng): BattleStepResult {
+  if (state.isOver) return { state, events: [] };
+
+  const tick = state.tick + 1;
+  const directions = state.fighters.map((fighter, i) =>
+    acceptsInput(fighter, inputs[i] ?? null) ? inputs[i] as Direction : fighter.direction);
+  const heads = state.fighters.map((fighter, i) => moveHead(state, fighter.snake[0], directions[i]));
+  const causes = state.fighters.map((_, i) => deathCause(state, i, heads));
+
+  if (causes.some(cause => cause !== null)) {
+    const survivors = causes.flatMap((cause, i) => (cause === null ? [i] : []));
+    const winner = survivors.length === 1 ? survivors[0] : null;
+    const events: BattleEvent[] = causes.flatMap((cause, player) => (cause ? [{ type: 'died' as const, player, cause }] : []));
+    events.push({ type: 'roundOver', winner });
+    return {
+      state: {
+        ...state,
+        tick,
+        fighters: state.fighters.map((fighter, i) => ({ ...fighter, direction: directions[i], alive: causes[i] === null })),
+        isOver: true,
+        winner
+      },
+      events
+    };
+  }
+
+  const events: BattleEvent[] = [];
+  const eaten: Point[] = [];
+  const fighters: Fighter[] = state.fighters.map((fighter, player) => {
+    const head = heads[player]!;
+    const food = state.foods.find(f => samePoint(f, head));
+    let snake = [head, ...fighter.snake];
+    let score = fighter.score;
+
+    if (!food) {
+      snake.pop();
+    } else {
+      eaten.push(food);
+      events.push({ type: 'ate', player, food });
+      if (food.type === 'poison') snake = snake.slice(0, -1 - POISON_SHRINK);
+      else score += foodValue(state, food);
+    }
+    return { ...fighter, snake, direction: directions[player], score };
+  });
+
+  const moved = { ...state, tick, fighters };
+  const foods = restock({
+    ...moved,
+    snake: fighters.flatMap(fighter => fighter.snake),
+    score: fighters.reduce((total, fighter) => total + fighter.score, 0),
+    foods: state.foods.filter(f => !eaten.includes(f) && foodFreshness(moved, f) > 0)
+  }, random);
+
+  return { state: { ...moved, foods }, events };
+}
+
+// The battle from one player's side, as the solo bots see a game: the other
+// snake, and the cells its head could move into, count as walls. Food in those
+// cells is left out, since racing for it risks meeting head-on.
+export function fighterView(state: BattleState, player: number): SnakeState {
+  const fighter = state.fighters[player];
+  const rivals = state.fighters.filter((_, i) => i !== player);
+  const reach = rivals.flatMap(rival =>
+    (Object.keys(OPPOSITES) as Direction[])
+      .filter(direction => direction !== OPPOSITES[rival.direction])
+      .flatMap(direction => moveHead(state, rival.snake[0], direction) ?? []));
+  const danger = [...rivals.flatMap(rival => rival.snake), ...reach];
+
+  return {
+    snake: fighter.snake,
+    foods: state.foods.filter(food => !reach.some(cell => samePoint(cell, food))),
+    walls: [...state.walls, ...danger],
+    portals: state.portals,
+    direction: fighter.direction,
+    score: fighter.score,
+    isGameOver: state.isOver,
+    difficulty: state.difficulty,
+    rules: state.rules,
+    classicWalls: false,
+    tick: state.tick
+  };
+}
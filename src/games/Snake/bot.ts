@@ -0,0 +1,286 @@
+import { BotPlan, BotStrategy, Direction, Point, SnakeState } from './types';
+import { OPPOSITES, foodValue, moveHead } from './engine';
+
+const DIRECTIONS: Direction[] = ['UP', 'RIGHT', 'DOWN', 'LEFT'];
+
+// How far short of its tail the cycle strategy keeps when cutting across,
+// leaving room for the growth of a few meals.
+const SHORTCUT_MARGIN = 4;
+
+const cellKey = (point: Point, gridSize: number) => point.y * gridSize + point.x;
+
+// Manhattan distance on a board whose edges wrap, so never more than the real
+// path length. Portals are ignored, so A* may miss a shortcut through one.
+const wrapDistance = (a: Point, b: Point, gridSize: number) => {
+  const dx = Math.abs(a.x - b.x);
+  const dy = Math.abs(a.y - b.y);
+  return Math.min(dx, gridSize - dx) + Math.min(dy, gridSize - dy);
+};
+
+const directionBetween = (state: SnakeState, from: Point, to: Point): Direction =>
+  DIRECTIONS.find(direction => {
+    const next = moveHead(state, from, direction);
+    return next !== null && next.x === to.x && next.y === to.y;
+  }) ?? 'RIGHT';
+
+// Cells the head should not enter: walls, poison and the whole body. That
+// includes the tail, since the rules count running into it as a collision
+// even though it moves on in the same step.
+function obstacles(state: SnakeState): Set<number> {
+  const { gridSize } = state.rules;
+  const poison = state.foods.filter(food => food.type === 'poison');
+  const blocked = new Set([...state.walls, ...poison].map(cell => cellKey(cell, gridSize)));
+  state.snake.forEach(segment => blocked.add(cellKey(segment, gridSize)));
+  return blocked;
+}
+
+const meals = (state: SnakeState) => state.foods.filter(food => food.type !== 'poison');
+
+// Shortest path from the head to any of `goals`, excluding the head itself.
+// Goals count as reachable even when blocked, so the tail can be one. With
+// `guided` set it runs as A* on the wrapped distance, otherwise as a plain
+// breadth-first search. The first step never reverses the snake.
+function findPath(state: SnakeState, blocked: Set<number>, goals: Point[], guided: boolean): Point[] | null {
+  const { gridSize } = state.rules;
+  const start = state.snake[0];
+  const startKey = cellKey(start, gridSize);
+  const goalKeys = new Set(goals.map(goal => cellKey(goal, gridSize)));
+  const estimate = (point: Point) =>
+    guided ? Math.min(...goals.map(goal => wrapDistance(point, goal, gridSize))) : 0;
+
+  const points = new Map<number, Point>([[startKey, start]]);
+  const cameFrom = new Map<number, number>();
+  const cost = new Map<number, number>([[startKey, 0]]);
+  const open = [{ key: startKey, priority: estimate(start) }];
+
+  while (open.length > 0) {
+    let best = 0;
+    for (let i = 1; i < open.length; i++) {
+      if (open[i].priority < open[best].priority) best = i;
+    }
+    const [{ key }] = open.splice(best, 1);
+
+    if (key !== startKey && goalKeys.has(key)) {
+      const path: Point[] = [];
+      for (let k = key; k !== startKey; k = cameFrom.get(k)!) path.unshift(points.get(k)!);
+      return path;
+    }
+
+    const point = points.get(key)!;
+    for (const direction of DIRECTIONS) {
+      if (key === startKey && direction === OPPOSITES[state.direction]) continue;
+      const next = moveHead(state, point, direction);
+      if (!next) continue;
+      const nextKey = cellKey(next, gridSize);
+      if (blocked.has(nextKey) && !goalKeys.has(nextKey)) continue;
+      const nextCost = cost.get(key)! + 1;
+      if (nextCost >= (cost.get(nextKey) ?? Infinity)) continue;
+      cost.set(nextKey, nextCost);
+      cameFrom.set(nextKey, key);
+      points.set(nextKey, next);
+      open.push({ key: nextKey, priority: nextCost + estimate(next) });
+    }
+  }
+  return null;
+}
+
+const planFromPath = (state: SnakeState, path: Point[]): BotPlan => ({
+  direction: directionBetween(state, state.snake[0], path[0]),
+  path
+});
+
+function reachableArea(state: SnakeState, from: Point, blocked: Set<number>): number {
+  const { gridSize } = state.rules;
+  const seen = new Set([cellKey(from, gridSize)]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const point = queue.shift()!;
+    for (const direction of DIRECTIONS) {
+      const next = moveHead(state, point, direction);
+      if (!next) continue;
+      const key = cellKey(next, gridSize);
+      if (blocked.has(key) || seen.has(key)) continue;
+      seen.add(key);
+      queue.push(next);
+    }
+  }
+  return seen.size;
+}
+
+// Last resort when no food is worth going for: the move that keeps the most
+// room to move around in.
+function survive(state: SnakeState): BotPlan {
+  const blocked = obstacles(state);
+  const head = state.snake[0];
+  let best: BotPlan = { direction: state.direction, path: [] };
+  let bestArea = -1;
+  for (const direction of DIRECTIONS) {
+    if (direction === OPPOSITES[state.direction]) continue;
+    const next = moveHead(state, head, direction);
+    if (!next || blocked.has(cellKey(next, state.rules.gridSize))) continue;
+    const area = reachableArea(state, next, blocked);
+    if (area > bestArea) {
+      best = { direction, path: [next] };
+      bestArea = area;
+    }
+  }
+  return best;
+}
+
+// Heads for the most valuable food it can reach, nearest first among equals,
+// without looking past the meal.
+function planGreedy(state: SnakeState): BotPlan {
+  const blocked = obstacles(state);
+  const values = [...new Set(meals(state).map(food => foodValue(state, food)))].sort((a, b) => b - a);
+  for (const value of values) {
+    const path = findPath(state, blocked, meals(state).filter(food => foodValue(state, food) === value), false);
+    if (path) return planFromPath(state, path);
+  }
+  return survive(state);
+}
+
+// After following `path` and eating at its end, can the snake still reach its
+// own tail? If so it can always retreat by following its body.
+function isTailSafe(state: SnakeState, path: Point[]): boolean {
+  const snake = [...path].reverse().concat(state.snake).slice(0, state.snake.length + 1);
+  const after: SnakeState = {
+    ...state,
+    snake,
+    direction: directionBetween(state, snake[1], snake[0])
+  };
+  const retreat = findPath(after, obstacles(after), [snake[snake.length - 1]], true);
+  return retreat !== null && retreat.length > 1;
+}
+
+// A* to each food in order of value, taking the first path that leaves a way
+// back to the tail. Failing that it follows its tail until a safe meal opens up.
+function planAStar(state: SnakeState): BotPlan {
+  const blocked = obstacles(state);
+  const head = state.snake[0];
+  const { gridSize } = state.rules;
+  const foods = meals(state).sort((a, b) =>
+    foodValue(state, b) - foodValue(state, a) || wrapDistance(head, a, gridSize) - wrapDistance(head, b, gridSize));
+
+  for (const food of foods) {
+    const path = findPath(state, blocked, [food], true);
+    if (path && isTailSafe(state, path)) return planFromPath(state, path);
+  }
+
+  // Chasing the tail only helps from a distance: moving straight into it
+  // is a collision.
+  if (state.snake.length > 1) {
+    const path = findPath(state, blocked, [state.snake[state.snake.length - 1]], true);
+    if (path && path.length > 1) return planFromPath(state, path);
+  }
+  return survive(state);
+}
+
+interface Cycle {
+  // Position of each cell along the cycle, or -1 for cells it skips.
+  order: number[];
+  cells: Point[];
+}
+
+const cycles = new Map<string, Cycle>();
+
+// A Hamiltonian cycle over the playable area: along the top row, snaking
+// back and forth over every column but the first, then up the first column.
+// Needs an even side length. In extreme mode it stays inside the border.
+function getCycle(gridSize: number, inset: number): Cycle | null {
+  const size = gridSize - inset * 2;
+  if (size < 2 || size % 2 !== 0) return null;
+
+  const id = `${gridSize}:${inset}`;
+  const cached = cycles.get(id);
+  if (cached) return cached;
+
+  const cells: Point[] = [{ x: 0, y: 0 }];
+  for (let y = 0; y < size; y++) {
+    for (let i = 1; i < size; i++) {
+      cells.push({ x: y % 2 === 0 ? i : size - i, y });
+    }
+  }
+  for (let y = size - 1; y > 0; y--) cells.push({ x: 0, y });
+
+  const placed = cells.map(cell => ({ x: cell.x + inset, y: cell.y + inset }));
+  const order = new Array<number>(gridSize * gridSize).fill(-1);
+  placed.forEach((cell, i) => {
+    order[cellKey(cell, gridSize)] = i;
+  });
+
+  const cycle = { order, cells: placed };
+  cycles.set(id, cycle);
+  return cycle;
+}
+
+// Boards walled all the way round get their cycle inside the wall.
+function hasBorderWall(state: SnakeState): boolean {
+  const { gridSize } = state.rules;
+  const walls = new Set(state.walls.map(wall => cellKey(wall, gridSize)));
+  for (let i = 0; i < gridSize; i++) {
+    const edges = [{ x: i, y: 0 }, { x: i, y: gridSize - 1 }, { x: 0, y: i }, { x: gridSize - 1, y: i }];
+    if (edges.some(edge => !walls.has(cellKey(edge, gridSize)))) return false;
+  }
+  return true;
+}
+
+// Follows a fixed cycle through every cell, which can never trap the snake,
+// cutting ahead towards food while the snake is short enough that the jump
+// cannot land it behind its own tail. That only works while no wall or portal
+// sits on the cycle; otherwise it plays as A*.
+function planHamiltonian(state: SnakeState): BotPlan {
+  const { gridSize } = state.rules;
+  const cycle = getCycle(gridSize, hasBorderWall(state) ? 1 : 0);
+  const obstructed = (point: Point) => cycle !== null && cycle.order[cellKey(point, gridSize)] >= 0;
+  if (!cycle || state.walls.some(obstructed) || state.portals.some(({ a, b }) => obstructed(a) || obstructed(b))) {
+    return planAStar(state);
+  }
+
+  const { order, cells } = cycle;
+  const total = cells.length;
+  const position = (point: Point) => order[cellKey(point, gridSize)];
+  const ahead = (from: number, to: number) => (to - from + total) % total;
+
+  const head = position(state.snake[0]);
+  const tail = position(state.snake[state.snake.length - 1]);
+  if (head < 0) return planAStar(state);
+
+  const foodDistances = meals(state)
+    .map(position)
+    .filter(index => index >= 0)
+    .map(index => ahead(head, index));
+  const toFood = foodDistances.length > 0 ? Math.min(...foodDistances) : total;
+  const toTail = state.snake.length === 1 ? total : ahead(head, tail);
+  const maxJump = state.snake.length < total / 2 ? Math.max(1, Math.min(toFood, toTail - SHORTCUT_MARGIN)) : 1;
+
+  const blocked = obstacles(state);
+  const moves = DIRECTIONS
+    .filter(direction => direction !== OPPOSITES[state.direction])
+    .map(direction => {
+      const next = moveHead(state, state.snake[0], direction);
+      const index = next ? position(next) : -1;
+      const open = next !== null && index >= 0 && !blocked.has(cellKey(next, gridSize));
+      return { direction, index, jump: ahead(head, index), open };
+    })
+    .filter(move => move.open && move.jump <= maxJump);
+  if (moves.length === 0) return planAStar(state);
+  const best = moves.reduce((a, b) => (b.jump > a.jump ? b : a));
+
+  const path: Point[] = [];
+  for (let i = 0; i <= Math.min(toFood - best.jump, total - 1); i++) {
+    path.push(cells[(best.index + i) % total]);
+  }
+  return { direction: best.direction, path };
+}
+
+export function planMove(state: SnakeState, strategy: BotStrategy): BotPlan {
+  if (state.isGameOver) return { direction: state.direction, path: [] };
+  switch (strategy) {
+    case 'greedy':
+      return planGreedy(state);
+    case 'astar':
+      return planAStar(state);
+    case 'hamiltonian':
+      return planHamiltonian(state);
+  }
+}
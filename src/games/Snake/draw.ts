@@ -0,0 +1,183 @@
+import {
+  BattleState, Direction, Point, SnakeColor, SnakeState, FOOD_EMOJIS, PORTAL_COLORS, SNAKE_COLORS
+} from './types';
+import { foodFreshness } from './engine';
+
+// The autopilot's planned route, as a line through cell centres. Steps that
+// wrap around an edge break the line instead of crossing the board.
+function drawPath(ctx: CanvasRenderingContext2D, path: Point[], cellSize: number) {
+  ctx.save();
+  ctx.strokeStyle = 'rgba(139, 92, 246, 0.5)';
+  ctx.lineWidth = cellSize / 5;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  path.forEach((point, i) => {
+    const x = point.x * cellSize + cellSize / 2;
+    const y = point.y * cellSize + cellSize / 2;
+    const previous = path[i - 1];
+    if (!previous || Math.abs(previous.x - point.x) + Math.abs(previous.y - point.y) > 1) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
+    }
+  });
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Both ends of a portal share a colour and number.
+function drawPortal(ctx: CanvasRenderingContext2D, end: Point, index: number, cellSize: number) {
+  const x = end.x * cellSize + cellSize / 2;
+  const y = end.y * cellSize + cellSize / 2;
+  ctx.save();
+  ctx.strokeStyle = PORTAL_COLORS[index % PORTAL_COLORS.length];
+  ctx.lineWidth = cellSize / 8;
+  ctx.beginPath();
+  ctx.arc(x, y, cellSize * 0.35, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.font = `bold ${cellSize * 0.45}px Arial`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(String(index + 1), x, y);
+  ctx.restore();
+}
+
+type Board = Pick<SnakeState, 'rules' | 'tick' | 'foods' | 'walls' | 'portals'>;
+
+// Clears the canvas and draws everything but the snakes, returning the size
+// of a cell.
+function drawArena(ctx: CanvasRenderingContext2D, size: number, board: Board, isDark: boolean, path: Point[]): number {
+  const { gridSize } = board.rules;
+  const cellSize = size / gridSize;
+
+  ctx.fillStyle = isDark ? '#1a1a1a' : '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+
+  ctx.strokeStyle = isDark ? '#374151' : '#e5e7eb';
+  for (let i = 0; i < gridSize; i++) {
+    for (let j = 0; j < gridSize; j++) {
+      ctx.strokeRect(i * cellSize, j * cellSize, cellSize, cellSize);
+    }
+  }
+
+  if (path.length > 0) drawPath(ctx, path, cellSize);
+
+  // Timed food shrinks as it runs out.
+  board.foods.forEach(food => {
+    ctx.font = `${cellSize * (0.4 + 0.4 * foodFreshness(board, food))}px Arial`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(
+      FOOD_EMOJIS[food.type],
+      food.x * cellSize + cellSize / 2,
+      food.y * cellSize + cellSize / 2
+    );
+  });
+
+  board.walls.forEach(wall => {
+    ctx.fillStyle = isDark ? '#4b5563' : '#6b7280';
+    ctx.fillRect(
+      wall.x * cellSize,
+      wall.y * cellSize,
+      cellSize,
+      cellSize
+    );
+  });
+
+  board.portals.forEach((portal, i) => {
+    [portal.a, portal.b].forEach(end => drawPortal(ctx, end, i, cellSize));
+  });
+
+  return cellSize;
+}
+
+function drawSnake(
+  ctx: CanvasRenderingContext2D,
+  snake: Point[],
+  direction: Direction,
+  snakeColor: SnakeColor,
+  cellSize: number,
+  isDark: boolean
+) {
+  snake.forEach((segment, index) => {
+    const isHead = index === 0;
+    const [primaryColor, secondaryColor] = isDark 
+      ? SNAKE_COLORS[snakeColor].dark 
+      : SNAKE_COLORS[snakeColor].light;
+  
+    const gradient = ctx.createLinearGradient(
+      segment.x * cellSize,
+      segment.y * cellSize,
+      (segment.x + 1) * cellSize,
+      (segment.y + 1) * cellSize
+    );
+  
+    gradient.addColorStop(0, isHead ? primaryColor : secondaryColor);
+    gradient.addColorStop(1, secondaryColor);
+
+    ctx.fillStyle = gradient;
+
+    ctx.beginPath();
+    ctx.roundRect(
+      segment.x * cellSize + 1,
+      segment.y * cellSize + 1,
+      cellSize - 2,
+      cellSize - 2,
+      isHead ? cellSize / 4 : cellSize / 6
+    );
+    ctx.fill();
+
+    if (isHead) {
+      ctx.fillStyle = '#000000';
+      const eyeSize = cellSize / 6;
+      const eyeOffset = cellSize / 4;
+    
+      switch (direction) {
+        case 'RIGHT':
+          ctx.fillRect(segment.x * cellSize + cellSize - eyeOffset, segment.y * cellSize + eyeOffset, eyeSize, eyeSize);
+          ctx.fillRect(segment.x * cellSize + cellSize - eyeOffset, segment.y * cellSize + cellSize - eyeOffset - eyeSize, eyeSize, eyeSize);
+          break;
+        case 'LEFT':
+          ctx.fillRect(segment.x * cellSize + eyeOffset - eyeSize, segment.y * cellSize + eyeOffset, eyeSize, eyeSize);
+          ctx.fillRect(segment.x * cellSize + eyeOffset - eyeSize, segment.y * cellSize + cellSize - eyeOffset - eyeSize, eyeSize, eyeSize);
+          break;
+        case 'UP':
+          ctx.fillRect(segment.x * cellSize + eyeOffset, segment.y * cellSize + eyeOffset - eyeSize, eyeSize, eyeSize);
+          ctx.fillRect(segment.x * cellSize + cellSize - eyeOffset - eyeSize, segment.y * cellSize + eyeOffset - eyeSize, eyeSize, eyeSize);
+          break;
+        case 'DOWN':
+          ctx.fillRect(segment.x * cellSize + eyeOffset, segment.y * cellSize + cellSize - eyeOffset, eyeSize, eyeSize);
+          ctx.fillRect(segment.x * cellSize + cellSize - eyeOffset - eyeSize, segment.y * cellSize + cellSize - eyeOffset, eyeSize, eyeSize);
+          break;
+      }
+    }
+  });
+}
+
+// Draws a solo game onto a square canvas of `size` pixels.
+export function drawBoard(
+  ctx: CanvasRenderingContext2D,
+  size: number,
+  state: SnakeState,
+  snakeColor: SnakeColor,
+  path: Point[] = []
+) {
+  const isDark = document.documentElement.classList.contains('dark');
+  const cellSize = drawArena(ctx, size, state, isDark, path);
+  drawSnake(ctx, state.snake, state.direction, snakeColor, cellSize, isDark);
+}
+
+// Draws a battle, each snake in its player's colour. Snakes that died are
+// faded out.
+export function drawBattle(ctx: CanvasRenderingContext2D, size: number, state: BattleState, colors: SnakeColor[]) {
+  const isDark = document.documentElement.classList.contains('dark');
+  const cellSize = drawArena(ctx, size, state, isDark, []);
+  state.fighters.forEach((fighter, i) => {
+    ctx.save();
+    if (!fighter.alive) ctx.globalAlpha = 0.35;
+    drawSnake(ctx, fighter.snake, fighter.direction, colors[i], cellSize, isDark);
+    ctx.restore();
+  });
+}
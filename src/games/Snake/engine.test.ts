@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { moveHead, restock, step } from './engine';
+import { Food, FoodType, Point, SnakeState, DEFAULT_RULES, FOOD_LIFETIME, FOOD_POINTS, MAX_FOODS, POISON_SHRINK } from './types';
+import { createRng } from '../../utils/random';
+
+// A three-long snake heading right across the middle of a 10×10 board with
+// nothing else on it.
+const makeState = (overrides: Partial<SnakeState> = {}): SnakeState => ({
+  snake: [{ x: 5, y: 5 }, { x: 4, y: 5 }, { x: 3, y: 5 }],
+  foods: [],
+  walls: [],
+  portals: [],
+  direction: 'RIGHT',
+  score: 0,
+  isGameOver: false,
+  difficulty: 'normal',
+  rules: { ...DEFAULT_RULES, gridSize: 10 },
+  classicWalls: true,
+  tick: 0,
+  ...overrides
+});
+
+const food = (type: FoodType, at: Point, spawnedAt = 0): Food => ({ ...at, type, points: FOOD_POINTS[type], spawnedAt });
+
+const random = () => createRng(42);
+
+describe('step', () => {
+  it('moves the snake one cell without growing', () => {
+    const { state, events } = step(makeState(), null, random());
+    expect(state.snake).toEqual([{ x: 6, y: 5 }, { x: 5, y: 5 }, { x: 4, y: 5 }]);
+    expect(state.tick).toBe(1);
+    expect(events).toEqual([]);
+  });
+
+  it('ignores a turn straight back into the body', () => {
+    const { state } = step(makeState(), 'LEFT', random());
+    expect(state.direction).toBe('RIGHT');
+    expect(state.snake[0]).toEqual({ x: 6, y: 5 });
+  });
+
+  it('eats food in its way, grows and scores it', () => {
+    const meat = food('meat', { x: 6, y: 5 });
+    const { state, events } = step(makeState({ foods: [meat] }), null, random());
+    expect(events).toEqual([{ type: 'ate', food: meat }, { type: 'grew', length: 4 }]);
+    expect(state.snake).toHaveLength(4);
+    expect(state.score).toBe(FOOD_POINTS.meat);
+    expect(state.foods).not.toContain(meat);
+  });
+
+  it('shrinks on poison', () => {
+    const poison = food('poison', { x: 6, y: 5 });
+    const snake = [{ x: 5, y: 5 }, { x: 4, y: 5 }, { x: 3, y: 5 }, { x: 2, y: 5 }, { x: 1, y: 5 }];
+    const { state, events } = step(makeState({ snake, foods: [poison] }), null, random());
+    const length = snake.length - POISON_SHRINK;
+    expect(events).toEqual([{ type: 'ate', food: poison }, { type: 'shrank', length }]);
+    expect(state.snake).toHaveLength(length);
+    expect(state.score).toBe(0);
+  });
+
+  it('dies of poison when nothing would be left', () => {
+    const snake = [{ x: 5, y: 5 }, { x: 4, y: 5 }];
+    const { state, events } = step(makeState({ snake, foods: [food('poison', { x: 6, y: 5 })] }), null, random());
+    expect(state.isGameOver).toBe(true);
+    expect(events).toEqual([{ type: 'died', cause: 'poison' }]);
+  });
+
+  it('dies running into itself', () => {
+    const snake = [{ x: 5, y: 5 }, { x: 5, y: 6 }, { x: 6, y: 6 }, { x: 6, y: 5 }, { x: 6, y: 4 }];
+    const { state, events } = step(makeState({ snake }), null, random());
+    expect(state.isGameOver).toBe(true);
+    expect(events).toEqual([{ type: 'died', cause: 'self' }]);
+  });
+
+  it('dies running into a wall', () => {
+    const { events } = step(makeState({ walls: [{ x: 6, y: 5 }] }), null, random());
+    expect(events).toEqual([{ type: 'died', cause: 'wall' }]);
+  });
+
+  it('dies on the border in extreme mode', () => {
+    const snake = [{ x: 8, y: 5 }, { x: 7, y: 5 }];
+    const { events } = step(makeState({ snake, difficulty: 'extreme' }), null, random());
+    expect(events).toEqual([{ type: 'died', cause: 'border' }]);
+  });
+
+  it('dies leaving a board that does not wrap', () => {
+    const snake = [{ x: 9, y: 5 }, { x: 8, y: 5 }];
+    const { events } = step(makeState({ snake, rules: { ...DEFAULT_RULES, gridSize: 10, wrap: false } }), null, random());
+    expect(events).toEqual([{ type: 'died', cause: 'border' }]);
+  });
+
+  it('does nothing once the game is over', () => {
+    const over = makeState({ isGameOver: true });
+    expect(step(over, 'UP', random())).toEqual({ state: over, events: [] });
+  });
+
+  it('lets timed food expire and replaces it', () => {
+    const stale = food('apple', { x: 0, y: 0 });
+    const rules = { ...DEFAULT_RULES, gridSize: 10, timedFood: true };
+    const { state, events } = step(makeState({ rules, foods: [stale], tick: FOOD_LIFETIME }), null, random());
+    expect(events).toEqual([{ type: 'expired', food: stale }]);
+    expect(state.foods).toHaveLength(1);
+    expect(state.foods[0]).not.toBe(stale);
+  });
+
+  it('spawns a wall each time the score reaches a multiple of ten', () => {
+    const { state, events } = step(makeState({ score: 9, foods: [food('apple', { x: 6, y: 5 })] }), null, random());
+    expect(state.score).toBe(10);
+    expect(state.walls).toHaveLength(1);
+    expect(events).toContainEqual({ type: 'wallSpawned', wall: state.walls[0] });
+  });
+
+  it('plays out the same for the same seed', () => {
+    const start = makeState({ foods: [food('apple', { x: 6, y: 5 })] });
+    expect(step(start, 'UP', random())).toEqual(step(start, 'UP', random()));
+  });
+});
+
+describe('moveHead', () => {
+  it('moves one cell in the given direction', () => {
+    expect(moveHead(makeState(), { x: 5, y: 5 }, 'UP')).toEqual({ x: 5, y: 4 });
+    expect(moveHead(makeState(), { x: 5, y: 5 }, 'LEFT')).toEqual({ x: 4, y: 5 });
+  });
+
+  it('wraps to the opposite edge when the rules allow it', () => {
+    const state = makeState();
+    expect(moveHead(state, { x: 9, y: 5 }, 'RIGHT')).toEqual({ x: 0, y: 5 });
+    expect(moveHead(state, { x: 3, y: 0 }, 'UP')).toEqual({ x: 3, y: 9 });
+  });
+
+  it('runs off the border when the board does not wrap', () => {
+    const state = makeState({ rules: { ...DEFAULT_RULES, gridSize: 10, wrap: false } });
+    expect(moveHead(state, { x: 9, y: 5 }, 'RIGHT')).toBeNull();
+    expect(moveHead(state, { x: 0, y: 5 }, 'LEFT')).toBeNull();
+    expect(moveHead(state, { x: 8, y: 5 }, 'RIGHT')).toEqual({ x: 9, y: 5 });
+  });
+
+  it('comes out of the other end of a portal', () => {
+    const state = makeState({ portals: [{ a: { x: 6, y: 5 }, b: { x: 2, y: 2 } }] });
+    expect(moveHead(state, { x: 5, y: 5 }, 'RIGHT')).toEqual({ x: 2, y: 2 });
+    expect(moveHead(state, { x: 2, y: 3 }, 'UP')).toEqual({ x: 6, y: 5 });
+  });
+
+  it('wraps into a portal on the far edge', () => {
+    const state = makeState({ portals: [{ a: { x: 0, y: 5 }, b: { x: 4, y: 4 } }] });
+    expect(moveHead(state, { x: 9, y: 5 }, 'RIGHT')).toEqual({ x: 4, y: 4 });
+  });
+});
+
+describe('restock', () => {
+  it('keeps one food on the board at a low score', () => {
+    const foods = restock(makeState(), random());
+    expect(foods).toHaveLength(1);
+    expect(foods[0].type).not.toBe('poison');
+  });
+
+  it('keeps what is already there', () => {
+    const apple = food('apple', { x: 0, y: 0 });
+    expect(restock(makeState({ foods: [apple] }), random())).toEqual([apple]);
+  });
+
+  it('carries more food as the score grows, up to the cap', () => {
+    expect(restock(makeState({ score: 10 }), random())).toHaveLength(2);
+    expect(restock(makeState({ score: 1000 }), random())).toHaveLength(MAX_FOODS);
+  });
+
+  it('adds a poison mushroom when poison is on', () => {
+    const rules = { ...DEFAULT_RULES, gridSize: 10, poison: true };
+    const foods = restock(makeState({ rules }), random());
+    expect(foods.filter(f => f.type === 'poison')).toHaveLength(1);
+    expect(foods.filter(f => f.type !== 'poison')).toHaveLength(1);
+  });
+
+  it('only places food on free cells', () => {
+    const snake = [{ x: 0, y: 0 }, { x: 1, y: 0 }];
+    const state = makeState({
+      snake,
+      walls: [{ x: 0, y: 1 }],
+      rules: { ...DEFAULT_RULES, gridSize: 2 }
+    });
+    const foods = restock(state, random());
+    expect(foods).toHaveLength(1);
+    expect(foods[0]).toMatchObject({ x: 1, y: 1 });
+  });
+
+  it('stops when the board is full', () => {
+    const snake = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+    expect(restock(makeState({ snake, rules: { ...DEFAULT_RULES, gridSize: 2 } }), random())).toEqual([]);
+  });
+});
@@ -0,0 +1,266 @@
+import { Rng } from '../../utils/random';
+import {
+  DeathCause, Difficulty, Direction, Food, FoodType, Point, Portal, SnakeEvent, SnakeInput, SnakeMap, SnakeRules,
+  SnakeState, StepResult, Wall,
+  DEFAULT_RULES, FOOD_LIFETIME, FOOD_POINTS, MAX_FOODS, MULTI_FOOD_SCORE, POISON_SHRINK, WALL_SPAWN_SCORE
+} from './types';
+
+export const OPPOSITES: { [key in Direction]: Direction } = {
+  UP: 'DOWN',
+  DOWN: 'UP',
+  LEFT: 'RIGHT',
+  RIGHT: 'LEFT'
+};
+
+export const samePoint = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+const isOccupied = (position: Point, snake: Point[], foods: Food[], walls: Wall[]) =>
+  snake.some(segment => samePoint(segment, position)) ||
+  foods.some(food => samePoint(food, position)) ||
+  walls.some(wall => samePoint(wall, position));
+
+// Spawning on a full board would never find a spot, so check first.
+export const hasFreeCell = (gridSize: number, snake: Point[], foods: Food[], walls: Wall[]) => {
+  for (let y = 0; y < gridSize; y++) {
+    for (let x = 0; x < gridSize; x++) {
+      if (!isOccupied({ x, y }, snake, foods, walls)) return true;
+    }
+  }
+  return false;
+};
+
+export const getRandomPosition = (gridSize: number, snake: Point[], foods: Food[], walls: Wall[], random: Rng): Point => {
+  let position: Point;
+  do {
+    position = {
+      x: Math.floor(random() * gridSize),
+      y: Math.floor(random() * gridSize)
+    };
+  } while (isOccupied(position, snake, foods, walls));
+  return position;
+};
+
+const getRandomFoodType = (random: Rng): FoodType => {
+  const types: FoodType[] = ['apple', 'banana', 'meat', 'berry'];
+  const weights = [0.4, 0.3, 0.2, 0.1];
+  const value = random();
+  let sum = 0;
+  for (let i = 0; i < weights.length; i++) {
+    sum += weights[i];
+    if (value < sum) return types[i];
+  }
+  return 'apple';
+};
+
+export const createFood = (
+  gridSize: number,
+  snake: Point[],
+  foods: Food[],
+  walls: Wall[],
+  tick: number,
+  random: Rng,
+  poison = false
+): Food => {
+  const position = getRandomPosition(gridSize, snake, foods, walls, random);
+  const type = poison ? 'poison' : getRandomFoodType(random);
+  return {
+    ...position,
+    type,
+    points: FOOD_POINTS[type],
+    spawnedAt: tick
+  };
+};
+
+export const createWall = (gridSize: number, snake: Point[], foods: Food[], walls: Wall[], random: Rng): Wall => {
+  return getRandomPosition(gridSize, snake, foods, walls, random);
+};
+
+export const createBorderWalls = (gridSize: number): Wall[] => {
+  const walls: Wall[] = [];
+  for (let i = 0; i < gridSize; i++) {
+    walls.push({ x: i, y: 0 }); // Top wall
+    walls.push({ x: i, y: gridSize - 1 }); // Bottom wall
+    walls.push({ x: 0, y: i }); // Left wall
+    walls.push({ x: gridSize - 1, y: i }); // Right wall
+  }
+  return walls;
+};
+
+const portalEnds = (portals: Portal[]) => portals.flatMap(portal => [portal.a, portal.b]);
+
+// Food and walls never spawn on a portal.
+export const reservedCells = (state: Pick<SnakeState, 'walls' | 'portals'>) => [...state.walls, ...portalEnds(state.portals)];
+
+// Random portal pairs, kept off the rows the snakes start along so they don't
+// vanish on their first move.
+export function createPortals(count: number, gridSize: number, snake: Point[], walls: Wall[], random: Rng): Portal[] {
+  const startRows = snake.flatMap(start => Array.from({ length: gridSize }, (_, x) => ({ x, y: start.y })));
+  const portals: Portal[] = [];
+  for (let i = 0; i < count; i++) {
+    const taken = [...walls, ...startRows, ...portalEnds(portals)];
+    const a = getRandomPosition(gridSize, snake, [], taken, random);
+    const b = getRandomPosition(gridSize, snake, [], [...taken, a], random);
+    portals.push({ a, b });
+  }
+  return portals;
+}
+
+// Without a map the classic rules apply; a map replaces them with its own
+// walls, portals, size and starting position.
+export function createGame(
+  difficulty: Difficulty,
+  random: Rng,
+  rules: SnakeRules = DEFAULT_RULES,
+  map: SnakeMap | null = null
+): SnakeState {
+  const gridSize = map ? map.size : rules.gridSize;
+  const center = Math.floor(gridSize / 2);
+  const snake = map ? [{ x: map.starts[0].x, y: map.starts[0].y }] : [{ x: center, y: center }];
+  const walls = map ? map.walls : difficulty === 'extreme' ? createBorderWalls(gridSize) : [];
+  const portals = map ? map.portals : createPortals(rules.portals, gridSize, snake, walls, random);
+  const reserved = reservedCells({ walls, portals });
+
+  const foods = [createFood(gridSize, snake, [], reserved, 0, random)];
+  if (rules.poison) foods.push(createFood(gridSize, snake, foods, reserved, 0, random, true));
+
+  return {
+    snake,
+    foods,
+    walls,
+    portals,
+    direction: map ? map.starts[0].direction : 'RIGHT',
+    score: 0,
+    isGameOver: false,
+    difficulty,
+    rules: { ...rules, gridSize },
+    classicWalls: !map,
+    tick: 0
+  };
+}
+
+// Turning straight back into the body is ignored.
+export const acceptsInput = (state: Pick<SnakeState, 'direction'>, input: SnakeInput): input is Direction =>
+  input !== null && input !== OPPOSITES[state.direction];
+
+export function nextHead(head: Point, direction: Direction, gridSize: number): Point {
+  switch (direction) {
+    case 'UP':
+      return { x: head.x, y: (head.y - 1 + gridSize) % gridSize };
+    case 'DOWN':
+      return { x: head.x, y: (head.y + 1) % gridSize };
+    case 'LEFT':
+      return { x: (head.x - 1 + gridSize) % gridSize, y: head.y };
+    case 'RIGHT':
+      return { x: (head.x + 1) % gridSize, y: head.y };
+  }
+}
+
+// Where a head at `from` ends up after moving one cell, passing through any
+// portal it lands on, or null if it runs off a board that doesn't wrap.
+export function moveHead(state: Pick<SnakeState, 'rules' | 'portals'>, from: Point, direction: Direction): Point | null {
+  const next = nextHead(from, direction, state.rules.gridSize);
+  const wrapped = Math.abs(from.x - next.x) + Math.abs(from.y - next.y) > 1;
+  if (wrapped && !state.rules.wrap) return null;
+  for (const { a, b } of state.portals) {
+    if (samePoint(a, next)) return b;
+    if (samePoint(b, next)) return a;
+  }
+  return next;
+}
+
+// Once the score reaches MULTI_FOOD_SCORE, one more food is kept on the board
+// per MULTI_FOOD_SCORE points, up to MAX_FOODS.
+export const targetFoodCount = (score: number) =>
+  score >= MULTI_FOOD_SCORE ? Math.min(MAX_FOODS, Math.floor(score / MULTI_FOOD_SCORE)) : 1;
+
+// How much of a timed food's life is left, from 1 when it appears down to 0.
+export const foodFreshness = (state: Pick<SnakeState, 'rules' | 'tick'>, food: Food) =>
+  state.rules.timedFood ? Math.max(0, 1 - (state.tick - food.spawnedAt) / FOOD_LIFETIME) : 1;
+
+// Timed food loses value as it ages but is always worth at least a point.
+export const foodValue = (state: Pick<SnakeState, 'rules' | 'tick'>, food: Food) =>
+  food.type === 'poison' ? 0 : Math.max(1, Math.ceil(food.points * foodFreshness(state, food)));
+
+// Tops the board back up to the food it should carry, poison included.
+export function restock(
+  state: Pick<SnakeState, 'rules' | 'tick' | 'score' | 'snake' | 'foods' | 'walls' | 'portals'>,
+  random: Rng
+): Food[] {
+  const { gridSize } = state.rules;
+  const reserved = reservedCells(state);
+  const foods = [...state.foods];
+  const fill = (wanted: number, poison: boolean) => {
+    const count = () => foods.filter(food => (food.type === 'poison') === poison).length;
+    while (count() < wanted && hasFreeCell(gridSize, state.snake, foods, reserved)) {
+      foods.push(createFood(gridSize, state.snake, foods, reserved, state.tick, random, poison));
+    }
+  };
+  fill(targetFoodCount(state.score), false);
+  if (state.rules.poison) fill(1, true);
+  return foods;
+}
+
+// Advances the snake one cell.
+export function step(state: SnakeState, input: SnakeInput, random: Rng): StepResult {
+  if (state.isGameOver) return { state, events: [] };
+
+  const tick = state.tick + 1;
+  const direction = acceptsInput(state, input) ? input : state.direction;
+  const head = moveHead(state, state.snake[0], direction);
+  const { gridSize } = state.rules;
+  const die = (cause: DeathCause): StepResult =>
+    ({ state: { ...state, tick, direction, isGameOver: true }, events: [{ type: 'died', cause }] });
+
+  if (!head) return die('border');
+
+  // In extreme mode, hitting the border walls counts as collision
+  const onBorder = head.x === 0 || head.x === gridSize - 1 || head.y === 0 || head.y === gridSize - 1;
+  const cause = state.classicWalls && state.difficulty === 'extreme' && onBorder
+    ? 'border'
+    : state.snake.some(segment => samePoint(segment, head))
+      ? 'self'
+      : state.walls.some(wall => samePoint(wall, head)) ? 'wall' : null;
+
+  if (cause) return die(cause);
+
+  const events: SnakeEvent[] = [];
+  const food = state.foods.find(f => samePoint(f, head));
+  let snake = [head, ...state.snake];
+  let score = state.score;
+
+  if (!food) {
+    snake.pop();
+  } else if (food.type === 'poison') {
+    snake = snake.slice(0, -1 - POISON_SHRINK);
+    if (snake.length === 0) return die('poison');
+    events.push({ type: 'ate', food }, { type: 'shrank', length: snake.length });
+  } else {
+    score += foodValue(state, food);
+    events.push({ type: 'ate', food }, { type: 'grew', length: snake.length });
+  }
+
+  // Timed food that has run out is replaced along with anything eaten.
+  const moved: SnakeState = { ...state, tick, direction, snake, score };
+  const foods = restock({
+    ...moved,
+    foods: state.foods.filter(f => {
+      if (f === food) return false;
+      if (foodFreshness(moved, f) > 0) return true;
+      events.push({ type: 'expired', food: f });
+      return false;
+    })
+  }, random);
+
+  const walls = [...state.walls];
+  const reserved = reservedCells({ walls, portals: state.portals });
+  if (
+    food && food.type !== 'poison' && state.classicWalls && state.difficulty !== 'extreme' &&
+    score >= WALL_SPAWN_SCORE && score % WALL_SPAWN_SCORE === 0 && hasFreeCell(gridSize, snake, foods, reserved)
+  ) {
+    const wall = createWall(gridSize, snake, foods, reserved, random);
+    walls.push(wall);
+    events.push({ type: 'wallSpawned', wall });
+  }
+
+  return { state: { ...moved, foods, walls }, events };
+}
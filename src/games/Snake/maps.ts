@@ -0,0 +1,131 @@
+import {
+  Direction, Point, Portal, SnakeMap, Start, MAP_FORMAT_VERSION, MAX_GRID_SIZE, MAX_MAP_NAME_LENGTH, MIN_GRID_SIZE
+} from './types';
+import mapsJson from './maps.json?raw';
+
+// Map files look like:
+//
+//   { "version": 1, "maps": [{ "name": "...", "rows": ["####...", "#.>..1..#", "..."] }] }
+//
+// Maps are square, MIN_GRID_SIZE to MAX_GRID_SIZE cells a side, with one
+// character per cell: '.' for an empty cell, '#' for a wall, '^' 'v' '<' '>'
+// for a starting position facing that way, and a digit for a portal end.
+// Every digit used must appear exactly twice, once for each end. A single map
+// object without the wrapper is accepted too.
+
+export const WALL_CELL = '#';
+export const EMPTY_CELL = '.';
+export const PORTAL_CELLS = '123456789';
+
+export const START_CELLS: Record<Direction, string> = {
+  UP: '^',
+  DOWN: 'v',
+  LEFT: '<',
+  RIGHT: '>'
+};
+
+const START_DIRECTIONS = Object.fromEntries(
+  Object.entries(START_CELLS).map(([direction, cell]) => [cell, direction as Direction])
+);
+
+interface RawMap {
+  name?: unknown;
+  rows?: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function fail(message: string): never {
+  throw new Error(`Invalid map: ${message}`);
+}
+
+// Builds a map from its rows, throwing on anything that cannot be played.
+// Names are kept to printable ASCII so maps fit in replay codes.
+export function createMap(name: string, rows: string[]): SnakeMap {
+  const trimmed = name.trim();
+  const label = trimmed ? `"${trimmed}"` : 'without a name';
+  if (!trimmed) fail('a map needs a name');
+  if (trimmed.length > MAX_MAP_NAME_LENGTH) fail(`map ${label} has a name over ${MAX_MAP_NAME_LENGTH} characters`);
+  if (!/^[\x20-\x7e]+$/.test(trimmed)) fail(`map ${label} may only use plain letters, digits and punctuation in its name`);
+  const size = rows.length;
+  if (size < MIN_GRID_SIZE || size > MAX_GRID_SIZE) {
+    fail(`map ${label} must have between ${MIN_GRID_SIZE} and ${MAX_GRID_SIZE} rows, not ${size}`);
+  }
+
+  const walls: Point[] = [];
+  const starts: Start[] = [];
+  const ends = new Map<string, Point[]>();
+  let empty = 0;
+
+  rows.forEach((line, y) => {
+    if (line.length !== size) fail(`row ${y + 1} of map ${label} must have ${size} cells, not ${line.length}`);
+    [...line].forEach((char, x) => {
+      if (char === EMPTY_CELL) empty++;
+      else if (char === WALL_CELL) walls.push({ x, y });
+      else if (char in START_DIRECTIONS) starts.push({ x, y, direction: START_DIRECTIONS[char] });
+      else if (PORTAL_CELLS.includes(char)) ends.set(char, [...(ends.get(char) ?? []), { x, y }]);
+      else fail(`unknown cell "${char}" in row ${y + 1} of map ${label}`);
+    });
+  });
+
+  if (starts.length === 0) fail(`map ${label} has no starting position`);
+  if (empty === 0) fail(`map ${label} has no room for food`);
+
+  const portals: Portal[] = [...ends.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([digit, points]) => {
+      if (points.length !== 2) fail(`portal ${digit} of map ${label} must have exactly two ends, not ${points.length}`);
+      return { a: points[0], b: points[1] };
+    });
+
+  return { name: trimmed, size, walls, portals, starts };
+}
+
+function parseMap(raw: RawMap, index: number): SnakeMap {
+  if (typeof raw.name !== 'string') fail(`map #${index + 1} needs a name`);
+  if (!Array.isArray(raw.rows)) fail(`map "${raw.name}" has no rows`);
+  const rows = raw.rows as unknown[];
+  if (!rows.every((row): row is string => typeof row === 'string')) fail(`every row of map "${raw.name}" must be a string`);
+  return createMap(raw.name, rows);
+}
+
+export function parseMaps(text: string): SnakeMap[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    fail('not valid JSON');
+  }
+  if (!isObject(data)) fail('expected a JSON object');
+
+  if (!('maps' in data)) return [parseMap(data, 0)];
+
+  if (data.version !== MAP_FORMAT_VERSION) fail(`unsupported version ${String(data.version)}`);
+  if (!Array.isArray(data.maps) || data.maps.length === 0) fail('"maps" must be a non-empty array');
+  return data.maps.map((map, index) => {
+    if (!isObject(map)) fail(`map #${index + 1} is not an object`);
+    return parseMap(map, index);
+  });
+}
+
+export function mapToRows(map: SnakeMap): string[] {
+  const cells = Array.from({ length: map.size }, () => Array<string>(map.size).fill(EMPTY_CELL));
+  map.walls.forEach(({ x, y }) => {
+    cells[y][x] = WALL_CELL;
+  });
+  map.portals.forEach(({ a, b }, i) => {
+    cells[a.y][a.x] = PORTAL_CELLS[i];
+    cells[b.y][b.x] = PORTAL_CELLS[i];
+  });
+  map.starts.forEach(({ x, y, direction }) => {
+    cells[y][x] = START_CELLS[direction];
+  });
+  return cells.map(row => row.join(''));
+}
+
+export function serializeMap(map: SnakeMap): string {
+  return JSON.stringify({ version: MAP_FORMAT_VERSION, maps: [{ name: map.name, rows: mapToRows(map) }] }, null, 2);
+}
+
+export const BUILT_IN_MAPS = parseMaps(mapsJson);
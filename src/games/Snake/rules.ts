@@ -0,0 +1,79 @@
+import { useCallback, useMemo } from 'react';
+import { useGameSetting } from '../../store/gameStore';
+import { SnakeMap, SnakeRules, DEFAULT_RULES, MAX_GRID_SIZE, MAX_RANDOM_PORTALS, MIN_GRID_SIZE } from './types';
+
+const TOGGLE = ['on', 'off'] as const;
+const toggle = (on: boolean) => (on ? 'on' : 'off');
+
+export const GRID_SIZES = Array.from({ length: MAX_GRID_SIZE - MIN_GRID_SIZE + 1 }, (_, i) => String(MIN_GRID_SIZE + i));
+export const PORTAL_COUNTS = Array.from({ length: MAX_RANDOM_PORTALS + 1 }, (_, i) => String(i));
+
+// Rules as stored in settings and replays. Anything missing or out of range
+// falls back to the default, so replays from before a rule existed still load.
+export function rulesFromSettings(settings: Record<string, string>): SnakeRules {
+  return {
+    gridSize: GRID_SIZES.includes(settings.size) ? Number(settings.size) : DEFAULT_RULES.gridSize,
+    wrap: settings.wrap ? settings.wrap === 'on' : DEFAULT_RULES.wrap,
+    portals: PORTAL_COUNTS.includes(settings.portals) ? Number(settings.portals) : DEFAULT_RULES.portals,
+    timedFood: settings.timed ? settings.timed === 'on' : DEFAULT_RULES.timedFood,
+    poison: settings.poison ? settings.poison === 'on' : DEFAULT_RULES.poison
+  };
+}
+
+export function rulesToSettings(rules: SnakeRules): Record<string, string> {
+  return {
+    size: String(rules.gridSize),
+    wrap: toggle(rules.wrap),
+    portals: String(rules.portals),
+    timed: toggle(rules.timedFood),
+    poison: toggle(rules.poison)
+  };
+}
+
+// The rules that actually apply: a map fixes the size and brings its own portals.
+export const effectiveRules = (rules: SnakeRules, map: SnakeMap | null): SnakeRules =>
+  map ? { ...rules, gridSize: map.size, portals: 0 } : rules;
+
+// Short labels for every rule that differs from the default, in a fixed order.
+export function describeRules(rules: SnakeRules): string[] {
+  const labels: string[] = [];
+  if (rules.gridSize !== DEFAULT_RULES.gridSize) labels.push(`${rules.gridSize}×${rules.gridSize}`);
+  if (rules.wrap !== DEFAULT_RULES.wrap) labels.push(rules.wrap ? 'wrap' : 'no wrap');
+  if (rules.portals > 0) labels.push(`${rules.portals} portal${rules.portals > 1 ? 's' : ''}`);
+  if (rules.timedFood) labels.push('timed food');
+  if (rules.poison) labels.push('poison');
+  return labels;
+}
+
+// High scores are kept per difficulty, map and rule set. The default rules
+// add nothing, so scores set before rule variants existed still count.
+export function scoreVariant(difficulty: string, rules: SnakeRules, map: SnakeMap | null): string {
+  const base = map ? `${difficulty}:${map.name}` : difficulty;
+  const labels = describeRules(effectiveRules(rules, map));
+  return labels.length > 0 ? `${base} | ${labels.join(', ')}` : base;
+}
+
+// The rule settings of the current game, kept in the URL like the others.
+export function useSnakeRules(): [SnakeRules, (changes: Partial<SnakeRules>) => void] {
+  const defaults = rulesToSettings(DEFAULT_RULES);
+  const [size, setSize] = useGameSetting('size', GRID_SIZES, defaults.size);
+  const [wrap, setWrap] = useGameSetting('wrap', TOGGLE, toggle(DEFAULT_RULES.wrap));
+  const [portals, setPortals] = useGameSetting('portals', PORTAL_COUNTS, defaults.portals);
+  const [timed, setTimed] = useGameSetting('timed', TOGGLE, toggle(DEFAULT_RULES.timedFood));
+  const [poison, setPoison] = useGameSetting('poison', TOGGLE, toggle(DEFAULT_RULES.poison));
+
+  const rules = useMemo(
+    () => rulesFromSettings({ size, wrap, portals, timed, poison }),
+    [size, wrap, portals, timed, poison]
+  );
+
+  const setRules = useCallback((changes: Partial<SnakeRules>) => {
+    if (changes.gridSize !== undefined) setSize(String(changes.gridSize));
+    if (changes.wrap !== undefined) setWrap(toggle(changes.wrap));
+    if (changes.portals !== undefined) setPortals(String(changes.portals));
+    if (changes.timedFood !== undefined) setTimed(toggle(changes.timedFood));
+    if (changes.poison !== undefined) setPoison(toggle(changes.poison));
+  }, [setSize, setWrap, setPortals, setTimed, setPoison]);
+
+  return [rules, setRules];
+}
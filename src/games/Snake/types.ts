@@ -1,7 +1,27 @@
+import { GameDifficulty, InputAction } from '../../types/game';
+import { SoundName } from '../../utils/audio';
+
 export type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
-export type Difficulty = 'easy' | 'normal' | 'hard' | 'extreme';
-export type FoodType = 'apple' | 'banana' | 'meat' | 'berry';
-export type SnakeColor = 'green' | 'blue' | 'purple' | 'orange' | 'pink';
+export type Difficulty = GameDifficulty;
+export type FoodType = 'apple' | 'banana' | 'meat' | 'berry' | 'poison';
+export type SnakeColor = 'green' | 'blue' | 'purple' | 'orange' | 'pink' | 'crimson' | 'gold';
+
+// Directional actions from the shared input layer, as snake turns.
+export const ACTION_DIRECTIONS: Partial<Record<InputAction, Direction>> = {
+  up: 'UP',
+  down: 'DOWN',
+  left: 'LEFT',
+  right: 'RIGHT'
+};
+
+// What each step event sounds like; the rest are silent.
+export const EVENT_SOUNDS: Partial<Record<SnakeEvent['type'] | BattleEvent['type'], SoundName>> = {
+  ate: 'eat',
+  wallSpawned: 'spawn',
+  died: 'die'
+};
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard', 'extreme'];
 
 export interface Point {
   x: number;
@@ -11,25 +31,172 @@ export interface Point {
 export interface Food extends Point {
   type: FoodType;
   points: number;
+  // The tick it appeared on; timed food counts down from here.
+  spawnedAt: number;
+}
+
+export type Wall = Point;
+
+// The two ends of a portal: a head entering either one comes out of the other.
+export interface Portal {
+  a: Point;
+  b: Point;
+}
+
+export interface Start extends Point {
+  direction: Direction;
+}
+
+// A hand-made square board of `size` cells a side. Single-player games start
+// from the first of `starts` and battles from the first two.
+export interface SnakeMap {
+  name: string;
+  size: number;
+  walls: Wall[];
+  portals: Portal[];
+  starts: Start[];
 }
 
-export interface Wall extends Point {}
+export type SnakeMode = 'classic' | 'custom';
 
-export interface GameState {
+// Rule variants chosen in the rules panel. Custom maps set their own grid
+// size and portals.
+export interface SnakeRules {
+  gridSize: number;
+  // Leaving one edge comes back in at the opposite one; otherwise the edge kills.
+  wrap: boolean;
+  // Portal pairs placed at random at the start of a classic game.
+  portals: number;
+  // Food disappears after FOOD_LIFETIME ticks, losing value as it ages.
+  timedFood: boolean;
+  // A poisonous mushroom that takes POISON_SHRINK segments off the snake.
+  poison: boolean;
+}
+
+export const SNAKE_MODES: SnakeMode[] = ['classic', 'custom'];
+
+// Everything the engine simulates. Randomness is passed into each step rather
+// than stored, so the state stays plain data.
+export interface SnakeState {
   snake: Point[];
   foods: Food[];
   walls: Wall[];
+  portals: Portal[];
   direction: Direction;
-  nextDirection: Direction;
   score: number;
-  highScore: number;
   isGameOver: boolean;
-  isPaused: boolean;
   difficulty: Difficulty;
-  gridSize: number;
-  snakeColor: SnakeColor;
+  rules: SnakeRules;
+  // Border walls in extreme mode and walls spawning as the score grows. Custom
+  // maps turn these off and bring their own walls.
+  classicWalls: boolean;
+  // Steps taken so far; replays stamp direction changes with it.
+  tick: number;
+}
+
+// A requested turn, or null to keep going straight.
+export type SnakeInput = Direction | null;
+
+export type DeathCause = 'self' | 'wall' | 'border' | 'poison';
+
+export type SnakeEvent =
+  | { type: 'ate'; food: Food }
+  | { type: 'grew'; length: number }
+  | { type: 'shrank'; length: number }
+  | { type: 'expired'; food: Food }
+  | { type: 'died'; cause: DeathCause }
+  | { type: 'wallSpawned'; wall: Wall };
+
+export interface StepResult {
+  state: SnakeState;
+  events: SnakeEvent[];
+}
+
+export type BotStrategy = 'greedy' | 'astar' | 'hamiltonian';
+export type Autopilot = 'off' | BotStrategy;
+
+export type PlayerMode = 'solo' | 'pvp';
+
+export const PLAYER_MODES: PlayerMode[] = ['solo', 'pvp'];
+
+// Who steers a snake in a battle: someone at the keyboard or a bot.
+export type Controller = 'human' | BotStrategy;
+
+export const CONTROLLERS: Controller[] = ['human', 'greedy', 'astar', 'hamiltonian'];
+
+// One of the snakes in a battle.
+export interface Fighter {
+  snake: Point[];
+  direction: Direction;
+  // Points eaten this round.
+  score: number;
+  alive: boolean;
+}
+
+// A round of two snakes on one board. The round ends as soon as a snake
+// dies; the other one wins it, or nobody does if both died on the same step.
+export interface BattleState {
+  fighters: Fighter[];
+  foods: Food[];
+  walls: Wall[];
+  portals: Portal[];
+  difficulty: Difficulty;
+  rules: SnakeRules;
+  tick: number;
+  isOver: boolean;
+  winner: number | null;
+}
+
+// 'headOn' is two heads meeting, 'rival' running into the other snake's body.
+export type BattleDeathCause = DeathCause | 'headOn' | 'rival';
+
+export type BattleEvent =
+  | { type: 'ate'; player: number; food: Food }
+  | { type: 'died'; player: number; cause: BattleDeathCause }
+  | { type: 'roundOver'; winner: number | null };
+
+export interface BattleStepResult {
+  state: BattleState;
+  events: BattleEvent[];
 }
 
+// What the autopilot intends to do: its next turn and the cells it plans to
+// visit after that, for the overlay.
+export interface BotPlan {
+  direction: Direction;
+  path: Point[];
+}
+
+export const AUTOPILOTS: Autopilot[] = ['off', 'greedy', 'astar', 'hamiltonian'];
+
+export const AUTOPILOT_NAMES: Record<Autopilot, string> = {
+  off: 'Off',
+  greedy: 'Greedy',
+  astar: 'A*',
+  hamiltonian: 'Cycle'
+};
+
+export const GRID_SIZE = 20;
+export const MIN_GRID_SIZE = 10;
+export const MAX_GRID_SIZE = 40;
+export const MAX_RANDOM_PORTALS = 3;
+export const FOOD_LIFETIME = 80;
+export const POISON_SHRINK = 2;
+
+export const DEFAULT_RULES: SnakeRules = {
+  gridSize: GRID_SIZE,
+  wrap: true,
+  portals: 0,
+  timedFood: false,
+  poison: false
+};
+export const WALL_SPAWN_SCORE = 10;
+export const MULTI_FOOD_SCORE = 5;
+export const MAX_FOODS = 3;
+export const ROUNDS_TO_WIN = 3;
+export const MAP_FORMAT_VERSION = 1;
+export const MAX_MAP_NAME_LENGTH = 30;
+
 export const SPEEDS = {
   easy: 150,
   normal: 100,
@@ -41,14 +208,16 @@ export const FOOD_POINTS = {
   apple: 1,
   banana: 2,
   meat: 3,
-  berry: 1
+  berry: 1,
+  poison: 0
 };
 
 export const FOOD_EMOJIS = {
   apple: '🍎',
   banana: '🍌',
   meat: '🥩',
-  berry: '🫐'
+  berry: '🫐',
+  poison: '🍄'
 };
 
 export const SNAKE_COLORS: Record<SnakeColor, { light: [string, string], dark: [string, string] }> = {
@@ -71,5 +240,18 @@ export const SNAKE_COLORS: Record<SnakeColor, { light: [string, string], dark: [
   pink: {
     light: ['#ec4899', '#db2777'],
     dark: ['#f472b6', '#ec4899']
+  },
+  // Crimson and gold are achievement rewards.
+  crimson: {
+    light: ['#dc2626', '#991b1b'],
+    dark: ['#f87171', '#dc2626']
+  },
+  gold: {
+    light: ['#eab308', '#a16207'],
+    dark: ['#facc15', '#ca8a04']
   }
-};
\ No newline at end of file
+};
+
+export const PORTAL_COLORS = ['#06b6d4', '#f59e0b', '#ec4899', '#84cc16', '#6366f1'];
+
+export const SNAKE_COLOR_NAMES = Object.keys(SNAKE_COLORS) as SnakeColor[];
@@ -0,0 +1,357 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RefreshCcw, Trophy, Undo2, Redo2, Eraser, Pencil, Lightbulb, Loader2 } from 'lucide-react';
+import { GameState, GeneratorRequest, GeneratorResponse, Step, DIFFICULTIES, TECHNIQUE_NAMES } from './types';
+import { findConflicts, boxOf, cellName, colOf, maskDigits, rowOf } from './solver';
+import { findHint } from './techniques';
+import { createGameState, enterDigit, toggleNote, clearCell, undo, redo, findMistakes, isGiven, isSolved } from './logic';
+import { randomSeed } from '../../utils/random';
+import { useGameSetting } from '../../store/gameStore';
+import { reportEvent } from '../../store/achievements';
+import { useActions } from '../../hooks/useActions';
+import { InputAction } from '../../types/game';
+
+interface Hint {
+  target: number | null;
+  cells: number[];
+  steps: Step[];
+  message?: string;
+}
+
+const DIGITS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+const ACTION_MOVES: Partial<Record<InputAction, number>> = {
+  up: -9,
+  down: 9,
+  left: -1,
+  right: 1
+};
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const Sudoku: React.FC = () => {
+  const [difficulty, setDifficulty] = useGameSetting('difficulty', DIFFICULTIES, 'easy');
+  const [state, setState] = useState<GameState | null>(null);
+  const [selected, setSelected] = useState(0);
+  const [pencilMode, setPencilMode] = useState(false);
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [isGenerating, setIsGenerating] = useState(true);
+  const workerRef = useRef<Worker>();
+  const requestIdRef = useRef(0);
+
+  const solved = state !== null && isSolved(state);
+  const conflicts = useMemo(() => (state ? findConflicts(state.values) : new Set<number>()), [state]);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('./generator.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<GeneratorResponse>) => {
+      const { id, puzzle } = event.data;
+      if (id !== requestIdRef.current) return;
+      setState(createGameState(puzzle));
+      setSelected(0);
+      setHint(null);
+      setElapsed(0);
+      setIsGenerating(false);
+    };
+    workerRef.current = worker;
+    return () => worker.terminate();
+  }, []);
+
+  const newPuzzle = useCallback(() => {
+    const request: GeneratorRequest = { id: ++requestIdRef.current, difficulty, seed: randomSeed() };
+    setIsGenerating(true);
+    workerRef.current?.postMessage(request);
+  }, [difficulty]);
+
+  useEffect(() => {
+    newPuzzle();
+  }, [newPuzzle]);
+
+  useEffect(() => {
+    if (!state || solved || isGenerating) return;
+    const timer = setInterval(() => setElapsed(prev => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [state, solved, isGenerating]);
+
+  // Once per puzzle, as undo lets a solved grid be solved again.
+  const puzzle = state?.puzzle;
+  const reportedRef = useRef(puzzle);
+  useEffect(() => {
+    if (!solved || !puzzle || reportedRef.current === puzzle) return;
+    reportedRef.current = puzzle;
+    reportEvent({ type: 'sudoku:solved', difficulty: puzzle.difficulty });
+  }, [solved, puzzle]);
+
+  const update = useCallback((change: (state: GameState) => GameState) => {
+    setState(prev => (prev ? change(prev) : prev));
+    setHint(null);
+  }, []);
+
+  const handleDigit = useCallback((digit: number) => {
+    if (solved) return;
+    update(prev => (pencilMode ? toggleNote(prev, selected, digit) : enterDigit(prev, selected, digit)));
+  }, [update, pencilMode, selected, solved]);
+
+  const handleErase = useCallback(() => update(prev => clearCell(prev, selected)), [update, selected]);
+
+  // Points out a wrong entry first; otherwise walks the logical techniques from
+  // the current board up to the next digit that can be placed.
+  const showHint = () => {
+    if (!state) return;
+    const mistakes = findMistakes(state);
+    if (mistakes.length > 0) {
+      setHint({
+        target: mistakes[0],
+        cells: mistakes,
+        steps: [],
+        message: `${cellName(mistakes[0])} doesn't fit the solution. Clear it before looking for the next step.`
+      });
+      return;
+    }
+
+    const steps = findHint(state.values);
+    if (!steps) {
+      setHint({ target: null, cells: [], steps: [], message: 'No logical step found from here.' });
+      return;
+    }
+    const last = steps[steps.length - 1];
+    setHint({ target: last.placement!.cell, cells: last.cells, steps });
+    setSelected(last.placement!.cell);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        update(e.shiftKey ? redo : undo);
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        update(redo);
+        return;
+      }
+
+      if (/^[1-9]$/.test(e.key)) {
+        handleDigit(Number(e.key));
+      } else if (e.key === 'Backspace' || e.key === 'Delete' || e.key === '0') {
+        handleErase();
+      } else if (e.key.toLowerCase() === 'n') {
+        setPencilMode(prev => !prev);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [update, handleDigit, handleErase]);
+
+  // Digits and the editing shortcuts above stay on their own keys; moving
+  // the selection goes through the shared bindings.
+  useActions(action => {
+    const offset = ACTION_MOVES[action];
+    if (offset === undefined) return;
+    setSelected(prev => {
+      const next = prev + offset;
+      if (next < 0 || next > 80) return prev;
+      if (Math.abs(offset) === 1 && rowOf(next) !== rowOf(prev)) return prev;
+      return next;
+    });
+  });
+
+  if (!state) {
+    return (
+      <div className="flex items-center justify-center w-full h-64 text-gray-600 dark:text-gray-400 gap-2">
+        <Loader2 className="animate-spin" /> Generating puzzle…
+      </div>
+    );
+  }
+
+  const selectedValue = state.values[selected];
+  const digitCounts = DIGITS.map(digit => state.values.filter(value => value === digit).length);
+
+  const getCellClass = (cell: number) => {
+    if (hint?.target === cell) return 'bg-amber-300 dark:bg-amber-600';
+    if (cell === selected) return 'bg-blue-300 dark:bg-blue-700';
+    if (hint?.cells.includes(cell)) return 'bg-amber-100 dark:bg-amber-900';
+    if (selectedValue && state.values[cell] === selectedValue) return 'bg-blue-200 dark:bg-blue-800';
+    if (rowOf(cell) === rowOf(selected) || colOf(cell) === colOf(selected) || boxOf(cell) === boxOf(selected)) {
+      return 'bg-blue-50 dark:bg-gray-700';
+    }
+    return 'bg-white dark:bg-gray-800';
+  };
+
+  const getBorderClass = (cell: number) => [
+    colOf(cell) % 3 === 2 && colOf(cell) !== 8 ? 'border-r-2 border-r-gray-700 dark:border-r-gray-300' : '',
+    rowOf(cell) % 3 === 2 && rowOf(cell) !== 8 ? 'border-b-2 border-b-gray-700 dark:border-b-gray-300' : ''
+  ].join(' ');
+
+  return (
+    <div className="flex flex-col lg:flex-row items-start justify-center w-full max-w-5xl mx-auto p-4 gap-8">
+      <div className="w-full max-w-lg mx-auto">
+        <div className="w-full mb-6 flex items-center justify-between">
+          <div className="flex gap-4">
+            {DIFFICULTIES.map(diff => (
+              <button
+                key={diff}
+                onClick={() => setDifficulty(diff)}
+                className={`px-4 py-2 rounded-lg capitalize transition-colors
+                  ${difficulty === diff
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+              >
+                {diff}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={newPuzzle}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            aria-label="New puzzle"
+          >
+            <RefreshCcw size={24} className="dark:text-white" />
+          </button>
+        </div>
+
+        <div className="relative">
+          <div className="grid grid-cols-9 aspect-square border-2 border-gray-700 dark:border-gray-300 rounded-lg overflow-hidden shadow-lg">
+            {state.values.map((value, cell) => (
+              <button
+                key={cell}
+                onClick={() => setSelected(cell)}
+                className={`relative flex items-center justify-center border border-gray-300 dark:border-gray-600
+                  ${getCellClass(cell)} ${getBorderClass(cell)}`}
+                aria-label={`${cellName(cell)}${value ? ` ${value}` : ''}`}
+              >
+                {value ? (
+                  <span
+                    className={`text-xl sm:text-2xl
+                      ${conflicts.has(cell)
+                        ? 'text-red-600 dark:text-red-400'
+                        : isGiven(state, cell)
+                          ? 'font-bold text-gray-900 dark:text-white'
+                          : 'text-blue-600 dark:text-blue-300'}`}
+                  >
+                    {value}
+                  </span>
+                ) : (
+                  <span className="grid grid-cols-3 w-full h-full p-0.5 text-[0.55rem] sm:text-xs leading-none text-gray-500 dark:text-gray-400">
+                    {DIGITS.map(digit => (
+                      <span key={digit} className="flex items-center justify-center">
+                        {maskDigits(state.notes[cell]).includes(digit) ? digit : ''}
+                      </span>
+                    ))}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+
+          <AnimatePresence>
+            {(solved || isGenerating) && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.8 }}
+                className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 rounded-lg"
+              >
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-xl text-center">
+                  {isGenerating ? (
+                    <div className="flex items-center gap-2 dark:text-white">
+                      <Loader2 className="animate-spin" /> Generating puzzle…
+                    </div>
+                  ) : (
+                    <>
+                      <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
+                      <h2 className="text-2xl font-bold mb-2 dark:text-white">Solved!</h2>
+                      <p className="mb-4 text-gray-600 dark:text-gray-400">Time: {formatTime(elapsed)}</p>
+                      <button
+                        onClick={newPuzzle}
+                        className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        New Puzzle
+                      </button>
+                    </>
+                  )}
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+
+        <div className="grid grid-cols-9 gap-1 mt-4">
+          {DIGITS.map((digit, i) => (
+            <button
+              key={digit}
+              onClick={() => handleDigit(digit)}
+              disabled={digitCounts[i] >= 9}
+              className="py-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-lg font-semibold dark:text-white
+                hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors disabled:opacity-30"
+            >
+              {digit}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="w-full lg:w-72 flex flex-col gap-4">
+        <div className="flex items-center justify-between text-gray-700 dark:text-gray-300">
+          <span className="capitalize">{state.puzzle.difficulty}</span>
+          <span className="font-mono">{formatTime(elapsed)}</span>
+        </div>
+        {!isGenerating && state.puzzle.difficulty !== difficulty && (
+          <p className="-mt-3 text-sm text-gray-500 dark:text-gray-400">
+            No {difficulty} puzzle turned up this time, so this one is {state.puzzle.difficulty}.
+          </p>
+        )}
+
+        <div className="grid grid-cols-5 gap-2">
+          {[
+            { label: 'Undo', icon: Undo2, onClick: () => update(undo), disabled: state.history.length === 0 },
+            { label: 'Redo', icon: Redo2, onClick: () => update(redo), disabled: state.future.length === 0 },
+            { label: 'Erase', icon: Eraser, onClick: handleErase, disabled: isGiven(state, selected) },
+            { label: 'Notes', icon: Pencil, onClick: () => setPencilMode(prev => !prev), active: pencilMode },
+            { label: 'Hint', icon: Lightbulb, onClick: showHint, disabled: solved }
+          ].map(({ label, icon: Icon, onClick, disabled, active }) => (
+            <button
+              key={label}
+              onClick={onClick}
+              disabled={disabled}
+              className={`flex flex-col items-center gap-1 p-2 rounded-lg text-xs transition-colors disabled:opacity-40
+                ${active
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'}`}
+            >
+              <Icon size={20} />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {hint && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="p-4 rounded-lg bg-amber-50 dark:bg-gray-800 border border-amber-300 dark:border-amber-700 text-sm space-y-2"
+          >
+            {hint.message && <p className="dark:text-gray-300">{hint.message}</p>}
+            {hint.steps.map((step, i) => (
+              <p key={i} className="dark:text-gray-300">
+                <span className="font-semibold text-amber-700 dark:text-amber-400">{TECHNIQUE_NAMES[step.technique]}: </span>
+                {step.explanation}
+              </p>
+            ))}
+          </motion.div>
+        )}
+
+        <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+          <p>Arrow keys move, 1-9 fill a cell, Backspace clears it.</p>
+          <p>Press N to toggle pencil marks, Ctrl+Z / Ctrl+Y to undo and redo.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Sudoku;
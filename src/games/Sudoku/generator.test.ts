@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { generatePuzzle } from './generator';
+import { countSolutions } from './solver';
+import { gradePuzzle } from './techniques';
+
+describe('generatePuzzle', () => {
+  it('labels each puzzle with the grade it actually has', () => {
+    for (const seed of [1, 2, 3]) {
+      const puzzle = generatePuzzle('normal', seed);
+      expect(gradePuzzle(puzzle.givens)).toBe(puzzle.difficulty);
+      expect(countSolutions(puzzle.givens)).toBe(1);
+    }
+  });
+
+  it('gives the same puzzle for the same seed', () => {
+    expect(generatePuzzle('easy', 7)).toEqual(generatePuzzle('easy', 7));
+  });
+});
@@ -0,0 +1,71 @@
+import { createRng, Rng } from '../../utils/random';
+import { Difficulty, Grid, Puzzle, DIFFICULTIES, FALLBACK_SEEDS, GENERATION_ATTEMPTS, MIN_GIVENS } from './types';
+import { countSolutions, solve } from './solver';
+import { gradePuzzle } from './techniques';
+
+function shuffled<T>(items: T[], random: Rng): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Digs symmetric pairs of clues out of a full grid for as long as the puzzle
+// keeps a single solution.
+function carve(solution: Grid, minGivens: number, random: Rng): Grid {
+  const givens = [...solution];
+  let remaining = 81;
+
+  for (const cell of shuffled([...Array(41).keys()], random)) {
+    const mirror = 80 - cell;
+    const removed = cell === mirror ? 1 : 2;
+    if (remaining - removed < minGivens) continue;
+
+    const before = [givens[cell], givens[mirror]];
+    givens[cell] = 0;
+    givens[mirror] = 0;
+    if (countSolutions(givens) === 1) {
+      remaining -= removed;
+    } else {
+      [givens[cell], givens[mirror]] = before;
+    }
+  }
+  return givens;
+}
+
+// Generates puzzles until one grades at the requested difficulty. If none does
+// within the attempt budget, the closest solvable one is kept, so the grade can
+// fall short of the request.
+function closestPuzzle(difficulty: Difficulty, seed: number): Puzzle | null {
+  const random = createRng(seed);
+  const target = DIFFICULTIES.indexOf(difficulty);
+  let best: Puzzle | null = null;
+
+  for (let attempt = 0; attempt < GENERATION_ATTEMPTS; attempt++) {
+    const solution = solve(Array(81).fill(0), random)!;
+    const givens = carve(solution, MIN_GIVENS[difficulty], random);
+    const grade = gradePuzzle(givens);
+    if (!grade) continue;
+
+    const puzzle = { seed, givens, solution, difficulty: grade };
+    if (grade === difficulty) return puzzle;
+    if (!best || Math.abs(DIFFICULTIES.indexOf(grade) - target) < Math.abs(DIFFICULTIES.indexOf(best.difficulty) - target)) {
+      best = puzzle;
+    }
+  }
+  return best;
+}
+
+export function generatePuzzle(difficulty: Difficulty, seed: number): Puzzle {
+  let puzzle = closestPuzzle(difficulty, seed);
+
+  // In the unlikely case every attempt needed guessing, move on to the next
+  // seeds asking for an easy puzzle, which singles almost always solve.
+  for (let next = seed + 1; !puzzle && next <= seed + FALLBACK_SEEDS; next++) {
+    puzzle = closestPuzzle('easy', next);
+  }
+  if (!puzzle) throw new Error(`No puzzle solvable without guessing near seed ${seed}`);
+  return puzzle;
+}
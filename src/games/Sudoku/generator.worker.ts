@@ -0,0 +1,10 @@
+import { GeneratorRequest, GeneratorResponse } from './types';
+import { generatePuzzle } from './generator';
+
+// Hard puzzles can take a few hundred attempts' worth of uniqueness checks, so
+// generation runs off the main thread.
+self.onmessage = (event: MessageEvent<GeneratorRequest>) => {
+  const { id, difficulty, seed } = event.data;
+  const response: GeneratorResponse = { id, puzzle: generatePuzzle(difficulty, seed) };
+  self.postMessage(response);
+};
@@ -0,0 +1,81 @@
+import { GameState, Puzzle, Snapshot } from './types';
+import { PEERS, digitBit } from './solver';
+
+export function createGameState(puzzle: Puzzle): GameState {
+  return {
+    puzzle,
+    values: [...puzzle.givens],
+    notes: Array(81).fill(0),
+    history: [],
+    future: []
+  };
+}
+
+const snapshot = (state: GameState): Snapshot => ({ values: state.values, notes: state.notes });
+
+// Records the current board for undo before applying an edit.
+function commit(state: GameState, values: number[], notes: number[]): GameState {
+  return {
+    ...state,
+    values,
+    notes,
+    history: [...state.history, snapshot(state)],
+    future: []
+  };
+}
+
+export const isGiven = (state: GameState, cell: number) => state.puzzle.givens[cell] !== 0;
+
+// Placing a digit also clears it from the pencil marks of every peer.
+export function enterDigit(state: GameState, cell: number, digit: number): GameState {
+  if (isGiven(state, cell)) return state;
+  if (state.values[cell] === digit) return clearCell(state, cell);
+
+  const values = state.values.map((v, i) => (i === cell ? digit : v));
+  const notes = [...state.notes];
+  notes[cell] = 0;
+  for (const peer of PEERS[cell]) notes[peer] &= ~digitBit(digit);
+  return commit(state, values, notes);
+}
+
+export function toggleNote(state: GameState, cell: number, digit: number): GameState {
+  if (state.values[cell] !== 0) return state;
+  const notes = state.notes.map((mask, i) => (i === cell ? mask ^ digitBit(digit) : mask));
+  return commit(state, state.values, notes);
+}
+
+export function clearCell(state: GameState, cell: number): GameState {
+  if (isGiven(state, cell) || (state.values[cell] === 0 && state.notes[cell] === 0)) return state;
+  const values = state.values.map((v, i) => (i === cell ? 0 : v));
+  const notes = state.notes.map((mask, i) => (i === cell ? 0 : mask));
+  return commit(state, values, notes);
+}
+
+export function undo(state: GameState): GameState {
+  const previous = state.history[state.history.length - 1];
+  if (!previous) return state;
+  return {
+    ...state,
+    ...previous,
+    history: state.history.slice(0, -1),
+    future: [snapshot(state), ...state.future]
+  };
+}
+
+export function redo(state: GameState): GameState {
+  const [next, ...future] = state.future;
+  if (!next) return state;
+  return {
+    ...state,
+    ...next,
+    history: [...state.history, snapshot(state)],
+    future
+  };
+}
+
+// Filled cells that disagree with the unique solution.
+export const findMistakes = (state: GameState) =>
+  state.values.flatMap((value, cell) => (value && value !== state.puzzle.solution[cell] ? [cell] : []));
+
+export const isSolved = (state: GameState) =>
+  state.values.every((value, cell) => value === state.puzzle.solution[cell]);
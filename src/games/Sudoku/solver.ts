@@ -0,0 +1,121 @@
+import { Rng } from '../../utils/random';
+import { Candidates, Grid, ALL_CANDIDATES } from './types';
+
+export const rowOf = (cell: number) => Math.floor(cell / 9);
+export const colOf = (cell: number) => cell % 9;
+export const boxOf = (cell: number) => Math.floor(rowOf(cell) / 3) * 3 + Math.floor(colOf(cell) / 3);
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+export const ROWS = range(9).map(r => range(9).map(c => r * 9 + c));
+export const COLS = range(9).map(c => range(9).map(r => r * 9 + c));
+export const BOXES = range(9).map(b =>
+  range(9).map(i => (Math.floor(b / 3) * 3 + Math.floor(i / 3)) * 9 + (b % 3) * 3 + (i % 3))
+);
+export const UNITS = [...ROWS, ...COLS, ...BOXES];
+
+// Every other cell sharing a row, column or box with each cell.
+export const PEERS = range(81).map(cell => {
+  const peers = new Set([...ROWS[rowOf(cell)], ...COLS[colOf(cell)], ...BOXES[boxOf(cell)]]);
+  peers.delete(cell);
+  return [...peers];
+});
+
+export const digitBit = (digit: number) => 1 << (digit - 1);
+
+export function maskDigits(mask: number): number[] {
+  const digits: number[] = [];
+  for (let digit = 1; digit <= 9; digit++) {
+    if (mask & digitBit(digit)) digits.push(digit);
+  }
+  return digits;
+}
+
+export function bitCount(mask: number): number {
+  let count = 0;
+  for (let m = mask; m; m &= m - 1) count++;
+  return count;
+}
+
+export function getCandidates(grid: Grid): Candidates {
+  return grid.map((value, cell) => {
+    if (value) return 0;
+    let mask = ALL_CANDIDATES;
+    for (const peer of PEERS[cell]) {
+      if (grid[peer]) mask &= ~digitBit(grid[peer]);
+    }
+    return mask;
+  });
+}
+
+// Cells whose value repeats in one of their units.
+export function findConflicts(grid: Grid): Set<number> {
+  const conflicts = new Set<number>();
+  grid.forEach((value, cell) => {
+    if (value && PEERS[cell].some(peer => grid[peer] === value)) conflicts.add(cell);
+  });
+  return conflicts;
+}
+
+export const cellName = (cell: number) => `R${rowOf(cell) + 1}C${colOf(cell) + 1}`;
+
+// Depth-first search that always branches on the cell with the fewest
+// candidates. Calls `onSolution` for each solution found until it returns false.
+function search(grid: Grid, onSolution: (grid: Grid) => boolean, random?: Rng): boolean {
+  let best = -1;
+  let bestMask = 0;
+  let bestCount = 10;
+
+  for (let cell = 0; cell < 81; cell++) {
+    if (grid[cell]) continue;
+    let mask = ALL_CANDIDATES;
+    for (const peer of PEERS[cell]) {
+      if (grid[peer]) mask &= ~digitBit(grid[peer]);
+    }
+    const count = bitCount(mask);
+    if (count === 0) return true;
+    if (count < bestCount) {
+      best = cell;
+      bestMask = mask;
+      bestCount = count;
+      if (count === 1) break;
+    }
+  }
+
+  if (best === -1) return onSolution(grid);
+
+  const digits = maskDigits(bestMask);
+  if (random) {
+    for (let i = digits.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [digits[i], digits[j]] = [digits[j], digits[i]];
+    }
+  }
+
+  for (const digit of digits) {
+    grid[best] = digit;
+    const keepGoing = search(grid, onSolution, random);
+    grid[best] = 0;
+    if (!keepGoing) return false;
+  }
+  return true;
+}
+
+export function solve(grid: Grid, random?: Rng): Grid | null {
+  if (findConflicts(grid).size > 0) return null;
+  let solution: Grid | null = null;
+  search([...grid], found => {
+    solution = [...found];
+    return false;
+  }, random);
+  return solution;
+}
+
+// Counts solutions up to `limit`, which is all the generator needs to check
+// uniqueness.
+export function countSolutions(grid: Grid, limit = 2): number {
+  if (findConflicts(grid).size > 0) return 0;
+  let count = 0;
+  search([...grid], () => ++count < limit);
+  return count;
+}
@@ -0,0 +1,244 @@
+import { Candidates, Difficulty, Elimination, Grid, Step, DIFFICULTIES, TECHNIQUE_LEVELS } from './types';
+import {
+  BOXES, COLS, PEERS, ROWS, UNITS,
+  bitCount, boxOf, cellName, colOf, digitBit, getCandidates, maskDigits, rowOf
+} from './solver';
+
+const unitName = (unit: number) => {
+  if (unit < 9) return `row ${unit + 1}`;
+  if (unit < 18) return `column ${unit - 8}`;
+  return `box ${unit - 17}`;
+};
+
+const cellList = (cells: number[]) => cells.map(cellName).join(', ');
+
+const digitList = (digits: number[]) => digits.join('/');
+
+// Candidate eliminations of `mask` from `cells`, skipping the ones already gone.
+function eliminate(candidates: Candidates, cells: number[], mask: number): Elimination[] {
+  return cells.flatMap(cell =>
+    maskDigits(candidates[cell] & mask).map(digit => ({ cell, digit }))
+  );
+}
+
+function describeEliminations(eliminations: Elimination[]): string {
+  return eliminations.map(({ cell, digit }) => `${digit} from ${cellName(cell)}`).join(', ');
+}
+
+function findNakedSingle(candidates: Candidates): Step | null {
+  for (let cell = 0; cell < 81; cell++) {
+    if (bitCount(candidates[cell]) !== 1) continue;
+    const digit = maskDigits(candidates[cell])[0];
+    return {
+      technique: 'nakedSingle',
+      placement: { cell, digit },
+      eliminations: [],
+      cells: [cell],
+      explanation: `${cellName(cell)} can only be ${digit}: every other digit is already used in its row, column or box.`
+    };
+  }
+  return null;
+}
+
+function findHiddenSingle(candidates: Candidates): Step | null {
+  for (let unit = 0; unit < UNITS.length; unit++) {
+    for (let digit = 1; digit <= 9; digit++) {
+      const places = UNITS[unit].filter(cell => candidates[cell] & digitBit(digit));
+      if (places.length !== 1) continue;
+      return {
+        technique: 'hiddenSingle',
+        placement: { cell: places[0], digit },
+        eliminations: [],
+        cells: UNITS[unit],
+        explanation: `${cellName(places[0])} is the only place left for ${digit} in ${unitName(unit)}.`
+      };
+    }
+  }
+  return null;
+}
+
+// Pointing: a digit confined to one line within a box. Claiming: a digit
+// confined to one box within a line.
+function findLockedCandidates(candidates: Candidates): Step | null {
+  for (let digit = 1; digit <= 9; digit++) {
+    const bit = digitBit(digit);
+
+    for (let box = 0; box < 9; box++) {
+      const places = BOXES[box].filter(cell => candidates[cell] & bit);
+      if (places.length < 2) continue;
+      for (const [lines, lineOf, offset] of [[ROWS, rowOf, 0], [COLS, colOf, 9]] as const) {
+        const line = lineOf(places[0]);
+        if (!places.every(cell => lineOf(cell) === line)) continue;
+        const eliminations = eliminate(candidates, lines[line].filter(cell => boxOf(cell) !== box), bit);
+        if (eliminations.length === 0) continue;
+        return {
+          technique: 'lockedCandidates',
+          eliminations,
+          cells: places,
+          explanation: `In ${unitName(box + 18)}, ${digit} must go in ${unitName(line + offset)} (${cellList(places)}), so remove ${describeEliminations(eliminations)}.`
+        };
+      }
+    }
+
+    for (const [lines, offset] of [[ROWS, 0], [COLS, 9]] as const) {
+      for (let line = 0; line < 9; line++) {
+        const places = lines[line].filter(cell => candidates[cell] & bit);
+        if (places.length < 2) continue;
+        const box = boxOf(places[0]);
+        if (!places.every(cell => boxOf(cell) === box)) continue;
+        const eliminations = eliminate(candidates, BOXES[box].filter(cell => !lines[line].includes(cell)), bit);
+        if (eliminations.length === 0) continue;
+        return {
+          technique: 'lockedCandidates',
+          eliminations,
+          cells: places,
+          explanation: `In ${unitName(line + offset)}, ${digit} must go in ${unitName(box + 18)} (${cellList(places)}), so remove ${describeEliminations(eliminations)}.`
+        };
+      }
+    }
+  }
+  return null;
+}
+
+function findNakedSubset(candidates: Candidates, size: 2 | 3): Step | null {
+  for (let unit = 0; unit < UNITS.length; unit++) {
+    const open = UNITS[unit].filter(cell => {
+      const count = bitCount(candidates[cell]);
+      return count >= 2 && count <= size;
+    });
+
+    const combos = size === 2
+      ? open.flatMap((a, i) => open.slice(i + 1).map(b => [a, b]))
+      : open.flatMap((a, i) => open.slice(i + 1).flatMap((b, j) => open.slice(i + j + 2).map(c => [a, b, c])));
+
+    for (const subset of combos) {
+      const mask = subset.reduce((m, cell) => m | candidates[cell], 0);
+      if (bitCount(mask) !== size) continue;
+      const others = UNITS[unit].filter(cell => !subset.includes(cell));
+      const eliminations = eliminate(candidates, others, mask);
+      if (eliminations.length === 0) continue;
+      return {
+        technique: size === 2 ? 'nakedPair' : 'nakedTriple',
+        eliminations,
+        cells: subset,
+        explanation: `${cellList(subset)} hold only ${digitList(maskDigits(mask))} between them, so those digits can go nowhere else in ${unitName(unit)}: remove ${describeEliminations(eliminations)}.`
+      };
+    }
+  }
+  return null;
+}
+
+function findHiddenPair(candidates: Candidates): Step | null {
+  for (let unit = 0; unit < UNITS.length; unit++) {
+    const placesOf = (digit: number) => UNITS[unit].filter(cell => candidates[cell] & digitBit(digit));
+    for (let a = 1; a <= 9; a++) {
+      const places = placesOf(a);
+      if (places.length !== 2) continue;
+      for (let b = a + 1; b <= 9; b++) {
+        const other = placesOf(b);
+        if (other.length !== 2 || other[0] !== places[0] || other[1] !== places[1]) continue;
+        const eliminations = eliminate(candidates, places, ~(digitBit(a) | digitBit(b)));
+        if (eliminations.length === 0) continue;
+        return {
+          technique: 'hiddenPair',
+          eliminations,
+          cells: places,
+          explanation: `${a} and ${b} can only go in ${cellList(places)} within ${unitName(unit)}, so those cells hold nothing else: remove ${describeEliminations(eliminations)}.`
+        };
+      }
+    }
+  }
+  return null;
+}
+
+function findXWing(candidates: Candidates): Step | null {
+  for (let digit = 1; digit <= 9; digit++) {
+    const bit = digitBit(digit);
+    for (const [lines, crossLines, crossOf, offset] of [[ROWS, COLS, colOf, 0], [COLS, ROWS, rowOf, 9]] as const) {
+      const pairs = lines
+        .map((line, index) => ({ index, places: line.filter(cell => candidates[cell] & bit) }))
+        .filter(({ places }) => places.length === 2);
+
+      for (let i = 0; i < pairs.length; i++) {
+        for (let j = i + 1; j < pairs.length; j++) {
+          const [a, b] = [pairs[i], pairs[j]];
+          const crosses = a.places.map(crossOf);
+          if (crosses[0] !== crossOf(b.places[0]) || crosses[1] !== crossOf(b.places[1])) continue;
+          const corners = [...a.places, ...b.places];
+          const targets = crosses.flatMap(cross => crossLines[cross].filter(cell => !corners.includes(cell)));
+          const eliminations = eliminate(candidates, targets, bit);
+          if (eliminations.length === 0) continue;
+          return {
+            technique: 'xWing',
+            eliminations,
+            cells: corners,
+            explanation: `In ${unitName(a.index + offset)} and ${unitName(b.index + offset)}, ${digit} can only sit in ${cellList(corners)}. Either way both crossing lines get a ${digit}, so remove ${describeEliminations(eliminations)}.`
+          };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// Tried in order, so the simplest available deduction is always reported.
+const FINDERS: ((candidates: Candidates) => Step | null)[] = [
+  findNakedSingle,
+  findHiddenSingle,
+  findLockedCandidates,
+  candidates => findNakedSubset(candidates, 2),
+  findHiddenPair,
+  candidates => findNakedSubset(candidates, 3),
+  findXWing
+];
+
+export function findStep(candidates: Candidates): Step | null {
+  for (const finder of FINDERS) {
+    const step = finder(candidates);
+    if (step) return step;
+  }
+  return null;
+}
+
+export function applyStep(grid: Grid, candidates: Candidates, step: Step) {
+  if (step.placement) {
+    const { cell, digit } = step.placement;
+    grid[cell] = digit;
+    candidates[cell] = 0;
+    for (const peer of PEERS[cell]) candidates[peer] &= ~digitBit(digit);
+  }
+  for (const { cell, digit } of step.eliminations) {
+    candidates[cell] &= ~digitBit(digit);
+  }
+}
+
+// The deductions leading to the next placed digit, or null when the logical
+// techniques get stuck.
+export function findHint(grid: Grid): Step[] | null {
+  const working = [...grid];
+  const candidates = getCandidates(working);
+  const steps: Step[] = [];
+
+  for (let step = findStep(candidates); step; step = findStep(candidates)) {
+    steps.push(step);
+    if (step.placement) return steps;
+    applyStep(working, candidates, step);
+  }
+  return null;
+}
+
+// Solves with logic alone and grades by the hardest technique used, or returns
+// null if the puzzle needs guessing.
+export function gradePuzzle(givens: Grid): Difficulty | null {
+  const grid = [...givens];
+  const candidates = getCandidates(grid);
+  let level = 0;
+
+  while (grid.includes(0)) {
+    const step = findStep(candidates);
+    if (!step) return null;
+    level = Math.max(level, DIFFICULTIES.indexOf(TECHNIQUE_LEVELS[step.technique]));
+    applyStep(grid, candidates, step);
+  }
+  return DIFFICULTIES[level];
+}
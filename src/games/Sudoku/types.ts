@@ -0,0 +1,99 @@
+import { Difficulty } from '../../types/game';
+
+export type { Difficulty };
+
+// Cells are 0-80 in reading order; 0 marks an empty cell.
+export type Grid = number[];
+
+// Candidate digits per cell as 9-bit masks: bit d-1 is set when d is possible.
+export type Candidates = number[];
+
+export type Technique =
+  | 'nakedSingle'
+  | 'hiddenSingle'
+  | 'lockedCandidates'
+  | 'nakedPair'
+  | 'hiddenPair'
+  | 'nakedTriple'
+  | 'xWing';
+
+export interface Elimination {
+  cell: number;
+  digit: number;
+}
+
+// One logical deduction: either a digit placed in a cell or a set of
+// candidates ruled out.
+export interface Step {
+  technique: Technique;
+  placement?: { cell: number; digit: number };
+  eliminations: Elimination[];
+  // Cells that prove the deduction, highlighted alongside the hint.
+  cells: number[];
+  explanation: string;
+}
+
+export interface Puzzle {
+  seed: number;
+  givens: Grid;
+  solution: Grid;
+  difficulty: Difficulty;
+}
+
+export interface Snapshot {
+  values: Grid;
+  notes: Candidates;
+}
+
+export interface GameState {
+  puzzle: Puzzle;
+  values: Grid;
+  notes: Candidates;
+  history: Snapshot[];
+  future: Snapshot[];
+}
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+export const ALL_CANDIDATES = 0x1ff;
+
+// How hard each technique is; a puzzle is graded by the hardest one it needs.
+export const TECHNIQUE_LEVELS: Record<Technique, Difficulty> = {
+  nakedSingle: 'easy',
+  hiddenSingle: 'easy',
+  lockedCandidates: 'normal',
+  nakedPair: 'normal',
+  hiddenPair: 'hard',
+  nakedTriple: 'hard',
+  xWing: 'hard'
+};
+
+export const TECHNIQUE_NAMES: Record<Technique, string> = {
+  nakedSingle: 'Naked single',
+  hiddenSingle: 'Hidden single',
+  lockedCandidates: 'Locked candidates',
+  nakedPair: 'Naked pair',
+  hiddenPair: 'Hidden pair',
+  nakedTriple: 'Naked triple',
+  xWing: 'X-Wing'
+};
+
+// Clues left in a generated puzzle before the generator stops removing them.
+export const MIN_GIVENS: Record<Difficulty, number> = {
+  easy: 36,
+  normal: 28,
+  hard: 22
+};
+
+export const GENERATION_ATTEMPTS = 100;
+export const FALLBACK_SEEDS = 10;
+
+export interface GeneratorRequest {
+  id: number;
+  difficulty: Difficulty;
+  seed: number;
+}
+
+export interface GeneratorResponse {
+  id: number;
+  puzzle: Puzzle;
+}
@@ -0,0 +1,116 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Board, BoardConfig, MoveScore, Outcome, Player } from './types';
+import { bestScore } from './ai';
+import { GridCellProps, useGridNavigation } from '../../hooks/useGridNavigation';
+
+const OUTCOME_LABELS: Record<Outcome, string> = { win: 'W', draw: 'D', loss: 'L' };
+const OUTCOME_NAMES: Record<Outcome, string> = { win: 'wins', draw: 'draws', loss: 'loses' };
+const OUTCOME_COLORS: Record<Outcome, string> = {
+  win: 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300',
+  draw: 'text-gray-500',
+  loss: 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300'
+};
+
+// Marks shrink as the board grows.
+const markSize = (cols: number) => (cols <= 3 ? 'text-4xl' : cols <= 5 ? 'text-3xl' : 'text-sm sm:text-base');
+
+interface CellProps {
+  label: string;
+  value: Player | null;
+  cols: number;
+  canPlay: boolean;
+  isWinning: boolean;
+  score: MoveScore | null;
+  isBest: boolean;
+  isNext: boolean;
+  onClick: () => void;
+  navigation: GridCellProps;
+}
+
+const Cell: React.FC<CellProps> = ({ label, value, cols, canPlay, isWinning, score, isBest, isNext, onClick, navigation }) => {
+  const ring = isNext
+    ? `ring-4 ${isBest ? 'ring-green-500' : 'ring-purple-500'}`
+    : isBest ? 'ring-2 ring-green-500' : '';
+
+  return (
+    <motion.button
+      className={`w-full h-full bg-white dark:bg-gray-800 ${cols > 5 ? 'rounded-sm' : 'rounded-lg shadow-md'}
+        flex items-center justify-center ${markSize(cols)} font-bold ${ring}
+        ${canPlay ? 'hover:bg-gray-100 dark:hover:bg-gray-700' : ''}
+        ${isWinning ? 'bg-green-100 dark:bg-green-900' : ''}
+        ${score?.outcome ? OUTCOME_COLORS[score.outcome] : ''}`}
+      whileHover={canPlay ? { scale: 0.95 } : {}}
+      whileTap={canPlay ? { scale: 0.9 } : {}}
+      onClick={onClick}
+      aria-label={`${label}, ${value ?? 'empty'}${score?.outcome ? `, ${OUTCOME_NAMES[score.outcome]}` : ''}`}
+      {...navigation}
+    >
+      {score?.outcome && (
+        <span className={cols > 5 ? 'text-[0.5rem]' : 'text-sm'}>{OUTCOME_LABELS[score.outcome]}</span>
+      )}
+      <AnimatePresence mode="wait">
+        {value && (
+          <motion.span
+            key={value}
+            initial={{ scale: 0, rotate: -180 }}
+            animate={{ scale: 1, rotate: 0 }}
+            exit={{ scale: 0, rotate: 180 }}
+            className={value === 'X' ? 'text-blue-600' : 'text-red-600'}
+          >
+            {value}
+          </motion.span>
+        )}
+      </AnimatePresence>
+    </motion.button>
+  );
+};
+
+interface GridBoardProps {
+  board: Board;
+  config: BoardConfig;
+  winningLine: number[] | null;
+  // Whether empty cells take moves.
+  canPlay: boolean;
+  onCellClick: (index: number) => void;
+  // While reviewing: each empty cell's rating, and the move played next.
+  scores?: (MoveScore | null)[] | null;
+  nextMove?: number | null;
+}
+
+// A single m×n board of marks. The arrow keys move between cells.
+export const GridBoard: React.FC<GridBoardProps> = ({
+  board, config, winningLine, canPlay, onCellClick, scores = null, nextMove = null
+}) => {
+  const best = scores ? bestScore(scores) : null;
+  const { onKeyDown, cellProps } = useGridNavigation(config.rows, config.cols);
+
+  return (
+    <div
+      role="group"
+      aria-label="Board"
+      onKeyDown={onKeyDown}
+      className={`relative w-full aspect-square grid mb-8 ${config.cols <= 3 ? 'gap-4' : config.cols <= 5 ? 'gap-2' : 'gap-px bg-gray-300 dark:bg-gray-600'}`}
+      style={{ gridTemplateColumns: `repeat(${config.cols}, minmax(0, 1fr))` }}
+    >
+      {board.map((value, index) => {
+        const score = scores?.[index] ?? null;
+        return (
+          <Cell
+            key={index}
+            label={`Row ${Math.floor(index / config.cols) + 1}, column ${(index % config.cols) + 1}`}
+            value={value}
+            cols={config.cols}
+            canPlay={canPlay && !value}
+            isWinning={winningLine?.includes(index) ?? false}
+            score={score}
+            isBest={score !== null && score.score === best}
+            isNext={index === nextMove}
+            onClick={() => onCellClick(index)}
+            navigation={cellProps(index)}
+          />
+        );
+      })}
+    </div>
+  );
+};
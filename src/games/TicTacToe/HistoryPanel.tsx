@@ -0,0 +1,99 @@
+import React from 'react';
+import { Undo2, Redo2, ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, Search } from 'lucide-react';
+import { Variant } from './types';
+import { moveName } from './history';
+
+interface HistoryPanelProps {
+  moves: number[];
+  variant: Variant;
+  // Moves shown on the board while reviewing, or null while playing.
+  reviewStep: number | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  // Reviewing is offered once the game is over.
+  canReview: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onReview: (step: number | null) => void;
+}
+
+const iconButton = `p-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 transition-colors
+  hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed`;
+
+// The moves played so far, with undo and redo while playing and controls to
+// step through the game once it is over.
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  moves, variant, reviewStep, canUndo, canRedo, canReview, onUndo, onRedo, onReview
+}) => {
+  const reviewing = reviewStep !== null;
+  const current = reviewing ? reviewStep : moves.length;
+
+  return (
+    <div className="w-full mb-4">
+      <div className="flex items-center justify-center gap-2 mb-2">
+        {reviewing ? (
+          <>
+            <button onClick={() => onReview(0)} disabled={current === 0} className={iconButton} aria-label="First move">
+              <ChevronsLeft size={18} />
+            </button>
+            <button onClick={() => onReview(current - 1)} disabled={current === 0} className={iconButton} aria-label="Previous move">
+              <ChevronLeft size={18} />
+            </button>
+            <span className="w-28 text-center text-sm text-gray-600 dark:text-gray-400">
+              Move {current} of {moves.length}
+            </span>
+            <button onClick={() => onReview(current + 1)} disabled={current === moves.length} className={iconButton} aria-label="Next move">
+              <ChevronRight size={18} />
+            </button>
+            <button onClick={() => onReview(moves.length)} disabled={current === moves.length} className={iconButton} aria-label="Last move">
+              <ChevronsRight size={18} />
+            </button>
+            <button
+              onClick={() => onReview(null)}
+              className="px-3 py-1 rounded-lg text-sm bg-purple-600 text-white hover:bg-purple-700 transition-colors"
+            >
+              Done
+            </button>
+          </>
+        ) : (
+          <>
+            <button onClick={onUndo} disabled={!canUndo} className={iconButton} aria-label="Undo">
+              <Undo2 size={18} />
+            </button>
+            <button onClick={onRedo} disabled={!canRedo} className={iconButton} aria-label="Redo">
+              <Redo2 size={18} />
+            </button>
+            {canReview && (
+              <button
+                onClick={() => onReview(0)}
+                className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm bg-purple-600 text-white hover:bg-purple-700 transition-colors"
+              >
+                <Search size={16} /> Review
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {moves.length > 0 && (
+        <ol className="flex flex-wrap justify-center gap-1 text-xs font-mono">
+          {moves.map((move, i) => (
+            <li key={i}>
+              <button
+                onClick={() => reviewing && onReview(i + 1)}
+                className={`px-1.5 py-0.5 rounded
+                  ${i + 1 === current && reviewing
+                    ? 'bg-purple-600 text-white'
+                    : `bg-gray-100 dark:bg-gray-800 ${i % 2 === 0 ? 'text-blue-600' : 'text-red-600'}`}
+                  ${i >= current ? 'opacity-40' : ''} ${reviewing ? '' : 'cursor-default'}`}
+              >
+                {i % 2 === 0 && <span className="mr-1 text-gray-400">{i / 2 + 1}.</span>}
+                {moveName(move, variant)}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
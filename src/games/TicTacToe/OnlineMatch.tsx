@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { LogOut, Monitor, Radio, Wifi, WifiOff } from 'lucide-react';
+import { Variant, BOARD_CONFIGS, VARIANT_NAMES } from './types';
+import {
+  Match, OnlineMessage, Role, createRoomCode, isLegalMove, isRoomCode, loadSession, mergeMatch, normalizeRoomCode,
+  opponentSide, parseMessage, sameMatch, saveSession, sideOf, sideToMove
+} from './online';
+import { describeMove, replayPosition, replayUltimate } from './history';
+import { GridBoard } from './GridBoard';
+import { UltimateBoard } from './UltimateBoard';
+import {
+  ConnectionStatus, Transport, TransportKind, TRANSPORT_KINDS, openBroadcastTransport
+} from '../../utils/transport';
+import { SIGNALING_URL, openWebRTCTransport } from '../../utils/webrtc';
+import { playSound } from '../../utils/audio';
+import { announce } from '../../utils/announce';
+
+const TRANSPORTS = {
+  tabs: openBroadcastTransport,
+  webrtc: openWebRTCTransport
+};
+
+const TRANSPORT_NAMES: Record<TransportKind, string> = {
+  tabs: 'Tabs in this browser',
+  webrtc: 'WebRTC'
+};
+
+const STATUS_TEXT: Record<ConnectionStatus, string> = {
+  waiting: 'Waiting for your opponent to join…',
+  connected: 'Connected',
+  lost: 'Connection lost. Waiting for your opponent to come back…',
+  unavailable: `Can't reach the signaling server at ${SIGNALING_URL}. Start it with "npm run signaling".`
+};
+
+interface Room {
+  room: string;
+  role: Role;
+  transport: TransportKind;
+}
+
+interface Rematch {
+  game: number;
+  mine: boolean;
+  theirs: boolean;
+}
+
+interface OnlineMatchProps {
+  // The board picked in the variant buttons. The host's choice sets the
+  // board for both; a guest's buttons follow the host.
+  variant: Variant;
+  onVariantChange: (variant: Variant) => void;
+}
+
+// Tic-Tac-Toe against another browser. Each end keeps the match's move list,
+// checks every move it is sent, and works out the result for itself.
+export const OnlineMatch: React.FC<OnlineMatchProps> = ({ variant, onVariantChange }) => {
+  // A reloaded tab picks up the room it was in.
+  const [saved] = useState(loadSession);
+  const [room, setRoom] = useState<Room | null>(saved && { room: saved.room, role: saved.role, transport: saved.transport });
+  const [match, setMatch] = useState<Match>(saved?.match ?? { variant, game: 0, moves: [] });
+  const [status, setStatus] = useState<ConnectionStatus>('waiting');
+  const [rematch, setRematch] = useState<Rematch>({ game: -1, mine: false, theirs: false });
+  const [transportKind, setTransportKind] = useState<TransportKind>('tabs');
+  const [code, setCode] = useState('');
+  // The message handlers need the match as it is now, not as it was when
+  // the transport opened.
+  const matchRef = useRef(match);
+  const transportRef = useRef<Transport | null>(null);
+
+  const commit = useCallback((next: Match) => {
+    matchRef.current = next;
+    setMatch(next);
+  }, []);
+
+  const send = (message: OnlineMessage) => transportRef.current?.send(message);
+
+  useEffect(() => {
+    if (!room) return;
+    const { role } = room;
+
+    const transport = TRANSPORTS[room.transport](`tic-tac-toe-${room.room}`, {
+      onStatus: next => {
+        setStatus(next);
+        // Compare notes on every (re)connection; the merge settles any gap.
+        if (next === 'connected') transport.send({ type: 'state', match: matchRef.current });
+      },
+      onMessage: data => {
+        const message = parseMessage(data);
+        if (!message) return;
+        const current = matchRef.current;
+
+        if (message.type === 'state') {
+          const merged = mergeMatch(current, message.match, role);
+          if (!sameMatch(merged, current)) commit(merged);
+          if (!sameMatch(merged, message.match)) transport.send({ type: 'state', match: merged });
+        } else if (message.type === 'move') {
+          const isNext = message.game === current.game && message.ply === current.moves.length;
+          const isTheirTurn = sideToMove(current) === opponentSide(role, current.game);
+          if (isNext && isTheirTurn && isLegalMove(current, message.index)) {
+            commit({ ...current, moves: [...current.moves, message.index] });
+          } else if (message.game !== current.game || current.moves[message.ply] !== message.index) {
+            // Out of step rather than a repeat of a move we have; resync.
+            transport.send({ type: 'state', match: current });
+          }
+        } else {
+          setRematch(prev => ({ game: message.game, mine: prev.game === message.game && prev.mine, theirs: true }));
+        }
+      }
+    });
+    transportRef.current = transport;
+
+    return () => {
+      transport.close();
+      transportRef.current = null;
+      setStatus('waiting');
+    };
+  }, [room, commit]);
+
+  useEffect(() => {
+    saveSession(room && { ...room, match });
+  }, [room, match]);
+
+  // Both ends start the next game themselves once both have asked.
+  useEffect(() => {
+    if (rematch.game === match.game && rematch.mine && rematch.theirs) {
+      commit({ variant: match.variant, game: match.game + 1, moves: [] });
+    }
+  }, [rematch, match.game, match.variant, commit]);
+
+  useEffect(() => {
+    if (!room || variant === match.variant) return;
+    if (room.role === 'guest') {
+      onVariantChange(match.variant);
+      return;
+    }
+    const next = { variant, game: match.game + 1, moves: [] };
+    commit(next);
+    transportRef.current?.send({ type: 'state', match: next });
+  }, [room, variant, match.variant, match.game, commit, onVariantChange]);
+
+  const position = useMemo(
+    () => (match.variant === 'ultimate' ? null : replayPosition(match.variant, match.moves)),
+    [match]
+  );
+  const ultimate = useMemo(() => (match.variant === 'ultimate' ? replayUltimate(match.moves) : null), [match]);
+  const result = ultimate ?? position!;
+
+  const mySide = room ? sideOf(room.role, match.game) : 'X';
+  const isMyTurn = status === 'connected' && result.status === 'playing' && sideToMove(match) === mySide;
+
+  // Either side's move, however it arrived.
+  useEffect(() => {
+    const { moves, variant } = matchRef.current;
+    if (moves.length === 0) return;
+    playSound('place');
+    announce(describeMove(moves[moves.length - 1], variant, moves.length % 2 === 1 ? 'X' : 'O'));
+  }, [match.moves.length]);
+
+  useEffect(() => {
+    if (result.status === 'won') {
+      playSound(result.winner === mySide ? 'win' : 'lose');
+      announce(result.winner === mySide ? 'You win' : 'You lose');
+    } else if (result.status === 'draw') {
+      playSound('draw');
+      announce("It's a draw");
+    }
+  }, [result.status, result.winner, mySide]);
+
+  const play = (index: number) => {
+    const current = matchRef.current;
+    if (!isMyTurn || !isLegalMove(current, index)) return;
+    commit({ ...current, moves: [...current.moves, index] });
+    send({ type: 'move', game: current.game, ply: current.moves.length, index });
+  };
+
+  const requestRematch = () => {
+    setRematch(prev => ({ game: match.game, mine: true, theirs: prev.game === match.game && prev.theirs }));
+    send({ type: 'rematch', game: match.game });
+  };
+
+  const enter = (role: Role, roomCode: string) => {
+    commit({ variant, game: 0, moves: [] });
+    setRematch({ game: -1, mine: false, theirs: false });
+    setRoom({ room: roomCode, role, transport: transportKind });
+  };
+
+  const leave = () => {
+    setRoom(null);
+    setCode('');
+  };
+
+  if (!room) {
+    return (
+      <div className="w-full mb-8 p-6 rounded-lg bg-gray-100 dark:bg-gray-800 flex flex-col gap-4">
+        <div className="flex justify-center gap-2">
+          {TRANSPORT_KINDS.map(kind => (
+            <button
+              key={kind}
+              onClick={() => setTransportKind(kind)}
+              className={`flex items-center gap-2 px-3 py-1 rounded-lg text-sm transition-colors
+                ${transportKind === kind
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+            >
+              {kind === 'tabs' ? <Monitor size={16} /> : <Radio size={16} />} {TRANSPORT_NAMES[kind]}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-center text-gray-500 dark:text-gray-400">
+          {transportKind === 'tabs'
+            ? 'Open the game in a second tab to play yourself; no server needed.'
+            : `Plays across browsers. Needs the signaling server at ${SIGNALING_URL} ("npm run signaling").`}
+        </p>
+        <button
+          onClick={() => enter('host', createRoomCode())}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Create a room
+        </button>
+        <form
+          className="flex gap-2"
+          onSubmit={event => {
+            event.preventDefault();
+            if (isRoomCode(code)) enter('guest', code);
+          }}
+        >
+          <input
+            value={code}
+            onChange={event => setCode(normalizeRoomCode(event.target.value))}
+            placeholder="Room code"
+            aria-label="Room code"
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-white dark:bg-gray-700 font-mono uppercase tracking-widest"
+          />
+          <button
+            type="submit"
+            disabled={!isRoomCode(code)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors
+              disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Join
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  const rematchPending = rematch.game === match.game;
+
+  return (
+    <>
+      <div className="w-full mb-4 flex items-center justify-between gap-2">
+        <div className="text-sm">
+          Room <span className="font-mono font-bold tracking-widest">{room.room}</span>
+          <span className="text-gray-500 dark:text-gray-400"> · {VARIANT_NAMES[match.variant]} · you play </span>
+          <span className={`font-bold ${mySide === 'X' ? 'text-blue-600' : 'text-red-600'}`}>{mySide}</span>
+        </div>
+        <button
+          onClick={leave}
+          className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        >
+          <LogOut size={16} /> Leave
+        </button>
+      </div>
+
+      <div className="w-full mb-4 flex items-center justify-center gap-2 text-sm text-center" role="status">
+        {status === 'connected' ? <Wifi size={16} className="text-green-500 shrink-0" /> : <WifiOff size={16} className="text-gray-400 shrink-0" />}
+        {status !== 'connected' ? (
+          <span>
+            {STATUS_TEXT[status]}
+            {status === 'waiting' && room.role === 'host' && ` Share the code ${room.room}.`}
+          </span>
+        ) : result.status === 'playing' ? (
+          <span>{isMyTurn ? 'Your turn' : "Opponent's turn"}</span>
+        ) : (
+          <>
+            <span className="font-bold">
+              {result.winner === null ? "It's a draw." : result.winner === mySide ? 'You win!' : 'You lose.'}
+            </span>
+            <button
+              onClick={requestRematch}
+              disabled={rematchPending && rematch.mine}
+              className="px-3 py-1 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-60"
+            >
+              {rematchPending && rematch.mine
+                ? 'Waiting for opponent…'
+                : rematchPending && rematch.theirs ? 'Accept rematch' : 'Rematch'}
+            </button>
+          </>
+        )}
+      </div>
+
+      {ultimate ? (
+        <UltimateBoard state={ultimate} onMove={play} disabled={!isMyTurn} />
+      ) : (
+        <GridBoard
+          board={position!.board}
+          config={BOARD_CONFIGS[match.variant]}
+          winningLine={position!.winningLine}
+          canPlay={isMyTurn}
+          onCellClick={play}
+        />
+      )}
+    </>
+  );
+};
@@ -1,100 +1,244 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { RefreshCcw, User, Cpu, Trophy, Medal } from 'lucide-react';
-import { Player, Board, GameStatus, GameMode, Difficulty, GameState } from './types';
-import { checkWinner, getBestMove } from './ai';
+import { RefreshCcw, User, Cpu, Globe, Trophy, Medal, Loader2 } from 'lucide-react';
+import {
+  BotRequest, BotResponse, GameStatus, Player, GameState, MoveScore, Outcome, UltimateState, Variant,
+  BOARD_CONFIGS, GAME_MODES, DIFFICULTIES, VARIANTS, VARIANT_NAMES
+} from './types';
+import { bestScore, evaluateMoves } from './ai';
+import { createBoard } from './board';
+import { createUltimate, isLegal, playMove } from './ultimate';
+import {
+  MoveHistory, EMPTY_HISTORY, describeMove, moveName, playCell, redo, redoCount, replayPosition, replayUltimate, undo, undoCount
+} from './history';
+import { GridBoard } from './GridBoard';
+import { UltimateBoard } from './UltimateBoard';
+import { HistoryPanel } from './HistoryPanel';
+import { OnlineMatch } from './OnlineMatch';
+import { useGameSetting } from '../../store/gameStore';
+import { playSound } from '../../utils/audio';
+import { announce } from '../../utils/announce';
+import { reportEvent } from '../../store/achievements';
 
 const initialState: GameState = {
-  board: Array(9).fill(null),
+  board: createBoard(BOARD_CONFIGS['3x3']),
   currentPlayer: 'X',
   status: 'playing',
   winner: null,
   winningLine: null,
   gameMode: 'ai',
-  difficulty: 'normal'
+  difficulty: 'normal',
+  variant: '3x3'
 };
 
+const newGame = (variant: Variant): Pick<GameState, 'board' | 'variant'> => ({
+  board: createBoard(BOARD_CONFIGS[variant]),
+  variant
+});
+
+// Sounds and announces a move, and the result if it ended the game. Results
+// against the bot count towards achievements.
+function moveMade(
+  index: number,
+  player: Player,
+  next: { status: GameStatus; winner: Player | null },
+  { variant, gameMode, difficulty }: Pick<GameState, 'variant' | 'gameMode' | 'difficulty'>
+) {
+  playSound('place');
+  announce(describeMove(index, variant, player));
+  if (next.status === 'playing') return;
+
+  const vsBot = gameMode === 'ai';
+  if (next.status === 'won') {
+    playSound(vsBot && next.winner === 'O' ? 'lose' : 'win');
+    announce(`${next.winner} wins`);
+  } else {
+    playSound('draw');
+    announce("It's a draw");
+  }
+  if (vsBot) {
+    const outcome = next.winner === null ? 'draw' : next.winner === 'X' ? 'win' : 'loss';
+    reportEvent({ type: 'tic-tac-toe:gameOver', outcome, variant, difficulty });
+  }
+}
+
+const OUTCOME_VERBS: Record<Outcome, string> = { win: 'wins', draw: 'draws', loss: 'loses' };
+
+// A line on the move played from a reviewed position, against the best the
+// evaluation found there.
+function reviewNote(scores: (MoveScore | null)[], played: number, player: Player, variant: Variant): string {
+  const best = bestScore(scores);
+  const bestCell = scores.findIndex(score => score?.score === best);
+  const playedScore = scores[played];
+  const name = `${player} played ${moveName(played, variant)}`;
+  const alternative = moveName(bestCell, variant);
+  const bestOutcome = scores[bestCell]?.outcome;
+
+  if (playedScore?.score === best) return `${name}, the best move here.`;
+  if (!playedScore) return `${name}, away from the cells the search looks at; it preferred ${alternative}.`;
+  if (playedScore.outcome && bestOutcome && playedScore.outcome !== bestOutcome) {
+    return `${name}, which ${OUTCOME_VERBS[playedScore.outcome]} with best play; ${alternative} ${OUTCOME_VERBS[bestOutcome]}.`;
+  }
+  return `${name}; ${alternative} was rated higher.`;
+}
+
 const TicTacToe: React.FC = () => {
   const [state, setState] = useState<GameState>(initialState);
   const [showEndScreen, setShowEndScreen] = useState(false);
+  const [gameMode, setGameMode] = useGameSetting('mode', GAME_MODES, initialState.gameMode);
+  const [difficulty, setDifficulty] = useGameSetting('difficulty', DIFFICULTIES, initialState.difficulty);
+  const [variant, setVariant] = useGameSetting('board', VARIANTS, initialState.variant);
+  const [ultimate, setUltimate] = useState<UltimateState>(createUltimate);
+  const [history, setHistory] = useState<MoveHistory>(EMPTY_HISTORY);
+  // Moves shown while reviewing a finished game, or null while playing.
+  const [reviewStep, setReviewStep] = useState<number | null>(null);
+  const [isThinking, setIsThinking] = useState(false);
+  const workerRef = useRef<Worker>();
+  const requestIdRef = useRef(0);
+  const config = BOARD_CONFIGS[state.variant];
+  const isUltimate = state.variant === 'ultimate';
+  const vsBot = state.gameMode === 'ai';
+  const isOnline = state.gameMode === 'online';
+  // Whichever game is on screen, for the end screen.
+  const result = isUltimate ? ultimate : state;
+  const isOver = result.status !== 'playing';
+  const isBotTurn = vsBot && !isUltimate && state.currentPlayer === 'O' && state.status === 'playing';
 
   useEffect(() => {
-    if (state.status === 'won' || state.status === 'draw') {
+    const worker = new Worker(new URL('./bot.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    return () => worker.terminate();
+  }, []);
+
+  useEffect(() => {
+    // A new board along with the cleared history, so undo and review replay
+    // the moves that are actually on it.
+    setState({ ...initialState, ...newGame(variant), gameMode, difficulty });
+    setUltimate(createUltimate());
+    setHistory(EMPTY_HISTORY);
+    setReviewStep(null);
+    setShowEndScreen(false);
+  }, [gameMode, difficulty, variant]);
+
+  useEffect(() => {
+    if (result.status === 'won' || result.status === 'draw') {
       const timer = setTimeout(() => setShowEndScreen(true), 1000);
       return () => clearTimeout(timer);
     }
-  }, [state.status]);
+  }, [result.status]);
+
+  const isUltimateBotTurn = isUltimate && state.gameMode === 'ai' && ultimate.currentPlayer === 'O';
+
+  useEffect(() => {
+    if (isUltimateBotTurn && ultimate.status === 'playing') {
+      const worker = workerRef.current!;
+      const requestIds = requestIdRef;
+      const request: BotRequest = { id: ++requestIds.current, kind: 'ultimate', state: ultimate, difficulty: state.difficulty };
+      worker.onmessage = (event: MessageEvent<BotResponse>) => {
+        if (event.data.id !== requestIds.current) return;
+        setIsThinking(false);
+        const { move } = event.data;
+        const next = playMove(ultimate, move);
+        moveMade(move, ultimate.currentPlayer, next, { variant: 'ultimate', gameMode: 'ai', difficulty: state.difficulty });
+        // Ignore the move if the game was reset while the bot was thinking.
+        setUltimate(prev => (prev === ultimate ? next : prev));
+        setHistory(prev => (prev === history ? { moves: [...prev.moves, move], undone: [] } : prev));
+      };
+      const timer = setTimeout(() => {
+        setIsThinking(true);
+        worker.postMessage(request);
+      }, 500);
+      return () => {
+        clearTimeout(timer);
+        requestIds.current++;
+        setIsThinking(false);
+      };
+    }
+  }, [isUltimateBotTurn, ultimate, history, state.difficulty]);
+
+  const handleUltimateMove = (index: number) => {
+    if (!isLegal(ultimate, index)) return;
+    const next = playMove(ultimate, index);
+    moveMade(index, ultimate.currentPlayer, next, state);
+    setUltimate(next);
+    setHistory(prev => ({ moves: [...prev.moves, index], undone: [] }));
+  };
 
   useEffect(() => {
     if (state.gameMode === 'ai' && state.currentPlayer === 'O' && state.status === 'playing') {
+      const worker = workerRef.current!;
+      const requestIds = requestIdRef;
+      const request: BotRequest = { id: ++requestIds.current, kind: 'board', board: state.board, config, difficulty: state.difficulty };
+      worker.onmessage = (event: MessageEvent<BotResponse>) => {
+        if (event.data.id !== requestIds.current) return;
+        setIsThinking(false);
+        playCellMove(event.data.move);
+      };
       const timer = setTimeout(() => {
-        const bestMove = getBestMove([...state.board], state.difficulty);
-        handleCellClick(bestMove);
+        setIsThinking(true);
+        worker.postMessage(request);
       }, 500);
-      return () => clearTimeout(timer);
+      return () => {
+        clearTimeout(timer);
+        // Any reply still in flight is for a board we have left.
+        requestIds.current++;
+        setIsThinking(false);
+      };
     }
   }, [state.currentPlayer, state.gameMode]);
 
   const handleCellClick = (index: number) => {
-    if (state.board[index] || state.status !== 'playing') return;
+    if (!isBotTurn) playCellMove(index);
+  };
 
-    const newBoard = [...state.board];
-    newBoard[index] = state.currentPlayer;
+  const playCellMove = (index: number) => {
+    if (state.board[index] || state.status !== 'playing') return;
 
-    const { winner, line } = checkWinner(newBoard);
-    const isDraw = !winner && newBoard.every(cell => cell !== null);
+    moveMade(index, state.currentPlayer, playCell(state, index, config), state);
+    setState(prev => ({ ...prev, ...playCell(prev, index, config) }));
+    setHistory(prev => ({ moves: [...prev.moves, index], undone: [] }));
+  };
 
-    setState(prev => ({
-      ...prev,
-      board: newBoard,
-      currentPlayer: prev.currentPlayer === 'X' ? 'O' : 'X',
-      status: winner ? 'won' : isDraw ? 'draw' : 'playing',
-      winner,
-      winningLine: line
-    }));
+  // Puts the board back to the position after `next.moves`.
+  const rewind = (next: MoveHistory) => {
+    setHistory(next);
+    if (isUltimate) setUltimate(replayUltimate(next.moves));
+    else setState(prev => ({ ...prev, ...replayPosition(prev.variant, next.moves) }));
+    setShowEndScreen(false);
   };
 
   const resetGame = () => {
-    setState(prev => ({ ...initialState, gameMode: prev.gameMode, difficulty: prev.difficulty }));
+    setState(prev => ({ ...initialState, ...newGame(prev.variant), gameMode: prev.gameMode, difficulty: prev.difficulty }));
+    setUltimate(createUltimate());
+    setHistory(EMPTY_HISTORY);
+    setReviewStep(null);
     setShowEndScreen(false);
   };
 
-  const Cell: React.FC<{ index: number; value: Player | null }> = ({ index, value }) => {
-    const isWinning = state.winningLine?.includes(index);
-    
-    return (
-      <motion.button
-        className={`w-full h-full bg-white dark:bg-gray-800 rounded-lg shadow-md
-          flex items-center justify-center text-4xl font-bold
-          ${!value && state.status === 'playing' ? 'hover:bg-gray-100 dark:hover:bg-gray-700' : ''}
-          ${isWinning ? 'bg-green-100 dark:bg-green-900' : ''}`}
-        whileHover={!value && state.status === 'playing' ? { scale: 0.95 } : {}}
-        whileTap={!value && state.status === 'playing' ? { scale: 0.9 } : {}}
-        onClick={() => handleCellClick(index)}
-      >
-        <AnimatePresence mode="wait">
-          {value && (
-            <motion.span
-              key={value}
-              initial={{ scale: 0, rotate: -180 }}
-              animate={{ scale: 1, rotate: 0 }}
-              exit={{ scale: 0, rotate: 180 }}
-              className={value === 'X' ? 'text-blue-600' : 'text-red-600'}
-            >
-              {value}
-            </motion.span>
-          )}
-        </AnimatePresence>
-      </motion.button>
-    );
-  };
+  const reviewPosition = useMemo(
+    () => (reviewStep !== null && !isUltimate ? replayPosition(state.variant, history.moves.slice(0, reviewStep)) : null),
+    [reviewStep, history.moves, isUltimate, state.variant]
+  );
+  const reviewUltimate = useMemo(
+    () => (reviewStep !== null && isUltimate ? replayUltimate(history.moves.slice(0, reviewStep)) : null),
+    [reviewStep, history.moves, isUltimate]
+  );
+  const scores = useMemo(
+    () => (reviewPosition?.status === 'playing'
+      ? evaluateMoves(reviewPosition.board, config, reviewPosition.currentPlayer)
+      : null),
+    [reviewPosition, config]
+  );
+  // The move played next from the reviewed position.
+  const nextMove = reviewStep !== null && reviewStep < history.moves.length ? history.moves[reviewStep] : null;
+  const shown = reviewPosition ?? state;
 
   return (
     <div className="flex flex-col items-center justify-center w-full max-w-lg mx-auto p-4">
       <div className="w-full mb-8 flex items-center justify-between">
         <div className="flex gap-4">
           <button
-            onClick={() => setState(prev => ({ ...prev, gameMode: 'pvp' }))}
+            onClick={() => setGameMode('pvp')}
             className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors
               ${state.gameMode === 'pvp' 
                 ? 'bg-blue-600 text-white' 
@@ -103,7 +247,7 @@ const TicTacToe: React.FC = () => {
             <User size={20} /> vs <User size={20} />
           </button>
           <button
-            onClick={() => setState(prev => ({ ...prev, gameMode: 'ai' }))}
+            onClick={() => setGameMode('ai')}
             className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors
               ${state.gameMode === 'ai'
                 ? 'bg-blue-600 text-white'
@@ -111,6 +255,15 @@ const TicTacToe: React.FC = () => {
           >
             <User size={20} /> vs <Cpu size={20} />
           </button>
+          <button
+            onClick={() => setGameMode('online')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors
+              ${isOnline
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+          >
+            <Globe size={20} /> Online
+          </button>
         </div>
         <button
           onClick={resetGame}
@@ -120,12 +273,27 @@ const TicTacToe: React.FC = () => {
         </button>
       </div>
 
+      <div className="w-full mb-4 flex flex-wrap justify-center gap-2">
+        {VARIANTS.map(option => (
+          <button
+            key={option}
+            onClick={() => setVariant(option)}
+            className={`px-3 py-1 rounded-lg text-sm transition-colors
+              ${state.variant === option
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+          >
+            {VARIANT_NAMES[option]}
+          </button>
+        ))}
+      </div>
+
       {state.gameMode === 'ai' && (
-        <div className="w-full mb-8 flex justify-center gap-4">
-          {(['easy', 'normal', 'hard'] as Difficulty[]).map(diff => (
+        <div className="relative w-full mb-8 flex justify-center gap-4">
+          {DIFFICULTIES.map(diff => (
             <button
               key={diff}
-              onClick={() => setState(prev => ({ ...prev, difficulty: diff }))}
+              onClick={() => setDifficulty(diff)}
               className={`px-4 py-2 rounded-lg capitalize transition-colors
                 ${state.difficulty === diff
                   ? 'bg-purple-600 text-white'
@@ -134,14 +302,65 @@ const TicTacToe: React.FC = () => {
               {diff}
             </button>
           ))}
+          {isThinking && <Loader2 size={20} className="absolute right-0 top-1/2 -translate-y-1/2 animate-spin text-purple-600" />}
         </div>
       )}
 
-      <div className="relative w-full aspect-square grid grid-cols-3 gap-4 mb-8">
-        {state.board.map((cell, index) => (
-          <Cell key={index} index={index} value={cell} />
-        ))}
-      </div>
+      {isOnline ? (
+        <OnlineMatch variant={variant} onVariantChange={setVariant} />
+      ) : isUltimate ? (
+        <UltimateBoard
+          state={reviewUltimate ?? ultimate}
+          onMove={handleUltimateMove}
+          disabled={isUltimateBotTurn || reviewUltimate !== null}
+        />
+      ) : (
+        <GridBoard
+          board={shown.board}
+          config={config}
+          winningLine={shown.winningLine}
+          canPlay={state.status === 'playing' && !isBotTurn}
+          onCellClick={handleCellClick}
+          scores={scores}
+          nextMove={nextMove}
+        />
+      )}
+
+      <p className="-mt-4 mb-4 text-sm text-center text-gray-600 dark:text-gray-400">
+        {reviewStep !== null
+          ? nextMove === null
+            ? result.winner ? `${result.winner} won.` : 'The game was drawn.'
+            : scores
+              ? reviewNote(scores, nextMove, reviewPosition!.currentPlayer, state.variant)
+              : `${(reviewUltimate ?? ultimate).currentPlayer} played ${moveName(nextMove, state.variant)}.`
+          : isUltimate
+            ? 'Win three small boards in a row. The cell you play in sends your opponent to the matching small board.'
+            : `Get ${config.winLength} in a row to win.`}
+      </p>
+
+      {reviewStep !== null && (
+        <p className="-mt-2 mb-4 text-xs text-center text-gray-500 dark:text-gray-400">
+          {isUltimate
+            ? 'Move ratings are only shown on single boards.'
+            : config.rows * config.cols <= 9
+              ? 'W, D and L mark the moves that win, draw or lose with perfect play. Green outlines the best.'
+              : 'Ratings come from a short search: W and L are forced within a few moves. Green outlines its favourite.'}
+        </p>
+      )}
+
+      {!isOnline && (
+        <HistoryPanel
+          moves={history.moves}
+          variant={state.variant}
+          reviewStep={reviewStep}
+          canUndo={undoCount(history, vsBot) > 0}
+          canRedo={redoCount(history, vsBot) > 0}
+          canReview={isOver && history.moves.length > 0}
+          onUndo={() => rewind(undo(history, undoCount(history, vsBot)))}
+          onRedo={() => rewind(redo(history, redoCount(history, vsBot)))}
+          onReview={setReviewStep}
+        />
+      )}
 
       <AnimatePresence>
         {showEndScreen && (
@@ -152,20 +371,31 @@ const TicTacToe: React.FC = () => {
             className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
           >
             <div className="bg-white dark:bg-gray-800 p-8 rounded-lg shadow-xl text-center">
-              {state.winner ? (
+              {result.winner ? (
                 <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4" />
               ) : (
                 <Medal className="w-16 h-16 text-blue-400 mx-auto mb-4" />
               )}
               <h2 className="text-2xl font-bold mb-4">
-                {state.winner ? `Player ${state.winner} Wins!` : "It's a Draw!"}
+                {result.winner ? `Player ${result.winner} Wins!` : "It's a Draw!"}
               </h2>
-              <button
-                onClick={resetGame}
-                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              >
-                Play Again
-              </button>
+              <div className="flex justify-center gap-2">
+                <button
+                  onClick={() => {
+                    setShowEndScreen(false);
+                    setReviewStep(0);
+                  }}
+                  className="px-6 py-2 bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                >
+                  Review
+                </button>
+                <button
+                  onClick={resetGame}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Play Again
+                </button>
+              </div>
             </div>
           </motion.div>
         )}
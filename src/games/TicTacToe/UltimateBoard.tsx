@@ -0,0 +1,79 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Player, UltimateState } from './types';
+import { isLegal, playableBoards } from './ultimate';
+import { useGridNavigation } from '../../hooks/useGridNavigation';
+
+const MARK_COLORS: Record<Player, string> = {
+  X: 'text-blue-600',
+  O: 'text-red-600'
+};
+
+interface UltimateBoardProps {
+  state: UltimateState;
+  onMove: (index: number) => void;
+  // Set while the bot is to move.
+  disabled: boolean;
+}
+
+// The nine small boards. Those the current player may move in are outlined,
+// and decided ones are covered by their winner's mark. The arrow keys move
+// across all 81 cells as one grid.
+export const UltimateBoard: React.FC<UltimateBoardProps> = ({ state, onMove, disabled }) => {
+  const playable = playableBoards(state);
+  const { onKeyDown, cellProps } = useGridNavigation(9, 9);
+
+  return (
+    <div
+      className="relative w-full aspect-square grid grid-cols-3 gap-2 sm:gap-3 mb-8"
+      role="group"
+      aria-label="Board"
+      onKeyDown={onKeyDown}
+    >
+      {state.boards.map((result, board) => {
+        const isPlayable = !disabled && playable.includes(board);
+        const isWinning = state.winningLine?.includes(board);
+        return (
+          <div
+            key={board}
+            className={`relative grid grid-cols-3 gap-1 p-1 rounded-lg transition-colors
+              ${isWinning ? 'bg-green-100 dark:bg-green-900' : 'bg-gray-200 dark:bg-gray-700'}
+              ${isPlayable ? 'ring-4 ring-yellow-400' : ''}`}
+          >
+            {Array.from({ length: 9 }, (_, cell) => {
+              const index = board * 9 + cell;
+              const value = state.cells[index];
+              const canPlay = !disabled && isLegal(state, index);
+              const row = Math.floor(board / 3) * 3 + Math.floor(cell / 3);
+              const col = (board % 3) * 3 + (cell % 3);
+              return (
+                <button
+                  key={cell}
+                  onClick={() => canPlay && onMove(index)}
+                  className={`bg-white dark:bg-gray-800 rounded flex items-center justify-center
+                    text-lg sm:text-2xl font-bold ${canPlay ? 'hover:bg-gray-100 dark:hover:bg-gray-700' : 'cursor-default'}`}
+                  aria-label={`Board ${board + 1}, row ${Math.floor(cell / 3) + 1}, column ${(cell % 3) + 1}, ${value ?? 'empty'}`}
+                  {...cellProps(row * 9 + col)}
+                >
+                  {value && <span className={MARK_COLORS[value]}>{value}</span>}
+                </button>
+              );
+            })}
+            {result && (
+              <motion.div
+                initial={{ scale: 0 }}
+                animate={{ scale: 1 }}
+                className="absolute inset-0 flex items-center justify-center rounded-lg bg-white/80 dark:bg-gray-900/80
+                  text-6xl sm:text-7xl font-bold pointer-events-none"
+              >
+                {result === 'draw'
+                  ? <span className="text-gray-400">–</span>
+                  : <span className={MARK_COLORS[result]}>{result}</span>}
+              </motion.div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
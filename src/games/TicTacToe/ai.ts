@@ -1,40 +1,24 @@
-import { Board, Player, Difficulty } from './types';
+import { Board, BoardConfig, Difficulty, MoveScore, Player, UltimateState, THINK_TIME } from './types';
+import { checkWinner, getEmptyCells } from './board';
+import { scoreMoves, searchMove } from './search';
+import { mctsMove } from './mcts';
+import { legalMoves } from './ultimate';
 
-const winningCombos = [
-  [0, 1, 2], [3, 4, 5], [6, 7, 8], // Rows
-  [0, 3, 6], [1, 4, 7], [2, 5, 8], // Columns
-  [0, 4, 8], [2, 4, 6] // Diagonals
-];
+// Boards up to this many cells are small enough for a full minimax search.
+const FULL_SEARCH_CELLS = 9;
 
-export function checkWinner(board: Board): { winner: Player | null; line: number[] | null } {
-  for (const combo of winningCombos) {
-    const [a, b, c] = combo;
-    if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-      return { winner: board[a] as Player, line: combo };
-    }
-  }
-  return { winner: null, line: null };
-}
-
-function getEmptyCells(board: Board): number[] {
-  return board.reduce((acc, cell, index) => {
-    if (!cell) acc.push(index);
-    return acc;
-  }, [] as number[]);
-}
-
-function minimax(board: Board, depth: number, isMax: boolean, alpha: number, beta: number): number {
-  const { winner } = checkWinner(board);
+function minimax(board: Board, config: BoardConfig, depth: number, isMax: boolean, alpha: number, beta: number): number {
+  const { winner } = checkWinner(board, config);
   if (winner === 'O') return 10 - depth;
   if (winner === 'X') return depth - 10;
   if (getEmptyCells(board).length === 0) return 0;
 
   if (isMax) {
     let best = -1000;
-    for (let i = 0; i < 9; i++) {
+    for (let i = 0; i < board.length; i++) {
       if (!board[i]) {
         board[i] = 'O';
-        best = Math.max(best, minimax(board, depth + 1, !isMax, alpha, beta));
+        best = Math.max(best, minimax(board, config, depth + 1, !isMax, alpha, beta));
         board[i] = null;
         alpha = Math.max(alpha, best);
         if (beta <= alpha) break;
@@ -43,10 +27,10 @@ function minimax(board: Board, depth: number, isMax: boolean, alpha: number, bet
     return best;
   } else {
     let best = 1000;
-    for (let i = 0; i < 9; i++) {
+    for (let i = 0; i < board.length; i++) {
       if (!board[i]) {
         board[i] = 'X';
-        best = Math.min(best, minimax(board, depth + 1, !isMax, alpha, beta));
+        best = Math.min(best, minimax(board, config, depth + 1, !isMax, alpha, beta));
         board[i] = null;
         beta = Math.min(beta, best);
         if (beta <= alpha) break;
@@ -56,26 +40,41 @@ function minimax(board: Board, depth: number, isMax: boolean, alpha: number, bet
   }
 }
 
-export function getBestMove(board: Board, difficulty: Difficulty): number {
+// A random move, kept next to the marks already down on big boards where a
+// truly random one would be pointless.
+function randomMove(board: Board, config: BoardConfig): number {
+  const { cols } = config;
   const emptyCells = getEmptyCells(board);
-  
+  if (board.length <= FULL_SEARCH_CELLS) return emptyCells[Math.floor(Math.random() * emptyCells.length)];
+  const near = emptyCells.filter(cell => board.some((mark, other) => mark &&
+    Math.abs(Math.floor(other / cols) - Math.floor(cell / cols)) <= 1 && Math.abs((other % cols) - (cell % cols)) <= 1));
+  const choices = near.length > 0 ? near : emptyCells;
+  return choices[Math.floor(Math.random() * choices.length)];
+}
+
+// The bot always plays O.
+export function getBestMove(board: Board, config: BoardConfig, difficulty: Difficulty): number {
   // Easy: 70% chance of random move
   if (difficulty === 'easy' && Math.random() < 0.7) {
-    return emptyCells[Math.floor(Math.random() * emptyCells.length)];
+    return randomMove(board, config);
   }
-  
+
   // Normal: 30% random moves
   if (difficulty === 'normal' && Math.random() < 0.3) {
-    return emptyCells[Math.floor(Math.random() * emptyCells.length)];
+    return randomMove(board, config);
+  }
+
+  if (board.length > FULL_SEARCH_CELLS) {
+    return searchMove(board, config, 'O', THINK_TIME[difficulty]);
   }
 
   let bestVal = -1000;
   let bestMove = -1;
 
-  for (let i = 0; i < 9; i++) {
+  for (let i = 0; i < board.length; i++) {
     if (!board[i]) {
       board[i] = 'O';
-      const moveVal = minimax(board, 0, false, -1000, 1000);
+      const moveVal = minimax(board, config, 0, false, -1000, 1000);
       board[i] = null;
 
       if (moveVal > bestVal) {
@@ -86,4 +85,36 @@ export function getBestMove(board: Board, difficulty: Difficulty): number {
   }
 
   return bestMove;
-}
\ No newline at end of file
+}
+
+// What each empty cell is worth to `player`, to move, for reviewing a game.
+// Small boards are searched to the end; bigger ones get the bot's search,
+// which only scores cells near the marks already down.
+export function evaluateMoves(board: Board, config: BoardConfig, player: Player): (MoveScore | null)[] {
+  if (board.length > FULL_SEARCH_CELLS) return scoreMoves(board, config, player);
+
+  const scratch = [...board];
+  return board.map((cell, i) => {
+    if (cell) return null;
+    scratch[i] = player;
+    // minimax scores for O; the maximising side is whoever moves next.
+    const value = minimax(scratch, config, 0, player === 'X', -1000, 1000);
+    scratch[i] = null;
+    const score = player === 'O' ? value : -value;
+    return { score, outcome: score > 0 ? 'win' : score < 0 ? 'loss' : 'draw' };
+  });
+}
+
+export const bestScore = (scores: (MoveScore | null)[]) =>
+  Math.max(...scores.map(score => score?.score ?? -Infinity));
+
+// Ultimate is too branchy for minimax; the bot samples games instead, for
+// longer on harder levels.
+export function getUltimateMove(state: UltimateState, difficulty: Difficulty): number {
+  const moves = legalMoves(state);
+  const randomChance = difficulty === 'easy' ? 0.7 : difficulty === 'normal' ? 0.3 : 0;
+  if (Math.random() < randomChance) {
+    return moves[Math.floor(Math.random() * moves.length)];
+  }
+  return mctsMove(state, THINK_TIME[difficulty]);
+}
@@ -0,0 +1,46 @@
+import { Board, BoardConfig, Player } from './types';
+
+const lineCache = new Map<string, number[][]>();
+
+// Every run of `winLength` cells along a row, column or diagonal, as board
+// indices. Worked out once per board shape.
+export function getLines({ rows, cols, winLength }: BoardConfig): number[][] {
+  const key = `${rows}x${cols}/${winLength}`;
+  const cached = lineCache.get(key);
+  if (cached) return cached;
+
+  const lines: number[][] = [];
+  const steps = [[0, 1], [1, 0], [1, 1], [1, -1]];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      for (const [dRow, dCol] of steps) {
+        const endRow = row + dRow * (winLength - 1);
+        const endCol = col + dCol * (winLength - 1);
+        if (endRow < 0 || endRow >= rows || endCol < 0 || endCol >= cols) continue;
+        lines.push(Array.from({ length: winLength }, (_, i) => (row + dRow * i) * cols + col + dCol * i));
+      }
+    }
+  }
+
+  lineCache.set(key, lines);
+  return lines;
+}
+
+export const createBoard = ({ rows, cols }: BoardConfig): Board => Array(rows * cols).fill(null);
+
+export function getEmptyCells(board: Board): number[] {
+  return board.reduce((acc, cell, index) => {
+    if (!cell) acc.push(index);
+    return acc;
+  }, [] as number[]);
+}
+
+export function checkWinner(board: Board, config: BoardConfig): { winner: Player | null; line: number[] | null } {
+  for (const line of getLines(config)) {
+    const first = board[line[0]];
+    if (first && line.every(cell => board[cell] === first)) {
+      return { winner: first, line };
+    }
+  }
+  return { winner: null, line: null };
+}
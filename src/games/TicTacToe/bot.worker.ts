@@ -0,0 +1,13 @@
+import { BotRequest, BotResponse } from './types';
+import { getBestMove, getUltimateMove } from './ai';
+
+// The search on big boards and the ultimate bot's sampling run for up to a
+// second, so they run off the main thread to keep the board responsive.
+self.onmessage = (event: MessageEvent<BotRequest>) => {
+  const request = event.data;
+  const move = request.kind === 'ultimate'
+    ? getUltimateMove(request.state, request.difficulty)
+    : getBestMove(request.board, request.config, request.difficulty);
+  const response: BotResponse = { id: request.id, move };
+  self.postMessage(response);
+};
@@ -0,0 +1,74 @@
+import { BoardConfig, GameState, Player, UltimateState, Variant, BOARD_CONFIGS } from './types';
+import { checkWinner, createBoard } from './board';
+import { cellOf, boardOf, createUltimate, playMove } from './ultimate';
+
+// A game as the cells played in order, plus the moves taken back that redo
+// would play again, next first.
+export interface MoveHistory {
+  moves: number[];
+  undone: number[];
+}
+
+export const EMPTY_HISTORY: MoveHistory = { moves: [], undone: [] };
+
+export type Position = Pick<GameState, 'board' | 'currentPlayer' | 'status' | 'winner' | 'winningLine'>;
+
+export function playCell(position: Position, index: number, config: BoardConfig): Position {
+  const board = [...position.board];
+  board[index] = position.currentPlayer;
+
+  const { winner, line } = checkWinner(board, config);
+  const isDraw = !winner && board.every(cell => cell !== null);
+
+  return {
+    board,
+    currentPlayer: position.currentPlayer === 'X' ? 'O' : 'X',
+    status: winner ? 'won' : isDraw ? 'draw' : 'playing',
+    winner,
+    winningLine: line
+  };
+}
+
+export function replayPosition(variant: Variant, moves: number[]): Position {
+  const config = BOARD_CONFIGS[variant];
+  const start: Position = { board: createBoard(config), currentPlayer: 'X', status: 'playing', winner: null, winningLine: null };
+  return moves.reduce((position, move) => playCell(position, move, config), start);
+}
+
+export const replayUltimate = (moves: number[]): UltimateState => moves.reduce(playMove, createUltimate());
+
+// Against the bot, undo also takes back the bot's reply so it is the
+// player's turn again, and redo plays both back.
+export const undoCount = (history: MoveHistory, vsBot: boolean) =>
+  vsBot && history.moves.length >= 2 && history.moves.length % 2 === 0 ? 2 : Math.min(1, history.moves.length);
+
+export const redoCount = (history: MoveHistory, vsBot: boolean) => Math.min(history.undone.length, vsBot ? 2 : 1);
+
+export function undo(history: MoveHistory, count: number): MoveHistory {
+  const kept = history.moves.length - count;
+  return { moves: history.moves.slice(0, kept), undone: [...history.moves.slice(kept), ...history.undone] };
+}
+
+export const redo = (history: MoveHistory, count: number): MoveHistory => ({
+  moves: [...history.moves, ...history.undone.slice(0, count)],
+  undone: history.undone.slice(count)
+});
+
+// Cells are named by column letter and row number from the top, like "b2".
+// Ultimate moves lead with the number of their small board.
+export function moveName(index: number, variant: Variant): string {
+  const { cols } = BOARD_CONFIGS[variant];
+  const cell = variant === 'ultimate' ? cellOf(index) : index;
+  const name = `${String.fromCharCode(97 + (cell % cols))}${Math.floor(cell / cols) + 1}`;
+  return variant === 'ultimate' ? `${boardOf(index) + 1}${name}` : name;
+}
+
+// The same move spelled out for screen readers: "X placed at row 2 column 3".
+export function describeMove(index: number, variant: Variant, player: Player): string {
+  const { cols } = BOARD_CONFIGS[variant];
+  const cell = variant === 'ultimate' ? cellOf(index) : index;
+  const where = `row ${Math.floor(cell / cols) + 1} column ${(cell % cols) + 1}`;
+  return variant === 'ultimate'
+    ? `${player} placed on board ${boardOf(index) + 1} at ${where}`
+    : `${player} placed at ${where}`;
+}
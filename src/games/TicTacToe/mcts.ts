@@ -0,0 +1,81 @@
+import { Player, UltimateState } from './types';
+import { legalMoves, playMove } from './ultimate';
+
+// Exploration weight in the UCT formula; √2 is the textbook choice.
+const EXPLORATION = Math.SQRT2;
+
+interface Node {
+  move: number | null;
+  parent: Node | null;
+  children: Node[];
+  untried: number[];
+  // The player who made `move`; wins are counted for them.
+  player: Player | null;
+  visits: number;
+  wins: number;
+}
+
+const createNode = (state: UltimateState, move: number | null, parent: Node | null, player: Player | null): Node => ({
+  move,
+  parent,
+  children: [],
+  untried: legalMoves(state),
+  player,
+  visits: 0,
+  wins: 0
+});
+
+const uct = (child: Node, parentVisits: number) =>
+  child.wins / child.visits + EXPLORATION * Math.sqrt(Math.log(parentVisits) / child.visits);
+
+// Plays random moves to the end of the game and returns the winner.
+function playout(state: UltimateState): Player | null {
+  let current = state;
+  while (current.status === 'playing') {
+    const moves = legalMoves(current);
+    current = playMove(current, moves[Math.floor(Math.random() * moves.length)]);
+  }
+  return current.winner;
+}
+
+// Monte Carlo tree search: grows a tree of moves for `timeLimit` ms, each
+// round picking a path by UCT, trying one new move at its end, and finishing
+// the game at random. Returns the most visited move.
+export function mctsMove(state: UltimateState, timeLimit: number): number {
+  const root = createNode(state, null, null, null);
+  if (root.untried.length === 1) return root.untried[0];
+  const deadline = performance.now() + timeLimit;
+
+  do {
+    let node = root;
+    let current = state;
+
+    // Selection
+    while (node.untried.length === 0 && node.children.length > 0) {
+      const parentVisits = node.visits;
+      node = node.children.reduce((best, child) => (uct(child, parentVisits) > uct(best, parentVisits) ? child : best));
+      current = playMove(current, node.move!);
+    }
+
+    // Expansion
+    if (node.untried.length > 0) {
+      const index = Math.floor(Math.random() * node.untried.length);
+      const [move] = node.untried.splice(index, 1);
+      const player = current.currentPlayer;
+      current = playMove(current, move);
+      const child = createNode(current, move, node, player);
+      node.children.push(child);
+      node = child;
+    }
+
+    // Simulation and backpropagation; a draw is half a win for both.
+    const winner = playout(current);
+    for (let n: Node | null = node; n; n = n.parent) {
+      n.visits++;
+      if (winner === null) n.wins += 0.5;
+      else if (winner === n.player) n.wins++;
+    }
+  } while (performance.now() < deadline);
+
+  return root.children.reduce((best, child) => (child.visits > best.visits ? child : best)).move!;
+}
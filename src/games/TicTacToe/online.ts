@@ -0,0 +1,136 @@
+import { Player, Variant, BOARD_CONFIGS, VARIANTS } from './types';
+import { playCell, replayPosition } from './history';
+import { createUltimate, isLegal, playMove } from './ultimate';
+import { TransportKind, TRANSPORT_KINDS } from '../../utils/transport';
+
+// The host opens the room and picks the board; the guest joins with its code.
+export type Role = 'host' | 'guest';
+
+// What both ends keep in step: which game of the match this is, on which
+// board, and the moves played in it. Everything else, including who won, each
+// end works out for itself by replaying the moves.
+export interface Match {
+  variant: Variant;
+  game: number;
+  moves: number[];
+}
+
+export type OnlineMessage =
+  // Sent on every (re)connection, and whenever a new game starts.
+  | { type: 'state'; match: Match }
+  | { type: 'move'; game: number; ply: number; index: number }
+  | { type: 'rematch'; game: number };
+
+// Kept in session storage so a reloaded tab rejoins its room.
+export interface OnlineSession {
+  room: string;
+  role: Role;
+  transport: TransportKind;
+  match: Match;
+}
+
+// Room codes skip letters that are easy to misread.
+const CODE_LETTERS = 'ABCDEFGHJKMNPQRSTUVWXYZ';
+const CODE_LENGTH = 4;
+
+export const createRoomCode = () =>
+  Array.from({ length: CODE_LENGTH }, () => CODE_LETTERS[Math.floor(Math.random() * CODE_LETTERS.length)]).join('');
+
+export const normalizeRoomCode = (code: string) => code.toUpperCase().replace(/[^A-Z]/g, '').slice(0, CODE_LENGTH);
+export const isRoomCode = (code: string) => code.length === CODE_LENGTH;
+
+// The host plays X in the first game, and the players swap each rematch.
+export const sideOf = (role: Role, game: number): Player => ((role === 'host') === (game % 2 === 0) ? 'X' : 'O');
+
+const other = (role: Role): Role => (role === 'host' ? 'guest' : 'host');
+export const opponentSide = (role: Role, game: number) => sideOf(other(role), game);
+
+const isCell = (index: unknown, cells: number): index is number =>
+  Number.isInteger(index) && (index as number) >= 0 && (index as number) < cells;
+
+// Whether every move was legal when it was played. Wins are found with the
+// same checkWinner either end uses, so a game can't go on past its end.
+export function isValidGame(variant: Variant, moves: unknown[]): moves is number[] {
+  if (variant === 'ultimate') {
+    let state = createUltimate();
+    for (const move of moves) {
+      if (state.status !== 'playing' || !isCell(move, state.cells.length) || !isLegal(state, move)) return false;
+      state = playMove(state, move);
+    }
+    return true;
+  }
+
+  const config = BOARD_CONFIGS[variant];
+  let position = replayPosition(variant, []);
+  for (const move of moves) {
+    if (position.status !== 'playing' || !isCell(move, position.board.length) || position.board[move]) return false;
+    position = playCell(position, move, config);
+  }
+  return true;
+}
+
+export const isLegalMove = (match: Match, index: number) => isValidGame(match.variant, [...match.moves, index]);
+
+// Whose turn it is: X moves first in every game.
+export const sideToMove = (match: Match): Player => (match.moves.length % 2 === 0 ? 'X' : 'O');
+
+export const sameMatch = (a: Match, b: Match) =>
+  a.variant === b.variant && a.game === b.game &&
+  a.moves.length === b.moves.length && a.moves.every((move, i) => move === b.moves[i]);
+
+// Settles which match both ends keep after (re)connecting: the later game;
+// then, of two move lists where one continues the other, the longer; and
+// otherwise the host's. Both ends reach the same answer on their own.
+export function mergeMatch(mine: Match, theirs: Match, role: Role): Match {
+  if (theirs.game !== mine.game) return theirs.game > mine.game ? theirs : mine;
+  if (theirs.variant === mine.variant) {
+    const [shorter, longer] = mine.moves.length <= theirs.moves.length ? [mine, theirs] : [theirs, mine];
+    if (shorter.moves.every((move, i) => longer.moves[i] === move)) return longer;
+  }
+  return role === 'host' ? mine : theirs;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMatch = (value: unknown): value is Match =>
+  isObject(value) &&
+  VARIANTS.includes(value.variant as Variant) &&
+  Number.isInteger(value.game) &&
+  Array.isArray(value.moves) &&
+  isValidGame(value.variant as Variant, value.moves);
+
+// Anything from the other end is checked before it is trusted; malformed
+// messages and illegal games come back as null.
+export function parseMessage(data: unknown): OnlineMessage | null {
+  if (!isObject(data)) return null;
+  switch (data.type) {
+    case 'state':
+      return isMatch(data.match) ? { type: 'state', match: data.match } : null;
+    case 'move':
+      return Number.isInteger(data.game) && Number.isInteger(data.ply) && Number.isInteger(data.index)
+        ? { type: 'move', game: data.game as number, ply: data.ply as number, index: data.index as number }
+        : null;
+    case 'rematch':
+      return Number.isInteger(data.game) ? { type: 'rematch', game: data.game as number } : null;
+    default:
+      return null;
+  }
+}
+
+const SESSION_KEY = 'exe-gaming-hub:tic-tac-toe:online';
+
+export function loadSession(): OnlineSession | null {
+  try {
+    const data: unknown = JSON.parse(sessionStorage.getItem(SESSION_KEY) ?? 'null');
+    if (!isObject(data) || !isMatch(data.match) || typeof data.room !== 'string') return null;
+    if (data.role !== 'host' && data.role !== 'guest') return null;
+    if (!TRANSPORT_KINDS.includes(data.transport as TransportKind)) return null;
+    return data as unknown as OnlineSession;
+  } catch {
+    return null;
+  }
+}
+
+export const saveSession = (session: OnlineSession | null) =>
+  session ? sessionStorage.setItem(SESSION_KEY, JSON.stringify(session)) : sessionStorage.removeItem(SESSION_KEY);
@@ -0,0 +1,211 @@
+import { Board, BoardConfig, MoveScore, Player } from './types';
+import { getLines } from './board';
+
+const WIN_SCORE = 1_000_000;
+// Below the root only the most promising moves are searched.
+const MAX_BRANCHING = 12;
+// How often, in nodes, the clock is checked.
+const CLOCK_INTERVAL = 256;
+
+const other = (player: Player): Player => (player === 'X' ? 'O' : 'X');
+
+// Search state, updated in place as moves are tried and taken back. Each
+// line's mark counts are kept so the evaluation changes incrementally.
+interface Search {
+  board: Board;
+  config: BoardConfig;
+  lines: number[][];
+  // The lines through each cell.
+  cellLines: number[][];
+  counts: Record<Player, number[]>;
+  // Sum of every line's value, from O's point of view.
+  score: number;
+  // Cells moves are considered for: those near a mark, or all on small boards.
+  radius: number;
+  deadline: number;
+  nodes: number;
+  timedOut: boolean;
+}
+
+// A line with marks of one side only is worth more the fuller it is. Once
+// both sides have a mark in it, nobody can win there.
+const lineWeight = (count: number) => (count === 0 ? 0 : 10 ** (count - 1));
+
+function lineValue(search: Search, line: number): number {
+  const o = search.counts.O[line];
+  const x = search.counts.X[line];
+  if (o > 0 && x > 0) return 0;
+  return lineWeight(o) - lineWeight(x);
+}
+
+function createSearch(board: Board, config: BoardConfig, deadline: number): Search {
+  const lines = getLines(config);
+  const cellLines: number[][] = board.map(() => []);
+  lines.forEach((line, i) => line.forEach(cell => cellLines[cell].push(i)));
+
+  const search: Search = {
+    board: [...board],
+    config,
+    lines,
+    cellLines,
+    counts: { X: lines.map(() => 0), O: lines.map(() => 0) },
+    score: 0,
+    radius: config.rows * config.cols > 25 ? 2 : Math.max(config.rows, config.cols),
+    deadline,
+    nodes: 0,
+    timedOut: false
+  };
+  lines.forEach((line, i) => line.forEach(cell => {
+    const mark = board[cell];
+    if (mark) search.counts[mark][i]++;
+  }));
+  search.score = lines.reduce((total, _, i) => total + lineValue(search, i), 0);
+  return search;
+}
+
+function place(search: Search, cell: number, player: Player) {
+  for (const line of search.cellLines[cell]) {
+    search.score -= lineValue(search, line);
+    search.counts[player][line]++;
+    search.score += lineValue(search, line);
+  }
+  search.board[cell] = player;
+}
+
+function undo(search: Search, cell: number, player: Player) {
+  for (const line of search.cellLines[cell]) {
+    search.score -= lineValue(search, line);
+    search.counts[player][line]--;
+    search.score += lineValue(search, line);
+  }
+  search.board[cell] = null;
+}
+
+const completesLine = (search: Search, cell: number, player: Player) =>
+  search.cellLines[cell].some(line => search.counts[player][line] === search.config.winLength);
+
+// Empty cells within `radius` of a mark, or the centre of an empty board.
+function candidates(search: Search): number[] {
+  const { rows, cols } = search.config;
+  const { board, radius } = search;
+  const cells: number[] = [];
+  let anyMark = false;
+  for (let cell = 0; cell < board.length; cell++) {
+    if (board[cell]) {
+      anyMark = true;
+      continue;
+    }
+    const row = Math.floor(cell / cols);
+    const col = cell % cols;
+    let near = false;
+    for (let r = Math.max(0, row - radius); r <= Math.min(rows - 1, row + radius) && !near; r++) {
+      for (let c = Math.max(0, col - radius); c <= Math.min(cols - 1, col + radius); c++) {
+        if (board[r * cols + c]) {
+          near = true;
+          break;
+        }
+      }
+    }
+    if (near) cells.push(cell);
+  }
+  if (!anyMark) return [Math.floor(rows / 2) * cols + Math.floor(cols / 2)];
+  return cells;
+}
+
+// Moves ordered by how much they build the mover's lines and block the
+// opponent's, which lets alpha-beta cut off more of the tree.
+function orderedMoves(search: Search, player: Player, limit: number): number[] {
+  const opponent = other(player);
+  const urgency = (cell: number) => search.cellLines[cell].reduce((total, line) => {
+    const own = search.counts[player][line];
+    const theirs = search.counts[opponent][line];
+    if (theirs === 0) total += lineWeight(own + 1) * 2;
+    if (own === 0) total += lineWeight(theirs + 1);
+    return total;
+  }, 0);
+  return candidates(search)
+    .map(cell => ({ cell, value: urgency(cell) }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit)
+    .map(({ cell }) => cell);
+}
+
+// Alpha-beta negamax: the value of the position for `player`, to move.
+function negamax(search: Search, depth: number, alpha: number, beta: number, player: Player, ply: number): number {
+  if (++search.nodes % CLOCK_INTERVAL === 0 && performance.now() > search.deadline) search.timedOut = true;
+  if (search.timedOut) return 0;
+  if (depth === 0) return player === 'O' ? search.score : -search.score;
+
+  const moves = orderedMoves(search, player, MAX_BRANCHING);
+  if (moves.length === 0) return 0;
+
+  let best = -Infinity;
+  for (const cell of moves) {
+    place(search, cell, player);
+    const value = completesLine(search, cell, player)
+      ? WIN_SCORE - ply
+      : -negamax(search, depth - 1, -beta, -alpha, other(player), ply + 1);
+    undo(search, cell, player);
+    if (search.timedOut) return 0;
+
+    best = Math.max(best, value);
+    alpha = Math.max(alpha, value);
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+// Iterative deepening: searches one move deeper at a time until `timeLimit`
+// ms have passed, and plays the best move of the deepest search that
+// finished. Each pass tries the previous best move first.
+export function searchMove(board: Board, config: BoardConfig, player: Player, timeLimit: number): number {
+  const search = createSearch(board, config, performance.now() + timeLimit);
+  let moves = orderedMoves(search, player, Infinity);
+  let bestMove = moves[0];
+  const maxDepth = board.filter(cell => !cell).length;
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    let bestValue = -Infinity;
+    let depthBest = bestMove;
+    for (const cell of moves) {
+      place(search, cell, player);
+      const value = completesLine(search, cell, player)
+        ? WIN_SCORE
+        : -negamax(search, depth - 1, -Infinity, -bestValue, other(player), 1);
+      undo(search, cell, player);
+      if (search.timedOut) break;
+
+      if (value > bestValue) {
+        bestValue = value;
+        depthBest = cell;
+      }
+    }
+    if (search.timedOut) break;
+
+    bestMove = depthBest;
+    // A forced result is settled; searching deeper can't change it.
+    if (Math.abs(bestValue) > WIN_SCORE / 2) break;
+    moves = [bestMove, ...moves.filter(cell => cell !== bestMove)];
+  }
+  return bestMove;
+}
+
+// Plies looked ahead when scoring every move for a game review.
+const REVIEW_DEPTH = 3;
+
+// Scores each cell the search would consider for `player` to move, for
+// reviewing a game. Values are the evaluation after a shallow search, so only
+// forced wins and losses within it are certain.
+export function scoreMoves(board: Board, config: BoardConfig, player: Player): (MoveScore | null)[] {
+  const search = createSearch(board, config, Infinity);
+  const scores: (MoveScore | null)[] = board.map(() => null);
+  for (const cell of candidates(search)) {
+    place(search, cell, player);
+    const score = completesLine(search, cell, player)
+      ? WIN_SCORE
+      : -negamax(search, REVIEW_DEPTH - 1, -Infinity, Infinity, other(player), 1);
+    undo(search, cell, player);
+    scores[cell] = { score, outcome: score > WIN_SCORE / 2 ? 'win' : score < -WIN_SCORE / 2 ? 'loss' : null };
+  }
+  return scores;
+}
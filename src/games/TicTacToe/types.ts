@@ -3,7 +3,15 @@ export type Cell = Player | null;
 export type Board = Cell[];
 export type GameStatus = 'playing' | 'won' | 'draw';
 export type Difficulty = 'easy' | 'normal' | 'hard';
-export type GameMode = 'pvp' | 'ai';
+export type GameMode = 'pvp' | 'ai' | 'online';
+export type Variant = '3x3' | '4x4' | '5x5' | 'gomoku' | 'ultimate';
+
+// An m,n,k game: `winLength` marks in a row on a `rows` by `cols` board wins.
+export interface BoardConfig {
+  rows: number;
+  cols: number;
+  winLength: number;
+}
 
 export interface GameState {
   board: Board;
@@ -13,4 +21,68 @@ export interface GameState {
   winningLine: number[] | null;
   gameMode: GameMode;
   difficulty: Difficulty;
-}
\ No newline at end of file
+  variant: Variant;
+}
+
+export const GAME_MODES: GameMode[] = ['pvp', 'ai', 'online'];
+export const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+// Nine 3x3 boards in a 3x3 grid. Winning a small board claims its square of
+// the big one, and the cell each move is played in sends the opponent to the
+// small board in the same position.
+export interface UltimateState {
+  // Small board b holds cells b * 9 to b * 9 + 8.
+  cells: Board;
+  boards: (Player | 'draw' | null)[];
+  // The small board the next move must go in, or null for any open one.
+  active: number | null;
+  currentPlayer: Player;
+  status: GameStatus;
+  winner: Player | null;
+  // The small boards that make up the winning line.
+  winningLine: number[] | null;
+}
+
+export type Outcome = 'win' | 'draw' | 'loss';
+
+// What a move is worth to the player making it, for reviewing a game. The
+// outcome is known when the search saw the game through to its end.
+export interface MoveScore {
+  score: number;
+  outcome: Outcome | null;
+}
+
+export const VARIANTS: Variant[] = ['3x3', '4x4', '5x5', 'gomoku', 'ultimate'];
+
+export const BOARD_CONFIGS: Record<Variant, BoardConfig> = {
+  '3x3': { rows: 3, cols: 3, winLength: 3 },
+  '4x4': { rows: 4, cols: 4, winLength: 4 },
+  '5x5': { rows: 5, cols: 5, winLength: 4 },
+  gomoku: { rows: 15, cols: 15, winLength: 5 },
+  // Each small board, and the big board of their results.
+  ultimate: { rows: 3, cols: 3, winLength: 3 }
+};
+
+export const VARIANT_NAMES: Record<Variant, string> = {
+  '3x3': '3×3',
+  '4x4': '4×4',
+  '5x5': '5×5, 4 in a row',
+  gomoku: 'Gomoku 15×15',
+  ultimate: 'Ultimate'
+};
+
+// How long the bot may think on boards too big to search to the end, in ms.
+export const THINK_TIME: Record<Difficulty, number> = {
+  easy: 100,
+  normal: 300,
+  hard: 1000
+};
+
+// A position for the bot worker to move in, on a single board or an ultimate one.
+export type BotRequest =
+  | { id: number; kind: 'board'; board: Board; config: BoardConfig; difficulty: Difficulty }
+  | { id: number; kind: 'ultimate'; state: UltimateState; difficulty: Difficulty };
+
+export interface BotResponse {
+  id: number;
+  move: number;
+}
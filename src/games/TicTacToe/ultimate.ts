@@ -0,0 +1,63 @@
+import { UltimateState, BOARD_CONFIGS } from './types';
+import { checkWinner } from './board';
+
+const SMALL = BOARD_CONFIGS.ultimate;
+const CELLS = SMALL.rows * SMALL.cols;
+
+export const createUltimate = (): UltimateState => ({
+  cells: Array(CELLS * CELLS).fill(null),
+  boards: Array(CELLS).fill(null),
+  active: null,
+  currentPlayer: 'X',
+  status: 'playing',
+  winner: null,
+  winningLine: null
+});
+
+export const boardOf = (index: number) => Math.floor(index / CELLS);
+export const cellOf = (index: number) => index % CELLS;
+
+// Small boards the current player may move in.
+export const playableBoards = (state: UltimateState): number[] =>
+  state.status !== 'playing'
+    ? []
+    : state.active !== null
+      ? [state.active]
+      : state.boards.flatMap((result, board) => (result === null ? [board] : []));
+
+export function legalMoves(state: UltimateState): number[] {
+  return playableBoards(state).flatMap(board =>
+    Array.from({ length: CELLS }, (_, cell) => board * CELLS + cell).filter(index => !state.cells[index]));
+}
+
+export const isLegal = (state: UltimateState, index: number) =>
+  !state.cells[index] && playableBoards(state).includes(boardOf(index));
+
+// Plays `index` for the current player. The caller checks it is legal.
+export function playMove(state: UltimateState, index: number): UltimateState {
+  const player = state.currentPlayer;
+  const board = boardOf(index);
+  const cells = [...state.cells];
+  cells[index] = player;
+
+  const small = cells.slice(board * CELLS, (board + 1) * CELLS);
+  const boards = [...state.boards];
+  if (checkWinner(small, SMALL).winner) boards[board] = player;
+  else if (small.every(cell => cell !== null)) boards[board] = 'draw';
+
+  // Drawn boards fill their square with nobody's mark.
+  const meta = boards.map(result => (result === 'draw' ? null : result));
+  const { winner, line } = checkWinner(meta, SMALL);
+  const isDraw = !winner && boards.every(result => result !== null);
+  const next = cellOf(index);
+
+  return {
+    cells,
+    boards,
+    active: boards[next] === null ? next : null,
+    currentPlayer: player === 'X' ? 'O' : 'X',
+    status: winner ? 'won' : isDraw ? 'draw' : 'playing',
+    winner,
+    winningLine: line
+  };
+}
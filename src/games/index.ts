@@ -0,0 +1,176 @@
+import { lazy } from 'react';
+import { registerGame } from './registry';
+
+registerGame({
+  id: 1,
+  name: 'Tic-Tac-Toe',
+  slug: 'tic-tac-toe',
+  description: 'Classic X & O game',
+  icon: 'XSquare',
+  hasBot: true,
+  maxPlayers: 2,
+  component: lazy(() => import('./TicTacToe/TicTacToe')),
+  modes: ['pvp', 'ai', 'online'],
+  difficulties: ['easy', 'normal', 'hard'],
+  controls: [
+    { input: 'Click / Tap', action: 'Place your mark' },
+    { input: 'Room code', action: 'Online: play someone in another tab or browser' }
+  ]
+});
+
+registerGame({
+  id: 2,
+  name: 'Snake Game',
+  slug: 'snake',
+  description: 'Classic snake game',
+  icon: 'Snake',
+  hasBot: true,
+  maxPlayers: 2,
+  component: lazy(() => import('./Snake/Snake')),
+  modes: ['solo', 'pvp'],
+  difficulties: ['easy', 'normal', 'hard', 'extreme'],
+  controls: [
+    { input: 'Arrow keys / WASD', action: 'Change direction' },
+    { input: 'Swipe / D-pad', action: 'Change direction' },
+    { input: 'Autopilot buttons', action: 'Let a bot steer' },
+    { input: 'WASD vs arrow keys', action: 'Battle: steer player 1 / player 2' }
+  ]
+});
+
+registerGame({
+  id: 3,
+  name: 'Flappy Bird',
+  slug: 'flappy-bird',
+  description: 'Avoid obstacles',
+  icon: 'Bird',
+  hasBot: false,
+  maxPlayers: 1,
+  component: lazy(() => import('./FlappyBird/FlappyBird')),
+  modes: ['solo'],
+  difficulties: ['easy', 'normal', 'hard'],
+  controls: [
+    { input: 'Space / Click', action: 'Flap' }
+  ]
+});
+
+registerGame({
+  id: 4,
+  name: '2048',
+  slug: '2048',
+  description: 'Merge tiles puzzle',
+  icon: 'Calculator',
+  hasBot: false,
+  maxPlayers: 1,
+  component: lazy(() => import('./Game2048/Game2048')),
+  modes: ['solo'],
+  difficulties: [],
+  controls: [
+    { input: 'Arrow keys / WASD', action: 'Slide tiles' },
+    { input: 'Swipe', action: 'Slide tiles' }
+  ]
+});
+
+registerGame({
+  id: 5,
+  name: 'Memory Cards',
+  slug: 'memory-cards',
+  description: 'Find matching pairs',
+  icon: 'Brain',
+  hasBot: true,
+  maxPlayers: 2,
+  component: lazy(() => import('./MemoryCards/MemoryCards')),
+  modes: ['solo', 'pvp', 'ai'],
+  difficulties: ['easy', 'normal', 'hard'],
+  controls: [
+    { input: 'Click / Tap', action: 'Flip a card' }
+  ]
+});
+
+registerGame({
+  id: 6,
+  name: 'Chess',
+  slug: 'chess',
+  description: 'Strategic board game',
+  icon: 'ChessKnight',
+  hasBot: true,
+  maxPlayers: 2,
+  component: lazy(() => import('./Chess/Chess')),
+  modes: ['pvp', 'ai'],
+  difficulties: ['easy', 'normal', 'hard'],
+  controls: [
+    { input: 'Click / Tap', action: 'Select a piece, then its destination' }
+  ]
+});
+
+registerGame({
+  id: 7,
+  name: 'Ludo',
+  slug: 'ludo',
+  description: 'Classic board game',
+  icon: 'Dice',
+  hasBot: true,
+  maxPlayers: 4,
+  component: lazy(() => import('./Ludo/Ludo')),
+  modes: ['pvp', 'ai'],
+  difficulties: ['easy', 'normal', 'hard'],
+  controls: [
+    { input: 'Click the dice', action: 'Roll' },
+    { input: 'Click a token', action: 'Move it' }
+  ]
+});
+
+registerGame({
+  id: 8,
+  name: 'Sudoku',
+  slug: 'sudoku',
+  description: 'Number puzzle game',
+  icon: 'Grid3X3',
+  hasBot: false,
+  maxPlayers: 1,
+  component: lazy(() => import('./Sudoku/Sudoku')),
+  modes: ['solo'],
+  difficulties: ['easy', 'normal', 'hard'],
+  controls: [
+    { input: 'Arrow keys / Click', action: 'Select a cell' },
+    { input: '1-9', action: 'Fill the cell' },
+    { input: 'N', action: 'Toggle pencil marks' },
+    { input: 'Ctrl+Z / Ctrl+Y', action: 'Undo / Redo' }
+  ]
+});
+
+registerGame({
+  id: 9,
+  name: 'Bubble Shooter',
+  slug: 'bubble-shooter',
+  description: 'Match-3 bubble game',
+  icon: 'Circle',
+  hasBot: false,
+  maxPlayers: 1,
+  component: lazy(() => import('./BubbleShooter/BubbleShooter')),
+  modes: ['solo'],
+  difficulties: [],
+  controls: [
+    { input: 'Mouse / Touch', action: 'Aim and shoot' },
+    { input: 'Left / Right arrows', action: 'Aim' },
+    { input: 'Space', action: 'Shoot' }
+  ]
+});
+
+registerGame({
+  id: 10,
+  name: 'Rock Paper Scissors',
+  slug: 'rock-paper-scissors',
+  description: 'Hand game',
+  icon: 'HandMetal',
+  hasBot: true,
+  maxPlayers: 2,
+  component: lazy(() => import('./RockPaperScissors/RockPaperScissors')),
+  modes: ['pvp', 'ai'],
+  difficulties: ['easy', 'normal', 'hard'],
+  controls: [
+    { input: 'Click', action: 'Pick a move' },
+    { input: '1-5', action: 'Pick a move' }
+  ]
+});
+
+export { getGames, getGame, getGameBySlug, getGameIcon } from './registry';
@@ -0,0 +1,39 @@
+import { XSquare, Cake as Snake, Bird, Calculator, Brain, ChevronRight as ChessKnight, Dice1 as Dice, Grid3X3, Circle, HandMetal, LucideIcon } from 'lucide-react';
+import { Game, GameDefinition } from '../types/game';
+
+const gameIcons: Record<string, LucideIcon> = {
+  XSquare, Snake, Bird, Calculator, Brain,
+  ChessKnight, Dice, Grid3X3, Circle, HandMetal
+};
+
+const registry = new Map<number, GameDefinition>();
+
+export function registerGame(definition: GameDefinition): GameDefinition {
+  for (const game of registry.values()) {
+    if (game.id === definition.id || game.name === definition.name || game.slug === definition.slug) {
+      throw new Error(`Game "${definition.name}" (id ${definition.id}) is already registered`);
+    }
+  }
+  if (!gameIcons[definition.icon]) {
+    throw new Error(`Unknown icon "${definition.icon}" for game "${definition.name}"`);
+  }
+
+  registry.set(definition.id, definition);
+  return definition;
+}
+
+export function getGames(): GameDefinition[] {
+  return [...registry.values()].sort((a, b) => a.id - b.id);
+}
+
+export function getGame(id: number): GameDefinition | undefined {
+  return registry.get(id);
+}
+
+export function getGameBySlug(slug: string): GameDefinition | undefined {
+  return getGames().find(game => game.slug === slug);
+}
+
+export function getGameIcon(game: Game): LucideIcon {
+  return gameIcons[game.icon];
+}
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActionHandler, useActions } from './useActions';
+
+// Tells React the updates below are wrapped in act().
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const Listener: React.FC<{ onAction: ActionHandler }> = ({ onAction }) => {
+  useActions(onAction);
+  return null;
+};
+
+// Presses `code` on `target`, returning whether the browser default was kept.
+function press(target: Element, code: string): boolean {
+  const event = new KeyboardEvent('keydown', { code, bubbles: true, cancelable: true });
+  target.dispatchEvent(event);
+  return !event.defaultPrevented;
+}
+
+describe('useActions', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  let onAction: ReturnType<typeof vi.fn<ActionHandler>>;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+    onAction = vi.fn<ActionHandler>();
+    act(() => root.render(<Listener onAction={onAction} />));
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  it('turns bound keys into actions', () => {
+    expect(press(document.body, 'ArrowUp')).toBe(false);
+    expect(onAction).toHaveBeenCalledWith('up', 1);
+  });
+
+  it('still steers while a clicked button keeps the focus', () => {
+    const button = document.createElement('button');
+    container.appendChild(button);
+    button.focus();
+
+    press(button, 'ArrowLeft');
+    press(button, 'KeyD');
+    press(button, 'KeyP');
+    expect(onAction.mock.calls).toEqual([['left', 1], ['right', 0], ['pause', 0]]);
+  });
+
+  it('leaves Enter and Space to a focused button', () => {
+    const button = document.createElement('button');
+    container.appendChild(button);
+    button.focus();
+
+    expect(press(button, 'Enter')).toBe(true);
+    expect(press(button, 'Space')).toBe(true);
+    expect(onAction).not.toHaveBeenCalled();
+  });
+
+  it('ignores everything typed into a field', () => {
+    const input = document.createElement('input');
+    container.appendChild(input);
+    input.focus();
+
+    expect(press(input, 'KeyW')).toBe(true);
+    expect(press(input, 'ArrowUp')).toBe(true);
+    expect(onAction).not.toHaveBeenCalled();
+  });
+
+  it('leaves every key to an open dialog', () => {
+    const dialog = document.createElement('div');
+    dialog.setAttribute('role', 'dialog');
+    const button = document.createElement('button');
+    dialog.appendChild(button);
+    container.appendChild(dialog);
+
+    press(button, 'ArrowDown');
+    expect(onAction).not.toHaveBeenCalled();
+  });
+});
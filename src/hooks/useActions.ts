@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useCallback, useMemo } from 'react';
+import { InputAction } from '../types/game';
+import { useGameStore } from '../store/gameStore';
+import { INPUT_ACTIONS, gamepadPressed, keyLookup, ownsKey, swipeAction } from '../utils/input';
+
+// `player` is 0 or 1: whose keys or gamepad it came from. Touch and on-screen
+// buttons count as player 1.
+export type ActionHandler = (action: InputAction, player: number) => void;
+
+export interface Actions {
+  // For on-screen buttons.
+  dispatch: (action: InputAction, player?: number) => void;
+  // Spread onto the play area: a swipe is a direction, a tap or click confirms.
+  pointerHandlers: {
+    onPointerDown: (e: React.PointerEvent) => void;
+    onPointerUp: (e: React.PointerEvent) => void;
+  };
+}
+
+// Turns the player's bound keys, any gamepads and swipes into actions for
+// `onAction`. The handler may change every render; the latest one is called.
+export function useActions(onAction: ActionHandler, enabled = true): Actions {
+  const bindings = useGameStore((state) => state.keyBindings);
+  const handlerRef = useRef(onAction);
+  const pointerStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    handlerRef.current = onAction;
+  }, [onAction]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const lookup = keyLookup(bindings);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (ownsKey(e.target, e.code) || e.ctrlKey || e.metaKey || e.altKey) return;
+      const bound = lookup.get(e.code);
+      if (!bound) return;
+      e.preventDefault();
+      bound.forEach(({ action, player }) => handlerRef.current(action, player));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings, enabled]);
+
+  // Gamepads have no events for buttons, so they are polled every frame and
+  // an action fires when its button goes down. The first pad is player 1.
+  useEffect(() => {
+    if (!enabled || !navigator.getGamepads) return;
+    const held = new Set<string>();
+    let frame: number;
+
+    const poll = () => {
+      for (const pad of navigator.getGamepads()) {
+        if (!pad) continue;
+        for (const action of INPUT_ACTIONS) {
+          const key = `${pad.index}:${action}`;
+          if (!gamepadPressed(pad, action)) {
+            held.delete(key);
+          } else if (!held.has(key)) {
+            held.add(key);
+            handlerRef.current(action, Math.min(pad.index, 1));
+          }
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    };
+
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [enabled]);
+
+  const dispatch = useCallback((action: InputAction, player = 0) => {
+    if (enabled) handlerRef.current(action, player);
+  }, [enabled]);
+
+  const pointerHandlers = useMemo(() => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      pointerStartRef.current = { x: e.clientX, y: e.clientY };
+    },
+    onPointerUp: (e: React.PointerEvent) => {
+      const start = pointerStartRef.current;
+      pointerStartRef.current = null;
+      // Buttons over the play area do their own thing.
+      if (!start || (e.target as Element).closest('button, a, input, select, textarea')) return;
+      dispatch(swipeAction(e.clientX - start.x, e.clientY - start.y) ?? 'confirm');
+    }
+  }), [dispatch]);
+
+  return { dispatch, pointerHandlers };
+}
@@ -0,0 +1,28 @@
+import { useEffect } from 'react';
+import { useGameStore } from '../store/gameStore';
+import { applyAudioSettings, setAudioHidden, setMusicPlaying } from '../utils/audio';
+
+// Keeps the audio engine in step with the saved volumes, and silent while
+// the tab is hidden. Mounted once, by the app.
+export function useAudioEngine() {
+  const audio = useGameStore((state) => state.audio);
+
+  useEffect(() => {
+    applyAudioSettings(audio);
+  }, [audio]);
+
+  useEffect(() => {
+    const handleVisibility = () => setAudioHidden(document.hidden);
+    handleVisibility();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+}
+
+// Plays the background loop while `playing` is true and the game is mounted.
+export function useMusic(playing: boolean) {
+  useEffect(() => {
+    setMusicPlaying(playing);
+    return () => setMusicPlaying(false);
+  }, [playing]);
+}
@@ -0,0 +1,49 @@
+import React, { useEffect, useRef } from 'react';
+
+const FOCUSABLE = 'button:not([disabled]), a[href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// While `active`, keeps Tab and Shift+Tab inside `ref` and closes on Escape.
+// Focus moves in when it opens and goes back where it was when it closes.
+export function useFocusTrap(ref: React.RefObject<HTMLElement>, active: boolean, onEscape: () => void) {
+  const escapeRef = useRef(onEscape);
+
+  useEffect(() => {
+    escapeRef.current = onEscape;
+  }, [onEscape]);
+
+  useEffect(() => {
+    const container = ref.current;
+    if (!active || !container) return;
+    const previous = document.activeElement as HTMLElement | null;
+    const focusable = () => Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+    focusable()[0]?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        // Not also a pause key for the game underneath.
+        e.preventDefault();
+        e.stopPropagation();
+        escapeRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const elements = focusable();
+      if (elements.length === 0) return;
+      const first = elements[0];
+      const last = elements[elements.length - 1];
+      if (e.shiftKey && (document.activeElement === first || !container.contains(document.activeElement))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (document.activeElement === last || !container.contains(document.activeElement))) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      previous?.focus();
+    };
+  }, [ref, active]);
+}
@@ -0,0 +1,45 @@
+import React, { useState, useRef } from 'react';
+
+const ARROW_STEPS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1]
+};
+
+export interface GridCellProps {
+  ref: (element: HTMLElement | null) => void;
+  tabIndex: number;
+  onFocus: () => void;
+}
+
+// Roving focus over a grid of buttons: only one cell sits in the tab order,
+// and the arrow keys move focus between cells. Cells are numbered row by row
+// as they appear on screen.
+export function useGridNavigation(rows: number, cols: number) {
+  const [focused, setFocused] = useState(0);
+  const cellsRef = useRef<(HTMLElement | null)[]>([]);
+  // The grid may have shrunk since the cell was focused.
+  const current = focused < rows * cols ? focused : 0;
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const arrow = ARROW_STEPS[e.key];
+    if (!arrow) return;
+    e.preventDefault();
+    const row = Math.min(Math.max(Math.floor(current / cols) + arrow[0], 0), rows - 1);
+    const col = Math.min(Math.max((current % cols) + arrow[1], 0), cols - 1);
+    const next = row * cols + col;
+    setFocused(next);
+    cellsRef.current[next]?.focus();
+  };
+
+  const cellProps = (position: number): GridCellProps => ({
+    ref: (element: HTMLElement | null) => {
+      cellsRef.current[position] = element;
+    },
+    tabIndex: position === current ? 0 : -1,
+    onFocus: () => setFocused(position)
+  });
+
+  return { onKeyDown, cellProps };
+}
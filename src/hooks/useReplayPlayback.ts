@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Replay } from '../utils/replay';
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2];
+
+export interface ReplayPlayback {
+  // Fractional tick, so renderers can interpolate between ticks.
+  position: number;
+  isPlaying: boolean;
+  speed: number;
+  togglePlay: () => void;
+  seek: (tick: number) => void;
+  setSpeed: (speed: number) => void;
+}
+
+// Drives a replay's clock: advances through its ticks of `tickMs` each at the
+// chosen speed, stopping at the end. Restarts whenever a new replay is given.
+export function useReplayPlayback(replay: Replay | null, tickMs: number): ReplayPlayback {
+  const length = replay?.length ?? 0;
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    setPosition(0);
+    setIsPlaying(true);
+  }, [replay]);
+
+  useEffect(() => {
+    if (!isPlaying || !replay) return;
+
+    let frame: number;
+    let lastTime = performance.now();
+    const advance = (now: number) => {
+      const elapsed = now - lastTime;
+      lastTime = now;
+      setPosition(prev => Math.min(length, prev + (elapsed * speed) / tickMs));
+      frame = requestAnimationFrame(advance);
+    };
+
+    frame = requestAnimationFrame(advance);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, length, tickMs, replay]);
+
+  useEffect(() => {
+    if (position >= length) setIsPlaying(false);
+  }, [position, length]);
+
+  const togglePlay = useCallback(() => {
+    if (position >= length) setPosition(0);
+    setIsPlaying(prev => position >= length || !prev);
+  }, [position, length]);
+
+  const seek = useCallback((tick: number) => {
+    setPosition(Math.max(0, Math.min(length, tick)));
+  }, [length]);
+
+  return { position, isPlaying, speed, togglePlay, seek, setSpeed };
+}
@@ -0,0 +1,74 @@
+import { useEffect } from 'react';
+import { useGameStore } from './store/gameStore';
+import { getGameBySlug } from './games';
+import { GameSettings, Page } from './types/game';
+
+const PAGES: Page[] = ['achievements'];
+
+export interface Route {
+  slug: string | null;
+  params: GameSettings;
+}
+
+// Routes look like `#/snake?difficulty=extreme&color=blue`; `#/` is the dashboard
+// and `#/achievements` a page.
+export function parseHash(hash: string): Route {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  const params: GameSettings = {};
+  new URLSearchParams(query).forEach((value, key) => {
+    params[key] = value;
+  });
+  return { slug: path || null, params };
+}
+
+export function buildHash({ slug, params }: Route): string {
+  if (!slug) return '#/';
+  const query = new URLSearchParams(params).toString();
+  return `#/${slug}${query ? `?${query}` : ''}`;
+}
+
+const sameSettings = (a: GameSettings, b: GameSettings) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+// Keeps `location.hash` and the game store in sync. Switching games pushes a
+// history entry so the back button returns to the dashboard; settings changes
+// replace the current entry.
+export function useHashRouter() {
+  useEffect(() => {
+    const syncFromHash = () => {
+      const { slug, params } = parseHash(window.location.hash);
+      const game = (slug && getGameBySlug(slug)) || null;
+      const { currentGame, currentPage, gameSettings, setCurrentGame, setCurrentPage } = useGameStore.getState();
+      const page = PAGES.find(name => name === slug);
+
+      if (page) {
+        setCurrentPage(page);
+      } else if (game !== currentGame || currentPage) {
+        setCurrentGame(game, game ? params : {});
+      } else if (game && !sameSettings(params, gameSettings)) {
+        useGameStore.setState({ gameSettings: params });
+      }
+    };
+
+    syncFromHash();
+    window.addEventListener('hashchange', syncFromHash);
+
+    const unsubscribe = useGameStore.subscribe((state, prev) => {
+      const hash = buildHash({ slug: state.currentGame?.slug ?? state.currentPage, params: state.gameSettings });
+      if (hash === buildHash(parseHash(window.location.hash))) return;
+
+      if (state.currentGame !== prev.currentGame || state.currentPage !== prev.currentPage) {
+        window.location.hash = hash;
+      } else {
+        window.history.replaceState(window.history.state, '', hash);
+      }
+    });
+
+    return () => {
+      window.removeEventListener('hashchange', syncFromHash);
+      unsubscribe();
+    };
+  }, []);
+}
@@ -0,0 +1,35 @@
+import { useMemo } from 'react';
+import { GameEvent } from '../types/game';
+import { Achievement, RewardKind, applyEvent, rewardIds } from '../utils/achievements';
+import { useGameStore } from './gameStore';
+
+type UnlockListener = (achievement: Achievement) => void;
+
+const listeners = new Set<UnlockListener>();
+
+export function subscribeUnlocks(listener: UnlockListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Counts a game event towards the achievements and tells the listeners
+// about any it unlocks.
+export function reportEvent(event: GameEvent) {
+  const { achievements, setAchievements } = useGameStore.getState();
+  const { progress, unlocked } = applyEvent(achievements, event, Date.now());
+  if (progress === achievements) return;
+  setAchievements(progress);
+  unlocked.forEach(achievement => listeners.forEach(listener => listener(achievement)));
+}
+
+// The `options` the player may pick: all but the cosmetics still locked
+// behind an achievement.
+export function useUnlockedOptions<T extends string>(kind: RewardKind, options: readonly T[]): T[] {
+  const progress = useGameStore((state) => state.achievements);
+  return useMemo(() => {
+    const { all, earned } = rewardIds(progress, kind);
+    return options.filter(option => !all.includes(option) || earned.includes(option));
+  }, [progress, kind, options]);
+}
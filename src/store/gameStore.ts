@@ -1,7 +1,197 @@
+import { useCallback, useEffect } from 'react';
 import { create } from 'zustand';
-import { GameState } from '../types/game';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { GameState, PersistedState } from '../types/game';
+import { getAppStorage } from './storage';
+import { DEFAULT_KEY_BINDINGS } from '../utils/input';
+import { DEFAULT_AUDIO } from '../utils/audio';
 
-export const useGameStore = create<GameState>((set) => ({
-  currentGame: null,
-  setCurrentGame: (game) => set({ currentGame: game }),
-}));
\ No newline at end of file
+const STORAGE_KEY = 'exe-gaming-hub';
+const STORAGE_VERSION = 6;
+
+type Migration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+// migrations[n] upgrades a save written at version n - 1 to version n. Add an
+// entry (and bump STORAGE_VERSION) whenever the persisted shape changes.
+const migrations: Record<number, Migration> = {
+  1: (state) => ({
+    theme: null,
+    highScores: {},
+    savedSettings: {},
+    ...state,
+  }),
+  2: (state) => ({
+    customLevels: {},
+    ...state,
+  }),
+  3: (state) => ({
+    keyBindings: DEFAULT_KEY_BINDINGS,
+    ...state,
+  }),
+  4: (state) => ({
+    audio: DEFAULT_AUDIO,
+    ...state,
+  }),
+  5: (state) => ({
+    reducedMotion: false,
+    ...state,
+  }),
+  6: (state) => ({
+    achievements: {},
+    ...state,
+  }),
+};
+
+const migratePersistedState = (persisted: unknown, version: number): PersistedState => {
+  let state = (persisted && typeof persisted === 'object' ? persisted : {}) as Record<string, unknown>;
+  for (let next = version + 1; next <= STORAGE_VERSION; next++) {
+    state = migrations[next]?.(state) ?? state;
+  }
+  return state as unknown as PersistedState;
+};
+
+let markReady: () => void;
+export const storeReady = new Promise<void>(resolve => {
+  markReady = resolve;
+});
+
+export const useGameStore = create<GameState>()(
+  persist(
+    (set) => ({
+      currentGame: null,
+      currentPage: null,
+      gameSettings: {},
+      theme: null,
+      highScores: {},
+      savedSettings: {},
+      customLevels: {},
+      keyBindings: DEFAULT_KEY_BINDINGS,
+      audio: DEFAULT_AUDIO,
+      reducedMotion: false,
+      achievements: {},
+      setCurrentGame: (game, settings = {}) => set((state) => {
+        if (state.currentGame === game && !state.currentPage) return state;
+        return {
+          currentGame: game,
+          currentPage: null,
+          gameSettings: game ? { ...state.savedSettings[game.slug], ...settings } : {}
+        };
+      }),
+      setCurrentPage: (page) => set((state) => {
+        if (state.currentPage === page) return state;
+        return page ? { currentPage: page, currentGame: null, gameSettings: {} } : { currentPage: null };
+      }),
+      updateGameSettings: (settings) => set((state) => {
+        const gameSettings = { ...state.gameSettings, ...settings };
+        if (!state.currentGame) return { gameSettings };
+        return {
+          gameSettings,
+          savedSettings: { ...state.savedSettings, [state.currentGame.slug]: gameSettings }
+        };
+      }),
+      setTheme: (theme) => set({ theme }),
+      recordScore: (slug, variant, score) => set((state) => {
+        const scores = state.highScores[slug] ?? {};
+        if (score <= (scores[variant] ?? 0)) return state;
+        return {
+          highScores: { ...state.highScores, [slug]: { ...scores, [variant]: score } }
+        };
+      }),
+      saveCustomLevel: (slug, name, data) => set((state) => ({
+        customLevels: { ...state.customLevels, [slug]: { ...state.customLevels[slug], [name]: data } }
+      })),
+      deleteCustomLevel: (slug, name) => set((state) => {
+        const levels = { ...state.customLevels[slug] };
+        delete levels[name];
+        return { customLevels: { ...state.customLevels, [slug]: levels } };
+      }),
+      setKeyBindings: (keyBindings) => set({ keyBindings }),
+      setAudio: (audio) => set((state) => ({ audio: { ...state.audio, ...audio } })),
+      setReducedMotion: (reducedMotion) => set({ reducedMotion }),
+      setAchievements: (achievements) => set({ achievements }),
+    }),
+    {
+      name: STORAGE_KEY,
+      version: STORAGE_VERSION,
+      storage: createJSONStorage(getAppStorage),
+      partialize: ({
+        theme, highScores, savedSettings, customLevels, keyBindings, audio, reducedMotion, achievements
+      }): PersistedState => ({
+        theme, highScores, savedSettings, customLevels, keyBindings, audio, reducedMotion, achievements
+      }),
+      migrate: migratePersistedState,
+      onRehydrateStorage: () => () => markReady(),
+    }
+  )
+);
+
+// Reads one setting of the current game, falling back when the value is missing
+// or not one of `options`, and writes the resolved value back so the URL always
+// describes what is on screen.
+export function useGameSetting<T extends string>(
+  key: string,
+  options: readonly T[],
+  fallback: T
+): [T, (value: T) => void] {
+  const raw = useGameStore((state) => state.gameSettings[key]);
+  const updateGameSettings = useGameStore((state) => state.updateGameSettings);
+  const value = options.includes(raw as T) ? (raw as T) : fallback;
+
+  useEffect(() => {
+    if (raw !== value) updateGameSettings({ [key]: value });
+  }, [key, raw, value, updateGameSettings]);
+
+  const setValue = useCallback(
+    (next: T) => updateGameSettings({ [key]: next }),
+    [key, updateGameSettings]
+  );
+
+  return [value, setValue];
+}
+
+// High score of the current game for one variant (usually the difficulty),
+// plus a recorder that only ever raises it.
+export function useHighScore(variant: string): [number, (score: number) => void] {
+  const slug = useGameStore((state) => state.currentGame?.slug ?? '');
+  const highScore = useGameStore((state) => state.highScores[slug]?.[variant] ?? 0);
+  const recordScore = useGameStore((state) => state.recordScore);
+
+  const record = useCallback(
+    (score: number) => {
+      if (slug) recordScore(slug, variant, score);
+    },
+    [slug, variant, recordScore]
+  );
+
+  return [highScore, record];
+}
+
+const NO_LEVELS: Record<string, string> = {};
+
+// The current game's custom levels by name, with setters to save (or
+// overwrite) and delete one.
+export function useCustomLevels(): [
+  Record<string, string>,
+  (name: string, data: string) => void,
+  (name: string) => void
+] {
+  const slug = useGameStore((state) => state.currentGame?.slug ?? '');
+  const levels = useGameStore((state) => state.customLevels[slug] ?? NO_LEVELS);
+  const saveCustomLevel = useGameStore((state) => state.saveCustomLevel);
+  const deleteCustomLevel = useGameStore((state) => state.deleteCustomLevel);
+
+  const save = useCallback(
+    (name: string, data: string) => {
+      if (slug) saveCustomLevel(slug, name, data);
+    },
+    [slug, saveCustomLevel]
+  );
+  const remove = useCallback(
+    (name: string) => {
+      if (slug) deleteCustomLevel(slug, name);
+    },
+    [slug, deleteCustomLevel]
+  );
+
+  return [levels, save, remove];
+}
@@ -0,0 +1,87 @@
+import { StateStorage } from 'zustand/middleware';
+
+const DB_NAME = 'exe-gaming-hub';
+const STORE_NAME = 'keyval';
+
+const isLocalStorageAvailable = (): boolean => {
+  try {
+    const probe = '__exe_gaming_hub_probe__';
+    window.localStorage.setItem(probe, probe);
+    window.localStorage.removeItem(probe);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Used when localStorage is unavailable (e.g. blocked by privacy settings).
+// Failures resolve quietly so a broken database never blocks the app from starting.
+const indexedDBStorage: StateStorage = {
+  getItem: async (name) => {
+    try {
+      const value = await runTransaction<string | undefined>('readonly', store => store.get(name));
+      return value ?? null;
+    } catch {
+      return null;
+    }
+  },
+  setItem: async (name, value) => {
+    try {
+      await runTransaction('readwrite', store => store.put(value, name));
+    } catch {
+      // Nothing sensible to do; the next write will try again.
+    }
+  },
+  removeItem: async (name) => {
+    try {
+      await runTransaction('readwrite', store => store.delete(name));
+    } catch {
+      // Ignore, see setItem.
+    }
+  },
+};
+
+const memoryStorage = (): StateStorage => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (name) => values.get(name) ?? null,
+    setItem: (name, value) => {
+      values.set(name, value);
+    },
+    removeItem: (name) => {
+      values.delete(name);
+    },
+  };
+};
+
+export const getAppStorage = (): StateStorage => {
+  if (isLocalStorageAvailable()) return window.localStorage;
+  if (typeof indexedDB !== 'undefined') return indexedDBStorage;
+  return memoryStorage();
+};
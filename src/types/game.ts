@@ -1,4 +1,9 @@
+import type { ComponentType, LazyExoticComponent } from 'react';
+
 export type Difficulty = 'easy' | 'normal' | 'hard';
+// Every level a game may offer: Snake adds 'extreme' on top of the usual three.
+export type GameDifficulty = Difficulty | 'extreme';
+export type PlayMode = 'solo' | 'pvp' | 'ai' | 'online';
 
 export interface Game {
   id: number;
@@ -9,7 +14,92 @@ export interface Game {
   maxPlayers: number;
 }
 
-export interface GameState {
-  currentGame: Game | null;
-  setCurrentGame: (game: Game | null) => void;
-}
\ No newline at end of file
+export interface GameControl {
+  input: string;
+  action: string;
+}
+
+export interface GameDefinition extends Game {
+  slug: string;
+  component?: LazyExoticComponent<ComponentType>;
+  modes: PlayMode[];
+  difficulties: GameDifficulty[];
+  controls: GameControl[];
+}
+
+export type GameSettings = Record<string, string>;
+export type Theme = 'light' | 'dark';
+
+// High scores by game slug, then by difficulty (or any other variant key).
+export type HighScores = Record<string, Record<string, number>>;
+
+// Player-made levels by game slug, then by name, each saved in the game's own
+// text format.
+export type CustomLevels = Record<string, Record<string, string>>;
+
+// What games respond to, whichever keyboard key, gamepad button or swipe
+// produced it.
+export type InputAction = 'up' | 'down' | 'left' | 'right' | 'confirm' | 'pause';
+
+// KeyboardEvent codes bound to each action, for player 1 then player 2.
+export type KeyBindings = Record<InputAction, string[]>[];
+
+// Volumes run from 0 to 1. Music and effects are both scaled by `master`.
+export interface AudioSettings {
+  master: number;
+  sfx: number;
+  music: number;
+  muted: boolean;
+}
+
+// What the games report for achievements to count. A game only reports what
+// the player did, not what a bot or autopilot did for them; results are the
+// player's against a bot.
+export type GameEvent =
+  | { type: 'snake:ate'; food: string }
+  | { type: 'snake:gameOver'; score: number; difficulty: string }
+  | { type: 'snake:matchWon' }
+  | { type: 'flappy:pipe'; score: number }
+  | { type: 'tic-tac-toe:gameOver'; outcome: 'win' | 'draw' | 'loss'; variant: string; difficulty: string }
+  | { type: '2048:tile'; value: number }
+  | { type: 'memory:cleared'; versusBot: boolean; won: boolean }
+  | { type: 'chess:gameOver'; outcome: 'win' | 'draw' | 'loss'; difficulty: string }
+  | { type: 'ludo:won' }
+  | { type: 'sudoku:solved'; difficulty: string }
+  | { type: 'bubble:cleared'; level: string }
+  | { type: 'rps:matchOver'; won: boolean; difficulty: string };
+
+// Progress towards each achievement by id, and when it was unlocked.
+export type AchievementProgress = Record<string, { count: number; unlockedAt: number | null }>;
+
+// Pages that aren't a game, reached the same way as games: `#/achievements`.
+export type Page = 'achievements';
+
+export interface PersistedState {
+  theme: Theme | null;
+  highScores: HighScores;
+  savedSettings: Record<string, GameSettings>;
+  customLevels: CustomLevels;
+  keyBindings: KeyBindings;
+  audio: AudioSettings;
+  // Tones animations down even where the system doesn't ask for it.
+  reducedMotion: boolean;
+  achievements: AchievementProgress;
+}
+
+export interface GameState extends PersistedState {
+  currentGame: GameDefinition | null;
+  currentPage: Page | null;
+  gameSettings: GameSettings;
+  setCurrentGame: (game: GameDefinition | null, settings?: GameSettings) => void;
+  setCurrentPage: (page: Page | null) => void;
+  updateGameSettings: (settings: GameSettings) => void;
+  setTheme: (theme: Theme) => void;
+  recordScore: (slug: string, variant: string, score: number) => void;
+  saveCustomLevel: (slug: string, name: string, data: string) => void;
+  deleteCustomLevel: (slug: string, name: string) => void;
+  setKeyBindings: (keyBindings: KeyBindings) => void;
+  setAudio: (audio: Partial<AudioSettings>) => void;
+  setReducedMotion: (reducedMotion: boolean) => void;
+  setAchievements: (achievements: AchievementProgress) => void;
+}
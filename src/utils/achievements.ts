@@ -0,0 +1,214 @@
+import { AchievementProgress, GameEvent } from '../types/game';
+
+// Cosmetics an achievement unlocks; until then the game leaves them out of
+// its pickers.
+export type RewardKind = 'snakeColor' | 'birdSkin';
+
+export interface Reward {
+  kind: RewardKind;
+  id: string;
+  name: string;
+}
+
+export interface Achievement {
+  id: string;
+  // The game's slug, to group the achievements page by.
+  game: string;
+  name: string;
+  description: string;
+  // How many counting events it takes; 1 for a one-off feat.
+  goal: number;
+  counts: (event: GameEvent) => boolean;
+  // Events that start the count again, for streaks.
+  resets?: (event: GameEvent) => boolean;
+  reward?: Reward;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'snake-carnivore',
+    game: 'snake',
+    name: 'Carnivore',
+    description: 'Eat 10 pieces of meat.',
+    goal: 10,
+    counts: event => event.type === 'snake:ate' && event.food === 'meat',
+    reward: { kind: 'snakeColor', id: 'crimson', name: 'Crimson snake' }
+  },
+  {
+    id: 'snake-century',
+    game: 'snake',
+    name: 'Century',
+    description: 'Score 100 in one game of Snake without the autopilot.',
+    goal: 1,
+    counts: event => event.type === 'snake:gameOver' && event.score >= 100,
+    reward: { kind: 'snakeColor', id: 'gold', name: 'Gold snake' }
+  },
+  {
+    id: 'snake-champion',
+    game: 'snake',
+    name: 'Champion',
+    description: 'Win a Snake battle match against a bot.',
+    goal: 1,
+    counts: event => event.type === 'snake:matchWon'
+  },
+  {
+    id: 'flappy-first-flight',
+    game: 'flappy-bird',
+    name: 'First Flight',
+    description: 'Fly through a pipe.',
+    goal: 1,
+    counts: event => event.type === 'flappy:pipe'
+  },
+  {
+    id: 'flappy-fifty',
+    game: 'flappy-bird',
+    name: 'Frequent Flyer',
+    description: 'Pass 50 pipes in one flight.',
+    goal: 1,
+    counts: event => event.type === 'flappy:pipe' && event.score >= 50,
+    reward: { kind: 'birdSkin', id: 'red', name: 'Red bird' }
+  },
+  {
+    id: 'flappy-migration',
+    game: 'flappy-bird',
+    name: 'Migration',
+    description: 'Pass 500 pipes in all.',
+    goal: 500,
+    counts: event => event.type === 'flappy:pipe',
+    reward: { kind: 'birdSkin', id: 'blue', name: 'Blue bird' }
+  },
+  {
+    id: 'ttt-unbeaten',
+    game: 'tic-tac-toe',
+    name: 'Unbeaten',
+    description: 'Play 5 games in a row against the hard Tic-Tac-Toe bot without losing.',
+    goal: 5,
+    counts: event => event.type === 'tic-tac-toe:gameOver' && event.difficulty === 'hard' && event.outcome !== 'loss',
+    resets: event => event.type === 'tic-tac-toe:gameOver' && event.difficulty === 'hard' && event.outcome === 'loss'
+  },
+  {
+    id: 'ttt-ultimate',
+    game: 'tic-tac-toe',
+    name: 'Ultimate Victory',
+    description: 'Beat the bot at Ultimate Tic-Tac-Toe.',
+    goal: 1,
+    counts: event => event.type === 'tic-tac-toe:gameOver' && event.variant === 'ultimate' && event.outcome === 'win'
+  },
+  {
+    id: '2048-2048',
+    game: '2048',
+    name: '2048',
+    description: 'Make the 2048 tile.',
+    goal: 1,
+    counts: event => event.type === '2048:tile' && event.value >= 2048
+  },
+  {
+    id: 'memory-cleared',
+    game: 'memory-cards',
+    name: 'Total Recall',
+    description: 'Clear a Memory Cards board.',
+    goal: 1,
+    counts: event => event.type === 'memory:cleared'
+  },
+  {
+    id: 'memory-beat-bot',
+    game: 'memory-cards',
+    name: 'Better Memory',
+    description: 'Find more pairs than the Memory Cards bot.',
+    goal: 1,
+    counts: event => event.type === 'memory:cleared' && event.versusBot && event.won
+  },
+  {
+    id: 'chess-checkmate',
+    game: 'chess',
+    name: 'Checkmate',
+    description: 'Beat the chess engine.',
+    goal: 1,
+    counts: event => event.type === 'chess:gameOver' && event.outcome === 'win'
+  },
+  {
+    id: 'ludo-winner',
+    game: 'ludo',
+    name: 'Home Run',
+    description: 'Be the first home in Ludo.',
+    goal: 1,
+    counts: event => event.type === 'ludo:won'
+  },
+  {
+    id: 'sudoku-solver',
+    game: 'sudoku',
+    name: 'Solver',
+    description: 'Solve 10 Sudoku puzzles.',
+    goal: 10,
+    counts: event => event.type === 'sudoku:solved'
+  },
+  {
+    id: 'sudoku-hard',
+    game: 'sudoku',
+    name: 'Logician',
+    description: 'Solve a hard Sudoku.',
+    goal: 1,
+    counts: event => event.type === 'sudoku:solved' && event.difficulty === 'hard'
+  },
+  {
+    id: 'bubble-cleared',
+    game: 'bubble-shooter',
+    name: 'Sharpshooter',
+    description: 'Clear 10 Bubble Shooter levels.',
+    goal: 10,
+    counts: event => event.type === 'bubble:cleared'
+  },
+  {
+    id: 'rps-mind-reader',
+    game: 'rock-paper-scissors',
+    name: 'Mind Reader',
+    description: 'Win a Rock Paper Scissors match against the hard bot.',
+    goal: 1,
+    counts: event => event.type === 'rps:matchOver' && event.won && event.difficulty === 'hard'
+  }
+];
+
+const NOT_STARTED = { count: 0, unlockedAt: null };
+
+export const progressOf = (progress: AchievementProgress, achievement: Achievement) =>
+  progress[achievement.id] ?? NOT_STARTED;
+
+// Counts `event` towards every achievement it matters to. Unlocked
+// achievements stay unlocked and stop counting. Returns `progress` itself
+// when nothing changed.
+export function applyEvent(
+  progress: AchievementProgress,
+  event: GameEvent,
+  now: number
+): { progress: AchievementProgress; unlocked: Achievement[] } {
+  let next = progress;
+  const unlocked: Achievement[] = [];
+
+  for (const achievement of ACHIEVEMENTS) {
+    const current = progressOf(progress, achievement);
+    if (current.unlockedAt !== null) continue;
+    if (achievement.resets?.(event)) {
+      if (current.count > 0) next = { ...next, [achievement.id]: NOT_STARTED };
+    } else if (achievement.counts(event)) {
+      const count = current.count + 1;
+      const done = count >= achievement.goal;
+      next = { ...next, [achievement.id]: { count, unlockedAt: done ? now : null } };
+      if (done) unlocked.push(achievement);
+    }
+  }
+
+  return { progress: next, unlocked };
+}
+
+// The ids of every cosmetic of `kind` an achievement hands out, and of those
+// already earned.
+export function rewardIds(progress: AchievementProgress, kind: RewardKind) {
+  const all: string[] = [];
+  const earned: string[] = [];
+  for (const achievement of ACHIEVEMENTS) {
+    if (achievement.reward?.kind !== kind) continue;
+    all.push(achievement.reward.id);
+    if (progressOf(progress, achievement).unlockedAt !== null) earned.push(achievement.reward.id);
+  }
+  return { all, earned };
+}
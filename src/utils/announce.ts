@@ -0,0 +1,15 @@
+type Listener = (message: string) => void;
+
+const listeners = new Set<Listener>();
+
+// Reads `message` out to screen readers through the app's live region.
+export function announce(message: string) {
+  listeners.forEach(listener => listener(message));
+}
+
+export function subscribeAnnouncements(listener: Listener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,192 @@
+import { AudioSettings } from '../types/game';
+
+export const DEFAULT_AUDIO: AudioSettings = { master: 0.8, sfx: 1, music: 0.5, muted: false };
+
+// One oscillator (or burst of noise) in a sound, sweeping from `from` to `to`
+// hertz over `length` seconds, starting `at` seconds in.
+interface Voice {
+  wave: OscillatorType | 'noise';
+  from: number;
+  to?: number;
+  at?: number;
+  length: number;
+  gain: number;
+}
+
+export type SoundName =
+  | 'flap' | 'score' | 'hit' | 'eat' | 'spawn' | 'die' | 'place' | 'win' | 'lose' | 'draw'
+  | 'slide' | 'merge' | 'shoot' | 'pop';
+
+const arpeggio = (wave: OscillatorType, notes: number[], gap: number, length: number, gain: number): Voice[] =>
+  notes.map((from, i) => ({ wave, from, at: i * gap, length, gain }));
+
+// Every effect is synthesized when it plays, so there is nothing to download.
+const SOUNDS: Record<SoundName, Voice[]> = {
+  flap: [{ wave: 'triangle', from: 300, to: 600, length: 0.08, gain: 0.3 }],
+  score: [
+    { wave: 'sine', from: 880, length: 0.12, gain: 0.25 },
+    { wave: 'sine', from: 1320, at: 0.08, length: 0.16, gain: 0.25 }
+  ],
+  hit: [
+    { wave: 'noise', from: 0, length: 0.25, gain: 0.4 },
+    { wave: 'square', from: 200, to: 60, length: 0.3, gain: 0.2 }
+  ],
+  eat: [{ wave: 'square', from: 520, to: 780, length: 0.06, gain: 0.15 }],
+  spawn: [
+    { wave: 'sawtooth', from: 120, to: 90, length: 0.15, gain: 0.15 },
+    { wave: 'noise', from: 0, length: 0.08, gain: 0.15 }
+  ],
+  die: [
+    { wave: 'square', from: 400, to: 80, length: 0.5, gain: 0.25 },
+    { wave: 'noise', from: 0, at: 0.1, length: 0.3, gain: 0.2 }
+  ],
+  place: [{ wave: 'triangle', from: 500, to: 420, length: 0.07, gain: 0.35 }],
+  win: arpeggio('sine', [523, 659, 784, 1047], 0.1, 0.2, 0.25),
+  lose: arpeggio('triangle', [392, 330, 262], 0.15, 0.25, 0.3),
+  draw: arpeggio('sine', [440, 440], 0.15, 0.12, 0.25),
+  slide: [{ wave: 'triangle', from: 200, to: 150, length: 0.05, gain: 0.2 }],
+  merge: [{ wave: 'sine', from: 660, to: 990, length: 0.1, gain: 0.25 }],
+  shoot: [{ wave: 'triangle', from: 700, to: 300, length: 0.1, gain: 0.25 }],
+  pop: [{ wave: 'sine', from: 1200, to: 400, length: 0.06, gain: 0.2 }]
+};
+
+// The background loop: a pentatonic melody over a bass note every bar.
+// Zeros are rests.
+const MELODY = [523, 0, 659, 784, 0, 659, 587, 0, 523, 0, 440, 523, 0, 392, 440, 0];
+const BASS = [131, 110, 98, 110];
+const STEP_SECONDS = 0.2;
+// How often the scheduler wakes, and how far ahead it queues notes, so the
+// loop keeps time even when a timer runs late.
+const SCHEDULE_MS = 100;
+const LOOKAHEAD_SECONDS = 0.3;
+
+interface Engine {
+  context: AudioContext;
+  master: GainNode;
+  sfx: GainNode;
+  music: GainNode;
+  noise: AudioBuffer;
+}
+
+let engine: Engine | null = null;
+let settings = DEFAULT_AUDIO;
+let hidden = false;
+let musicTimer: ReturnType<typeof setInterval> | null = null;
+let musicStep = 0;
+let nextStepTime = 0;
+
+// Browsers only let audio start after the player has interacted with the
+// page, so the context is made on the first sound rather than up front.
+function getEngine(): Engine | null {
+  if (engine) return engine;
+  if (typeof AudioContext === 'undefined') return null;
+
+  const context = new AudioContext();
+  const master = context.createGain();
+  const sfx = context.createGain();
+  const music = context.createGain();
+  sfx.connect(master);
+  music.connect(master);
+  master.connect(context.destination);
+
+  const noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+  const samples = noise.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+  engine = { context, master, sfx, music, noise };
+  applyGains(engine);
+  return engine;
+}
+
+function applyGains({ context, master, sfx, music }: Engine) {
+  const now = context.currentTime;
+  // A short glide rather than a jump, which would click.
+  master.gain.setTargetAtTime(settings.muted || hidden ? 0 : settings.master, now, 0.02);
+  sfx.gain.setTargetAtTime(settings.sfx, now, 0.02);
+  music.gain.setTargetAtTime(settings.music, now, 0.02);
+}
+
+// Wakes the context if the browser started it suspended; never while the
+// tab is hidden.
+function ready(): Engine | null {
+  const current = getEngine();
+  if (!current || hidden) return null;
+  if (current.context.state === 'suspended') current.context.resume().catch(() => {});
+  return current;
+}
+
+function playVoice({ context, noise }: Engine, output: AudioNode, voice: Voice, start: number) {
+  const begin = start + (voice.at ?? 0);
+  const end = begin + voice.length;
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(voice.gain, begin);
+  envelope.gain.exponentialRampToValueAtTime(0.001, end);
+  envelope.connect(output);
+
+  let source: AudioScheduledSourceNode;
+  if (voice.wave === 'noise') {
+    const buffer = context.createBufferSource();
+    buffer.buffer = noise;
+    source = buffer;
+  } else {
+    const oscillator = context.createOscillator();
+    oscillator.type = voice.wave;
+    oscillator.frequency.setValueAtTime(voice.from, begin);
+    if (voice.to) oscillator.frequency.exponentialRampToValueAtTime(voice.to, end);
+    source = oscillator;
+  }
+  source.connect(envelope);
+  source.start(begin);
+  source.stop(end);
+}
+
+export function playSound(name: SoundName) {
+  const current = ready();
+  if (!current || settings.muted) return;
+  SOUNDS[name].forEach(voice => playVoice(current, current.sfx, voice, current.context.currentTime));
+}
+
+function scheduleMusic() {
+  const current = ready();
+  if (!current) return;
+  const { context, music } = current;
+  // After a pause (a hidden tab, or a late start) pick up from now.
+  nextStepTime = Math.max(nextStepTime, context.currentTime);
+
+  while (nextStepTime < context.currentTime + LOOKAHEAD_SECONDS) {
+    const note = MELODY[musicStep % MELODY.length];
+    if (note) playVoice(current, music, { wave: 'triangle', from: note, length: STEP_SECONDS * 0.9, gain: 0.12 }, nextStepTime);
+    if (musicStep % 4 === 0) {
+      const bass = BASS[Math.floor(musicStep / 4) % BASS.length];
+      playVoice(current, music, { wave: 'sine', from: bass, length: STEP_SECONDS * 3.5, gain: 0.2 }, nextStepTime);
+    }
+    musicStep++;
+    nextStepTime += STEP_SECONDS;
+  }
+}
+
+export function setMusicPlaying(playing: boolean) {
+  if (playing === (musicTimer !== null)) return;
+  if (musicTimer !== null) {
+    clearInterval(musicTimer);
+    musicTimer = null;
+    return;
+  }
+  musicStep = 0;
+  nextStepTime = 0;
+  scheduleMusic();
+  musicTimer = setInterval(scheduleMusic, SCHEDULE_MS);
+}
+
+export function applyAudioSettings(next: AudioSettings) {
+  settings = next;
+  if (engine) applyGains(engine);
+}
+
+// A hidden tab goes silent and its context is suspended until it comes back.
+export function setAudioHidden(isHidden: boolean) {
+  hidden = isHidden;
+  if (!engine) return;
+  applyGains(engine);
+  (isHidden ? engine.context.suspend() : engine.context.resume()).catch(() => {});
+}
@@ -0,0 +1,130 @@
+import { InputAction, KeyBindings } from '../types/game';
+
+export const INPUT_ACTIONS: InputAction[] = ['up', 'down', 'left', 'right', 'confirm', 'pause'];
+
+export const ACTION_NAMES: Record<InputAction, string> = {
+  up: 'Up',
+  down: 'Down',
+  left: 'Left',
+  right: 'Right',
+  confirm: 'Confirm',
+  pause: 'Pause'
+};
+
+// Player 1 on WASD and player 2 on the arrow keys, so two can share a
+// keyboard. Games for one player take either set.
+export const DEFAULT_KEY_BINDINGS: KeyBindings = [
+  {
+    up: ['KeyW'],
+    down: ['KeyS'],
+    left: ['KeyA'],
+    right: ['KeyD'],
+    confirm: ['Space'],
+    pause: ['KeyP', 'Escape']
+  },
+  {
+    up: ['ArrowUp'],
+    down: ['ArrowDown'],
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    confirm: ['Enter'],
+    pause: []
+  }
+];
+
+export const PLAYER_COUNT = DEFAULT_KEY_BINDINGS.length;
+
+export interface BoundAction {
+  action: InputAction;
+  player: number;
+}
+
+// Every action each key code triggers.
+export function keyLookup(bindings: KeyBindings): Map<string, BoundAction[]> {
+  const lookup = new Map<string, BoundAction[]>();
+  bindings.forEach((actions, player) => INPUT_ACTIONS.forEach(action => {
+    for (const code of actions[action]) lookup.set(code, [...(lookup.get(code) ?? []), { action, player }]);
+  }));
+  return lookup;
+}
+
+// Binds `code` to one action of one player, taking it off whatever it did
+// before so a key never means two things.
+export function bindKey(bindings: KeyBindings, player: number, action: InputAction, code: string): KeyBindings {
+  return bindings.map((actions, p) => {
+    const next = { ...actions };
+    INPUT_ACTIONS.forEach(other => {
+      next[other] = next[other].filter(bound => bound !== code);
+    });
+    if (p === player) next[action] = [...next[action], code];
+    return next;
+  });
+}
+
+export const unbindKey = (bindings: KeyBindings, player: number, action: InputAction, code: string): KeyBindings =>
+  bindings.map((actions, p) => (p === player ? { ...actions, [action]: actions[action].filter(bound => bound !== code) } : actions));
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Space: 'Space',
+  Escape: 'Esc'
+};
+
+// "KeyW" reads as "W", "Digit1" as "1" and "Numpad8" as "Num 8".
+export const keyLabel = (code: string) =>
+  KEY_LABELS[code] ?? code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Num ');
+
+// How far, in pixels, a pointer must travel to count as a swipe rather than
+// a tap.
+export const SWIPE_THRESHOLD = 50;
+
+export function swipeAction(deltaX: number, deltaY: number): InputAction | null {
+  if (Math.max(Math.abs(deltaX), Math.abs(deltaY)) <= SWIPE_THRESHOLD) return null;
+  if (Math.abs(deltaX) > Math.abs(deltaY)) return deltaX > 0 ? 'right' : 'left';
+  return deltaY > 0 ? 'down' : 'up';
+}
+
+// Buttons in the browser's standard gamepad layout.
+const GAMEPAD_BUTTONS: Record<InputAction, number[]> = {
+  up: [12],
+  down: [13],
+  left: [14],
+  right: [15],
+  // A, or Cross
+  confirm: [0],
+  // Start, or Options
+  pause: [9]
+};
+// How far the left stick must lean to count as a direction.
+const STICK_THRESHOLD = 0.5;
+
+export function gamepadPressed(pad: Gamepad, action: InputAction): boolean {
+  if (GAMEPAD_BUTTONS[action].some(button => pad.buttons[button]?.pressed)) return true;
+  const [x = 0, y = 0] = pad.axes;
+  switch (action) {
+    case 'up': return y < -STICK_THRESHOLD && Math.abs(y) > Math.abs(x);
+    case 'down': return y > STICK_THRESHOLD && Math.abs(y) > Math.abs(x);
+    case 'left': return x < -STICK_THRESHOLD && Math.abs(x) >= Math.abs(y);
+    case 'right': return x > STICK_THRESHOLD && Math.abs(x) >= Math.abs(y);
+    default: return false;
+  }
+}
+
+// Keys typed into a form shouldn't steer anything.
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+
+// Enter and Space on a focused button or link press it rather than confirm.
+// Other keys still play, as a clicked button keeps the focus. Dialogs, the
+// sidebar among them, keep every key to themselves.
+const CONTROLS = 'button, a[href], summary, [role=button], [role=link], [role=gridcell], [role=checkbox], [role=menuitem], [role=tab]';
+const ACTIVATION_KEYS = ['Enter', 'NumpadEnter', 'Space'];
+
+export function ownsKey(target: EventTarget | null, code: string): boolean {
+  if (isTyping(target)) return true;
+  if (!(target instanceof Element)) return false;
+  return target.closest('[role=dialog]') !== null || (ACTIVATION_KEYS.includes(code) && target.closest(CONTROLS) !== null);
+}
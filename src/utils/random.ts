@@ -0,0 +1,40 @@
+export type Rng = () => number;
+
+// One step of mulberry32: returns a float in [0, 1) and the next state, so game
+// state can carry its RNG as a plain number and stay serialisable.
+export function nextRandom(state: number): [number, number] {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+}
+
+export function createRng(seed: number): Rng {
+  let state = seed | 0;
+  return () => {
+    const [value, next] = nextRandom(state);
+    state = next;
+    return value;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff) | 0;
+}
+
+export function randomInt(random: Rng, max: number): number {
+  return Math.floor(random() * max);
+}
+
+// Runs `fn` with a generator seeded from a carried RNG state and returns its
+// result along with the advanced state.
+export function withRng<T>(state: number, fn: (random: Rng) => T): [T, number] {
+  let current = state;
+  const random: Rng = () => {
+    const [value, next] = nextRandom(current);
+    current = next;
+    return value;
+  };
+  return [fn(random), current];
+}
@@ -0,0 +1,66 @@
+// A recorded run: the seed and settings it started from plus every input,
+// stamped with the tick it was applied on. Replaying feeds the same inputs to
+// the same deterministic engine.
+
+export type ReplayInput = [tick: number, input: string];
+
+export interface Replay {
+  version: number;
+  game: string;
+  seed: number;
+  settings: Record<string, string>;
+  inputs: ReplayInput[];
+  length: number;
+  score: number;
+}
+
+export const REPLAY_VERSION = 1;
+
+function fail(message: string): never {
+  throw new Error(`Invalid replay: ${message}`);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const replayToJSON = (replay: Replay) => JSON.stringify(replay);
+
+// Replays are plain ASCII, so the JSON can be base64 encoded directly.
+export const replayToCode = (replay: Replay) => btoa(replayToJSON(replay));
+
+// Accepts either the JSON form or the base64 share code.
+export function parseReplay(text: string, game: string): Replay {
+  const trimmed = text.trim();
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed.startsWith('{') ? trimmed : atob(trimmed));
+  } catch {
+    fail('not valid JSON or a replay code');
+  }
+
+  if (!isObject(data)) fail('expected an object');
+  if (data.version !== REPLAY_VERSION) fail(`unsupported version ${String(data.version)}`);
+  if (data.game !== game) fail(`this replay is for ${String(data.game)}`);
+  if (!Number.isInteger(data.seed)) fail('missing seed');
+  if (!Number.isInteger(data.length) || (data.length as number) < 0) fail('missing length');
+  if (!Number.isFinite(data.score)) fail('missing score');
+  if (!isObject(data.settings) || !Object.values(data.settings).every(value => typeof value === 'string')) {
+    fail('settings must map names to strings');
+  }
+  if (!Array.isArray(data.inputs) || !data.inputs.every(input =>
+    Array.isArray(input) && input.length === 2 && Number.isInteger(input[0]) && typeof input[1] === 'string'
+  )) {
+    fail('inputs must be [tick, input] pairs');
+  }
+
+  return data as unknown as Replay;
+}
+
+// Inputs grouped by tick for quick lookup while simulating.
+export function inputsByTick(replay: Replay): Map<number, string[]> {
+  const byTick = new Map<number, string[]>();
+  for (const [tick, input] of replay.inputs) {
+    byTick.set(tick, [...(byTick.get(tick) ?? []), input]);
+  }
+  return byTick;
+}
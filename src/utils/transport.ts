@@ -0,0 +1,96 @@
+// A connection to the other player in a two-player room. Messages are JSON
+// values; they and any change of status arrive through the handlers given
+// when the transport is opened, never synchronously from the opener itself.
+// Transports reconnect by themselves where they can.
+
+export type ConnectionStatus =
+  // Nobody else in the room yet.
+  | 'waiting'
+  | 'connected'
+  // The other player went away; they may come back.
+  | 'lost'
+  // The room can't be reached at all, e.g. the signaling server is down.
+  | 'unavailable';
+
+export interface TransportHandlers {
+  onMessage: (message: unknown) => void;
+  onStatus: (status: ConnectionStatus) => void;
+}
+
+export interface Transport {
+  // Dropped unless connected.
+  send: (message: unknown) => void;
+  close: () => void;
+}
+
+export type OpenTransport = (room: string, handlers: TransportHandlers) => Transport;
+
+export type TransportKind = 'tabs' | 'webrtc';
+export const TRANSPORT_KINDS: TransportKind[] = ['tabs', 'webrtc'];
+
+export const randomId = () => Math.random().toString(36).slice(2, 10);
+
+// How often a tab says it is still there, and how long without hearing from
+// the other one before it counts as gone.
+const HEARTBEAT_MS = 1000;
+const TIMEOUT_MS = 4000;
+
+type Envelope =
+  | { from: string; kind: 'hello' | 'welcome' | 'ping' | 'bye' }
+  | { from: string; kind: 'data'; data: unknown };
+
+// Two tabs of the same browser, through a BroadcastChannel named after the
+// room. Needs no server, so it is handy for trying online play on one machine.
+export const openBroadcastTransport: OpenTransport = (room, { onMessage, onStatus }) => {
+  const id = randomId();
+  const channel = new BroadcastChannel(`exe-gaming-hub:${room}`);
+  let peer: string | null = null;
+  let status: ConnectionStatus = 'waiting';
+  let lastHeard = 0;
+
+  const setStatus = (next: ConnectionStatus) => {
+    if (next === status) return;
+    status = next;
+    onStatus(next);
+  };
+  const post = (envelope: Envelope) => channel.postMessage(envelope);
+
+  channel.onmessage = ({ data: envelope }: MessageEvent<Envelope>) => {
+    // Once paired, other tabs are shut out unless the pair is broken.
+    if (envelope.from !== peer && status === 'connected') return;
+    if (envelope.kind === 'bye') {
+      if (envelope.from === peer) setStatus('lost');
+      return;
+    }
+    if (envelope.from !== peer && envelope.kind !== 'hello' && envelope.kind !== 'welcome') return;
+
+    peer = envelope.from;
+    lastHeard = Date.now();
+    if (envelope.kind === 'hello') post({ from: id, kind: 'welcome' });
+    setStatus('connected');
+    if (envelope.kind === 'data') onMessage(envelope.data);
+  };
+
+  const heartbeat = setInterval(() => {
+    post({ from: id, kind: 'ping' });
+    if (status === 'connected' && Date.now() - lastHeard > TIMEOUT_MS) setStatus('lost');
+  }, HEARTBEAT_MS);
+  post({ from: id, kind: 'hello' });
+
+  // A closed tab can't say goodbye from an effect cleanup, so say it on the
+  // way out as well.
+  const leave = () => post({ from: id, kind: 'bye' });
+  window.addEventListener('pagehide', leave);
+
+  return {
+    send: data => {
+      if (status === 'connected') post({ from: id, kind: 'data', data });
+    },
+    close: () => {
+      leave();
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', leave);
+      channel.close();
+    }
+  };
+};
@@ -0,0 +1,166 @@
+import { ConnectionStatus, OpenTransport, randomId } from './transport';
+
+// The signaling server from server/signaling.js; see there for running it.
+export const SIGNALING_URL: string = import.meta.env.VITE_SIGNALING_URL ?? 'http://localhost:8787';
+
+const ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+// Wait before offering again after a dropped connection.
+const RETRY_MS = 2000;
+
+interface Signal {
+  description?: RTCSessionDescriptionInit;
+  candidate?: RTCIceCandidateInit;
+}
+
+// Two browsers joined by a WebRTC data channel. The signaling server only
+// introduces them: it relays the offer, answer and ICE candidates, and says
+// when the other peer comes or goes. Of the two peers the one with the
+// smaller id makes the offer, so they never both call at once.
+export const openWebRTCTransport: OpenTransport = (room, { onMessage, onStatus }) => {
+  const id = randomId();
+  const base = `${SIGNALING_URL}/rooms/${encodeURIComponent(room)}`;
+  const events = new EventSource(`${base}/events?peer=${id}`);
+  let peer: string | null = null;
+  let connection: RTCPeerConnection | null = null;
+  let channel: RTCDataChannel | null = null;
+  // Candidates that came before the description they belong to.
+  let pending: RTCIceCandidateInit[] = [];
+  // Signals are posted one at a time so they arrive in order.
+  let outbox = Promise.resolve();
+  let status: ConnectionStatus = 'waiting';
+  let closed = false;
+
+  const setStatus = (next: ConnectionStatus) => {
+    if (next === status || closed) return;
+    status = next;
+    onStatus(next);
+  };
+
+  const signal = (data: Signal) => {
+    if (!peer) return;
+    const body = JSON.stringify({ from: id, to: peer, data });
+    // Sent as plain text so the browser needn't ask the server's permission first.
+    outbox = outbox.then(() => fetch(`${base}/signal`, { method: 'POST', body }).then(() => undefined, () => undefined));
+  };
+
+  const hangUp = () => {
+    channel?.close();
+    connection?.close();
+    channel = null;
+    connection = null;
+  };
+
+  const isCaller = () => peer !== null && id < peer;
+
+  const lose = () => {
+    hangUp();
+    pending = [];
+    setStatus(peer ? 'lost' : 'waiting');
+    if (isCaller()) {
+      setTimeout(() => {
+        if (!closed && !channel && isCaller()) call().catch(lose);
+      }, RETRY_MS);
+    }
+  };
+
+  const attach = (next: RTCDataChannel) => {
+    channel = next;
+    next.onopen = () => setStatus('connected');
+    next.onclose = () => {
+      if (channel === next) lose();
+    };
+    next.onmessage = ({ data }) => {
+      try {
+        onMessage(JSON.parse(data));
+      } catch {
+        // Not ours; ignore it.
+      }
+    };
+  };
+
+  const connect = () => {
+    hangUp();
+    const next = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    next.onicecandidate = ({ candidate }) => {
+      if (candidate) signal({ candidate: candidate.toJSON() });
+    };
+    next.onconnectionstatechange = () => {
+      if (next === connection && next.connectionState === 'failed') lose();
+    };
+    next.ondatachannel = ({ channel: incoming }) => attach(incoming);
+    connection = next;
+    return next;
+  };
+
+  const addCandidate = (candidate: RTCIceCandidateInit) =>
+    // Candidates left over from an earlier attempt are refused; that's fine.
+    connection?.addIceCandidate(candidate).catch(() => undefined);
+
+  async function call() {
+    const next = connect();
+    attach(next.createDataChannel('game'));
+    await next.setLocalDescription(await next.createOffer());
+    signal({ description: next.localDescription!.toJSON() });
+  }
+
+  async function handleSignal({ description, candidate }: Signal) {
+    if (description) {
+      const target = description.type === 'offer' ? connect() : connection;
+      if (!target) return;
+      await target.setRemoteDescription(description);
+      pending.forEach(addCandidate);
+      pending = [];
+      if (description.type === 'offer') {
+        await target.setLocalDescription(await target.createAnswer());
+        signal({ description: target.localDescription!.toJSON() });
+      }
+    } else if (candidate) {
+      if (connection?.remoteDescription) addCandidate(candidate);
+      else pending.push(candidate);
+    }
+  }
+
+  const meet = (other: string) => {
+    // Already talking to them, e.g. after our own signaling link blipped.
+    if (other === peer && channel?.readyState === 'open') return;
+    peer = other;
+    hangUp();
+    if (isCaller()) call().catch(lose);
+  };
+
+  const listen = (event: string, handler: (data: Record<string, unknown>) => void) =>
+    events.addEventListener(event, message => handler(JSON.parse((message as MessageEvent<string>).data)));
+
+  listen('peers', ({ peers }) => {
+    const others = (peers as string[]).filter(other => other !== id);
+    if (others.length > 0) meet(others[0]);
+  });
+  listen('joined', ({ peer: other }) => meet(other as string));
+  listen('left', ({ peer: other }) => {
+    // A live data channel doesn't need the signaling server any more.
+    if (other !== peer || channel?.readyState === 'open') return;
+    hangUp();
+    pending = [];
+    setStatus('lost');
+  });
+  listen('signal', ({ from, data }) => {
+    if (from === peer) handleSignal(data as Signal).catch(lose);
+  });
+  events.onopen = () => {
+    if (status === 'unavailable') setStatus(peer ? 'lost' : 'waiting');
+  };
+  events.onerror = () => {
+    if (status !== 'connected') setStatus('unavailable');
+  };
+
+  return {
+    send: data => {
+      if (channel?.readyState === 'open') channel.send(JSON.stringify(data));
+    },
+    close: () => {
+      closed = true;
+      events.close();
+      hangUp();
+    }
+  };
+};